@@ -0,0 +1,25 @@
+import { rename, rm, writeFile } from 'fs/promises';
+
+let writes = 0;
+
+/**
+ * Replace the file at `path` with `data` in one step: the data goes to a
+ * temporary file next to it, which is then renamed over it. Readers never
+ * see a half-written file and a crash leaves the previous one in place.
+ * Every write gets its own temporary file, so concurrent writes to the same
+ * path, from this process or another, do not trip over each other; the last
+ * rename wins.
+ */
+async function writeAtomic(path: string, data: string, mode?: number): Promise<void> {
+    const temporary = `${path}.${process.pid}.${++writes}.tmp`;
+
+    try {
+        await writeFile(temporary, data, typeof mode === 'number' ? { mode } : undefined);
+        await rename(temporary, path);
+    } catch (error) {
+        await rm(temporary, { force: true }).catch(() => undefined);
+        throw error;
+    }
+}
+
+export { writeAtomic };
@@ -0,0 +1,347 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { AppwriteException } from './exceptions';
+import { NodeFetchTransport, type Transport, type TransportRequest } from './transport';
+
+const REDACTED = '[REDACTED]';
+
+/** File parts of multipart bodies are recorded by size and hash, not content. */
+type RecordedFile = {
+    name: string;
+    type: string;
+    size: number;
+    sha256: string;
+}
+
+type RecordedBody =
+    | { text: string }
+    | { form: [string, string][] }
+    | { multipart: [string, string | RecordedFile][] }
+    | { binary: { size: number, sha256: string } };
+
+type CassetteEntry = {
+    request: {
+        method: string;
+        url: string;
+        headers: { [key: string]: string };
+        body?: RecordedBody;
+    };
+    response: {
+        status: number;
+        headers: { [key: string]: string };
+        /** UTF-8 text, or base64 when `encoding` is `base64`. */
+        body: string;
+        encoding?: 'base64';
+    };
+}
+
+type CassetteOptions = {
+    /** JSON file the cassette is read from and saved to. */
+    path: string;
+    /**
+     * `record` sends requests through `transport` and keeps them, `replay`
+     * answers from the file without network access, `auto` replays when the
+     * file exists and records otherwise. Defaults to `auto`.
+     */
+    mode?: 'record' | 'replay' | 'auto';
+    /**
+     * `strict` expects requests in the recorded order with identical bodies.
+     * `loose` answers with the first unused entry of the same method, path,
+     * query and matched headers, in any order. Defaults to `strict`.
+     */
+    match?: 'strict' | 'loose';
+    /** Headers compared when matching. Others are recorded but ignored. */
+    matchHeaders?: string[];
+    /** Header names whose values are never written to the file. */
+    redactHeaders?: string[];
+    /** Query, form, multipart and JSON field names whose values are never written to the file. */
+    redactFields?: string[];
+    /** Sends requests while recording. Defaults to a `NodeFetchTransport`. */
+    transport?: Transport;
+}
+
+/**
+ * A transport that records real traffic into a JSON file, then replays it
+ * in tests. Secrets are masked on both sides, so a live request still
+ * matches its recording:
+ *
+ * ```ts
+ * const cassette = new Cassette({ path: 'fixtures/feed.json' });
+ * client.setTransport(cassette);
+ * // ... run the flow ...
+ * await cassette.save();
+ * ```
+ */
+class Cassette implements Transport {
+    readonly path: string;
+    readonly match: 'strict' | 'loose';
+    private mode: 'record' | 'replay' | 'auto';
+    private readonly matchHeaders: string[];
+    private readonly redactHeaders: string[];
+    private readonly redactFields: string[];
+    private readonly transport: Transport;
+    private entries: CassetteEntry[] = [];
+    private used = new Set<number>();
+    /** Reserved while recording and not answered yet, or whose request failed. Never saved. */
+    private unanswered = new Set<CassetteEntry>();
+    private loading?: Promise<void>;
+
+    constructor(options: CassetteOptions) {
+        this.path = options.path;
+        this.mode = options.mode ?? 'auto';
+        this.match = options.match ?? 'strict';
+        this.matchHeaders = (options.matchHeaders ?? ['content-type', 'content-range', 'range', 'x-upload-id', 'x-appwrite-id']).map((name) => name.toLowerCase());
+        this.redactHeaders = (options.redactHeaders ?? ['authorization', 'cookie', 'set-cookie', 'x-appwrite-key', 'x-appwrite-session', 'x-appwrite-jwt']).map((name) => name.toLowerCase());
+        this.redactFields = options.redactFields ?? ['token', 'password', 'secret'];
+        this.transport = options.transport ?? new NodeFetchTransport();
+    }
+
+    get options() {
+        return this.transport.options;
+    }
+
+    async send(request: TransportRequest): Promise<Response> {
+        await this.load();
+
+        const recorded = await this.recordRequest(request);
+
+        if (this.mode === 'record') {
+            // Reserve the slot now so concurrent requests keep the order they were sent in.
+            const entry: CassetteEntry = { request: recorded, response: { status: 0, headers: {}, body: '' } };
+            this.entries.push(entry);
+            this.unanswered.add(entry);
+
+            const response = await this.transport.send(request);
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            entry.response = this.recordResponse(response, bytes);
+            this.unanswered.delete(entry);
+
+            return new Response(Cassette.hasBody(response.status) ? bytes : null, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+            });
+        }
+
+        const index = this.find(recorded);
+        this.used.add(index);
+
+        const { status, headers, body, encoding } = this.entries[index].response;
+        const bytes = encoding === 'base64' ? Buffer.from(body, 'base64') : Buffer.from(body, 'utf8');
+
+        return new Response(Cassette.hasBody(status) ? bytes : null, { status, headers });
+    }
+
+    /**
+     * Write the recorded entries to the cassette file, leaving out requests
+     * that failed or are still waiting for a response. Does nothing when
+     * replaying.
+     */
+    async save(): Promise<void> {
+        if (this.mode !== 'record') {
+            return;
+        }
+
+        await mkdir(dirname(this.path), { recursive: true });
+        const entries = this.entries.filter((entry) => !this.unanswered.has(entry));
+        await writeFile(this.path, JSON.stringify(entries, null, 2) + '\n');
+    }
+
+    /**
+     * Entries not requested yet while replaying.
+     */
+    unused(): CassetteEntry[] {
+        return this.entries.filter((_, index) => !this.used.has(index));
+    }
+
+    private load(): Promise<void> {
+        this.loading = this.loading ?? (async () => {
+            if (this.mode === 'record') {
+                return;
+            }
+
+            try {
+                this.entries = JSON.parse(await readFile(this.path, 'utf8'));
+                this.mode = 'replay';
+            } catch (error: any) {
+                if (this.mode === 'auto' && error.code === 'ENOENT') {
+                    this.mode = 'record';
+                    return;
+                }
+                throw error;
+            }
+        })();
+
+        return this.loading;
+    }
+
+    private find(request: CassetteEntry['request']): number {
+        const same = (entry: CassetteEntry, index: number) => !this.used.has(index)
+            && entry.request.method === request.method
+            && Cassette.target(entry.request.url) === Cassette.target(request.url)
+            && this.matchHeaders.every((name) => entry.request.headers[name] === request.headers[name]);
+
+        if (this.match === 'loose') {
+            const index = this.entries.findIndex(same);
+            if (index === -1) {
+                throw new AppwriteException(`No recorded response for ${request.method} ${Cassette.target(request.url)} in ${this.path}`, 0, 'cassette_mismatch');
+            }
+            return index;
+        }
+
+        const index = this.entries.findIndex((_, candidate) => !this.used.has(candidate));
+        const entry = this.entries[index];
+        if (!entry) {
+            throw new AppwriteException(`Unexpected request ${request.method} ${Cassette.target(request.url)}: all entries of ${this.path} were replayed`, 0, 'cassette_mismatch');
+        }
+        if (!same(entry, index) || JSON.stringify(entry.request.body) !== JSON.stringify(request.body)) {
+            throw new AppwriteException(
+                `Request ${index + 1} of ${this.path} does not match.\n`
+                + `Expected: ${JSON.stringify(entry.request)}\n`
+                + `Received: ${JSON.stringify(request)}`,
+                0,
+                'cassette_mismatch',
+            );
+        }
+        return index;
+    }
+
+    private async recordRequest(request: TransportRequest): Promise<CassetteEntry['request']> {
+        const url = new URL(request.url);
+        for (const key of [...url.searchParams.keys()]) {
+            if (this.redactFields.includes(key)) {
+                url.searchParams.set(key, REDACTED);
+            }
+        }
+
+        const headers = this.recordHeaders(Object.entries(request.headers));
+        delete headers['user-agent'];
+
+        // FormData bodies carry a random boundary, so only the type is compared.
+        if (headers['content-type']?.startsWith('multipart/form-data')) {
+            headers['content-type'] = 'multipart/form-data';
+        }
+
+        return {
+            method: request.method.toUpperCase(),
+            url: url.toString(),
+            headers,
+            body: await this.recordBody(request.body, headers['content-type'] ?? ''),
+        };
+    }
+
+    private async recordBody(body: any, contentType: string): Promise<RecordedBody | undefined> {
+        if (body === undefined || body === null) {
+            return undefined;
+        }
+
+        if (typeof body === 'string') {
+            if (contentType.includes('application/x-www-form-urlencoded')) {
+                return { form: [...new URLSearchParams(body)].map(([key, value]) => [key, this.redactField(key, value)]) };
+            }
+            if (contentType.includes('application/json')) {
+                try {
+                    return { text: JSON.stringify(this.redactJson(JSON.parse(body))) };
+                } catch {
+                    // Not actually JSON, keep it as it is.
+                }
+            }
+            return { text: body };
+        }
+
+        if (typeof body.entries === 'function' && typeof body.append === 'function') {
+            const parts: [string, string | RecordedFile][] = [];
+            for (const [key, value] of body.entries()) {
+                if (typeof value === 'string') {
+                    parts.push([key, this.redactField(key, value)]);
+                } else {
+                    const bytes = new Uint8Array(await value.arrayBuffer());
+                    parts.push([key, { name: value.name, type: value.type, size: bytes.length, sha256: Cassette.hash(bytes) }]);
+                }
+            }
+            return { multipart: parts };
+        }
+
+        if (body instanceof Uint8Array || body instanceof ArrayBuffer || body instanceof Blob) {
+            const bytes = body instanceof Blob ? new Uint8Array(await body.arrayBuffer()) : new Uint8Array(body);
+            return { binary: { size: bytes.length, sha256: Cassette.hash(bytes) } };
+        }
+
+        return { text: String(body) };
+    }
+
+    private recordResponse(response: Response, bytes: Uint8Array): CassetteEntry['response'] {
+        const headers = this.recordHeaders([...response.headers.entries()]);
+        const contentType = headers['content-type'] ?? '';
+
+        // The body was decoded while it was read, so replay it as sent after decoding.
+        if (headers['content-encoding']) {
+            delete headers['content-encoding'];
+            headers['content-length'] = String(bytes.length);
+        }
+
+        if (contentType.includes('application/json')) {
+            try {
+                const body = JSON.stringify(this.redactJson(JSON.parse(Buffer.from(bytes).toString('utf8'))));
+                // The body was rewritten, so its original length no longer applies.
+                delete headers['content-length'];
+                return { status: response.status, headers, body };
+            } catch {
+                // Fall through and keep the body byte for byte.
+            }
+        }
+
+        if (contentType.startsWith('text/') || bytes.length === 0) {
+            return { status: response.status, headers, body: Buffer.from(bytes).toString('utf8') };
+        }
+
+        return { status: response.status, headers, body: Buffer.from(bytes).toString('base64'), encoding: 'base64' };
+    }
+
+    private recordHeaders(entries: [string, string][]): { [key: string]: string } {
+        const headers: { [key: string]: string } = {};
+        for (const [name, value] of entries) {
+            const key = name.toLowerCase();
+            headers[key] = this.redactHeaders.includes(key) ? REDACTED : String(value);
+        }
+        return headers;
+    }
+
+    private redactField(key: string, value: string): string {
+        return this.redactFields.includes(key) ? REDACTED : value;
+    }
+
+    private redactJson(value: any): any {
+        if (Array.isArray(value)) {
+            return value.map((item) => this.redactJson(item));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+                key,
+                this.redactFields.includes(key) && item !== null && typeof item !== 'object' ? REDACTED : this.redactJson(item),
+            ]));
+        }
+        return value;
+    }
+
+    /**
+     * Path and query of a URL. The origin is ignored, so recordings made
+     * against one host replay against any other.
+     */
+    private static target(url: string): string {
+        const parsed = new URL(url);
+        return parsed.pathname + parsed.search;
+    }
+
+    private static hasBody(status: number): boolean {
+        return ![101, 204, 205, 304].includes(status);
+    }
+
+    private static hash(bytes: Uint8Array): string {
+        return createHash('sha256').update(bytes).digest('hex');
+    }
+}
+
+export { Cassette };
+export type { CassetteEntry, CassetteOptions };
@@ -0,0 +1,653 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { createWriteStream } from 'fs';
+import { finished } from 'stream/promises';
+import { basename } from 'path';
+import { Client } from '../client';
+import { AppwriteException } from '../exceptions';
+import { redact } from '../redact';
+import { InputFile } from '../inputFile';
+import { ID } from '../id';
+import { Auth } from '../services/auth';
+import { UserService, type User } from '../services/user';
+import { Feed, type Video } from '../services/feed';
+import { Publish } from '../services/publish';
+import { Relation } from '../services/relation';
+import { MessageService, type Message } from '../services/message';
+import type { ConversationFormat } from '../conversation';
+import { GuGoTikStorage } from '../services/gugotik-storage';
+import { Storage } from '../services/storage';
+import { Databases } from '../services/databases';
+import { Profiles, type Profile } from './profiles';
+import { print, ProgressBar, type Format, type Output } from './output';
+
+type Options = {
+    profile?: string;
+    endpoint?: string;
+    output?: string;
+    json?: boolean;
+    'self-signed'?: boolean;
+    password?: string;
+    title?: string;
+    user?: string;
+    limit?: string;
+    'latest-time'?: string;
+    format?: string;
+    out?: string;
+    id?: string;
+    data?: string;
+    query?: string[];
+    resume?: boolean;
+    help?: boolean;
+}
+
+type Context = {
+    client: Client;
+    profiles: Profiles;
+    /** Name of the profile in use. */
+    name: string;
+    profile: Profile;
+    options: Options;
+}
+
+type Command = {
+    usage: string;
+    description: string;
+    run: (context: Context, args: string[]) => Promise<Output>;
+}
+
+const videoColumns = {
+    ID: (video: Video) => video.id,
+    TITLE: (video: Video) => video.title,
+    AUTHOR: (video: Video) => video.author?.name,
+    LIKES: (video: Video) => video.favorite_count,
+    COMMENTS: (video: Video) => video.comment_count,
+};
+
+const userColumns = {
+    ID: (user: User) => user.id,
+    NAME: (user: User) => user.name,
+    FOLLOWING: (user: User) => user.follow_count,
+    FOLLOWERS: (user: User) => user.follower_count,
+    FOLLOWED: (user: User) => user.is_follow ? 'yes' : '',
+};
+
+const commands: { [name: string]: Command } = {
+    'login': {
+        usage: 'login <username> [--password <password>]',
+        description: 'Log in and keep the session in the profile',
+        run: async (context, [username]) => authenticate(context, 'login', username),
+    },
+    'register': {
+        usage: 'register <username> [--password <password>]',
+        description: 'Create an account and keep its session in the profile',
+        run: async (context, [username]) => authenticate(context, 'register', username),
+    },
+    'logout': {
+        usage: 'logout',
+        description: 'Forget the session of the profile',
+        run: async (context) => {
+            const { token, userId, username, ...rest } = context.profile;
+            context.profiles.set(context.name, rest);
+            await context.profiles.save();
+            return { data: { profile: context.name, loggedOut: username ?? null } };
+        },
+    },
+    'whoami': {
+        usage: 'whoami',
+        description: 'Show the profile and the logged in user',
+        run: async (context) => {
+            const { token, key, ...profile } = context.profile;
+            const user = context.profile.userId !== undefined
+                ? (await new UserService(context.client).getUser({ userId: context.profile.userId })).user
+                : undefined;
+            return { data: { profile: context.name, ...profile, user } };
+        },
+    },
+    'profile list': {
+        usage: 'profile list',
+        description: 'List the profiles',
+        run: async (context) => {
+            const rows = context.profiles.names().map((name) => ({ name, ...context.profiles.get(name) }));
+            return {
+                data: rows.map(({ token, key, ...row }) => ({ ...row, current: row.name === context.profiles.current })),
+                rows,
+                columns: {
+                    '': (row) => row.name === context.profiles.current ? '*' : '',
+                    NAME: (row) => row.name,
+                    ENDPOINT: (row) => row.endpoint,
+                    USER: (row) => row.username,
+                    PROJECT: (row) => row.project,
+                },
+            };
+        },
+    },
+    'profile use': {
+        usage: 'profile use <name>',
+        description: 'Make a profile the default, creating it if needed',
+        run: async (context, [name]) => {
+            required(name, 'name');
+            context.profiles.set(name, { ...context.profiles.get(name), ...(context.options.endpoint ? { endpoint: context.options.endpoint } : {}) });
+            context.profiles.current = name;
+            await context.profiles.save();
+            return { data: { current: name } };
+        },
+    },
+    'profile set': {
+        usage: 'profile set <endpoint|project|key|selfSigned> <value>',
+        description: 'Change a setting of the profile',
+        run: async (context, [setting, value]) => {
+            required(setting, 'setting');
+            required(value, 'value');
+            if (!['endpoint', 'project', 'key', 'selfSigned'].includes(setting)) {
+                throw new AppwriteException(`Unknown setting "${setting}"`);
+            }
+
+            context.profiles.set(context.name, { ...context.profile, [setting]: setting === 'selfSigned' ? value === 'true' : value });
+            await context.profiles.save();
+            return { data: { profile: context.name, [setting]: setting === 'key' ? '(set)' : value } };
+        },
+    },
+    'profile remove': {
+        usage: 'profile remove <name>',
+        description: 'Delete a profile',
+        run: async (context, [name]) => {
+            required(name, 'name');
+            if (!context.profiles.remove(name)) {
+                throw new AppwriteException(`No profile named "${name}"`);
+            }
+            await context.profiles.save();
+            return { data: { removed: name } };
+        },
+    },
+    'feed': {
+        usage: 'feed [--limit <n>] [--latest-time <time>]',
+        description: 'Browse the recommended videos',
+        run: async (context) => {
+            const videos: Video[] = [];
+            for await (const video of new Feed(context.client).iterate({ startTime: context.options['latest-time'], maxItems: number(context.options.limit ?? '30', 'limit') })) {
+                videos.push(video);
+            }
+            return { data: videos, rows: videos, columns: videoColumns };
+        },
+    },
+    'video get': {
+        usage: 'video get <videoId>',
+        description: 'Show a video',
+        run: async (context, [videoId]) => {
+            const { video } = await new Feed(context.client).getVideoById(number(videoId, 'videoId'));
+            return { data: video };
+        },
+    },
+    'video list': {
+        usage: 'video list [--user <userId>]',
+        description: 'List the videos published by a user, yourself by default',
+        run: async (context) => {
+            const { video_list = [] } = await new Publish(context.client).listPublishedVideos({ userId: userId(context, context.options.user) });
+            return { data: video_list, rows: video_list, columns: videoColumns };
+        },
+    },
+    'video delete': {
+        usage: 'video delete <videoId>',
+        description: 'Delete one of your videos',
+        run: async (context, [videoId]) => {
+            await new Publish(context.client).deleteVideo({ videoId: number(videoId, 'videoId') });
+            return { data: { deleted: Number(videoId) } };
+        },
+    },
+    'publish': {
+        usage: 'publish <file> --title <title>',
+        description: 'Publish a video, showing upload progress',
+        run: async (context, [path]) => {
+            required(path, 'file');
+            required(context.options.title, '--title');
+
+            const file = InputFile.fromPath(path, basename(path));
+            const bar = new ProgressBar('Uploading');
+            try {
+                const response = await new Publish(context.client).publishVideo({
+                    data: file,
+                    title: context.options.title as string,
+                    onProgress: (progress) => bar.update(progress.sizeUploaded, file.size),
+                });
+                bar.update(file.size, file.size);
+                return { data: response };
+            } finally {
+                bar.done();
+            }
+        },
+    },
+    'user': {
+        usage: 'user [userId]',
+        description: 'Show a user, yourself by default',
+        run: async (context, [id]) => {
+            const { user } = await new UserService(context.client).getUser({ userId: userId(context, id) });
+            return { data: user };
+        },
+    },
+    'follow': {
+        usage: 'follow <userId>',
+        description: 'Follow a user',
+        run: async (context, [id]) => {
+            await new Relation(context.client).follow({ userId: number(id, 'userId') });
+            return { data: { following: Number(id) } };
+        },
+    },
+    'unfollow': {
+        usage: 'unfollow <userId>',
+        description: 'Stop following a user',
+        run: async (context, [id]) => {
+            await new Relation(context.client).unfollow({ userId: number(id, 'userId') });
+            return { data: { unfollowed: Number(id) } };
+        },
+    },
+    'following': {
+        usage: 'following [userId]',
+        description: 'List the users a user follows',
+        run: async (context, [id]) => users((await new Relation(context.client).getFollowList({ userId: userId(context, id) })).user_list),
+    },
+    'followers': {
+        usage: 'followers [userId]',
+        description: 'List the followers of a user',
+        run: async (context, [id]) => users((await new Relation(context.client).getFollowerList({ userId: userId(context, id) })).user_list),
+    },
+    'friends': {
+        usage: 'friends [userId]',
+        description: 'List the friends of a user',
+        run: async (context, [id]) => users((await new Relation(context.client).getFriendList({ userId: userId(context, id) })).user_list),
+    },
+    'message send': {
+        usage: 'message send <userId> <text...>',
+        description: 'Send a direct message',
+        run: async (context, [id, ...text]) => {
+            required(text.join(' ') || undefined, 'text');
+            const response = await new MessageService(context.client).sendMessage({ toUserId: number(id, 'userId'), content: text.join(' ') });
+            return { data: response };
+        },
+    },
+    'message list': {
+        usage: 'message list <userId>',
+        description: 'Show the conversation with a user',
+        run: async (context, [id]) => {
+            const { message_list = [] } = await new MessageService(context.client).listMessages({ toUserId: number(id, 'userId') });
+            return {
+                data: message_list,
+                rows: message_list,
+                columns: {
+                    TIME: (message: Message) => new Date(message.create_time).toISOString(),
+                    FROM: (message: Message) => message.from_user_id,
+                    TO: (message: Message) => message.to_user_id,
+                    TEXT: (message: Message) => message.content,
+                },
+            };
+        },
+    },
+    'message export': {
+        usage: 'message export <userId> [--format jsonl|csv|html] [--out <path>]',
+        description: 'Save the whole conversation with a user to a file',
+        run: async (context, [id]) => {
+            const format = context.options.format ?? 'jsonl';
+            if (!['jsonl', 'csv', 'html'].includes(format)) {
+                throw new AppwriteException(`Unknown format "${format}", expected jsonl, csv or html`);
+            }
+
+            const conversation = new MessageService(context.client).conversation(number(id, 'userId'));
+            await conversation.sync();
+
+            const path = context.options.out ?? `conversation-${conversation.key}.${format}`;
+            const file = createWriteStream(path);
+            const closed = finished(file);
+
+            // A failing file ends the export instead of leaving it waiting to write.
+            await Promise.race([closed, conversation.exportTo(format as ConversationFormat, file)]);
+            file.end();
+            await closed;
+
+            return { data: { path, messages: (await conversation.timeline()).length } };
+        },
+    },
+    'upload': {
+        usage: 'upload <file>',
+        description: 'Upload an image to GuGoTik storage and print its URL',
+        run: async (context, [path]) => {
+            required(path, 'file');
+            const response = await new GuGoTikStorage(context.client).uploadFile(InputFile.fromPath(path, basename(path)));
+            return { data: response };
+        },
+    },
+    'storage buckets': {
+        usage: 'storage buckets',
+        description: 'List the storage buckets',
+        run: async (context) => {
+            const { buckets } = await new Storage(context.client).listBuckets({ queries: context.options.query });
+            return { data: buckets, rows: buckets, columns: { ID: (bucket) => bucket.$id, NAME: (bucket) => bucket.name, ENABLED: (bucket) => bucket.enabled } };
+        },
+    },
+    'storage files': {
+        usage: 'storage files <bucketId> [--query <query>...]',
+        description: 'List the files of a bucket',
+        run: async (context, [bucketId]) => {
+            required(bucketId, 'bucketId');
+            const { files } = await new Storage(context.client).listFiles({ bucketId, queries: context.options.query });
+            return { data: files, rows: files, columns: { ID: (file) => file.$id, NAME: (file) => file.name, SIZE: (file) => file.sizeOriginal, TYPE: (file) => file.mimeType } };
+        },
+    },
+    'storage upload': {
+        usage: 'storage upload <bucketId> <file> [--id <fileId>]',
+        description: 'Upload a file to a bucket, showing progress',
+        run: async (context, [bucketId, path]) => {
+            required(bucketId, 'bucketId');
+            required(path, 'file');
+
+            const file = InputFile.fromPath(path, basename(path));
+            const bar = new ProgressBar('Uploading');
+            try {
+                const created = await new Storage(context.client).createFile({
+                    bucketId,
+                    fileId: context.options.id ?? ID.unique(),
+                    file,
+                    onProgress: (progress) => bar.update(progress.sizeUploaded, file.size),
+                });
+                bar.update(file.size, file.size);
+                return { data: created };
+            } finally {
+                bar.done();
+            }
+        },
+    },
+    'storage download': {
+        usage: 'storage download <bucketId> <fileId> [--out <path>] [--resume]',
+        description: 'Download a file, showing progress',
+        run: async (context, [bucketId, fileId]) => {
+            required(bucketId, 'bucketId');
+            required(fileId, 'fileId');
+
+            const bar = new ProgressBar('Downloading');
+            try {
+                const result = await new Storage(context.client).downloadFile({
+                    bucketId,
+                    fileId,
+                    path: context.options.out ?? fileId,
+                    resume: context.options.resume,
+                    onProgress: (progress) => bar.update(progress.bytesDownloaded, progress.bytesTotal ?? 0),
+                });
+                return { data: result };
+            } finally {
+                bar.done();
+            }
+        },
+    },
+    'storage delete': {
+        usage: 'storage delete <bucketId> <fileId>',
+        description: 'Delete a file',
+        run: async (context, [bucketId, fileId]) => {
+            required(bucketId, 'bucketId');
+            required(fileId, 'fileId');
+            await new Storage(context.client).deleteFile({ bucketId, fileId });
+            return { data: { deleted: fileId } };
+        },
+    },
+    'db list': {
+        usage: 'db list',
+        description: 'List the databases',
+        run: async (context) => {
+            const { databases } = await new Databases(context.client).list({ queries: context.options.query });
+            return { data: databases, rows: databases, columns: { ID: (database) => database.$id, NAME: (database) => database.name, ENABLED: (database) => database.enabled } };
+        },
+    },
+    'db collections': {
+        usage: 'db collections <databaseId>',
+        description: 'List the collections of a database',
+        run: async (context, [databaseId]) => {
+            required(databaseId, 'databaseId');
+            const { collections } = await new Databases(context.client).listCollections({ databaseId, queries: context.options.query });
+            return { data: collections, rows: collections, columns: { ID: (collection) => collection.$id, NAME: (collection) => collection.name, ENABLED: (collection) => collection.enabled } };
+        },
+    },
+    'db documents': {
+        usage: 'db documents <databaseId> <collectionId> [--query <query>...]',
+        description: 'List documents, filtered by queries such as Query.equal() output',
+        run: async (context, [databaseId, collectionId]) => {
+            required(databaseId, 'databaseId');
+            required(collectionId, 'collectionId');
+            const { documents } = await new Databases(context.client).listDocuments({ databaseId, collectionId, queries: context.options.query });
+            return {
+                data: documents,
+                rows: documents,
+                columns: {
+                    ID: (document) => document.$id,
+                    UPDATED: (document) => document.$updatedAt,
+                    DATA: ({ $id, $collectionId, $databaseId, $createdAt, $updatedAt, $permissions, $sequence, ...data }) => data,
+                },
+            };
+        },
+    },
+    'db get': {
+        usage: 'db get <databaseId> <collectionId> <documentId>',
+        description: 'Show a document',
+        run: async (context, [databaseId, collectionId, documentId]) => {
+            required(documentId, 'documentId');
+            return { data: await new Databases(context.client).getDocument({ databaseId, collectionId, documentId }) };
+        },
+    },
+    'db create': {
+        usage: 'db create <databaseId> <collectionId> --data <json> [--id <documentId>]',
+        description: 'Create a document',
+        run: async (context, [databaseId, collectionId]) => {
+            required(collectionId, 'collectionId');
+            const document = await new Databases(context.client).createDocument({
+                databaseId,
+                collectionId,
+                documentId: context.options.id ?? ID.unique(),
+                data: json(context.options.data),
+            });
+            return { data: document };
+        },
+    },
+    'db update': {
+        usage: 'db update <databaseId> <collectionId> <documentId> --data <json>',
+        description: 'Update the fields of a document',
+        run: async (context, [databaseId, collectionId, documentId]) => {
+            required(documentId, 'documentId');
+            return { data: await new Databases(context.client).updateDocument({ databaseId, collectionId, documentId, data: json(context.options.data) }) };
+        },
+    },
+    'db delete': {
+        usage: 'db delete <databaseId> <collectionId> <documentId>',
+        description: 'Delete a document',
+        run: async (context, [databaseId, collectionId, documentId]) => {
+            required(documentId, 'documentId');
+            await new Databases(context.client).deleteDocument({ databaseId, collectionId, documentId });
+            return { data: { deleted: documentId } };
+        },
+    },
+};
+
+async function authenticate(context: Context, action: 'login' | 'register', username: string | undefined): Promise<Output> {
+    required(username, 'username');
+    const password = context.options.password ?? process.env.EVE_PASSWORD ?? await prompt('Password: ');
+
+    const auth = new Auth(context.client);
+    const response = action === 'login'
+        ? await auth.login(username as string, password)
+        : await auth.register(username as string, password);
+
+    context.profiles.set(context.name, {
+        ...context.profile,
+        endpoint: context.client.config.endpoint,
+        token: response.token,
+        userId: response.user_id,
+        username,
+    });
+    await context.profiles.save();
+
+    return { data: { profile: context.name, username, userId: response.user_id } };
+}
+
+function users(list: User[] | undefined): Output {
+    return { data: list ?? [], rows: list ?? [], columns: userColumns };
+}
+
+/**
+ * The user a command is about: the one given, or the logged in user.
+ */
+function userId(context: Context, id: string | undefined): number {
+    if (typeof id !== 'undefined') {
+        return number(id, 'userId');
+    }
+    if (typeof context.profile.userId === 'undefined') {
+        throw new AppwriteException('Not logged in: run "eve login <username>" or pass a user ID');
+    }
+    return context.profile.userId;
+}
+
+function required(value: string | undefined, name: string): void {
+    if (typeof value === 'undefined' || value === '') {
+        throw new AppwriteException(`Missing required argument: ${name}`);
+    }
+}
+
+function number(value: string | undefined, name: string): number {
+    required(value, name);
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+        throw new AppwriteException(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+}
+
+function json(value: string | undefined): any {
+    required(value, '--data');
+    try {
+        return JSON.parse(value as string);
+    } catch {
+        throw new AppwriteException('Invalid --data: expected a JSON object');
+    }
+}
+
+/**
+ * Ask for a secret on the terminal without echoing it.
+ */
+function prompt(question: string): Promise<string> {
+    const input = process.stdin;
+    if (!input.isTTY) {
+        throw new AppwriteException('Missing password: pass --password or set EVE_PASSWORD');
+    }
+
+    return new Promise((resolve, reject) => {
+        let answer = '';
+        process.stderr.write(question);
+        input.setRawMode(true);
+        input.resume();
+        input.setEncoding('utf8');
+
+        const finish = (error?: Error) => {
+            input.setRawMode(false);
+            input.pause();
+            input.removeListener('data', onData);
+            process.stderr.write('\n');
+            error ? reject(error) : resolve(answer);
+        };
+        const onData = (chars: string) => {
+            for (const char of chars) {
+                if (char === '\r' || char === '\n') {
+                    return finish();
+                } else if (char === '\u0003') {
+                    return finish(new AppwriteException('Cancelled'));
+                } else if (char === '\u007f' || char === '\b') {
+                    answer = answer.slice(0, -1);
+                } else {
+                    answer += char;
+                }
+            }
+        };
+        input.on('data', onData);
+    });
+}
+
+function help(): string {
+    const width = Math.max(...Object.values(commands).map((command) => command.usage.length));
+    return [
+        'Usage: eve <command> [options]',
+        '',
+        'Commands:',
+        ...Object.values(commands).map((command) => `  ${command.usage.padEnd(width)}  ${command.description}`),
+        '',
+        'Options:',
+        '  --profile <name>    Profile to use (default: EVE_PROFILE or the current profile)',
+        '  --endpoint <url>    Endpoint for this run, saved by login and register',
+        '  --output <format>   table or json (default: table), --json for short',
+        '  --self-signed       Accept self-signed certificates',
+        '',
+        `Profiles are kept in ${new Profiles().path}. Set EVE_CONFIG to use another file.`,
+        '',
+    ].join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            profile: { type: 'string' },
+            endpoint: { type: 'string' },
+            output: { type: 'string', short: 'o' },
+            json: { type: 'boolean' },
+            'self-signed': { type: 'boolean' },
+            password: { type: 'string' },
+            title: { type: 'string' },
+            user: { type: 'string' },
+            limit: { type: 'string' },
+            'latest-time': { type: 'string' },
+            format: { type: 'string' },
+            out: { type: 'string' },
+            id: { type: 'string' },
+            data: { type: 'string' },
+            query: { type: 'string', multiple: true },
+            resume: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const options = values as Options;
+
+    // Commands are one or two words long; the longer match wins.
+    const name = [positionals.slice(0, 2).join(' '), positionals[0]].find((candidate) => candidate && candidate in commands);
+    if (options.help || !name) {
+        process.stdout.write(help());
+        return options.help || positionals.length === 0 ? 0 : 1;
+    }
+
+    const format: Format = options.json ? 'json' : options.output === 'json' ? 'json' : 'table';
+
+    const profiles = await new Profiles().load();
+    const profileName = options.profile ?? process.env.EVE_PROFILE ?? profiles.current;
+    const profile = profiles.get(profileName);
+
+    const client = new Client().setStatusCodeErrors(true);
+    client.setEndpoint(options.endpoint ?? profile.endpoint ?? client.config.endpoint);
+    client.setSelfSigned(options['self-signed'] ?? profile.selfSigned ?? false);
+    if (profile.token) {
+        client.setToken(profile.token);
+    }
+    if (typeof profile.userId === 'number') {
+        client.setActorId(profile.userId);
+    }
+    if (profile.project) {
+        client.addHeader('x-appwrite-project', profile.project);
+    }
+    if (profile.key) {
+        client.addHeader('x-appwrite-key', profile.key);
+    }
+
+    const output = await commands[name].run({ client, profiles, name: profileName, profile, options }, positionals.slice(name.split(' ').length));
+    print(output, format);
+    return 0;
+}
+
+main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+}, (error: any) => {
+    const details = error instanceof AppwriteException && error.code ? ` (${error.code}${error.type ? ', ' + error.type : ''})` : '';
+    process.stderr.write(`Error: ${redact(String(error?.message ?? error))}${details}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,108 @@
+type Format = 'table' | 'json';
+
+/** Column titles mapped to the function that reads the cell from a row. */
+type Columns<T> = { [title: string]: (row: T) => unknown };
+
+/**
+ * What a command prints: `data` as it is in JSON output, and `rows` laid
+ * out in `columns` in table output. Without `rows`, the table is one line
+ * per field of `data`.
+ */
+type Output = {
+    data: unknown;
+    rows?: any[];
+    columns?: Columns<any>;
+}
+
+function print(output: Output, format: Format, stream: NodeJS.WritableStream = process.stdout): void {
+    if (format === 'json') {
+        stream.write(JSON.stringify(output.data, null, 2) + '\n');
+        return;
+    }
+
+    if (output.rows && output.columns) {
+        stream.write(table(output.rows, output.columns));
+        return;
+    }
+
+    if (output.data && typeof output.data === 'object') {
+        const rows = Object.entries(output.data).filter(([_, value]) => typeof value !== 'undefined');
+        stream.write(table(rows, { FIELD: ([key]) => key, VALUE: ([_, value]) => value }));
+        return;
+    }
+
+    stream.write(String(output.data ?? '') + '\n');
+}
+
+function table<T>(rows: T[], columns: Columns<T>): string {
+    if (rows.length === 0) {
+        return '(none)\n';
+    }
+
+    const titles = Object.keys(columns);
+    const cells = rows.map((row) => titles.map((title) => cell(columns[title](row))));
+    const widths = titles.map((title, index) => Math.max(title.length, ...cells.map((line) => line[index].length)));
+
+    const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd() + '\n';
+
+    return line(titles) + cells.map(line).join('');
+}
+
+function cell(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+
+    // Keep every row on one line.
+    return String(value).replace(/\s+/g, ' ');
+}
+
+/**
+ * Draws a progress bar on stderr, when it is a terminal, so piped output stays clean.
+ */
+class ProgressBar {
+    private readonly stream: NodeJS.WriteStream;
+    private readonly label: string;
+    private drawn = false;
+
+    constructor(label: string, stream: NodeJS.WriteStream = process.stderr) {
+        this.label = label;
+        this.stream = stream;
+    }
+
+    update(done: number, total: number): void {
+        if (!this.stream.isTTY) {
+            return;
+        }
+
+        const ratio = total > 0 ? Math.min(1, done / total) : 0;
+        const width = 30;
+        const filled = Math.round(ratio * width);
+        const bar = '#'.repeat(filled) + '-'.repeat(width - filled);
+
+        this.stream.write(`\r${this.label} [${bar}] ${Math.round(ratio * 100)}% ${size(done)}/${size(total)}`);
+        this.drawn = true;
+    }
+
+    done(): void {
+        if (this.drawn) {
+            this.stream.write('\n');
+        }
+    }
+}
+
+function size(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+    return `${bytes.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+export { print, table, ProgressBar };
+export type { Format, Columns, Output };
@@ -0,0 +1,88 @@
+import { mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { writeAtomic } from '../atomic-write';
+
+type Profile = {
+    endpoint?: string;
+    /** GuGoTik session of the logged in user. */
+    token?: string;
+    userId?: number;
+    username?: string;
+    /** Sent as `x-appwrite-project` for Storage and Databases. */
+    project?: string;
+    /** Sent as `x-appwrite-key` for Storage and Databases. */
+    key?: string;
+    selfSigned?: boolean;
+}
+
+type ProfileFile = {
+    current?: string;
+    profiles: { [name: string]: Profile };
+}
+
+/**
+ * The settings file of the CLI: named profiles, each with an endpoint and
+ * credentials, and the name of the one used by default. It holds tokens,
+ * so it is only readable by its owner.
+ */
+class Profiles {
+    readonly path: string;
+    private file: ProfileFile = { profiles: {} };
+
+    constructor(path: string = process.env.EVE_CONFIG ?? join(homedir(), '.eve', 'config.json')) {
+        this.path = path;
+    }
+
+    async load(): Promise<this> {
+        try {
+            this.file = JSON.parse(await readFile(this.path, 'utf8'));
+            this.file.profiles = this.file.profiles ?? {};
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        return this;
+    }
+
+    async save(): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+        await writeAtomic(this.path, JSON.stringify(this.file, null, 2) + '\n', 0o600);
+    }
+
+    get current(): string {
+        return this.file.current ?? 'default';
+    }
+
+    set current(name: string) {
+        this.file.current = name;
+    }
+
+    names(): string[] {
+        return Object.keys(this.file.profiles);
+    }
+
+    get(name: string): Profile {
+        return this.file.profiles[name] ?? {};
+    }
+
+    set(name: string, profile: Profile): void {
+        this.file.profiles[name] = profile;
+    }
+
+    remove(name: string): boolean {
+        if (!(name in this.file.profiles)) {
+            return false;
+        }
+
+        delete this.file.profiles[name];
+        if (this.file.current === name) {
+            delete this.file.current;
+        }
+        return true;
+    }
+}
+
+export { Profiles };
+export type { Profile, ProfileFile };
@@ -1,6 +1,20 @@
-import { fetch, FormData, File } from 'node-fetch-native-with-agent';
-import { createAgent } from 'node-fetch-native-with-agent/agent';
+import { FormData, File } from 'node-fetch-native-with-agent';
 import { Models } from './models';
+import { AppwriteException, GuGoTikException, NetworkError, ThrottledError, TimeoutError, createHttpException } from './exceptions';
+import { fingerprint, uploadKey, type UploadState, type UploadStore } from './upload-store';
+import { LazyFile, readRange } from './inputFile';
+import { NodeFetchTransport, type Transport, type TransportRequest } from './transport';
+import { Telemetry, type Attributes, type CallTrace, type Span, type TelemetryOptions } from './telemetry';
+import { RateLimiter, type RateLimiterOptions } from './rate-limiter';
+import { ResponseCache, type ResponseCacheOptions } from './response-cache';
+import { Loaders } from './loader';
+import { CredentialProvider, type CredentialProviderOptions } from './credentials';
+import { redact } from './redact';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createWriteStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 
 type Payload = {
     [key: string]: any;
@@ -18,20 +32,93 @@ type Headers = {
     [key: string]: string;
 }
 
-class AppwriteException extends Error {
-    code: number;
-    response: string;
-    type: string;
-    constructor(message: string, code: number = 0, type: string = '', response: string = '') {
-        super(message);
-        this.name = 'AppwriteException';
-        this.message = message;
-        this.code = code;
-        this.type = type;
-        this.response = response;
-    }
+type RetryPolicy = {
+    /** Total number of attempts, including the first one. `1` disables retries. */
+    maxAttempts: number;
+    /** Delay before the first retry in milliseconds, doubled on every further attempt. */
+    baseDelay: number;
+    /** Upper bound for the backoff delay, and for a `Retry-After` wait, in milliseconds. */
+    maxDelay: number;
+    /** Fraction of the backoff delay (0 to 1) that is randomised. */
+    jitter: number;
+    retryableStatusCodes: number[];
+    /** Error codes (such as `ECONNRESET`) of network failures that are retried. */
+    retryableErrors: string[];
+    /** Methods retried by default. Other methods are only retried when the call is marked idempotent. */
+    idempotentMethods: string[];
+    /** Wait for the duration given in a `Retry-After` response header when it is present, up to `maxDelay`. */
+    respectRetryAfter: boolean;
+}
+
+type RequestOptions = {
+    /** Overrides the client retry policy for this call. */
+    retry?: Partial<RetryPolicy>;
+    /** Marks the call as safe to retry regardless of its method. */
+    idempotent?: boolean;
+    /** Size of each chunk of a chunked upload, in bytes. */
+    chunkSize?: number;
+    /** Number of chunks of a chunked upload sent at the same time. */
+    concurrency?: number;
+    /** Cancels the call, including retries and the remaining chunks of an upload. */
+    signal?: AbortSignal;
+    /** Overrides the transport timeout for this call, in milliseconds. */
+    timeout?: number;
+    /** Extra headers sent with this call only. */
+    headers?: Headers;
+    /** Sent as the `Idempotency-Key` header. The call is then retried whatever its method. */
+    idempotencyKey?: string;
+}
+
+/** Options used inside the client to relate a call to the chunked upload it belongs to. */
+type CallOptions = RequestOptions & {
+    parentSpan?: Span;
+    spanAttributes?: Attributes;
+}
+
+type DownloadProgress = {
+    bytesDownloaded: number;
+    /** Unknown when the server sends neither `Content-Length` nor `Content-Range`. */
+    bytesTotal?: number;
+    progress?: number;
+}
+
+type DownloadOptions = RequestOptions & {
+    /** Byte to start from, requested with an HTTP `Range` header. */
+    offset?: number;
+    onProgress?: (progress: DownloadProgress) => void;
+}
+
+type DownloadResult = {
+    path: string;
+    size: number;
 }
 
+type MiddlewareRequest = {
+    method: string;
+    url: string;
+    headers: Headers;
+    body?: any;
+    /** 1 for the first attempt, incremented on every retry. */
+    attempt: number;
+}
+
+type MiddlewareNext = (request?: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Runs around every request sent by the client. A middleware may rewrite the
+ * request before calling `next`, inspect or replace the response it returns,
+ * or skip `next` entirely and return a synthetic response.
+ */
+type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>;
+
+/**
+ * Where the GuGoTik `token` is sent:
+ * - `body`: in the form or JSON body, and in an `Authorization: Bearer` header for requests without one, such as GETs.
+ * - `header`: always in an `Authorization: Bearer` header.
+ * - `query`: in the query string of GETs, for gateways that read it nowhere else. It shows up in proxy and access logs.
+ */
+type CredentialTransport = 'body' | 'header' | 'query';
+
 function getUserAgent() {
     let ua = 'EveNodeJSSDK/0.0.1';
 
@@ -72,7 +159,23 @@ class Client {
         endpoint: 'http://localhost:37000',
         selfSigned: false,
         token: '',
+        actorId: undefined as number | undefined,
         timeout: 600000, // 10 minutes default timeout for large video uploads
+        statusCodeErrors: false,
+        credentialTransport: 'body' as CredentialTransport,
+        uploadStore: undefined as UploadStore | undefined,
+        chunkSize: Client.CHUNK_SIZE,
+        uploadConcurrency: 1,
+        retry: {
+            maxAttempts: 3,
+            baseDelay: 500,
+            maxDelay: 30000,
+            jitter: 0.5,
+            retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+            retryableErrors: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'],
+            idempotentMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+            respectRetryAfter: true,
+        } as RetryPolicy,
     };
     headers: Headers = {
         // 'x-sdk-name': 'Node.js',
@@ -82,6 +185,38 @@ class Client {
         'user-agent' : getUserAgent(),
         // 'Content-Type': 'application/json',
     };
+    middlewares: Middleware[] = [];
+    transport: Transport = new NodeFetchTransport();
+    telemetry?: Telemetry;
+    rateLimiter?: RateLimiter;
+    cache?: ResponseCache;
+    credentials?: CredentialProvider;
+    private loaderContext = new AsyncLocalStorage<Loaders>();
+    private sharedLoaders?: Loaders;
+
+    /**
+     * Loaders that merge identical user and video lookups and batch those
+     * made in the same tick. Inside `withLoaders` they also keep their
+     * results until the callback is done; elsewhere only requests still in
+     * flight are shared.
+     */
+    get loaders(): Loaders {
+        return this.loaderContext.getStore() ?? (this.sharedLoaders = this.sharedLoaders ?? new Loaders(this, { cache: false }));
+    }
+
+    /**
+     * With Loaders
+     *
+     * Run `callback` with its own loaders, whose results are cached for as
+     * long as it runs, such as while handling one incoming request.
+     *
+     * @param {() => T} callback
+     *
+     * @returns {T}
+     */
+    withLoaders<T>(callback: () => T): T {
+        return this.loaderContext.run(new Loaders(this), callback);
+    }
 
     /**
      * Set Endpoint
@@ -112,6 +247,208 @@ class Client {
      */
     setTimeout(timeout: number): this {
         this.config.timeout = timeout;
+        if (this.transport.options) {
+            this.transport.options.timeout = timeout;
+        }
+        return this;
+    }
+
+    /**
+     * Set Transport
+     *
+     * Replace how requests are sent, for example with a `FetchTransport` for
+     * runtimes without Node.js networking, or a test double. The transport
+     * keeps its own `selfSigned` and `timeout` options; later calls to
+     * `setSelfSigned` and `setTimeout` update them.
+     *
+     * @param {Transport} transport
+     *
+     * @returns {this}
+     */
+    setTransport(transport: Transport): this {
+        this.transport = transport;
+        return this;
+    }
+
+    /**
+     * Set Telemetry
+     *
+     * Trace every call with a span, and measure call counts, errors, retries
+     * and durations. The tracer and meter only need the methods the client
+     * uses, so those of `@opentelemetry/api` work without the SDK depending
+     * on it. Pass `undefined` to turn telemetry off.
+     *
+     * @param {TelemetryOptions | undefined} options
+     *
+     * @returns {this}
+     */
+    setTelemetry(options: TelemetryOptions | undefined): this {
+        this.telemetry = options ? new Telemetry(options) : undefined;
+        return this;
+    }
+
+    /**
+     * Set Rate Limit
+     *
+     * Queue requests so that they start at a steady rate and only so many
+     * are in flight at once, client-wide and per route prefix. Throttled
+     * responses, such as a `429` status, pause the route and are queued
+     * again. Queue depth and wait times are reported by
+     * `client.rateLimiter.stats()`. Pass `undefined` to stop limiting.
+     *
+     * @param {RateLimiterOptions | undefined} options
+     *
+     * @returns {this}
+     */
+    setRateLimit(options: RateLimiterOptions | undefined): this {
+        this.rateLimiter = options ? new RateLimiter(options) : undefined;
+        return this;
+    }
+
+    /**
+     * Set Cache
+     *
+     * Cache the responses of `GET` requests, honouring `Cache-Control` and
+     * revalidating with `ETag` or `Last-Modified`. Successful mutations drop
+     * the entries they make stale. Use `client.cache.invalidate()` to drop
+     * entries yourself. Pass `undefined` to stop caching.
+     *
+     * @param {ResponseCacheOptions | undefined} options
+     *
+     * @returns {this}
+     */
+    setCache(options: ResponseCacheOptions | undefined): this {
+        this.cache = options ? new ResponseCache(options) : undefined;
+        return this;
+    }
+
+    /**
+     * Set Credentials
+     *
+     * Renew the client token when it expires, by logging in again with
+     * `username` and `password` or by calling `refresh`. Requests rejected
+     * for an expired token are sent again with the new one. Listen for
+     * `tokenRefreshed` on `client.credentials`, and call
+     * `client.credentials.load()` to restore a token kept in `store`. Pass
+     * `undefined` to stop renewing.
+     *
+     * @param {CredentialProviderOptions | undefined} options
+     *
+     * @returns {this}
+     */
+    setCredentials(options: CredentialProviderOptions | undefined): this {
+        this.credentials = options ? new CredentialProvider(this, options) : undefined;
+        return this;
+    }
+
+    /**
+     * Set Retry
+     *
+     * Configure how failed requests are retried. Only idempotent methods are
+     * retried unless a call is explicitly marked as idempotent.
+     *
+     * @param {Partial<RetryPolicy>} retry
+     *
+     * @returns {this}
+     */
+    setRetry(retry: Partial<RetryPolicy>): this {
+        this.config.retry = { ...this.config.retry, ...retry };
+        return this;
+    }
+
+    /**
+     * Set Chunk Size
+     *
+     * Size of each chunk sent by chunked uploads, in bytes. Files up to this
+     * size are uploaded in a single request.
+     *
+     * @param {number} chunkSize
+     *
+     * @returns {this}
+     */
+    setChunkSize(chunkSize: number): this {
+        if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+            throw new AppwriteException('Invalid chunk size: ' + chunkSize);
+        }
+
+        this.config.chunkSize = chunkSize;
+        return this;
+    }
+
+    /**
+     * Set Upload Concurrency
+     *
+     * Number of chunks sent at the same time once the first chunk of an upload
+     * has been accepted.
+     *
+     * @param {number} concurrency
+     *
+     * @returns {this}
+     */
+    setUploadConcurrency(concurrency: number): this {
+        this.config.uploadConcurrency = Math.max(1, Math.floor(concurrency));
+        return this;
+    }
+
+    /**
+     * Set Upload Store
+     *
+     * Persist the progress of chunked uploads so that uploading the same file
+     * to the same endpoint again resumes where the server left off. Pass
+     * `undefined` to disable resuming.
+     *
+     * @param {UploadStore | undefined} store
+     *
+     * @returns {this}
+     */
+    setUploadStore(store: UploadStore | undefined): this {
+        this.config.uploadStore = store;
+        return this;
+    }
+
+    /**
+     * Set Status Code Errors
+     *
+     * When enabled, a GuGoTik response whose `status_code` is not 0 is thrown
+     * as a GuGoTikException (or one of its subclasses for known codes)
+     * instead of being returned.
+     *
+     * @param {boolean} value
+     *
+     * @returns {this}
+     */
+    setStatusCodeErrors(value: boolean): this {
+        this.config.statusCodeErrors = value;
+        return this;
+    }
+
+    /**
+     * Set Credential Transport
+     *
+     * Choose where the GuGoTik token travels. Defaults to `body`, which keeps
+     * it out of URLs.
+     *
+     * @param {CredentialTransport} value
+     *
+     * @returns {this}
+     */
+    setCredentialTransport(value: CredentialTransport): this {
+        this.config.credentialTransport = value;
+        return this;
+    }
+
+    /**
+     * Use
+     *
+     * Append a middleware to the request pipeline. Middlewares run in the
+     * order they were added, the first one being the outermost.
+     *
+     * @param {Middleware} middleware
+     *
+     * @returns {this}
+     */
+    use(middleware: Middleware): this {
+        this.middlewares.push(middleware);
         return this;
     }
 
@@ -129,6 +466,9 @@ class Client {
         }
 
         this.config.selfSigned = selfSigned;
+        if (this.transport.options) {
+            this.transport.options.selfSigned = selfSigned;
+        }
 
         return this;
     }
@@ -161,6 +501,21 @@ class Client {
         this.config.token = value;
         return this;
     }
+
+    /**
+     * Set Actor ID
+     *
+     * The ID of the authenticated user. GuGoTik services send it as `actor_id`
+     * whenever a call does not pass one explicitly.
+     *
+     * @param value number
+     *
+     * @return {this}
+     */
+    setActorId(value: number): this {
+        this.config.actorId = value;
+        return this;
+    }
     /**
      * Set ForwardedUserAgent
      *
@@ -179,11 +534,11 @@ class Client {
         method = method.toUpperCase();
 
         headers = Object.assign({}, this.headers, headers);
+        params = this.placeCredentials(method, url, headers, params);
 
         let options: RequestInit = {
             method,
             headers,
-            ...createAgent(this.config.endpoint, { rejectUnauthorized: !this.config.selfSigned }),
         };
 
         if (method === 'GET') {
@@ -196,6 +551,16 @@ class Client {
                     options.body = JSON.stringify(params);
                     break;
 
+                case 'application/x-www-form-urlencoded':
+                    const form = new URLSearchParams();
+                    for (const [key, value] of Object.entries(Client.flatten(params))) {
+                        if (typeof value !== 'undefined' && value !== null) {
+                            form.append(key, String(value));
+                        }
+                    }
+                    options.body = form.toString();
+                    break;
+
                 case 'multipart/form-data':
                     const formData = new FormData();
 
@@ -224,68 +589,316 @@ class Client {
         return { uri: url.toString(), options };
     }
 
-    async chunkedUpload(method: string, url: URL, headers: Headers = {}, originalPayload: Payload = {}, onProgress: (progress: UploadProgress) => void) {
+    /**
+     * Move the `token` a service put in the URL or payload to where the
+     * credential transport sends it. Updates `url` and `headers` in place
+     * and returns the payload to send.
+     */
+    private placeCredentials(method: string, url: URL, headers: Headers, params: Payload): Payload {
+        if (this.config.credentialTransport === 'query') {
+            return params;
+        }
+
+        let token = url.searchParams.get('token') ?? undefined;
+        url.searchParams.delete('token');
+
+        const hasBody = method !== 'GET' && method !== 'HEAD' && !!headers['content-type'];
+        if ('token' in params && (!hasBody || this.config.credentialTransport === 'header')) {
+            const { token: value, ...rest } = params;
+            token = token ?? value;
+            params = rest;
+        }
+
+        if (this.config.credentialTransport === 'body' && hasBody) {
+            return token && !('token' in params) ? { ...params, token } : params;
+        }
+
+        const authorization = Object.keys(headers).some((name) => name.toLowerCase() === 'authorization');
+        if (token && !authorization) {
+            headers['authorization'] = `Bearer ${token}`;
+        }
+        return params;
+    }
+
+    async chunkedUpload(method: string, url: URL, headers: Headers = {}, originalPayload: Payload = {}, onProgress: (progress: UploadProgress) => void, options: RequestOptions = {}): Promise<any> {
         const [fileParam, file] = Object.entries(originalPayload).find(([_, value]) => value instanceof File) ?? [];
 
         if (!file || !fileParam) {
             throw new Error('File not found in payload');
         }
 
-        if (file.size <= Client.CHUNK_SIZE) {
-            return await this.call(method, url, headers, originalPayload);
+        let chunkSize = options.chunkSize ?? this.config.chunkSize;
+        const concurrency = Math.max(1, options.concurrency ?? this.config.uploadConcurrency);
+
+        if (file.size <= chunkSize) {
+            return await this.call(method, url, headers, originalPayload, 'json', options);
         }
 
-        let start = 0;
-        let response = null;
+        // Chunk calls are traced as children of one span for the whole upload.
+        const span = this.telemetry?.startUpload(url, Client.getPath(url, this.config.endpoint), {
+            'eve.upload.size': file.size,
+            'eve.upload.chunk_size': chunkSize,
+            'eve.upload.concurrency': concurrency,
+        });
+
+        try {
+            // A streamed file can neither be fingerprinted nor rewound, so it cannot be resumed.
+            const store = file instanceof LazyFile && !file.seekable ? undefined : this.config.uploadStore;
+            const fileFingerprint = store ? await fingerprint(file) : '';
+            const key = store ? uploadKey(method, url, fileFingerprint) : '';
+            let start = 0;
+            let resumed: UploadState | undefined;
 
-        while (start < file.size) {
-            let end = start + Client.CHUNK_SIZE; // Prepare end for the next chunk
-            if (end >= file.size) {
-                end = file.size; // Adjust for the last chunk to include the last byte
+            if (store) {
+                const state = await store.get(key);
+                if (state && state.fingerprint === fileFingerprint && state.offset < file.size) {
+                    resumed = state;
+                    chunkSize = state.chunkSize;
+                    start = state.offset;
+                    headers[state.idHeader] = state.uploadId;
+                }
             }
 
-            headers['content-range'] = `bytes ${start}-${end-1}/${file.size}`;
-            const chunk = file.slice(start, end);
+            let idHeader = resumed?.idHeader ?? '';
+            let sizeUploaded = start;
+            let chunksUploaded = Math.ceil(start / chunkSize);
+            let acknowledged = start;
+            let saving = Promise.resolve();
+            const completed = new Set<number>();
+
+            const upload = async (chunkStart: number) => {
+                options.signal?.throwIfAborted();
 
-            let payload = { ...originalPayload };
-            payload[fileParam] = new File([chunk], file.name);
+                const chunkEnd = Math.min(chunkStart + chunkSize, file.size);
 
-            response = await this.call(method, url, headers, payload);
+                let payload = { ...originalPayload };
+                payload[fileParam] = new File([await readRange(file, chunkStart, chunkEnd)], file.name);
 
-            if (onProgress && typeof onProgress === 'function') {
-                onProgress({
-                    $id: response.upload_id || response.$id,
-                    progress: Math.round((end / file.size) * 100),
-                    sizeUploaded: end,
-                    chunksTotal: response.chunks_total || Math.ceil(file.size / Client.CHUNK_SIZE),
-                    chunksUploaded: response.chunks_uploaded || Math.ceil(end / Client.CHUNK_SIZE)
+                // Chunks may be in flight together, so each gets its own headers.
+                const chunkHeaders = { ...headers, 'content-range': `bytes ${chunkStart}-${chunkEnd-1}/${file.size}` };
+
+                // Every chunk carries its own content-range, so re-sending one is safe.
+                const response = await this.call(method, url, chunkHeaders, payload, 'json', {
+                    ...options,
+                    idempotent: true,
+                    parentSpan: span,
+                    spanAttributes: { 'eve.upload.chunk_start': chunkStart, 'eve.upload.chunk_size': chunkEnd - chunkStart },
                 });
+
+                // Support both Eve AI (upload_id) and Appwrite ($id) formats
+                if (response && response.upload_id) {
+                    idHeader = 'X-Upload-Id';
+                    headers[idHeader] = response.upload_id;
+                } else if (response && response.$id) {
+                    idHeader = 'x-appwrite-id';
+                    headers[idHeader] = response.$id;
+                }
+
+                // Chunks finish out of order, so progress is counted rather than derived from the range.
+                sizeUploaded += chunkEnd - chunkStart;
+                chunksUploaded = Math.max(chunksUploaded + 1, response?.chunks_uploaded || 0);
+
+                if (onProgress && typeof onProgress === 'function') {
+                    onProgress({
+                        $id: response.upload_id || response.$id,
+                        progress: Math.round((sizeUploaded / file.size) * 100),
+                        sizeUploaded,
+                        chunksTotal: response.chunks_total || Math.ceil(file.size / chunkSize),
+                        chunksUploaded
+                    });
+                }
+
+                // Only the unbroken run of finished chunks from the start can be resumed from.
+                completed.add(chunkStart);
+                while (completed.has(acknowledged)) {
+                    completed.delete(acknowledged);
+                    acknowledged = Math.min(acknowledged + chunkSize, file.size);
+                }
+
+                if (store && idHeader && acknowledged < file.size) {
+                    const state: UploadState = {
+                        uploadId: headers[idHeader],
+                        idHeader,
+                        fingerprint: fileFingerprint,
+                        size: file.size,
+                        chunkSize,
+                        offset: acknowledged,
+                        updatedAt: Date.now(),
+                    };
+                    saving = saving.then(() => store.set(key, state));
+                    await saving;
+                }
+
+                return response;
+            };
+
+            // The first chunk creates the upload, or checks that a resumed one still exists,
+            // and has to finish before any other chunk is sent.
+            let response: any;
+            try {
+                response = await upload(start);
+            } catch (error) {
+                // The server no longer knows the upload we tried to resume, so start over.
+                if (resumed && error instanceof AppwriteException && [404, 410].includes(error.code)) {
+                    await store?.delete(key);
+                    delete headers[resumed.idHeader];
+                    return this.chunkedUpload(method, url, headers, originalPayload, onProgress, options);
+                }
+                throw error;
+            }
+
+            const lastStart = start + Math.floor((file.size - 1 - start) / chunkSize) * chunkSize;
+            const pending: number[] = [];
+            for (let chunkStart = start + chunkSize; chunkStart < lastStart; chunkStart += chunkSize) {
+                pending.push(chunkStart);
+            }
+
+            let failure: { error: unknown } | undefined;
+            const worker = async () => {
+                while (pending.length > 0 && !failure) {
+                    try {
+                        await upload(pending.shift() as number);
+                    } catch (error) {
+                        failure = failure ?? { error };
+                    }
+                }
+            };
+            await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+            if (failure) {
+                throw failure.error;
+            }
+
+            // The last chunk goes out alone so the server sees every other chunk before it.
+            if (lastStart > start) {
+                response = await upload(lastStart);
             }
 
-            // Support both Eve AI (upload_id) and Appwrite ($id) formats
-            if (response && response.upload_id) {
-                headers['X-Upload-Id'] = response.upload_id;
-            } else if (response && response.$id) {
-                headers['x-appwrite-id'] = response.$id;
+            await store?.delete(key);
+
+            return response;
+        } catch (error) {
+            Telemetry.fail(span, error);
+            throw error;
+        } finally {
+            span?.end();
+        }
+    }
+
+    /**
+     * Stream a response body instead of buffering it. The stream fails if it
+     * ends before the size announced by the server has been received.
+     */
+    async download(method: string, url: URL, headers: Headers = {}, params: Payload = {}, options: DownloadOptions = {}): Promise<Readable> {
+        const offset = options.offset ?? 0;
+        if (offset > 0) {
+            headers = { ...headers, range: `bytes=${offset}-` };
+        }
+
+        const response: Response = await this.call(method, url, headers, params, 'stream', options);
+
+        // A server that ignores `Range` sends the whole body, so skip what the caller already has.
+        const partial = response.status === 206;
+        let skip = partial ? 0 : offset;
+        const bytesTotal = Client.getDownloadSize(response, partial ? offset : 0);
+
+        // Compressed bodies are decoded on the fly, so their length cannot be checked against the headers.
+        const encoding = response.headers.get('content-encoding');
+        const verify = typeof bytesTotal === 'number' && (!encoding || encoding === 'identity');
+
+        let bytesDownloaded = offset;
+        const counter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                if (skip > 0) {
+                    const skipped = Math.min(skip, chunk.length);
+                    chunk = chunk.subarray(skipped);
+                    skip -= skipped;
+                }
+
+                if (chunk.length > 0) {
+                    bytesDownloaded += chunk.length;
+                    options.onProgress?.({
+                        bytesDownloaded,
+                        bytesTotal,
+                        progress: bytesTotal ? bytesDownloaded / bytesTotal * 100 : undefined,
+                    });
+                }
+
+                callback(null, chunk);
+            },
+            flush(callback) {
+                if (verify && bytesDownloaded !== bytesTotal) {
+                    callback(new AppwriteException(`Download incomplete: received ${bytesDownloaded} of ${bytesTotal} bytes`, 0, 'download_incomplete'));
+                    return;
+                }
+                callback();
+            },
+        });
+
+        if (!response.body) {
+            counter.end();
+            return counter;
+        }
+
+        const body = Readable.fromWeb(response.body as any);
+        body.on('error', (error: any) => {
+            counter.destroy(new NetworkError(error?.message ?? 'Download interrupted', error).withRequest({ method, url: url.toString() }));
+        });
+
+        return body.pipe(counter);
+    }
+
+    /**
+     * Download a response body to a file. With `resume`, an existing file is
+     * treated as the start of the download and only the rest is requested.
+     * Interrupted transfers are resumed from the last byte written, up to the
+     * retry policy's number of attempts.
+     */
+    async downloadToPath(method: string, url: URL, headers: Headers = {}, params: Payload = {}, path: string, options: DownloadOptions & { resume?: boolean } = {}): Promise<DownloadResult> {
+        const retry = { ...this.config.retry, ...options.retry };
+
+        for (let attempt = 1; ; attempt++) {
+            const offset = options.resume || attempt > 1 ? await stat(path).then((stats) => stats.size, () => 0) : 0;
+
+            try {
+                // This loop does the retrying, resuming from the bytes written, so each attempt is sent once.
+                const stream = await this.download(method, url, headers, params, { ...options, offset, retry: { ...retry, maxAttempts: 1 } });
+                await pipeline(stream, createWriteStream(path, { flags: offset > 0 ? 'a' : 'w' }), { signal: options.signal });
+            } catch (error: any) {
+                // The file already holds every byte the server has.
+                if (offset > 0 && error instanceof AppwriteException && error.code === 416) {
+                    break;
+                }
+
+                const interrupted = error instanceof AppwriteException && error.type === 'download_incomplete';
+                if (attempt >= Math.max(1, retry.maxAttempts) || options.signal?.aborted || !(interrupted || Client.isRetryable(error, retry))) {
+                    throw error;
+                }
+
+                await Client.sleep(Client.getRetryDelay(retry, attempt, error.retryAfter), options.signal);
+                continue;
             }
 
-            start = end;
+            break;
         }
 
-        return response;
+        return { path, size: (await stat(path)).size };
     }
 
     async ping(): Promise<string> {
         return this.call('GET', new URL(this.config.endpoint + '/ping'));
     }
 
-    async redirect(method: string, url: URL, headers: Headers = {}, params: Payload = {}): Promise<string> {
-        const { uri, options } = this.prepareRequest(method, url, headers, params);
-        
-        const response = await fetch(uri, {
-            ...options,
-            redirect: 'manual'
-        });
+    async redirect(method: string, url: URL, headers: Headers = {}, params: Payload = {}, requestOptions: RequestOptions = {}): Promise<string> {
+        const { uri, options } = this.prepareRequest(method, url, { ...headers, ...requestOptions.headers }, params);
+
+        const response = await this.dispatch({
+            method: options.method as string,
+            url: uri,
+            headers: options.headers as Headers,
+            body: options.body,
+            attempt: 1,
+        }, { redirect: 'manual', signal: requestOptions.signal, timeout: requestOptions.timeout });
 
         if (response.status !== 301 && response.status !== 302) {
             throw new AppwriteException('Invalid redirect', response.status);
@@ -294,56 +907,364 @@ class Client {
         return response.headers.get('location') || '';
     }
 
-    async call(method: string, url: URL, headers: Headers = {}, params: Payload = {}, responseType = 'json'): Promise<any> {
-        const { uri, options } = this.prepareRequest(method, url, headers, params);
+    async call(method: string, url: URL, headers: Headers = {}, params: Payload = {}, responseType = 'json', requestOptions: CallOptions = {}): Promise<any> {
+        // Files read on demand are only ever sent whole here, so read them in now.
+        for (const [key, value] of Object.entries(params)) {
+            if (value instanceof LazyFile) {
+                params = { ...params, [key]: await value.read() };
+            }
+        }
 
-        let data: any = null;
+        // Requests carrying a token that is being renewed wait for the new one.
+        const credentials = this.credentials;
+        let token = url.searchParams.get('token') ?? (typeof params['token'] === 'string' ? params['token'] : undefined);
+        if (credentials?.owns(token)) {
+            const current = await credentials.current(token);
+            if (current !== token) {
+                [url, params] = Client.withToken(url, params, current);
+                token = current;
+            }
+        }
+
+        headers = { ...headers, ...requestOptions.headers };
+        if (requestOptions.idempotencyKey) {
+            headers['idempotency-key'] = requestOptions.idempotencyKey;
+        }
+
+        const path = Client.getPath(url, this.config.endpoint);
+        const trace = this.telemetry?.startCall(method, url, path, requestOptions.parentSpan, requestOptions.spanAttributes);
+        if (trace) {
+            headers = { ...trace.headers(), ...headers };
+        }
+
+        const retry = { ...this.config.retry, ...requestOptions.retry };
+        const idempotent = requestOptions.idempotent ?? (!!requestOptions.idempotencyKey || retry.idempotentMethods.includes(method.toUpperCase()));
+        const maxAttempts = idempotent ? Math.max(1, retry.maxAttempts) : 1;
+        const limiter = this.rateLimiter;
+        let throttles = 0;
+
+        // Streams are handed to the caller as they arrive, so they cannot be kept.
+        const cache = method.toUpperCase() === 'GET' && responseType !== 'stream' ? this.cache : undefined;
+        let cacheKey: string | undefined;
 
-        // Create an AbortController for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+        // A request rejected for an expired token is sent once more, with a new one.
+        let renewed = false;
+        const renew = async (error?: any, data?: any): Promise<boolean> => {
+            if (renewed || !credentials?.owns(token) || !credentials.isExpired(error, data)) {
+                return false;
+            }
+
+            renewed = true;
+            token = await credentials.refresh(token);
+            [url, params] = Client.withToken(url, params, token);
+            if (cache) {
+                const { uri, options } = this.prepareRequest(method, new URL(url), headers, params);
+                cacheKey = cache.key(method, uri, options.headers as Headers);
+            }
+            return true;
+        };
 
         try {
-            const response = await fetch(uri, {
-                ...options,
-                signal: controller.signal
-            });
+            if (cache) {
+                const { uri, options } = this.prepareRequest(method, new URL(url), headers, params);
+                cacheKey = cache.key(method, uri, options.headers as Headers);
+
+                const entry = await cache.get(cacheKey).catch(() => undefined);
+                if (entry && cache.isFresh(entry)) {
+                    trace?.span?.setAttribute('eve.cache.hit', true);
+                    const data = await this.read(ResponseCache.toResponse(entry), method, url, uri, responseType);
+                    trace?.end(undefined, data);
+                    return data;
+                }
+            }
+
+            for (let attempt = 1; ; attempt++) {
+                requestOptions.signal?.throwIfAborted();
+
+                const release = await limiter?.acquire(path, requestOptions.signal);
+
+                try {
+                    let data: any;
+                    try {
+                        // prepareRequest appends GET params to the URL, so every attempt gets a fresh copy.
+                        data = await this.send(method, new URL(url), headers, params, responseType, attempt, requestOptions, trace, cacheKey);
+                    } finally {
+                        release?.();
+                    }
+
+                    if (limiter?.isThrottled(undefined, data)) {
+                        limiter.throttle(path);
+                        if (throttles++ < limiter.maxRetries) {
+                            continue;
+                        }
+                    } else {
+                        limiter?.succeeded(path);
+                    }
 
-            clearTimeout(timeoutId);
+                    if (await renew(undefined, data)) {
+                        continue;
+                    }
 
-            const warnings = response.headers.get('x-appwrite-warning');
-            if (warnings) {
-                warnings.split(';').forEach((warning: string) => console.warn('Warning: ' + warning));
+                    if (this.cache && method.toUpperCase() !== 'GET' && !(typeof data?.status_code === 'number' && data.status_code !== 0)) {
+                        await this.cache.mutated(path, params);
+                    }
+
+                    trace?.end(undefined, data);
+                    return data;
+                } catch (error: any) {
+                    // A throttled request was not processed, so it is queued again whatever its method.
+                    if (limiter?.isThrottled(error)) {
+                        limiter.throttle(path, error.retryAfter);
+                        if (throttles++ < limiter.maxRetries && !requestOptions.signal?.aborted) {
+                            continue;
+                        }
+                    }
+
+                    if (!requestOptions.signal?.aborted && await renew(error)) {
+                        continue;
+                    }
+
+                    if (attempt >= maxAttempts || requestOptions.signal?.aborted || !Client.isRetryable(error, retry)) {
+                        throw error;
+                    }
+
+                    await Client.sleep(Client.getRetryDelay(retry, attempt, error.retryAfter), requestOptions.signal);
+                }
+            }
+        } catch (error) {
+            trace?.end(error);
+            throw error;
+        }
+    }
+
+    private async send(method: string, url: URL, headers: Headers, params: Payload, responseType: string, attempt: number, requestOptions: RequestOptions, trace?: CallTrace, cacheKey?: string): Promise<any> {
+        const { uri, options } = this.prepareRequest(method, url, headers, params);
+        trace?.sent(attempt, options.body);
+
+        // A stale entry is sent back only if the server confirms it has not changed.
+        const entry = this.cache && cacheKey ? await this.cache.get(cacheKey).catch(() => undefined) : undefined;
+
+        let response = await this.dispatch({
+            method: options.method as string,
+            url: uri,
+            headers: { ...options.headers as Headers, ...this.cache?.conditionalHeaders(entry) },
+            body: options.body,
+            attempt,
+        }, { signal: requestOptions.signal, timeout: requestOptions.timeout });
+        trace?.received(response);
+
+        if (this.cache && cacheKey) {
+            if (response.status === 304 && entry) {
+                response = ResponseCache.toResponse(await this.cache.revalidated(cacheKey, entry, response).catch(() => entry));
+            } else if (response.status === 200) {
+                const body = new Uint8Array(await response.arrayBuffer());
+                // A cache that cannot be written to only costs a miss next time; the response is still good.
+                await this.cache.set(cacheKey, url, Client.getPath(url, this.config.endpoint), response, body).catch(() => undefined);
+                response = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
             }
+        }
+
+        return this.read(response, method, url, uri, responseType);
+    }
+
+    /**
+     * Parse a response, throwing for HTTP errors and, with status code
+     * errors enabled, for GuGoTik envelopes reporting a failure.
+     */
+    private async read(response: Response, method: string, url: URL, uri: string, responseType: string): Promise<any> {
+        method = method.toUpperCase();
+        let data: any = null;
+
+        const requestId = response.headers.get('x-request-id') ?? undefined;
 
-            if (response.headers.get('content-type')?.includes('application/json')) {
-                data = await response.json();
-            } else if (responseType === 'arrayBuffer') {
-                data = await response.arrayBuffer();
+        const warnings = response.headers.get('x-appwrite-warning');
+        if (warnings) {
+            warnings.split(';').forEach((warning: string) => console.warn('Warning: ' + redact(warning)));
+        }
+
+        if (responseType === 'stream' && response.status < 400) {
+            return response;
+        }
+
+        if (response.headers.get('content-type')?.includes('application/json')) {
+            data = await response.json();
+        } else if (responseType === 'arrayBuffer') {
+            data = await response.arrayBuffer();
+        } else {
+            data = {
+                message: await response.text()
+            };
+        }
+
+        if (400 <= response.status) {
+            let responseText = '';
+            if (response.headers.get('content-type')?.includes('application/json') || responseType === 'arrayBuffer') {
+                responseText = JSON.stringify(data);
             } else {
-                data = {
-                    message: await response.text()
-                };
+                responseText = data?.message;
+            }
+            const error = createHttpException(data?.message, response.status, data?.type, responseText);
+            error.retryAfter = Client.parseRetryAfter(response.headers.get('retry-after'));
+            throw error.withRequest({ method, url: uri, requestId, body: data });
+        }
+
+        if (this.config.statusCodeErrors && typeof data?.status_code === 'number' && data.status_code !== 0) {
+            throw GuGoTikException.from(data.status_code, data.status_msg ?? '', url.pathname, JSON.stringify(data))
+                .withRequest({ method, url: uri, requestId, body: data });
+        }
+
+        return data;
+    }
+
+    private dispatch(request: MiddlewareRequest, init: Pick<TransportRequest, 'redirect' | 'signal' | 'timeout'> = {}): Promise<Response> {
+        const run = (index: number, current: MiddlewareRequest): Promise<Response> => {
+            const middleware = this.middlewares[index];
+            if (middleware) {
+                return middleware(current, (next = current) => run(index + 1, next));
             }
 
-            if (400 <= response.status) {
-                let responseText = '';
-                if (response.headers.get('content-type')?.includes('application/json') || responseType === 'arrayBuffer') {
-                    responseText = JSON.stringify(data);
-                } else {
-                    responseText = data?.message;
+            return this.transport.send({
+                method: current.method,
+                url: current.url,
+                headers: current.headers,
+                body: current.body,
+                ...init,
+            }).catch((error: any) => {
+                // A cancelled call rejects with the abort reason, like fetch does.
+                if (init.signal?.aborted) {
+                    throw init.signal.reason;
                 }
-                throw new AppwriteException(data?.message, response.status, data?.type, responseText);
+
+                // Surface transport failures as AppwriteException so middlewares see the same error callers do.
+                const exception = error instanceof AppwriteException
+                    ? error
+                    : new NetworkError(error?.message ?? 'Network request failed', error);
+                throw exception.withRequest({ method: current.method, url: current.url });
+            });
+        };
+
+        return run(0, request);
+    }
+
+    /**
+     * Copies of `url` and `params` carrying `token` in place of the token
+     * a service put in them.
+     */
+    private static withToken(url: URL, params: Payload, token: string): [URL, Payload] {
+        url = new URL(url);
+        if (url.searchParams.has('token')) {
+            url.searchParams.set('token', token);
+        }
+        if ('token' in params) {
+            params = { ...params, token };
+        }
+        return [url, params];
+    }
+
+    /**
+     * Path of `url` below the endpoint, such as `/douyin/feed/` for an
+     * endpoint of `https://example.com/v1`.
+     */
+    static getPath(url: URL, endpoint: string): string {
+        const base = new URL(endpoint).pathname.replace(/\/$/, '');
+        return base && url.pathname.startsWith(base + '/') ? url.pathname.slice(base.length) : url.pathname;
+    }
+
+    static isRetryable(error: any, retry: RetryPolicy): boolean {
+        if (error instanceof AppwriteException && !(error instanceof NetworkError)) {
+            return retry.retryableStatusCodes.includes(error.code);
+        }
+
+        // Network failures keep the system error code on the error itself or on one of its causes.
+        for (let cause = error; cause; cause = cause.cause) {
+            if (typeof cause.code === 'string') {
+                return retry.retryableErrors.includes(cause.code);
             }
+        }
+
+        return false;
+    }
+
+    /**
+     * Whether a failure may go away by itself, for work that is tried again
+     * later rather than straight away: the server was not reached, timed out,
+     * was unavailable or throttled the request.
+     */
+    static isTransient(error: any, retry: RetryPolicy): boolean {
+        return error instanceof NetworkError
+            || error instanceof TimeoutError
+            || error instanceof ThrottledError
+            || Client.isRetryable(error, retry);
+    }
+
+    static getRetryDelay(retry: RetryPolicy, attempt: number, retryAfter?: number): number {
+        if (retry.respectRetryAfter && typeof retryAfter === 'number') {
+            return Math.min(retry.maxDelay, retryAfter);
+        }
+
+        const delay = Math.min(retry.maxDelay, retry.baseDelay * 2 ** (attempt - 1));
+        const jitter = Math.min(1, Math.max(0, retry.jitter));
+
+        return Math.round(delay * (1 - jitter * Math.random()));
+    }
 
-            return data;
-        } catch (error: any) {
-            clearTimeout(timeoutId);
-            if (error.name === 'AbortError') {
-                throw new AppwriteException(`Request timeout after ${this.config.timeout}ms`, 408, 'timeout_error');
+    /**
+     * Total size of a download, from `Content-Range` on partial responses or
+     * `Content-Length` plus the offset the body starts at.
+     */
+    static getDownloadSize(response: Response, offset: number): number | undefined {
+        const range = response.headers.get('content-range')?.match(/\/(\d+)$/);
+        if (range) {
+            return Number(range[1]);
+        }
+
+        const length = response.headers.get('content-length');
+        if (length !== null && !Number.isNaN(Number(length))) {
+            return offset + Number(length);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Wait `delay` milliseconds, rejecting with the abort reason as soon as `signal` aborts.
+     */
+    static sleep(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
             }
-            throw error;
+
+            const abort = () => {
+                clearTimeout(timer);
+                reject(signal?.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', abort);
+                resolve();
+            }, delay);
+
+            signal?.addEventListener('abort', abort, { once: true });
+        });
+    }
+
+    static parseRetryAfter(value: string | null): number | undefined {
+        if (!value) {
+            return undefined;
         }
+
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(value);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+
+        return undefined;
     }
 
     static flatten(data: Payload, prefix = ''): Payload {
@@ -364,5 +1285,5 @@ class Client {
 
 export { Client, AppwriteException };
 export { Query } from './query';
-export type { Models, Payload, UploadProgress };
+export type { Models, CredentialTransport, Payload, UploadProgress, DownloadProgress, DownloadOptions, DownloadResult, RetryPolicy, RequestOptions, Middleware, MiddlewareRequest, MiddlewareNext };
 export type { QueryTypes, QueryTypesList } from './query';
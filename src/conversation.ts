@@ -0,0 +1,346 @@
+import { once } from 'events';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { AppwriteException, GuGoTikException } from './exceptions';
+import type { Message, MessageService } from './services/message';
+import type { MessageWatch, MessageWatchOptions } from './message-watch';
+
+/**
+ * Where a `Conversation` keeps the messages it has fetched, so a later
+ * `sync` only asks for what is new.
+ */
+interface ConversationStore {
+    read(key: string): Promise<Message[]> | Message[];
+    append(key: string, messages: Message[]): Promise<void> | void;
+}
+
+class MemoryConversationStore implements ConversationStore {
+    private conversations = new Map<string, Message[]>();
+
+    read(key: string): Message[] {
+        return [...this.conversations.get(key) ?? []];
+    }
+
+    append(key: string, messages: Message[]): void {
+        this.conversations.set(key, [...this.conversations.get(key) ?? [], ...messages]);
+    }
+}
+
+/**
+ * Keeps each conversation as a JSON Lines file in `directory`, appending
+ * new messages to it.
+ */
+class FileConversationStore implements ConversationStore {
+    directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async read(key: string): Promise<Message[]> {
+        let text: string;
+        try {
+            text = await readFile(this.path(key), 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const messages: Message[] = [];
+        for (const line of text.split('\n')) {
+            try {
+                if (line.trim()) {
+                    messages.push(JSON.parse(line));
+                }
+            } catch (error) {
+                // A line cut short by a crash is fetched again by the next sync.
+                if (!(error instanceof SyntaxError)) {
+                    throw error;
+                }
+            }
+        }
+        return messages;
+    }
+
+    async append(key: string, messages: Message[]): Promise<void> {
+        if (messages.length === 0) {
+            return;
+        }
+
+        await mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await appendFile(this.path(key), messages.map((message) => JSON.stringify(message) + '\n').join(''), { mode: 0o600 });
+    }
+
+    private path(key: string): string {
+        return join(this.directory, key + '.jsonl');
+    }
+}
+
+type ConversationOptions = {
+    /** Defaults to the client identity. */
+    actorId?: number;
+    /** Defaults to the client token. */
+    token?: string;
+    /** Defaults to a `MemoryConversationStore`. */
+    store?: ConversationStore;
+    /**
+     * How the backend reads `pre_msg_time`: `after` returns the messages
+     * created after it, as GuGoTik does, and `before` returns a page of those
+     * created before it, newest first. Defaults to `after`.
+     */
+    paging?: 'after' | 'before';
+    /** Most requests made by one `sync`. Defaults to 1000. */
+    maxPages?: number;
+}
+
+type ConversationFormat = 'jsonl' | 'csv' | 'html';
+
+/**
+ * The chat between two users as one timeline, sent and received messages
+ * together, ordered by `create_time`.
+ *
+ * `sync` fetches the messages the local store does not have yet, page by
+ * page, and appends them to it. `export` and `exportTo` write the timeline
+ * as JSON Lines, CSV or an HTML page.
+ */
+class Conversation {
+    readonly actorId: number;
+    readonly peerId: number;
+    readonly store: ConversationStore;
+    private readonly service: MessageService;
+    private readonly options: ConversationOptions;
+    private messages = new Map<number, Message>();
+    private loading?: Promise<void>;
+
+    constructor(service: MessageService, peerId: number, options: ConversationOptions = {}) {
+        const actorId = options.actorId ?? service.client.config.actorId;
+        if (typeof actorId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "actorId"');
+        }
+
+        this.service = service;
+        this.actorId = actorId;
+        this.peerId = peerId;
+        this.options = options;
+        this.store = options.store ?? new MemoryConversationStore();
+    }
+
+    /**
+     * Name of the conversation in the store.
+     */
+    get key(): string {
+        return `${this.actorId}-${this.peerId}`;
+    }
+
+    /**
+     * The messages fetched so far, oldest first.
+     */
+    async timeline(): Promise<Message[]> {
+        await this.load();
+        return Conversation.order([...this.messages.values()]);
+    }
+
+    /**
+     * Fetch the messages missing from the store and keep them. Returns those,
+     * oldest first.
+     */
+    async sync(): Promise<Message[]> {
+        await this.load();
+
+        const maxPages = Math.max(1, this.options.maxPages ?? 1000);
+        const added: Message[] = [];
+
+        if ((this.options.paging ?? 'after') === 'after') {
+            let cursor = this.newest();
+            for (let page = 0; page < maxPages; page++) {
+                const fresh = await this.fetch(cursor);
+                if (fresh.length === 0) {
+                    break;
+                }
+
+                added.push(...fresh);
+                cursor = fresh.reduce((newest, message) => Math.max(newest, message.create_time), cursor);
+            }
+        } else {
+            // Walk back from now until the pages hold known messages, then on from the oldest one kept, in case an earlier sync stopped short.
+            let cursor = Date.now();
+            let resumed = false;
+            for (let page = 0; page < maxPages; page++) {
+                const fresh = await this.fetch(cursor);
+                added.push(...fresh);
+
+                if (fresh.length > 0) {
+                    cursor = fresh.reduce((oldest, message) => Math.min(oldest, message.create_time), Infinity);
+                } else if (!resumed && this.messages.size > 0 && this.oldest() < cursor) {
+                    resumed = true;
+                    cursor = this.oldest();
+                } else {
+                    break;
+                }
+            }
+        }
+
+        return Conversation.order(added);
+    }
+
+    /**
+     * Follow new messages as they arrive, keeping them in the store too. If
+     * one cannot be kept, the watch ends with that error rather than leave a
+     * gap in the stored history.
+     */
+    async watch(options: Omit<MessageWatchOptions, 'actorId' | 'token' | 'preMsgTime'> = {}): Promise<MessageWatch> {
+        await this.load();
+
+        const watch = this.service.watch(this.peerId, {
+            ...options,
+            actorId: this.actorId,
+            token: this.options.token,
+            preMsgTime: this.newest(),
+        });
+        watch.on('message', (message) => {
+            this.keep([message]).catch((error) => watch.close(error));
+        });
+        return watch;
+    }
+
+    /**
+     * The timeline as JSON Lines, CSV or an HTML page.
+     */
+    async export(format: ConversationFormat): Promise<string> {
+        return [...this.render(format, await this.timeline())].join('');
+    }
+
+    /**
+     * Write the timeline to `output`, a piece at a time. The stream is left
+     * open.
+     */
+    async exportTo(format: ConversationFormat, output: NodeJS.WritableStream): Promise<void> {
+        for (const chunk of this.render(format, await this.timeline())) {
+            if (!output.write(chunk)) {
+                await once(output as any, 'drain');
+            }
+        }
+    }
+
+    private load(): Promise<void> {
+        this.loading = this.loading ?? (async () => {
+            for (const message of await this.store.read(this.key)) {
+                this.messages.set(message.id, message);
+            }
+        })();
+        return this.loading;
+    }
+
+    /**
+     * Request the page at `cursor` and keep the messages not seen before.
+     */
+    private async fetch(cursor: number): Promise<Message[]> {
+        const response = await this.service.listMessages({
+            toUserId: this.peerId,
+            actorId: this.actorId,
+            token: this.options.token,
+            preMsgTime: cursor,
+        });
+
+        if (typeof response?.status_code === 'number' && response.status_code !== 0) {
+            throw GuGoTikException.from(response.status_code, response.status_msg ?? '', '/douyin/message/chat/', JSON.stringify(response));
+        }
+
+        return this.keep(response?.message_list ?? []);
+    }
+
+    private async keep(messages: Message[]): Promise<Message[]> {
+        const fresh: Message[] = [];
+        for (const message of messages) {
+            if (!this.messages.has(message.id)) {
+                this.messages.set(message.id, message);
+                fresh.push(message);
+            }
+        }
+        await this.store.append(this.key, fresh);
+        return fresh;
+    }
+
+    private newest(): number {
+        let newest = 0;
+        for (const message of this.messages.values()) {
+            newest = Math.max(newest, message.create_time);
+        }
+        return newest;
+    }
+
+    private oldest(): number {
+        let oldest = Infinity;
+        for (const message of this.messages.values()) {
+            oldest = Math.min(oldest, message.create_time);
+        }
+        return oldest;
+    }
+
+    private direction(message: Message): 'sent' | 'received' {
+        return message.from_user_id === this.actorId ? 'sent' : 'received';
+    }
+
+    private *render(format: ConversationFormat, messages: Message[]): Generator<string> {
+        switch (format) {
+            case 'jsonl':
+                for (const message of messages) {
+                    yield JSON.stringify({ ...message, time: new Date(message.create_time).toISOString(), direction: this.direction(message) }) + '\n';
+                }
+                return;
+
+            case 'csv':
+                yield 'id,time,from_user_id,to_user_id,direction,content\r\n';
+                for (const message of messages) {
+                    yield [
+                        message.id,
+                        new Date(message.create_time).toISOString(),
+                        message.from_user_id ?? '',
+                        message.to_user_id ?? '',
+                        this.direction(message),
+                        message.content,
+                    ].map(Conversation.csv).join(',') + '\r\n';
+                }
+                return;
+
+            case 'html':
+                const title = Conversation.html(`Conversation between users ${this.actorId} and ${this.peerId}`);
+                yield `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${title}</title>\n`
+                    + '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top}tr.sent td{background:#eef6ff}</style>\n'
+                    + `</head>\n<body>\n<h1>${title}</h1>\n<table>\n<tr><th>Time</th><th>From</th><th>To</th><th>Message</th></tr>\n`;
+                for (const message of messages) {
+                    yield `<tr class="${this.direction(message)}"><td>${new Date(message.create_time).toISOString()}</td>`
+                        + `<td>${Conversation.html(String(message.from_user_id ?? ''))}</td><td>${Conversation.html(String(message.to_user_id ?? ''))}</td>`
+                        + `<td>${Conversation.html(message.content).replace(/\n/g, '<br>')}</td></tr>\n`;
+                }
+                yield '</table>\n</body>\n</html>\n';
+                return;
+
+            default:
+                throw new AppwriteException(`Unknown export format: ${format}`);
+        }
+    }
+
+    private static order(messages: Message[]): Message[] {
+        return messages.sort((a, b) => a.create_time - b.create_time || a.id - b.id);
+    }
+
+    private static csv(value: string | number): string {
+        let text = String(value);
+
+        // Spreadsheets run cells starting with these as formulas.
+        if (/^[=+\-@\t\r]/.test(text)) {
+            text = "'" + text;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+
+    private static html(text: string): string {
+        return text.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+    }
+}
+
+export { Conversation, MemoryConversationStore, FileConversationStore };
+export type { ConversationStore, ConversationOptions, ConversationFormat };
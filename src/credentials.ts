@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import { mkdir, readFile, rm } from 'fs/promises';
+import { dirname } from 'path';
+import { writeAtomic } from './atomic-write';
+import { AppwriteException, GuGoTikException } from './exceptions';
+import { GuGoTikStatusCode } from './enums/gugotik-status-code';
+import { Auth } from './services/auth';
+import type { Client } from './client';
+
+type TokenSet = {
+    token: string;
+    /** GuGoTik user the token belongs to. It becomes the client actor ID. */
+    userId?: number;
+    /** When the token was obtained, in milliseconds since the epoch. */
+    issuedAt?: number;
+}
+
+/**
+ * Where a `CredentialProvider` keeps the current token so it survives a
+ * restart.
+ */
+interface TokenStore {
+    get(): Promise<TokenSet | undefined> | TokenSet | undefined;
+    set(tokens: TokenSet | undefined): Promise<void> | void;
+}
+
+class MemoryTokenStore implements TokenStore {
+    private tokens?: TokenSet;
+
+    get(): TokenSet | undefined {
+        return this.tokens;
+    }
+
+    set(tokens: TokenSet | undefined): void {
+        this.tokens = tokens;
+    }
+}
+
+/**
+ * Keeps the token in a JSON file only its owner can read.
+ */
+class FileTokenStore implements TokenStore {
+    path: string;
+
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    async get(): Promise<TokenSet | undefined> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(tokens: TokenSet | undefined): Promise<void> {
+        if (!tokens) {
+            await rm(this.path, { force: true });
+            return;
+        }
+
+        await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+        await writeAtomic(this.path, JSON.stringify(tokens), 0o600);
+    }
+}
+
+type CredentialProviderOptions = {
+    /** Logged in with to obtain a new token, unless `refresh` is given. */
+    username?: string;
+    password?: string;
+    /** Obtains a new token in place of logging in. Receives the expired one. */
+    refresh?: (expired: TokenSet) => Promise<TokenSet>;
+    /** Defaults to a `MemoryTokenStore`. */
+    store?: TokenStore;
+    /** GuGoTik status codes meaning the token is no longer valid. Defaults to `AuthUserNeeded`. */
+    expiredStatusCodes?: number[];
+    /** Matched against `status_msg` to recognise other expired-token responses. */
+    expiredMessage?: RegExp;
+}
+
+interface CredentialProvider {
+    on(event: 'tokenRefreshed', listener: (tokens: TokenSet, expired: TokenSet) => void): this;
+    on(event: 'refreshFailed', listener: (error: unknown, expired: TokenSet) => void): this;
+    once(event: 'tokenRefreshed', listener: (tokens: TokenSet, expired: TokenSet) => void): this;
+    once(event: 'refreshFailed', listener: (error: unknown, expired: TokenSet) => void): this;
+}
+
+/**
+ * Keeps the client identity valid. When a request is rejected because its
+ * token expired, the provider logs in again (or calls `refresh`) once, holds
+ * back the other requests carrying the old token until it is done, and the
+ * client sends them all again with the new token.
+ *
+ * Emits `tokenRefreshed` with the new and expired tokens, and
+ * `refreshFailed` when a new token could not be obtained.
+ */
+class CredentialProvider extends EventEmitter {
+    readonly store: TokenStore;
+    private readonly client: Client;
+    private readonly options: CredentialProviderOptions;
+    private readonly expiredStatusCodes: number[];
+    private readonly expiredMessage: RegExp;
+    /** Tokens this provider has replaced, which requests may still carry. */
+    private readonly replaced = new Set<string>();
+    private refreshing?: Promise<TokenSet>;
+
+    constructor(client: Client, options: CredentialProviderOptions) {
+        super();
+
+        if (!options.refresh && (typeof options.username === 'undefined' || typeof options.password === 'undefined')) {
+            throw new AppwriteException('Credentials need a username and password, or a refresh callback');
+        }
+
+        this.client = client;
+        this.options = options;
+        this.store = options.store ?? new MemoryTokenStore();
+        this.expiredStatusCodes = options.expiredStatusCodes ?? [GuGoTikStatusCode.AuthUserNeeded];
+        this.expiredMessage = options.expiredMessage ?? /token.*(expired|invalid)|(expired|invalid).*token/i;
+    }
+
+    /**
+     * Make the stored token, if any, the client identity. Returns it.
+     */
+    async load(): Promise<TokenSet | undefined> {
+        const tokens = await this.store.get();
+        if (tokens?.token) {
+            this.apply(tokens);
+        }
+        return tokens;
+    }
+
+    /**
+     * Make `tokens` the client identity and keep them in the store. `Auth`
+     * calls this after logging in or registering.
+     */
+    async save(tokens: TokenSet): Promise<void> {
+        tokens = { ...tokens, issuedAt: tokens.issuedAt ?? Date.now() };
+        this.apply(tokens);
+        await this.store.set(tokens);
+    }
+
+    /**
+     * Whether a request sent with `token` is renewed when it expires: the
+     * client token, or one the provider has already replaced. Tokens of other
+     * sessions are left alone.
+     */
+    owns(token: string | undefined): token is string {
+        return !!token && (token === this.client.config.token || this.replaced.has(token));
+    }
+
+    /**
+     * Whether a response or error says the token it was sent with is no
+     * longer valid: an HTTP 401, or a GuGoTik envelope with an expired-token
+     * status code or message.
+     */
+    isExpired(error?: any, data?: any): boolean {
+        if (error instanceof GuGoTikException) {
+            return this.isExpiredStatus(error.statusCode, error.statusMsg);
+        }
+        if (error) {
+            return error instanceof AppwriteException && error.code === 401;
+        }
+        return typeof data?.status_code === 'number' && this.isExpiredStatus(data.status_code, data.status_msg);
+    }
+
+    /**
+     * The token to send in place of `token`, after waiting for a refresh in
+     * flight.
+     */
+    async current(token: string): Promise<string> {
+        await this.refreshing?.catch(() => undefined);
+        return this.replaced.has(token) && this.client.config.token ? this.client.config.token : token;
+    }
+
+    /**
+     * Obtain a new token after `expired` was rejected. Concurrent callers
+     * share one attempt, and a token that was already replaced resolves to
+     * its replacement without logging in again.
+     */
+    refresh(expired: string): Promise<string> {
+        if (!this.refreshing && this.replaced.has(expired) && this.client.config.token) {
+            return Promise.resolve(this.client.config.token);
+        }
+
+        if (!this.refreshing) {
+            this.refreshing = this.reauthenticate(expired).finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing.then((tokens) => tokens.token);
+    }
+
+    private async reauthenticate(token: string): Promise<TokenSet> {
+        const expired: TokenSet = { token, userId: this.client.config.actorId };
+
+        // Logging in replaces the client token before this returns, so requests still carrying the old one must already count as owned.
+        this.replaced.add(token);
+
+        try {
+            let tokens: TokenSet;
+            if (this.options.refresh) {
+                tokens = await this.options.refresh(expired);
+                await this.save(tokens);
+            } else {
+                // Login requests carry no token, so they are not held back behind this refresh.
+                const response = await new Auth(this.client).login(this.options.username as string, this.options.password as string);
+                if (response.status_code !== 0 || !response.token) {
+                    throw GuGoTikException.from(response.status_code, response.status_msg ?? '', '/douyin/user/login/', JSON.stringify(response));
+                }
+                tokens = { token: response.token, userId: response.user_id };
+
+                // `Auth` has saved the token already if this is the client's provider.
+                if (this.client.credentials !== this) {
+                    await this.save(tokens);
+                }
+            }
+
+            this.emit('tokenRefreshed', tokens, expired);
+            return tokens;
+        } catch (error) {
+            this.replaced.delete(token);
+            this.emit('refreshFailed', error, expired);
+            throw error;
+        }
+    }
+
+    private apply(tokens: TokenSet): void {
+        this.client.setToken(tokens.token);
+        if (typeof tokens.userId !== 'undefined') {
+            this.client.setActorId(tokens.userId);
+        }
+    }
+
+    private isExpiredStatus(statusCode: number, statusMsg: string | undefined): boolean {
+        return statusCode !== 0 && (this.expiredStatusCodes.includes(statusCode) || this.expiredMessage.test(statusMsg ?? ''));
+    }
+}
+
+export { CredentialProvider, MemoryTokenStore, FileTokenStore };
+export type { TokenSet, TokenStore, CredentialProviderOptions };
@@ -0,0 +1,10 @@
+export enum GuGoTikStatusCode {
+    Success = 0,
+    UserExisted = 10001,
+    UserNotExisted = 10002,
+    LoginFailed = 10003,
+    AuthUserNeeded = 10004,
+    CommentLimited = 10006,
+    FollowSelf = 10009,
+    FollowRepeated = 10011,
+}
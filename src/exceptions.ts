@@ -0,0 +1,255 @@
+import { GuGoTikStatusCode } from './enums/gugotik-status-code';
+import { redact, redactValue } from './redact';
+
+type RequestDetails = {
+    method?: string;
+    url?: string;
+    requestId?: string;
+    body?: any;
+}
+
+class AppwriteException extends Error {
+    code: number;
+    response: string;
+    type: string;
+    retryAfter?: number;
+    method?: string;
+    url?: string;
+    /** Value of the `x-request-id` response header, if the server sent one. */
+    requestId?: string;
+    /** Parsed response body. */
+    body?: any;
+    constructor(message: string, code: number = 0, type: string = '', response: string = '') {
+        // Errors end up in logs, so tokens and passwords are masked before they are kept.
+        super(redact(message));
+        this.name = 'AppwriteException';
+        this.message = redact(message);
+        this.code = code;
+        this.type = type;
+        this.response = redact(response);
+    }
+
+    withRequest(details: RequestDetails): this {
+        this.method = details.method;
+        this.url = details.url && redact(details.url);
+        this.requestId = details.requestId;
+        this.body = redactValue(details.body);
+        return this;
+    }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+class TimeoutError extends AppwriteException {
+    constructor(message: string, code: number = 408, type: string = 'timeout_error', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * The request failed before a response was received, such as a refused
+ * connection or a reset socket. The original error is kept as `cause`.
+ */
+class NetworkError extends AppwriteException {
+    cause?: any;
+    constructor(message: string, cause?: any) {
+        super(message, 0, 'network_error');
+        this.name = 'NetworkError';
+        this.cause = cause;
+    }
+}
+
+class ValidationError extends AppwriteException {
+    constructor(message: string, code: number = 400, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'ValidationError';
+    }
+}
+
+class AuthenticationError extends AppwriteException {
+    constructor(message: string, code: number = 401, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'AuthenticationError';
+    }
+}
+
+class PermissionError extends AppwriteException {
+    constructor(message: string, code: number = 403, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'PermissionError';
+    }
+}
+
+class NotFoundError extends AppwriteException {
+    constructor(message: string, code: number = 404, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'NotFoundError';
+    }
+}
+
+class ConflictError extends AppwriteException {
+    constructor(message: string, code: number = 409, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'ConflictError';
+    }
+}
+
+class RateLimitError extends AppwriteException {
+    constructor(message: string, code: number = 429, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'RateLimitError';
+    }
+}
+
+class ServerError extends AppwriteException {
+    constructor(message: string, code: number = 500, type: string = '', response: string = '') {
+        super(message, code, type, response);
+        this.name = 'ServerError';
+    }
+}
+
+/**
+ * Pick the exception class for an HTTP error from the server `type` field,
+ * falling back to the status code.
+ */
+function createHttpException(message: string, code: number, type: string = '', response: string = ''): AppwriteException {
+    let Exception: typeof AppwriteException = AppwriteException;
+
+    if (type === 'general_rate_limit_exceeded') {
+        Exception = RateLimitError;
+    } else if (type.endsWith('_not_found')) {
+        Exception = NotFoundError;
+    } else if (type.endsWith('_already_exists')) {
+        Exception = ConflictError;
+    } else if (code === 400 || code === 422) {
+        Exception = ValidationError;
+    } else if (code === 401) {
+        Exception = AuthenticationError;
+    } else if (code === 403) {
+        Exception = PermissionError;
+    } else if (code === 404) {
+        Exception = NotFoundError;
+    } else if (code === 408) {
+        Exception = TimeoutError;
+    } else if (code === 409) {
+        Exception = ConflictError;
+    } else if (code === 429) {
+        Exception = RateLimitError;
+    } else if (code >= 500) {
+        Exception = ServerError;
+    }
+
+    return new Exception(message, code, type, response);
+}
+
+/**
+ * A GuGoTik endpoint answered with a non-zero `status_code` in its envelope.
+ * `code` holds the same value as `statusCode`.
+ */
+class GuGoTikException extends AppwriteException {
+    statusCode: number;
+    statusMsg: string;
+    endpoint: string;
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusMsg, statusCode, 'gugotik_status', response);
+        this.name = 'GuGoTikException';
+        this.statusCode = statusCode;
+        this.statusMsg = redact(statusMsg);
+        this.endpoint = endpoint;
+    }
+
+    /**
+     * Status codes mapped to a dedicated subclass. Extend it to map codes of
+     * a customised backend.
+     */
+    static codes: { [statusCode: number]: typeof GuGoTikException } = {};
+
+    static from(statusCode: number, statusMsg: string, endpoint: string, response: string = ''): GuGoTikException {
+        const Exception = GuGoTikException.codes[statusCode] ?? GuGoTikException;
+        return new Exception(statusCode, statusMsg, endpoint, response);
+    }
+}
+
+class InvalidTokenError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'InvalidTokenError';
+    }
+}
+
+class UserNotFoundError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'UserNotFoundError';
+    }
+}
+
+class UserExistsError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'UserExistsError';
+    }
+}
+
+class LoginFailedError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'LoginFailedError';
+    }
+}
+
+class DuplicateFollowError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'DuplicateFollowError';
+    }
+}
+
+class FollowSelfError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'FollowSelfError';
+    }
+}
+
+class ThrottledError extends GuGoTikException {
+    constructor(statusCode: number, statusMsg: string, endpoint: string, response: string = '') {
+        super(statusCode, statusMsg, endpoint, response);
+        this.name = 'ThrottledError';
+    }
+}
+
+GuGoTikException.codes = {
+    [GuGoTikStatusCode.UserExisted]: UserExistsError,
+    [GuGoTikStatusCode.UserNotExisted]: UserNotFoundError,
+    [GuGoTikStatusCode.LoginFailed]: LoginFailedError,
+    [GuGoTikStatusCode.AuthUserNeeded]: InvalidTokenError,
+    [GuGoTikStatusCode.CommentLimited]: ThrottledError,
+    [GuGoTikStatusCode.FollowSelf]: FollowSelfError,
+    [GuGoTikStatusCode.FollowRepeated]: DuplicateFollowError,
+};
+
+export {
+    AppwriteException,
+    TimeoutError,
+    NetworkError,
+    ValidationError,
+    AuthenticationError,
+    PermissionError,
+    NotFoundError,
+    ConflictError,
+    RateLimitError,
+    ServerError,
+    createHttpException,
+    GuGoTikException,
+    InvalidTokenError,
+    UserNotFoundError,
+    UserExistsError,
+    LoginFailedError,
+    DuplicateFollowError,
+    FollowSelfError,
+    ThrottledError,
+};
+export type { RequestDetails };
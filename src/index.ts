@@ -1,6 +1,25 @@
 // GuGoTik SDK Exports
 export { Client, AppwriteException } from './client';
-export type { Payload, UploadProgress } from './client';
+export {
+    TimeoutError,
+    NetworkError,
+    ValidationError,
+    AuthenticationError,
+    PermissionError,
+    NotFoundError,
+    ConflictError,
+    RateLimitError,
+    ServerError,
+    GuGoTikException,
+    InvalidTokenError,
+    UserNotFoundError,
+    UserExistsError,
+    LoginFailedError,
+    DuplicateFollowError,
+    FollowSelfError,
+    ThrottledError,
+} from './exceptions';
+export type { CredentialTransport, Payload, UploadProgress, DownloadProgress, DownloadOptions, DownloadResult, RetryPolicy, RequestOptions, Middleware, MiddlewareRequest, MiddlewareNext } from './client';
 
 // GuGoTik Services
 export { Auth } from './services/auth';
@@ -12,6 +31,27 @@ export { Favorite } from './services/favorite';
 export { Relation } from './services/relation';
 export { MessageService, type Message } from './services/message';
 export { GuGoTikStorage } from './services/gugotik-storage';
+export { MessageWatch } from './message-watch';
+export type { MessageWatchOptions, MessageWatchTransport } from './message-watch';
+export { Outbox, MemoryOutboxStore, FileOutboxStore } from './outbox';
+export type { OutboxItem, OutboxAction, OutboxStore, OutboxOptions } from './outbox';
+export { Conversation, MemoryConversationStore, FileConversationStore } from './conversation';
+export type { ConversationStore, ConversationOptions, ConversationFormat } from './conversation';
+export { Session } from './session';
+export { MemoryUploadStore, FileUploadStore } from './upload-store';
+export type { UploadState, UploadStore } from './upload-store';
+export { NodeFetchTransport, FetchTransport } from './transport';
+export type { Transport, TransportRequest, TransportOptions, FetchTransportOptions } from './transport';
+export type { TelemetryOptions, Tracer, Span, Meter, Counter, Histogram, Attributes, AttributeValue } from './telemetry';
+export type { RateLimit, RateLimiterOptions, RateLimitStats, RateLimiterStats } from './rate-limiter';
+export { MemoryCacheStore, FileCacheStore, defaultInvalidations } from './response-cache';
+export type { CacheEntry, CacheStore, CacheInvalidation, ResponseCacheOptions } from './response-cache';
+export { CredentialProvider, MemoryTokenStore, FileTokenStore } from './credentials';
+export type { TokenSet, TokenStore, CredentialProviderOptions } from './credentials';
+export { Loader, Loaders } from './loader';
+export type { LoaderOptions, BatchFunction } from './loader';
+export { Cassette } from './cassette';
+export type { CassetteEntry, CassetteOptions } from './cassette';
 
 // Legacy Appwrite Services (kept for backward compatibility)
 export { Account } from './services/account';
@@ -36,6 +76,7 @@ export type { QueryTypes, QueryTypesList } from './query';
 export { Permission } from './permission';
 export { Role } from './role';
 export { ID } from './id';
+export { redact, redactValue } from './redact';
 export { Operator, Condition } from './operator';
 
 // Enums
@@ -77,3 +118,4 @@ export { ExecutionStatus } from './enums/execution-status';
 export { HealthAntivirusStatus } from './enums/health-antivirus-status';
 export { HealthCheckStatus } from './enums/health-check-status';
 export { MessageStatus } from './enums/message-status';
+export { GuGoTikStatusCode } from './enums/gugotik-status-code';
@@ -1,6 +1,46 @@
 import { File } from "node-fetch-native-with-agent";
-import { realpathSync, readFileSync } from "fs";
+import { realpathSync, statSync } from "fs";
+import { open } from "fs/promises";
 import type { BinaryLike } from "crypto";
+import type { Readable } from "stream";
+
+type RangeReader = (start: number, end: number) => Promise<Uint8Array>;
+
+/**
+ * A File whose content stays where it is until a byte range is asked for.
+ * Chunked uploads read one chunk at a time, so memory use does not grow with
+ * the file size.
+ */
+export class LazyFile extends File {
+  /** False when the content can only be read once, front to back. */
+  readonly seekable: boolean;
+  private readonly reader: RangeReader;
+
+  constructor(name: string, size: number, reader: RangeReader, seekable: boolean) {
+    super([], name);
+    // The File itself holds no bytes, so report the size of the real content.
+    Object.defineProperty(this, "size", { value: size });
+    this.reader = reader;
+    this.seekable = seekable;
+  }
+
+  /**
+   * Read a byte range into memory as a regular File.
+   */
+  async read(start: number = 0, end: number = this.size): Promise<File> {
+    return new File([await this.reader(start, Math.min(end, this.size))], this.name);
+  }
+}
+
+/**
+ * Read a byte range of any file, lazy or not.
+ */
+export async function readRange(file: Blob, start: number, end: number): Promise<Blob> {
+  if (file instanceof LazyFile) {
+    return file.read(start, end);
+  }
+  return file.slice(start, end);
+}
 
 export class InputFile {
   static fromBuffer(
@@ -10,10 +50,76 @@ export class InputFile {
     return new File([parts], name);
   }
 
+  /**
+   * Reference a file on disk. Only the byte ranges being uploaded are read.
+   */
   static fromPath(path: string, name: string): File {
     const realPath = realpathSync(path);
-    const contents = readFileSync(realPath);
-    return this.fromBuffer(contents, name);
+    const { size } = statSync(realPath);
+
+    return new LazyFile(name, size, async (start, end) => {
+      const handle = await open(realPath, "r");
+      try {
+        const buffer = new Uint8Array(end - start);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    }, true);
+  }
+
+  /**
+   * Upload from a stream of known size. The stream is consumed once, in
+   * order, so uploads of streamed files cannot be resumed.
+   */
+  static fromStream(stream: Readable | AsyncIterable<Uint8Array>, name: string, size: number): File {
+    const iterator = stream[Symbol.asyncIterator]();
+    let position = 0;
+    let buffered = new Uint8Array(0);
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const take = async (start: number, end: number): Promise<Uint8Array> => {
+      if (start < position) {
+        throw new Error(`Cannot read bytes ${start}-${end - 1} of a stream already read up to ${position}`);
+      }
+
+      const parts = [buffered];
+      let available = buffered.length;
+
+      while (position + available < end) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          break;
+        }
+
+        const chunk = typeof value === "string" ? new TextEncoder().encode(value) : new Uint8Array(value);
+        parts.push(chunk);
+        available += chunk.length;
+      }
+
+      const bytes = new Uint8Array(available);
+      let offset = 0;
+      for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+      }
+
+      // `bytes` holds the stream from `position` on; keep what lies past `end` for the next read.
+      const consumed = Math.min(available, end - position);
+      const range = bytes.slice(start - position, consumed);
+      buffered = bytes.slice(consumed);
+      position += consumed;
+
+      return range;
+    };
+
+    return new LazyFile(name, size, (start, end) => {
+      // Reads may be requested concurrently, but the stream has to be consumed in order.
+      const result = queue.then(() => take(start, end));
+      queue = result.catch(() => undefined);
+      return result;
+    }, false);
   }
 
   static fromPlainText(content: string, name: string): File {
@@ -0,0 +1,186 @@
+import { AppwriteException, GuGoTikException, NotFoundError } from './exceptions';
+import { UserService, type User } from './services/user';
+import { Feed, type Video } from './services/feed';
+import type { Client } from './client';
+
+type LoaderOptions<K> = {
+    /** Keep results once their request has finished, until `clear`. Defaults to true. */
+    cache?: boolean;
+    /** Largest number of keys handed to one call of the batch function. */
+    maxBatchSize?: number;
+    /** Turns a key into the value it is cached under, for keys that are not primitives. */
+    cacheKey?: (key: K) => unknown;
+}
+
+/**
+ * Receives the keys requested during one tick, without duplicates, and
+ * resolves to one value or `Error` per key, in the same order.
+ */
+type BatchFunction<K, V> = (keys: K[]) => Promise<(V | Error)[]>;
+
+type Pending<K, V> = {
+    key: K;
+    resolve: (value: V) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Merges identical loads into a single request and collects the keys
+ * loaded during the same tick into one batch, in the manner of DataLoader.
+ */
+class Loader<K, V> {
+    private readonly batch: BatchFunction<K, V>;
+    private readonly cache: boolean;
+    private readonly maxBatchSize: number;
+    private readonly cacheKey: (key: K) => unknown;
+    private promises = new Map<unknown, Promise<V>>();
+    private pending: Pending<K, V>[] = [];
+
+    constructor(batch: BatchFunction<K, V>, options: LoaderOptions<K> = {}) {
+        this.batch = batch;
+        this.cache = options.cache ?? true;
+        this.maxBatchSize = Math.max(1, options.maxBatchSize ?? Infinity);
+        this.cacheKey = options.cacheKey ?? ((key) => key);
+    }
+
+    load(key: K): Promise<V> {
+        const cacheKey = this.cacheKey(key);
+        const existing = this.promises.get(cacheKey);
+        if (existing) {
+            return existing;
+        }
+
+        const promise = new Promise<V>((resolve, reject) => {
+            this.pending.push({ key, resolve, reject });
+            if (this.pending.length === 1) {
+                // Wait for the promise jobs queued so far, so loads made in reaction to them join the batch.
+                Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+            }
+        });
+        this.promises.set(cacheKey, promise);
+
+        // Failures are never kept, and without a cache neither are results.
+        const forget = () => {
+            if (this.promises.get(cacheKey) === promise) {
+                this.promises.delete(cacheKey);
+            }
+        };
+        promise.then(() => this.cache || forget(), forget);
+
+        return promise;
+    }
+
+    /**
+     * Load several keys. A key that fails yields its error in place of a value.
+     */
+    loadMany(keys: K[]): Promise<(V | Error)[]> {
+        return Promise.all(keys.map((key) => this.load(key).catch((error) => error instanceof Error ? error : new Error(String(error)))));
+    }
+
+    /**
+     * Cache `value` for `key`, unless the key is already loaded or loading.
+     */
+    prime(key: K, value: V): this {
+        const cacheKey = this.cacheKey(key);
+        if (this.cache && !this.promises.has(cacheKey)) {
+            this.promises.set(cacheKey, Promise.resolve(value));
+        }
+        return this;
+    }
+
+    clear(key: K): this {
+        this.promises.delete(this.cacheKey(key));
+        return this;
+    }
+
+    clearAll(): this {
+        this.promises.clear();
+        return this;
+    }
+
+    private dispatch(): void {
+        const pending = this.pending;
+        this.pending = [];
+
+        for (let start = 0; start < pending.length; start += this.maxBatchSize) {
+            this.run(pending.slice(start, start + this.maxBatchSize));
+        }
+    }
+
+    private async run(pending: Pending<K, V>[]): Promise<void> {
+        try {
+            const values = await this.batch(pending.map(({ key }) => key));
+            if (!Array.isArray(values) || values.length !== pending.length) {
+                throw new AppwriteException(`Loader batch returned ${Array.isArray(values) ? values.length : 'no'} values for ${pending.length} keys`);
+            }
+
+            pending.forEach(({ resolve, reject }, index) => {
+                const value = values[index];
+                value instanceof Error ? reject(value) : resolve(value);
+            });
+        } catch (error) {
+            pending.forEach(({ reject }) => reject(error));
+        }
+    }
+}
+
+/**
+ * Loaders for the lookups repeated while rendering a feed. They query as
+ * the client identity (`setActorId` and `setToken`).
+ */
+class Loaders {
+    readonly user: Loader<number, User>;
+    readonly video: Loader<number, Video>;
+
+    constructor(client: Client, options: Omit<LoaderOptions<number>, 'cacheKey'> = {}) {
+        const users = new UserService(client);
+        const feed = new Feed(client);
+
+        // GuGoTik has no batch endpoints, so the keys of a batch are requested side by side.
+        this.user = new Loader((ids) => Promise.all(ids.map(async (id) => {
+            try {
+                const response = await users.getUser({ userId: id });
+                return Loaders.unwrap(response, response.user, '/douyin/user/', `User ${id} not found`);
+            } catch (error: any) {
+                return error;
+            }
+        })), options);
+
+        this.video = new Loader((ids) => Promise.all(ids.map(async (id) => {
+            try {
+                const response = await feed.getVideoById(id);
+                const video = Loaders.unwrap(response, response.video, '/douyin/feed/video/', `Video ${id} not found`);
+
+                // The author was fetched for the same identity, so it can answer user loads too.
+                if (video.author) {
+                    this.user.prime(video.author.id, video.author);
+                }
+                return video;
+            } catch (error: any) {
+                return error;
+            }
+        })), options);
+    }
+
+    clearAll(): this {
+        this.user.clearAll();
+        this.video.clearAll();
+        return this;
+    }
+
+    /**
+     * The payload of a GuGoTik response, or the error its envelope reports.
+     */
+    private static unwrap<T>(response: { status_code: number, status_msg: string }, value: T | undefined, endpoint: string, missing: string): T {
+        if (typeof response.status_code === 'number' && response.status_code !== 0) {
+            throw GuGoTikException.from(response.status_code, response.status_msg ?? '', endpoint, JSON.stringify(response));
+        }
+        if (value === undefined || value === null) {
+            throw new NotFoundError(missing);
+        }
+        return value;
+    }
+}
+
+export { Loader, Loaders };
+export type { LoaderOptions, BatchFunction };
@@ -0,0 +1,434 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { Client } from './client';
+import { AppwriteException, GuGoTikException, NetworkError } from './exceptions';
+import type { Message, MessageService } from './services/message';
+
+type MessageWatchOptions = {
+    /** Shortest time between two polls, in milliseconds. Defaults to 1000. */
+    interval?: number;
+    /** Longest time between two polls while the chat is quiet, and longest wait before reconnecting. Defaults to 30000. */
+    maxInterval?: number;
+    /** Only messages created after this time are yielded. Defaults to 0, the whole chat. */
+    preMsgTime?: number;
+    /** Defaults to the client identity. */
+    actorId?: number;
+    /** Defaults to the client token. */
+    token?: string;
+    /** Closes the watch when aborted. */
+    signal?: AbortSignal;
+    /**
+     * Endpoint pushing new messages, used in place of polling: a path below
+     * the client endpoint serving server-sent events, or a `ws://` or
+     * `wss://` URL. If it cannot be opened, the watch polls instead.
+     */
+    stream?: string;
+}
+
+type MessageWatchTransport = 'sse' | 'websocket' | 'poll';
+
+interface MessageWatch {
+    on(event: 'message', listener: (message: Message) => void): this;
+    on(event: 'reconnect', listener: (error: unknown, delay: number) => void): this;
+    on(event: 'fallback', listener: (error: unknown) => void): this;
+    on(event: 'close', listener: () => void): this;
+    on(event: 'error', listener: (error: unknown) => void): this;
+    once(event: 'message', listener: (message: Message) => void): this;
+    once(event: 'reconnect', listener: (error: unknown, delay: number) => void): this;
+    once(event: 'fallback', listener: (error: unknown) => void): this;
+    once(event: 'close', listener: () => void): this;
+    once(event: 'error', listener: (error: unknown) => void): this;
+    on(event: string | symbol, listener: (...args: any[]) => void): this;
+    once(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * The stream endpoint could not be used, so the watch polls instead.
+ */
+class StreamUnavailable extends AppwriteException {
+    constructor(message: string) {
+        super(message, 0, 'stream_unavailable');
+        this.name = 'StreamUnavailable';
+    }
+}
+
+/**
+ * New messages of a chat, as they arrive. Iterate it with `for await`, or
+ * listen for `message` events; it starts when the first consumer attaches.
+ *
+ * Messages are yielded in `create_time` order, each one once. Polls come
+ * quicker while messages arrive and slow down to `maxInterval` while the
+ * chat is quiet. Polls failing on the network, a timeout or a retryable
+ * status, and dropped streams, emit `reconnect` and are tried again after a
+ * growing delay. Any other failure, such as a rejected token or an unknown
+ * user, ends the watch: it emits `error` and a `for await` loop throws it.
+ * Leaving a `for await` loop, aborting `signal` or calling `close` ends the
+ * watch too.
+ *
+ * Emits `fallback` when the `stream` endpoint cannot be opened and polling
+ * is used instead, and `close` once the watch has ended.
+ */
+class MessageWatch extends EventEmitter implements AsyncIterable<Message> {
+    readonly toUserId: number;
+    private readonly service: MessageService;
+    private readonly client: Client;
+    private readonly options: MessageWatchOptions;
+    private readonly interval: number;
+    private readonly maxInterval: number;
+    private readonly controller = new AbortController();
+    /** IDs of the messages created at or after the cursor, which a server may send again. */
+    private seen = new Map<number, number>();
+    private cursor: number;
+    private started = false;
+    private closed = false;
+    private mode: MessageWatchTransport;
+    /** The error that ended the watch, thrown to its iterators. */
+    private failure?: unknown;
+
+    constructor(service: MessageService, toUserId: number, options: MessageWatchOptions = {}) {
+        super();
+        this.service = service;
+        this.client = service.client;
+        this.toUserId = toUserId;
+        this.options = options;
+        this.interval = Math.max(1, options.interval ?? 1000);
+        this.maxInterval = Math.max(this.interval, options.maxInterval ?? 30000);
+        this.cursor = options.preMsgTime ?? 0;
+        this.mode = !options.stream ? 'poll' : /^wss?:/i.test(options.stream) ? 'websocket' : 'sse';
+
+        if (options.signal?.aborted) {
+            this.closed = true;
+        } else {
+            options.signal?.addEventListener('abort', () => this.close(), { once: true });
+        }
+
+        this.on('newListener', (event) => {
+            if (event === 'message') {
+                this.start();
+            }
+        });
+    }
+
+    /**
+     * How messages currently arrive.
+     */
+    get transport(): MessageWatchTransport {
+        return this.mode;
+    }
+
+    /**
+     * `create_time` of the newest message seen so far.
+     */
+    get preMsgTime(): number {
+        return this.cursor;
+    }
+
+    /**
+     * End the watch. With `error`, it is emitted as `error` and thrown by the
+     * `for await` loops, as when a poll fails for good.
+     */
+    close(error?: unknown): void {
+        if (this.closed) {
+            return;
+        }
+
+        if (typeof error !== 'undefined') {
+            // Set before closing, so the iterators woken by `close` throw it.
+            this.failure = error;
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', error);
+            }
+        }
+
+        this.closed = true;
+        this.controller.abort();
+        this.emit('close');
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<Message> {
+        const queue: Message[] = [];
+        let wake: (() => void) | undefined;
+        let thrown = false;
+
+        const onMessage = (message: Message) => {
+            queue.push(message);
+            wake?.();
+        };
+        const onClose = () => wake?.();
+        const detach = () => {
+            this.off('message', onMessage);
+            this.off('close', onClose);
+        };
+
+        this.on('close', onClose);
+        this.on('message', onMessage);
+
+        return {
+            next: async (): Promise<IteratorResult<Message>> => {
+                while (queue.length === 0 && !this.closed) {
+                    await new Promise<void>((resolve) => wake = resolve);
+                }
+                wake = undefined;
+
+                if (queue.length > 0) {
+                    return { value: queue.shift() as Message, done: false };
+                }
+
+                detach();
+                if (typeof this.failure !== 'undefined' && !thrown) {
+                    thrown = true;
+                    throw this.failure;
+                }
+                return { value: undefined, done: true };
+            },
+            return: async (): Promise<IteratorResult<Message>> => {
+                detach();
+                this.close();
+                return { value: undefined, done: true };
+            },
+        };
+    }
+
+    private start(): void {
+        if (this.started || this.closed) {
+            return;
+        }
+
+        this.started = true;
+        this.run().catch((error) => this.close(error));
+    }
+
+    private async run(): Promise<void> {
+        if (this.mode !== 'poll') {
+            await this.listen();
+        }
+
+        let delay = this.interval;
+        let failures = 0;
+
+        while (!this.closed) {
+            try {
+                const received = await this.poll();
+                failures = 0;
+                delay = received > 0 ? this.interval : Math.min(Math.ceil(delay * 1.5), this.maxInterval);
+            } catch (error) {
+                if (this.closed) {
+                    return;
+                }
+                if (!Client.isTransient(error, this.client.config.retry)) {
+                    throw error;
+                }
+                delay = this.retryDelay(++failures);
+                this.emit('reconnect', error, delay);
+            }
+
+            await Client.sleep(delay, this.controller.signal).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Fetch the messages created after the cursor. Returns how many were new.
+     */
+    private async poll(): Promise<number> {
+        // A failed poll is sent once; `run` backs off before the next one.
+        const response = await this.service.listMessages({
+            toUserId: this.toUserId,
+            actorId: this.options.actorId,
+            token: this.options.token,
+            preMsgTime: this.cursor,
+        }, { signal: this.controller.signal, retry: { maxAttempts: 1 } });
+
+        if (typeof response?.status_code === 'number' && response.status_code !== 0) {
+            throw GuGoTikException.from(response.status_code, response.status_msg ?? '', '/douyin/message/chat/', JSON.stringify(response));
+        }
+
+        return this.deliver(response?.message_list ?? []);
+    }
+
+    /**
+     * Receive messages from the stream endpoint until the watch closes, or
+     * until the endpoint turns out not to work and polling takes over.
+     */
+    private async listen(): Promise<void> {
+        let opened = false;
+        let failures = 0;
+
+        while (!this.closed) {
+            const onOpen = () => {
+                opened = true;
+                failures = 0;
+            };
+
+            try {
+                if (this.mode === 'websocket') {
+                    await this.openWebSocket(onOpen);
+                } else {
+                    await this.openEventStream(onOpen);
+                }
+                if (this.closed) {
+                    return;
+                }
+                throw new NetworkError('Message stream ended');
+            } catch (error) {
+                if (this.closed) {
+                    return;
+                }
+                if (!opened || error instanceof StreamUnavailable) {
+                    this.mode = 'poll';
+                    this.emit('fallback', error);
+                    return;
+                }
+
+                const delay = this.retryDelay(++failures);
+                this.emit('reconnect', error, delay);
+                await Client.sleep(delay, this.controller.signal).catch(() => undefined);
+            }
+        }
+    }
+
+    private async openEventStream(onOpen: () => void): Promise<void> {
+        const uri = new URL(this.client.config.endpoint + this.options.stream);
+        for (const [key, value] of Object.entries(this.identity())) {
+            uri.searchParams.append(key, String(value));
+        }
+
+        const response: Response = await this.client.call('get', uri, { accept: 'text/event-stream' }, {}, 'stream', {
+            signal: this.controller.signal,
+        });
+
+        if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+            await response.body?.cancel();
+            throw new StreamUnavailable(`${uri.pathname} is not an event stream`);
+        }
+        onOpen();
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let data: string[] = [];
+
+        for await (const chunk of Readable.fromWeb(response.body as any)) {
+            buffer += decoder.decode(chunk, { stream: true });
+
+            let end: number;
+            while ((end = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, end).replace(/\r$/, '');
+                buffer = buffer.slice(end + 1);
+
+                // Events end with a blank line. Event names, IDs and comments are not used.
+                if (line === '') {
+                    if (data.length > 0) {
+                        this.receive(data.join('\n'));
+                    }
+                    data = [];
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice(5).replace(/^ /, ''));
+                }
+            }
+        }
+    }
+
+    private openWebSocket(onOpen: () => void): Promise<void> {
+        const WebSocket: WebSocketConstructor | undefined = (globalThis as any).WebSocket;
+        if (!WebSocket) {
+            return Promise.reject(new StreamUnavailable('WebSocket is not available in this runtime'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(this.options.stream as string);
+            const abort = () => socket.close();
+            this.controller.signal.addEventListener('abort', abort, { once: true });
+
+            socket.onopen = () => {
+                onOpen();
+                // The token is sent in the first frame, so it stays out of the URL.
+                socket.send(JSON.stringify(this.identity()));
+            };
+            socket.onmessage = (event) => {
+                try {
+                    this.receive(String(event.data));
+                } catch (error) {
+                    reject(error);
+                    socket.close();
+                }
+            };
+            socket.onerror = () => reject(new NetworkError('Message stream failed'));
+            socket.onclose = () => {
+                this.controller.signal.removeEventListener('abort', abort);
+                resolve();
+            };
+        });
+    }
+
+    /**
+     * The parameters a stream endpoint is opened with, picked up again on
+     * every reconnect so a renewed client token is used.
+     */
+    private identity(): { [key: string]: string | number } {
+        const identity: { [key: string]: string | number } = {
+            to_user_id: this.toUserId,
+            pre_msg_time: this.cursor,
+        };
+
+        const actorId = this.options.actorId ?? this.client.config.actorId;
+        const token = this.options.token ?? this.client.config.token;
+        if (typeof actorId !== 'undefined') {
+            identity['actor_id'] = actorId;
+        }
+        if (token) {
+            identity['token'] = token;
+        }
+        return identity;
+    }
+
+    /**
+     * Handle a stream event holding a message, a list of messages or a
+     * `message_list` envelope.
+     */
+    private receive(data: string): void {
+        const payload = JSON.parse(data);
+        const messages: Message[] = Array.isArray(payload) ? payload : payload?.message_list ?? (payload?.id !== undefined ? [payload] : []);
+        this.deliver(messages);
+    }
+
+    private deliver(messages: Message[]): number {
+        let delivered = 0;
+
+        for (const message of [...messages].sort((a, b) => a.create_time - b.create_time)) {
+            if (this.closed) {
+                break;
+            }
+            if (this.seen.has(message.id) || message.create_time < this.cursor) {
+                continue;
+            }
+
+            this.seen.set(message.id, message.create_time);
+            this.cursor = Math.max(this.cursor, message.create_time);
+            delivered++;
+            this.emit('message', message);
+        }
+
+        for (const [id, createTime] of this.seen) {
+            if (createTime < this.cursor) {
+                this.seen.delete(id);
+            }
+        }
+
+        return delivered;
+    }
+
+    private retryDelay(failures: number): number {
+        return Math.min(this.interval * 2 ** failures, this.maxInterval);
+    }
+}
+
+type WebSocketConstructor = new (url: string) => {
+    onopen: (() => void) | null;
+    onmessage: ((event: { data: unknown }) => void) | null;
+    onerror: (() => void) | null;
+    onclose: (() => void) | null;
+    send(data: string): void;
+    close(): void;
+};
+
+export { MessageWatch };
+export type { MessageWatchOptions, MessageWatchTransport };
@@ -0,0 +1,809 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Middleware } from './client';
+import { GuGoTikStatusCode } from './enums/gugotik-status-code';
+import type { Comment } from './services/comment';
+import type { Video } from './services/feed';
+import type { Message } from './services/message';
+import type { User } from './services/user';
+
+/** Returned for missing or malformed parameters and unknown videos, comments or users. */
+const PARAMS_ERROR = 40002;
+
+type MockUser = {
+    id: number;
+    name: string;
+    password: string;
+    token: string;
+    avatar?: string;
+    background_image?: string;
+    signature?: string;
+}
+
+type MockVideo = {
+    id: number;
+    authorId: number;
+    title: string;
+    playUrl: string;
+    coverUrl: string;
+    createdAt: number;
+}
+
+type MockComment = {
+    id: number;
+    videoId: number;
+    userId: number;
+    content: string;
+    createdAt: number;
+}
+
+type MockUpload = {
+    authorId: number;
+    title: string;
+    name: string;
+    size: number;
+    chunks: Map<number, Uint8Array>;
+    received: number;
+}
+
+type Params = {
+    fields: { [key: string]: string };
+    files: { [key: string]: File };
+}
+
+class MockError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * An in-memory stand-in for the GuGoTik `/douyin/*` API, with the same
+ * request and response shapes as the real backend. Use it in process as a
+ * client middleware, or serve it on a local port:
+ *
+ * ```ts
+ * const server = new GuGoTikMockServer();
+ * client.use(server.middleware());
+ * // or
+ * client.setEndpoint(await server.listen());
+ * ```
+ *
+ * All state lives in the instance and is lost when it is dropped.
+ */
+class GuGoTikMockServer {
+    /** Number of videos returned per feed page. */
+    pageSize = 30;
+
+    private users = new Map<number, MockUser>();
+    private videos = new Map<number, MockVideo>();
+    private comments = new Map<number, MockComment>();
+    private messages: Required<Message>[] = [];
+    /** User ID to the IDs of the videos they liked. */
+    private favorites = new Map<number, Set<number>>();
+    /** User ID to the IDs of the users they follow. */
+    private follows = new Map<number, Set<number>>();
+    private files = new Map<string, File>();
+    private uploads = new Map<string, MockUpload>();
+    /** Replies to mutations sent with an `Idempotency-Key`, returned again when the key is reused. */
+    private replies = new Map<string, object>();
+    private sequence = 0;
+    private clock = 0;
+    private server?: Server;
+
+    /**
+     * Register a user directly, without going through the API.
+     */
+    addUser(name: string, password: string = 'password'): { user_id: number, token: string } {
+        if ([...this.users.values()].some((user) => user.name === name)) {
+            throw new Error(`User "${name}" already exists`);
+        }
+
+        const id = this.nextId();
+        const token = GuGoTikMockServer.newToken(id);
+        this.users.set(id, { id, name, password, token });
+
+        return { user_id: id, token };
+    }
+
+    /**
+     * Invalidate the token of a user, as if it had expired. Logging in
+     * again returns a new one.
+     */
+    expireToken(userId: number): void {
+        this.user(userId).token = GuGoTikMockServer.newToken(userId);
+    }
+
+    /**
+     * Publish a video directly, without going through the API.
+     */
+    addVideo(authorId: number, title: string, data: Blob = new Blob([])): number {
+        this.user(authorId);
+
+        const id = this.nextId();
+        const playUrl = this.storeFile(new File([data], `video-${id}.mp4`, { type: 'video/mp4' }));
+        this.videos.set(id, { id, authorId, title, playUrl, coverUrl: '', createdAt: this.now() });
+
+        return id;
+    }
+
+    /**
+     * Forget every user, video, comment, message and file.
+     */
+    reset(): void {
+        for (const collection of [this.users, this.videos, this.comments, this.favorites, this.follows, this.files, this.uploads, this.replies]) {
+            collection.clear();
+        }
+        this.messages = [];
+    }
+
+    /**
+     * Answer `/douyin/*` requests in process. Other requests are passed on.
+     */
+    middleware(): Middleware {
+        return (request, next) => {
+            if (!new URL(request.url).pathname.startsWith('/douyin/')) {
+                return next(request);
+            }
+
+            return this.handle(new Request(request.url, {
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
+            }));
+        };
+    }
+
+    /**
+     * Serve the API over HTTP on a local port, `0` for any free port.
+     * Resolves with the endpoint to pass to `Client.setEndpoint`.
+     */
+    listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+        const server = createServer((incoming, outgoing) => {
+            this.serve(incoming, outgoing).catch((error) => {
+                outgoing.statusCode = 500;
+                outgoing.end(String(error?.message ?? error));
+            });
+        });
+        this.server = server;
+
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                const address = server.address() as AddressInfo;
+                resolve(`http://${host}:${address.port}`);
+            });
+        });
+    }
+
+    /**
+     * Stop the HTTP server started by `listen`.
+     */
+    close(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+
+        return new Promise((resolve, reject) => {
+            if (!server) {
+                resolve();
+                return;
+            }
+            server.close((error) => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * Answer a single request.
+     */
+    async handle(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const method = request.method.toUpperCase();
+        const path = url.pathname.replace(/\/?$/, '/');
+
+        if (method === 'GET' && path.startsWith('/douyin/storage/files/')) {
+            const file = this.files.get(decodeURIComponent(path.slice('/douyin/storage/files/'.length, -1)));
+            if (!file) {
+                return GuGoTikMockServer.json({ message: 'File not found', code: 404, type: 'storage_file_not_found' }, 404);
+            }
+            return new Response(file, { headers: { 'content-type': file.type || 'application/octet-stream', 'content-length': String(file.size) } });
+        }
+
+        const idempotencyKey = method !== 'GET' ? request.headers.get('idempotency-key') : null;
+        const replyKey = idempotencyKey ? `${method} ${path} ${idempotencyKey}` : undefined;
+        const reply = replyKey ? this.replies.get(replyKey) : undefined;
+        if (reply) {
+            return GuGoTikMockServer.json(reply);
+        }
+
+        try {
+            const params = await GuGoTikMockServer.readParams(request, url);
+            const comment = path.match(/^\/douyin\/comment\/(\d+)\/(list\/|count\/)?$/);
+            let body: object;
+
+            if (method === 'POST' && path === '/douyin/user/register/') {
+                body = this.register(params);
+            } else if (method === 'POST' && path === '/douyin/user/login/') {
+                body = this.login(params);
+            } else if (method === 'GET' && path === '/douyin/user/') {
+                body = this.getUser(params);
+            } else if (method === 'PUT' && path === '/douyin/user/profile/') {
+                body = this.updateProfile(params);
+            } else if (method === 'GET' && path === '/douyin/feed/') {
+                body = this.feed(params);
+            } else if (method === 'GET' && path === '/douyin/feed/video/') {
+                body = this.getVideo(params);
+            } else if (method === 'POST' && path === '/douyin/publish/action/') {
+                body = await this.publish(params, url, request.headers);
+            } else if (method === 'DELETE' && path === '/douyin/publish/action/') {
+                body = this.deleteVideo(params);
+            } else if (method === 'GET' && path === '/douyin/publish/list/') {
+                body = this.listPublished(params);
+            } else if (method === 'POST' && path === '/douyin/favorite/action/') {
+                body = this.favorite(params);
+            } else if (method === 'GET' && path === '/douyin/favorite/list/') {
+                body = this.listFavorites(params);
+            } else if (method === 'POST' && comment && !comment[2]) {
+                body = this.commentAction(Number(comment[1]), params);
+            } else if (method === 'GET' && comment?.[2] === 'list/') {
+                body = this.listComments(Number(comment[1]), params);
+            } else if (method === 'GET' && comment?.[2] === 'count/') {
+                body = this.countComments(Number(comment[1]), params);
+            } else if (method === 'POST' && (path === '/douyin/relation/follow/' || path === '/douyin/relation/unfollow/')) {
+                body = this.relationAction(params, path === '/douyin/relation/follow/');
+            } else if (method === 'GET' && path === '/douyin/relation/follow/list/') {
+                body = this.listRelation(params, (userId) => [...this.following(userId)]);
+            } else if (method === 'GET' && path === '/douyin/relation/follower/list/') {
+                body = this.listRelation(params, (userId) => this.followers(userId));
+            } else if (method === 'GET' && path === '/douyin/relation/friend/list/') {
+                body = this.listRelation(params, (userId) => this.followers(userId).filter((id) => this.following(userId).has(id)));
+            } else if (method === 'GET' && path === '/douyin/relation/isFollow/') {
+                body = this.isFollow(params);
+            } else if (method === 'POST' && path === '/douyin/message/action/') {
+                body = this.sendMessage(params);
+            } else if (method === 'GET' && path === '/douyin/message/chat/') {
+                body = this.chat(params);
+            } else if (method === 'POST' && path === '/douyin/storage/upload/') {
+                body = this.upload(params, url);
+            } else {
+                return GuGoTikMockServer.json({ message: `Route not found: ${method} ${url.pathname}`, code: 404, type: 'general_route_not_found' }, 404);
+            }
+
+            const success = { status_code: GuGoTikStatusCode.Success, status_msg: 'success', ...body };
+            if (replyKey) {
+                this.replies.set(replyKey, success);
+            }
+            return GuGoTikMockServer.json(success);
+        } catch (error) {
+            if (error instanceof MockError) {
+                return GuGoTikMockServer.json({ status_code: error.statusCode, status_msg: error.message });
+            }
+            throw error;
+        }
+    }
+
+    private register(params: Params): object {
+        const name = GuGoTikMockServer.string(params, 'username');
+        const password = GuGoTikMockServer.string(params, 'password');
+
+        if ([...this.users.values()].some((user) => user.name === name)) {
+            throw new MockError(GuGoTikStatusCode.UserExisted, 'User already exists');
+        }
+
+        return this.addUser(name, password);
+    }
+
+    private login(params: Params): object {
+        const name = GuGoTikMockServer.string(params, 'username');
+        const password = GuGoTikMockServer.string(params, 'password');
+        const user = [...this.users.values()].find((candidate) => candidate.name === name);
+
+        if (!user) {
+            throw new MockError(GuGoTikStatusCode.UserNotExisted, 'User does not exist');
+        }
+        if (user.password !== password) {
+            throw new MockError(GuGoTikStatusCode.LoginFailed, 'Wrong username or password');
+        }
+
+        return { user_id: user.id, token: user.token };
+    }
+
+    private getUser(params: Params): object {
+        const actor = this.authenticate(params);
+        const userId = GuGoTikMockServer.optionalNumber(params, 'user_id') ?? actor.id;
+
+        return { user: this.userView(this.user(userId), actor.id) };
+    }
+
+    private updateProfile(params: Params): object {
+        const user = this.authenticate(params, 'user_id');
+
+        for (const field of ['avatar', 'background_image', 'signature'] as const) {
+            if (typeof params.fields[field] !== 'undefined') {
+                user[field] = params.fields[field];
+            }
+        }
+
+        return {};
+    }
+
+    private feed(params: Params): object {
+        const actorId = GuGoTikMockServer.optionalNumber(params, 'actor_id');
+        const latestTime = GuGoTikMockServer.optionalNumber(params, 'latest_time') ?? Number.MAX_SAFE_INTEGER;
+
+        const page = [...this.videos.values()]
+            .filter((video) => video.createdAt < latestTime)
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, this.pageSize);
+
+        return {
+            next_time: page.length > 0 ? page[page.length - 1].createdAt : undefined,
+            video_list: page.map((video) => this.videoView(video, actorId)),
+        };
+    }
+
+    private getVideo(params: Params): object {
+        const video = this.video(GuGoTikMockServer.number(params, 'video_id'));
+
+        return { video: this.videoView(video, GuGoTikMockServer.optionalNumber(params, 'actor_id')) };
+    }
+
+    private async publish(params: Params, url: URL, headers: globalThis.Headers): Promise<object> {
+        const author = this.authenticate(params);
+        const title = GuGoTikMockServer.string(params, 'title');
+        const data = params.files['data'];
+
+        if (!data) {
+            throw new MockError(PARAMS_ERROR, 'Missing parameter: data');
+        }
+
+        const range = headers.get('content-range')?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+        if (!range) {
+            this.createVideo(author.id, title, data, url);
+            return {};
+        }
+
+        // Chunked upload: the first chunk opens an upload, later chunks name it in `X-Upload-Id`.
+        const [start, end, size] = range.slice(1).map(Number);
+        let uploadId = headers.get('x-upload-id') ?? '';
+        let upload = this.uploads.get(uploadId);
+
+        if (!upload) {
+            if (uploadId) {
+                throw new MockError(PARAMS_ERROR, 'Unknown upload');
+            }
+            uploadId = `upload-${this.nextId()}`;
+            upload = { authorId: author.id, title, name: data.name, size, chunks: new Map(), received: 0 };
+            this.uploads.set(uploadId, upload);
+        }
+
+        if (!upload.chunks.has(start)) {
+            upload.chunks.set(start, new Uint8Array(await data.arrayBuffer()));
+            upload.received += end - start + 1;
+        }
+
+        if (upload.received < upload.size) {
+            return { upload_id: uploadId, chunks_uploaded: upload.chunks.size, chunks_total: Math.ceil(size / (end - start + 1)) };
+        }
+
+        const parts = [...upload.chunks.entries()].sort(([a], [b]) => a - b).map(([, bytes]) => bytes);
+        this.uploads.delete(uploadId);
+        this.createVideo(upload.authorId, upload.title, new File(parts, upload.name, { type: 'video/mp4' }), url);
+
+        return { upload_id: uploadId, chunks_uploaded: upload.chunks.size, chunks_total: upload.chunks.size };
+    }
+
+    private deleteVideo(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const video = this.video(GuGoTikMockServer.number(params, 'video_id'));
+
+        if (video.authorId !== actor.id) {
+            throw new MockError(GuGoTikStatusCode.AuthUserNeeded, 'Only the author can delete a video');
+        }
+
+        this.videos.delete(video.id);
+        for (const liked of this.favorites.values()) {
+            liked.delete(video.id);
+        }
+        for (const comment of [...this.comments.values()].filter((comment) => comment.videoId === video.id)) {
+            this.comments.delete(comment.id);
+        }
+
+        return {};
+    }
+
+    private listPublished(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const userId = this.user(GuGoTikMockServer.number(params, 'user_id')).id;
+
+        return {
+            video_list: [...this.videos.values()]
+                .filter((video) => video.authorId === userId)
+                .sort((a, b) => b.createdAt - a.createdAt)
+                .map((video) => this.videoView(video, actor.id)),
+        };
+    }
+
+    private favorite(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const video = this.video(GuGoTikMockServer.number(params, 'video_id'));
+        const actionType = GuGoTikMockServer.number(params, 'action_type');
+
+        const liked = this.favorites.get(actor.id) ?? new Set<number>();
+        this.favorites.set(actor.id, liked);
+
+        if (actionType === 1) {
+            liked.add(video.id);
+        } else if (actionType === 2) {
+            liked.delete(video.id);
+        } else {
+            throw new MockError(PARAMS_ERROR, 'Invalid action_type');
+        }
+
+        return {};
+    }
+
+    private listFavorites(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const userId = this.user(GuGoTikMockServer.number(params, 'user_id')).id;
+
+        return {
+            video_list: [...(this.favorites.get(userId) ?? [])]
+                .map((videoId) => this.videos.get(videoId))
+                .filter((video): video is MockVideo => !!video)
+                .map((video) => this.videoView(video, actor.id)),
+        };
+    }
+
+    private commentAction(videoId: number, params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const video = this.video(GuGoTikMockServer.optionalNumber(params, 'video_id') ?? videoId);
+        const actionType = GuGoTikMockServer.number(params, 'action_type');
+
+        if (actionType === 1) {
+            const comment: MockComment = {
+                id: this.nextId(),
+                videoId: video.id,
+                userId: actor.id,
+                content: GuGoTikMockServer.string(params, 'comment_text'),
+                createdAt: this.now(),
+            };
+            this.comments.set(comment.id, comment);
+
+            return { comment: this.commentView(comment, actor.id) };
+        }
+
+        if (actionType === 2) {
+            const comment = this.comments.get(GuGoTikMockServer.number(params, 'comment_id'));
+            if (!comment || comment.videoId !== video.id) {
+                throw new MockError(PARAMS_ERROR, 'Comment not found');
+            }
+            if (comment.userId !== actor.id) {
+                throw new MockError(GuGoTikStatusCode.AuthUserNeeded, 'Only the author can delete a comment');
+            }
+            this.comments.delete(comment.id);
+
+            return {};
+        }
+
+        throw new MockError(PARAMS_ERROR, 'Invalid action_type');
+    }
+
+    private listComments(videoId: number, params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const video = this.video(videoId);
+
+        return {
+            comment_list: this.videoComments(video.id)
+                .sort((a, b) => b.createdAt - a.createdAt)
+                .map((comment) => this.commentView(comment, actor.id)),
+        };
+    }
+
+    private countComments(videoId: number, params: Params): object {
+        this.authenticate(params, 'actor_id');
+
+        return { comment_count: this.videoComments(this.video(videoId).id).length };
+    }
+
+    private relationAction(params: Params, follow: boolean): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const target = this.user(GuGoTikMockServer.number(params, 'to_user_id'));
+        const following = this.following(actor.id);
+
+        if (follow) {
+            if (target.id === actor.id) {
+                throw new MockError(GuGoTikStatusCode.FollowSelf, 'You cannot follow yourself');
+            }
+            if (following.has(target.id)) {
+                throw new MockError(GuGoTikStatusCode.FollowRepeated, 'You already follow this user');
+            }
+            following.add(target.id);
+        } else {
+            if (!following.has(target.id)) {
+                throw new MockError(PARAMS_ERROR, 'You do not follow this user');
+            }
+            following.delete(target.id);
+        }
+
+        return {};
+    }
+
+    private listRelation(params: Params, list: (userId: number) => number[]): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const userId = this.user(GuGoTikMockServer.number(params, 'user_id')).id;
+
+        return { user_list: list(userId).map((id) => this.userView(this.user(id), actor.id)) };
+    }
+
+    private isFollow(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const userId = this.user(GuGoTikMockServer.number(params, 'user_id')).id;
+
+        return { result: this.following(actor.id).has(userId) };
+    }
+
+    private sendMessage(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const target = this.user(GuGoTikMockServer.number(params, 'to_user_id'));
+
+        if (GuGoTikMockServer.number(params, 'action_type') !== 1) {
+            throw new MockError(PARAMS_ERROR, 'Invalid action_type');
+        }
+
+        this.messages.push({
+            id: this.nextId(),
+            content: GuGoTikMockServer.string(params, 'content'),
+            create_time: this.now(),
+            from_user_id: actor.id,
+            to_user_id: target.id,
+        });
+
+        return {};
+    }
+
+    private chat(params: Params): object {
+        const actor = this.authenticate(params, 'actor_id');
+        const peerId = this.user(GuGoTikMockServer.number(params, 'to_user_id')).id;
+        const after = GuGoTikMockServer.optionalNumber(params, 'pre_msg_time') ?? 0;
+
+        return {
+            message_list: this.messages
+                .filter((message) => message.create_time > after)
+                .filter((message) => (message.from_user_id === actor.id && message.to_user_id === peerId)
+                    || (message.from_user_id === peerId && message.to_user_id === actor.id))
+                .map((message) => ({ ...message })),
+        };
+    }
+
+    private upload(params: Params, url: URL): object {
+        const file = params.files['file'];
+        if (!file) {
+            throw new MockError(PARAMS_ERROR, 'Missing parameter: file');
+        }
+
+        return { file_url: url.origin + this.storeFile(file) };
+    }
+
+    private createVideo(authorId: number, title: string, data: File, url: URL): void {
+        const id = this.nextId();
+        const playUrl = url.origin + this.storeFile(new File([data], `video-${id}.mp4`, { type: data.type || 'video/mp4' }));
+
+        this.videos.set(id, { id, authorId, title, playUrl, coverUrl: '', createdAt: this.now() });
+    }
+
+    private storeFile(file: File): string {
+        const name = `${this.nextId()}-${file.name || 'file'}`;
+        this.files.set(name, file);
+
+        return `/douyin/storage/files/${encodeURIComponent(name)}/`;
+    }
+
+    /**
+     * Resolve the user owning `token`, checking it matches the user ID in `idField` when one is sent.
+     */
+    private authenticate(params: Params, idField?: string): MockUser {
+        const token = params.fields['token'];
+        const user = [...this.users.values()].find((candidate) => candidate.token === token);
+
+        if (!token || !user) {
+            throw new MockError(GuGoTikStatusCode.AuthUserNeeded, 'Invalid or missing token');
+        }
+
+        const userId = idField ? GuGoTikMockServer.optionalNumber(params, idField) : undefined;
+        if (typeof userId !== 'undefined' && userId !== user.id) {
+            throw new MockError(GuGoTikStatusCode.AuthUserNeeded, 'Token does not belong to this user');
+        }
+
+        return user;
+    }
+
+    private user(id: number): MockUser {
+        const user = this.users.get(id);
+        if (!user) {
+            throw new MockError(GuGoTikStatusCode.UserNotExisted, 'User does not exist');
+        }
+        return user;
+    }
+
+    private video(id: number): MockVideo {
+        const video = this.videos.get(id);
+        if (!video) {
+            throw new MockError(PARAMS_ERROR, 'Video not found');
+        }
+        return video;
+    }
+
+    private following(userId: number): Set<number> {
+        const following = this.follows.get(userId) ?? new Set<number>();
+        this.follows.set(userId, following);
+        return following;
+    }
+
+    private followers(userId: number): number[] {
+        return [...this.follows.entries()].filter(([, following]) => following.has(userId)).map(([id]) => id);
+    }
+
+    private videoComments(videoId: number): MockComment[] {
+        return [...this.comments.values()].filter((comment) => comment.videoId === videoId);
+    }
+
+    private userView(user: MockUser, actorId?: number): User {
+        const works = [...this.videos.values()].filter((video) => video.authorId === user.id);
+
+        return {
+            id: user.id,
+            name: user.name,
+            follow_count: this.following(user.id).size,
+            follower_count: this.followers(user.id).length,
+            is_follow: typeof actorId !== 'undefined' && this.following(actorId).has(user.id),
+            avatar: user.avatar,
+            background_image: user.background_image,
+            signature: user.signature,
+            total_favorited: works.reduce((total, video) => total + this.favoriteCount(video.id), 0),
+            work_count: works.length,
+            favorite_count: this.favorites.get(user.id)?.size ?? 0,
+        };
+    }
+
+    private videoView(video: MockVideo, actorId?: number): Video {
+        return {
+            id: video.id,
+            author: this.userView(this.user(video.authorId), actorId),
+            play_url: video.playUrl,
+            cover_url: video.coverUrl,
+            favorite_count: this.favoriteCount(video.id),
+            comment_count: this.videoComments(video.id).length,
+            is_favorite: typeof actorId !== 'undefined' && !!this.favorites.get(actorId)?.has(video.id),
+            title: video.title,
+        };
+    }
+
+    private commentView(comment: MockComment, actorId?: number): Comment {
+        const date = new Date(comment.createdAt);
+
+        return {
+            id: comment.id,
+            user: this.userView(this.user(comment.userId), actorId),
+            content: comment.content,
+            create_date: `${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`,
+        };
+    }
+
+    private favoriteCount(videoId: number): number {
+        return [...this.favorites.values()].filter((liked) => liked.has(videoId)).length;
+    }
+
+    private nextId(): number {
+        return ++this.sequence;
+    }
+
+    /**
+     * Millisecond timestamps that never repeat, so feed and chat pagination stay stable.
+     */
+    private now(): number {
+        this.clock = Math.max(Date.now(), this.clock + 1);
+        return this.clock;
+    }
+
+    private async serve(incoming: IncomingMessage, outgoing: ServerResponse): Promise<void> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of incoming) {
+            chunks.push(chunk);
+        }
+
+        const headers = new globalThis.Headers();
+        for (const [name, value] of Object.entries(incoming.headers)) {
+            if (typeof value !== 'undefined') {
+                headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+            }
+        }
+
+        const method = incoming.method ?? 'GET';
+        const response = await this.handle(new Request(`http://${incoming.headers.host ?? 'localhost'}${incoming.url ?? '/'}`, {
+            method,
+            headers,
+            body: method === 'GET' || method === 'HEAD' ? undefined : Buffer.concat(chunks),
+        }));
+
+        outgoing.statusCode = response.status;
+        response.headers.forEach((value, name) => outgoing.setHeader(name, value));
+        outgoing.end(Buffer.from(await response.arrayBuffer()));
+    }
+
+    /**
+     * Collect query parameters, the bearer token and form, multipart or JSON body fields.
+     */
+    private static async readParams(request: Request, url: URL): Promise<Params> {
+        const params: Params = { fields: Object.fromEntries(url.searchParams), files: {} };
+        const contentType = request.headers.get('content-type') ?? '';
+
+        // Clients may send the token as a bearer credential instead of a field.
+        const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '');
+        if (bearer) {
+            params.fields['token'] = bearer[1];
+        }
+
+        if (!request.body) {
+            return params;
+        }
+
+        if (contentType.includes('application/json')) {
+            const text = await request.text();
+            for (const [key, value] of Object.entries(text ? JSON.parse(text) : {})) {
+                if (value !== null && typeof value !== 'undefined') {
+                    params.fields[key] = String(value);
+                }
+            }
+        } else if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+            for (const [key, value] of await request.formData()) {
+                if (typeof value === 'string') {
+                    params.fields[key] = value;
+                } else {
+                    params.files[key] = value as File;
+                }
+            }
+        }
+
+        return params;
+    }
+
+    private static newToken(userId: number): string {
+        return `mock-token-${userId}-${Math.random().toString(36).slice(2)}`;
+    }
+
+    private static string(params: Params, key: string): string {
+        const value = params.fields[key];
+        if (typeof value === 'undefined' || value === '') {
+            throw new MockError(PARAMS_ERROR, `Missing parameter: ${key}`);
+        }
+        return value;
+    }
+
+    private static number(params: Params, key: string): number {
+        const value = GuGoTikMockServer.optionalNumber(params, key);
+        if (typeof value === 'undefined') {
+            throw new MockError(PARAMS_ERROR, `Missing parameter: ${key}`);
+        }
+        return value;
+    }
+
+    private static optionalNumber(params: Params, key: string): number | undefined {
+        const value = params.fields[key];
+        if (typeof value === 'undefined' || value === '') {
+            return undefined;
+        }
+        if (!/^-?\d+$/.test(value)) {
+            throw new MockError(PARAMS_ERROR, `Invalid parameter: ${key}`);
+        }
+        return Number(value);
+    }
+
+    private static json(body: object, status: number = 200): Response {
+        return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+    }
+}
+
+export { GuGoTikMockServer };
@@ -0,0 +1,433 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdir, readdir, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { writeAtomic } from './atomic-write';
+import { Client } from './client';
+import { AppwriteException, GuGoTikException } from './exceptions';
+import { CommentService } from './services/comment';
+import { Favorite } from './services/favorite';
+import { MessageService } from './services/message';
+
+type OutboxAction =
+    | { type: 'message', toUserId: number, content: string }
+    | { type: 'comment', videoId: number, commentText: string }
+    | { type: 'like', videoId: number }
+    | { type: 'unlike', videoId: number };
+
+type OutboxItem = {
+    /** Sent as the `Idempotency-Key`, so an item the server already applied is not applied again. */
+    id: string;
+    action: OutboxAction;
+    /** User the item is sent as. */
+    actorId?: number;
+    /**
+     * Token the item is sent with, kept in the store along with it. Without
+     * one, and without a `token` option, the client token at the time it is
+     * sent is used.
+     */
+    token?: string;
+    /** Items with the same queue, one per chat or video, are sent in the order they were added. */
+    queue: string;
+    createdAt: number;
+    /** Orders items added in the same millisecond. */
+    sequence: number;
+    attempts: number;
+    /** `failed` once the server rejected the item, or it ran out of attempts. */
+    status: 'pending' | 'failed';
+    /** Message of the last error. */
+    error?: string;
+    /** When the next attempt is due, in milliseconds since the epoch. */
+    nextAttemptAt?: number;
+}
+
+/**
+ * Where an `Outbox` keeps its items so they survive a restart.
+ */
+interface OutboxStore {
+    list(): Promise<OutboxItem[]> | OutboxItem[];
+    set(item: OutboxItem): Promise<void> | void;
+    delete(id: string): Promise<void> | void;
+}
+
+class MemoryOutboxStore implements OutboxStore {
+    private items = new Map<string, OutboxItem>();
+
+    list(): OutboxItem[] {
+        return [...this.items.values()].map((item) => ({ ...item }));
+    }
+
+    set(item: OutboxItem): void {
+        this.items.set(item.id, { ...item });
+    }
+
+    delete(id: string): void {
+        this.items.delete(id);
+    }
+}
+
+/**
+ * Keeps each item in its own JSON file in `directory`.
+ */
+class FileOutboxStore implements OutboxStore {
+    directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async list(): Promise<OutboxItem[]> {
+        let names: string[];
+        try {
+            names = await readdir(this.directory);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const items: OutboxItem[] = [];
+        for (const name of names.filter((name) => name.endsWith('.json'))) {
+            try {
+                items.push(JSON.parse(await readFile(join(this.directory, name), 'utf8')));
+            } catch (error: any) {
+                if (error.code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+                    throw error;
+                }
+            }
+        }
+        return items;
+    }
+
+    async set(item: OutboxItem): Promise<void> {
+        await mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await writeAtomic(this.path(item.id), JSON.stringify(item), 0o600);
+    }
+
+    async delete(id: string): Promise<void> {
+        await rm(this.path(id), { force: true });
+    }
+
+    private path(id: string): string {
+        return join(this.directory, id + '.json');
+    }
+}
+
+type OutboxOptions = {
+    /** Defaults to a `MemoryOutboxStore`. */
+    store?: OutboxStore;
+    /** Attempts before an item that keeps failing to reach the server is given up. Defaults to 10. */
+    maxAttempts?: number;
+    /** Wait before the second attempt, doubled for every later one, in milliseconds. Defaults to 1000. */
+    baseDelay?: number;
+    /** Longest wait between two attempts, in milliseconds. Defaults to 60000. */
+    maxDelay?: number;
+    /**
+     * Token to send an item with, asked for before every attempt, such as
+     * from a session store once tokens saved with the items have expired.
+     * Returning `undefined` falls back to the item token, then the client
+     * token.
+     */
+    token?: (item: OutboxItem) => Promise<string | undefined> | string | undefined;
+}
+
+interface Outbox {
+    on(event: 'sent', listener: (item: OutboxItem, response: any) => void): this;
+    on(event: 'retry', listener: (item: OutboxItem, error: unknown, delay: number) => void): this;
+    on(event: 'failed', listener: (item: OutboxItem, error: unknown) => void): this;
+    once(event: 'sent', listener: (item: OutboxItem, response: any) => void): this;
+    once(event: 'retry', listener: (item: OutboxItem, error: unknown, delay: number) => void): this;
+    once(event: 'failed', listener: (item: OutboxItem, error: unknown) => void): this;
+    on(event: string | symbol, listener: (...args: any[]) => void): this;
+    once(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * Messages, comments and likes that are kept until the server has them.
+ *
+ * Added items are stored, then sent right away. An item that cannot reach
+ * the server, or is throttled, is tried again after a growing delay and
+ * holds back the later items of its chat or video so they arrive in order.
+ * Every attempt carries the item ID as its `Idempotency-Key`, so an item
+ * whose response was lost is not applied twice, provided the server honours
+ * that header; GuGoTik itself does not, only `GuGoTikMockServer`. Items the server rejects,
+ * and those out of attempts, are kept as `failed` until `retry` or
+ * `discard`.
+ *
+ * Emits `sent` with the item and the response, `retry` with the item, the
+ * error and the delay before the next attempt, and `failed` with the item
+ * and the error.
+ */
+class Outbox extends EventEmitter {
+    readonly store: OutboxStore;
+    private readonly client: Client;
+    private readonly maxAttempts: number;
+    private readonly baseDelay: number;
+    private readonly maxDelay: number;
+    private readonly token?: (item: OutboxItem) => Promise<string | undefined> | string | undefined;
+    private readonly messages: MessageService;
+    private readonly comments: CommentService;
+    private readonly favorites: Favorite;
+    private items = new Map<string, OutboxItem>();
+    private sequence = 0;
+    private flushing?: Promise<void>;
+    private again = false;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(client: Client, options: OutboxOptions = {}) {
+        super();
+        this.client = client;
+        this.store = options.store ?? new MemoryOutboxStore();
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? 10);
+        this.baseDelay = options.baseDelay ?? 1000;
+        this.maxDelay = options.maxDelay ?? 60000;
+        this.token = options.token;
+        this.messages = new MessageService(client);
+        this.comments = new CommentService(client);
+        this.favorites = new Favorite(client);
+    }
+
+    /**
+     * Read the items left in the store by an earlier run, and send those
+     * still pending.
+     */
+    async load(): Promise<OutboxItem[]> {
+        for (const item of await this.store.list()) {
+            this.items.set(item.id, item);
+            this.sequence = Math.max(this.sequence, item.sequence + 1);
+        }
+
+        this.flush().catch((error) => this.fault(error));
+        return this.list();
+    }
+
+    sendMessage(params: { toUserId: number, content: string, actorId?: number, token?: string }): Promise<OutboxItem> {
+        const actorId = params.actorId ?? this.client.config.actorId;
+        return this.add({ type: 'message', toUserId: params.toUserId, content: params.content }, actorId, params.token, `message:${actorId}:${params.toUserId}`);
+    }
+
+    addComment(params: { videoId: number, commentText: string, actorId?: number, token?: string }): Promise<OutboxItem> {
+        return this.add({ type: 'comment', videoId: params.videoId, commentText: params.commentText }, params.actorId, params.token, `video:${params.videoId}`);
+    }
+
+    likeVideo(params: { videoId: number, actorId?: number, token?: string }): Promise<OutboxItem> {
+        return this.add({ type: 'like', videoId: params.videoId }, params.actorId, params.token, `video:${params.videoId}`);
+    }
+
+    unlikeVideo(params: { videoId: number, actorId?: number, token?: string }): Promise<OutboxItem> {
+        return this.add({ type: 'unlike', videoId: params.videoId }, params.actorId, params.token, `video:${params.videoId}`);
+    }
+
+    /**
+     * Every item, in the order it was added.
+     */
+    list(): OutboxItem[] {
+        return [...this.items.values()]
+            .sort((a, b) => a.createdAt - b.createdAt || a.sequence - b.sequence)
+            .map((item) => ({ ...item }));
+    }
+
+    pending(): OutboxItem[] {
+        return this.list().filter((item) => item.status === 'pending');
+    }
+
+    failed(): OutboxItem[] {
+        return this.list().filter((item) => item.status === 'failed');
+    }
+
+    /**
+     * Send a failed item again, with a fresh count of attempts. It keeps its
+     * ID, so the server still applies it once.
+     */
+    async retry(id: string): Promise<void> {
+        const item = this.items.get(id);
+        if (!item) {
+            throw new AppwriteException(`Outbox item ${id} not found`);
+        }
+
+        Object.assign(item, { status: 'pending', attempts: 0, error: undefined, nextAttemptAt: undefined });
+        await this.store.set(item);
+        await this.flush();
+    }
+
+    async discard(id: string): Promise<void> {
+        this.items.delete(id);
+        await this.store.delete(id);
+    }
+
+    /**
+     * Send the pending items that are due, such as once the network is back.
+     * Pass `force` to also send those still waiting out their delay.
+     */
+    flush(force: boolean = false): Promise<void> {
+        if (force) {
+            for (const item of this.items.values()) {
+                delete item.nextAttemptAt;
+            }
+        }
+
+        if (this.flushing) {
+            // Items added meanwhile are picked up by one more pass.
+            this.again = true;
+            return this.flushing;
+        }
+
+        this.flushing = (async () => {
+            try {
+                do {
+                    this.again = false;
+                    await this.drain();
+                } while (this.again);
+            } finally {
+                this.flushing = undefined;
+                this.schedule();
+            }
+        })();
+        return this.flushing;
+    }
+
+    /**
+     * Stop the timer of the next attempt. Items stay in the store.
+     */
+    close(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    private async add(action: OutboxAction, actorId: number | undefined, token: string | undefined, queue: string): Promise<OutboxItem> {
+        const item: OutboxItem = {
+            id: randomUUID(),
+            action,
+            actorId: actorId ?? this.client.config.actorId,
+            token,
+            queue,
+            createdAt: Date.now(),
+            sequence: this.sequence++,
+            attempts: 0,
+            status: 'pending',
+        };
+
+        await this.store.set(item);
+        this.items.set(item.id, item);
+
+        this.flush().catch((error) => this.fault(error));
+        return { ...item };
+    }
+
+    private async drain(): Promise<void> {
+        const queues = new Map<string, OutboxItem[]>();
+        for (const item of this.list()) {
+            if (item.status === 'pending') {
+                queues.set(item.queue, [...(queues.get(item.queue) ?? []), this.items.get(item.id) as OutboxItem]);
+            }
+        }
+
+        // Queues are independent, so one that waits does not hold back the others.
+        await Promise.all([...queues.values()].map(async (items) => {
+            for (const item of items) {
+                if (item.nextAttemptAt && item.nextAttemptAt > Date.now()) {
+                    return;
+                }
+                if (!(await this.attempt(item))) {
+                    return;
+                }
+            }
+        }));
+    }
+
+    /**
+     * Send one item. Returns false if it is to be tried again, which holds
+     * back the rest of its queue.
+     */
+    private async attempt(item: OutboxItem): Promise<boolean> {
+        item.attempts++;
+
+        try {
+            const response = await this.send(item);
+            if (typeof response?.status_code === 'number' && response.status_code !== 0) {
+                throw GuGoTikException.from(response.status_code, response.status_msg ?? '', Outbox.endpoint(item.action), JSON.stringify(response));
+            }
+
+            this.items.delete(item.id);
+            await this.store.delete(item.id);
+            this.emit('sent', { ...item }, response);
+            return true;
+        } catch (error: any) {
+            item.error = error?.message ?? String(error);
+
+            if (Client.isTransient(error, this.client.config.retry) && item.attempts < this.maxAttempts) {
+                const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** (item.attempts - 1));
+                item.nextAttemptAt = Date.now() + delay;
+                await this.store.set(item);
+                this.emit('retry', { ...item }, error, delay);
+                return false;
+            }
+
+            // A rejected item will not succeed by waiting, so the rest of its queue goes on.
+            item.status = 'failed';
+            delete item.nextAttemptAt;
+            await this.store.set(item);
+            this.emit('failed', { ...item }, error);
+            return true;
+        }
+    }
+
+    private async send(item: OutboxItem): Promise<any> {
+        const requestOptions = { idempotencyKey: item.id };
+        const { action, actorId } = item;
+        const token = (await this.token?.({ ...item })) ?? item.token;
+
+        switch (action.type) {
+            case 'message':
+                return this.messages.sendMessage({ toUserId: action.toUserId, content: action.content, actorId, token }, requestOptions);
+            case 'comment':
+                return this.comments.addComment({ videoId: action.videoId, commentText: action.commentText, actorId, token }, requestOptions);
+            case 'like':
+                return this.favorites.likeVideo({ videoId: action.videoId, actorId, token }, requestOptions);
+            case 'unlike':
+                return this.favorites.unlikeVideo({ videoId: action.videoId, actorId, token }, requestOptions);
+        }
+    }
+
+    /**
+     * Wake up when the earliest waiting item is due.
+     */
+    private schedule(): void {
+        this.close();
+
+        const due = Math.min(...this.pending().map((item) => item.nextAttemptAt ?? Infinity));
+        if (due === Infinity) {
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.flush().catch((error) => this.fault(error));
+        }, Math.max(0, due - Date.now()));
+
+        // A waiting item does not keep the process alive.
+        this.timer.unref?.();
+    }
+
+    private fault(error: unknown): void {
+        // Store failures have no caller to reject; report them to those listening.
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+        }
+    }
+
+    private static endpoint(action: OutboxAction): string {
+        switch (action.type) {
+            case 'message':
+                return '/douyin/message/action/';
+            case 'comment':
+                return `/douyin/comment/${action.videoId}/`;
+            default:
+                return '/douyin/favorite/action/';
+        }
+    }
+}
+
+export { Outbox, MemoryOutboxStore, FileOutboxStore };
+export type { OutboxItem, OutboxAction, OutboxStore, OutboxOptions };
@@ -0,0 +1,288 @@
+import { AppwriteException, RateLimitError, ThrottledError } from './exceptions';
+import { GuGoTikStatusCode } from './enums/gugotik-status-code';
+
+type RateLimit = {
+    /** Requests started per second on average. Unlimited when omitted. */
+    rate?: number;
+    /** Requests that may start at once after an idle period. Defaults to one second's worth of `rate`. */
+    burst?: number;
+    /** Requests in flight at the same time. Unlimited when omitted. */
+    maxInFlight?: number;
+}
+
+type RateLimiterOptions = RateLimit & {
+    /**
+     * Limits for the routes starting with a prefix, such as
+     * `/douyin/relation/`, applied on top of the client-wide limit. The
+     * longest matching prefix wins.
+     */
+    routes?: { [prefix: string]: RateLimit };
+    /** Times a throttled request is queued again before its error or response is returned. Defaults to 3. */
+    maxRetries?: number;
+    /** Pause in milliseconds after a throttled response without `Retry-After`, doubled on every consecutive one. Defaults to 1000. */
+    backoff?: number;
+    /** Upper bound for the pause in milliseconds. Defaults to 30000. */
+    maxBackoff?: number;
+    /** GuGoTik `status_code` values that report throttling. */
+    throttleStatusCodes?: number[];
+}
+
+type RateLimitStats = {
+    /** Requests waiting for a token or a free slot. */
+    queued: number;
+    inFlight: number;
+    /** Requests that left the queue so far. */
+    started: number;
+    /** Responses that reported throttling. */
+    throttled: number;
+    /** Milliseconds the last request waited in the queue. */
+    lastWait: number;
+    averageWait: number;
+    maxWait: number;
+    /** Timestamp until which no request is started after throttling. */
+    pausedUntil?: number;
+}
+
+type RateLimiterStats = RateLimitStats & {
+    routes: { [prefix: string]: RateLimitStats };
+}
+
+type Waiter = {
+    resolve: () => void;
+    reject: (reason: any) => void;
+    signal?: AbortSignal;
+    abort?: () => void;
+}
+
+/**
+ * A token bucket with a cap on requests in flight. Waiting requests are
+ * started in the order they arrived.
+ */
+class Bucket {
+    private readonly rate: number;
+    private readonly burst: number;
+    private readonly maxInFlight: number;
+    private tokens: number;
+    private refilledAt = Date.now();
+    private queue: Waiter[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+    private consecutiveThrottles = 0;
+    inFlight = 0;
+    pausedUntil = 0;
+    started = 0;
+    throttled = 0;
+    lastWait = 0;
+    maxWait = 0;
+    private totalWait = 0;
+
+    constructor(limit: RateLimit) {
+        this.rate = limit.rate ?? Infinity;
+        this.burst = Math.max(1, limit.burst ?? (Number.isFinite(this.rate) ? this.rate : 1));
+        this.maxInFlight = Math.max(1, limit.maxInFlight ?? Infinity);
+        this.tokens = this.burst;
+    }
+
+    acquire(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            const enqueuedAt = Date.now();
+            const waiter: Waiter = {
+                resolve: () => {
+                    signal?.removeEventListener('abort', waiter.abort as () => void);
+                    this.recordWait(Date.now() - enqueuedAt);
+                    resolve();
+                },
+                reject,
+                signal,
+            };
+            waiter.abort = () => {
+                this.queue = this.queue.filter((queued) => queued !== waiter);
+                reject(signal?.reason);
+                this.pump();
+            };
+            signal?.addEventListener('abort', waiter.abort, { once: true });
+
+            this.queue.push(waiter);
+            this.pump();
+        });
+    }
+
+    release(): void {
+        this.inFlight--;
+        this.pump();
+    }
+
+    /**
+     * Stop starting requests for `delay` milliseconds, or for the backoff
+     * of the current run of throttled responses.
+     */
+    throttle(backoff: number, maxBackoff: number, delay?: number): void {
+        this.throttled++;
+        delay = delay ?? Math.min(maxBackoff, backoff * 2 ** this.consecutiveThrottles);
+        this.consecutiveThrottles++;
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        // The bucket is drained too, so requests resume one by one after the pause.
+        this.tokens = Math.min(this.tokens, 0);
+    }
+
+    succeeded(): void {
+        this.consecutiveThrottles = 0;
+    }
+
+    stats(): RateLimitStats {
+        return {
+            queued: this.queue.length,
+            inFlight: this.inFlight,
+            started: this.started,
+            throttled: this.throttled,
+            lastWait: this.lastWait,
+            averageWait: this.started ? this.totalWait / this.started : 0,
+            maxWait: this.maxWait,
+            pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+        };
+    }
+
+    private pump(): void {
+        while (this.queue.length > 0) {
+            const now = Date.now();
+
+            if (this.pausedUntil > now) {
+                this.wake(this.pausedUntil - now);
+                return;
+            }
+
+            if (this.inFlight >= this.maxInFlight) {
+                // `release` pumps again.
+                return;
+            }
+
+            if (Number.isFinite(this.rate)) {
+                this.tokens = Math.min(this.burst, this.tokens + (now - this.refilledAt) / 1000 * this.rate);
+                this.refilledAt = now;
+
+                if (this.tokens < 1) {
+                    this.wake(Math.ceil((1 - this.tokens) / this.rate * 1000));
+                    return;
+                }
+                this.tokens--;
+            }
+
+            this.inFlight++;
+            this.started++;
+            (this.queue.shift() as Waiter).resolve();
+        }
+    }
+
+    private wake(delay: number): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.pump();
+        }, delay);
+    }
+
+    private recordWait(wait: number): void {
+        this.lastWait = wait;
+        this.maxWait = Math.max(this.maxWait, wait);
+        this.totalWait += wait;
+    }
+}
+
+/**
+ * Spaces out the requests of a `Client`, set up with `Client.setRateLimit`.
+ * Every request takes a token from the client-wide bucket and from the
+ * bucket of its route, if one is configured, and holds a slot in each
+ * until its response arrives.
+ */
+class RateLimiter {
+    readonly maxRetries: number;
+    private readonly backoff: number;
+    private readonly maxBackoff: number;
+    private readonly throttleStatusCodes: number[];
+    private readonly global: Bucket;
+    private readonly routes: [string, Bucket][];
+
+    constructor(options: RateLimiterOptions = {}) {
+        this.maxRetries = options.maxRetries ?? 3;
+        this.backoff = options.backoff ?? 1000;
+        this.maxBackoff = options.maxBackoff ?? 30000;
+        this.throttleStatusCodes = options.throttleStatusCodes ?? [GuGoTikStatusCode.CommentLimited];
+        this.global = new Bucket(options);
+        this.routes = Object.entries(options.routes ?? {})
+            .sort(([a], [b]) => b.length - a.length)
+            .map(([prefix, limit]) => [prefix, new Bucket(limit)]);
+    }
+
+    /**
+     * Wait until a request to `path` may start. Call the returned function
+     * once its response has arrived.
+     */
+    async acquire(path: string, signal?: AbortSignal): Promise<() => void> {
+        const route = this.bucket(path);
+
+        // The route bucket comes first, so a busy route does not hold client-wide slots.
+        await route?.acquire(signal);
+        try {
+            await this.global.acquire(signal);
+        } catch (error) {
+            route?.release();
+            throw error;
+        }
+
+        let released = false;
+        return () => {
+            if (!released) {
+                released = true;
+                this.global.release();
+                route?.release();
+            }
+        };
+    }
+
+    /**
+     * Whether a response or error reports throttling. A throttled request
+     * pauses its bucket before it is returned.
+     */
+    isThrottled(error: unknown, data?: any): boolean {
+        if (error instanceof RateLimitError || error instanceof ThrottledError) {
+            return true;
+        }
+        if (error instanceof AppwriteException) {
+            return error.code === 429 || (error.type === 'gugotik_status' && this.throttleStatusCodes.includes(error.code));
+        }
+        return !error && typeof data?.status_code === 'number' && this.throttleStatusCodes.includes(data.status_code);
+    }
+
+    /**
+     * Pause the requests to `path` after a throttled response, for
+     * `retryAfter` milliseconds when the server said how long.
+     */
+    throttle(path: string, retryAfter?: number): void {
+        (this.bucket(path) ?? this.global).throttle(this.backoff, this.maxBackoff, retryAfter);
+    }
+
+    succeeded(path: string): void {
+        (this.bucket(path) ?? this.global).succeeded();
+    }
+
+    stats(): RateLimiterStats {
+        return {
+            ...this.global.stats(),
+            routes: Object.fromEntries(this.routes.map(([prefix, bucket]) => [prefix, bucket.stats()])),
+        };
+    }
+
+    private bucket(path: string): Bucket | undefined {
+        return this.routes.find(([prefix]) => path.startsWith(prefix))?.[1];
+    }
+}
+
+export { RateLimiter };
+export type { RateLimit, RateLimiterOptions, RateLimitStats, RateLimiterStats };
@@ -0,0 +1,55 @@
+/** Names of the fields, query parameters and headers whose values are never shown. */
+const SECRET_NAMES = ['token', 'password', 'secret', 'authorization', 'x-appwrite-key', 'x-appwrite-session', 'x-appwrite-jwt'];
+
+const MASK = '[REDACTED]';
+
+/**
+ * Mask secrets in a URL, query string, form or JSON body, or log line:
+ * `token=...` pairs, `"password": "..."` fields and bearer credentials.
+ */
+function redact(text: string): string {
+    if (typeof text !== 'string' || !text) {
+        return text;
+    }
+
+    return text
+        .replace(/(^|[?&;\s])(token|password|secret)=[^&#\s]*/gi, `$1$2=${MASK}`)
+        .replace(/("(?:token|password|secret)"\s*:\s*)"(?:[^"\\]|\\.)*"/gi, `$1"${MASK}"`)
+        .replace(/\b(Bearer)\s+[\w\-.~+/]+=*/gi, `$1 ${MASK}`);
+}
+
+/**
+ * Copy of `value` with secret fields masked and strings passed through
+ * `redact`. Only plain objects and arrays are copied; anything else is
+ * returned as it is.
+ */
+function redactValue<T>(value: T, seen: WeakSet<object> = new WeakSet()): T {
+    if (typeof value === 'string') {
+        return redact(value) as T;
+    }
+    if (!value || typeof value !== 'object' || seen.has(value)) {
+        return value;
+    }
+
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, seen)) as T;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return value;
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([name, field]) => [
+        name,
+        isSecret(name) && typeof field === 'string' && field ? MASK : redactValue(field, seen),
+    ])) as T;
+}
+
+function isSecret(name: string): boolean {
+    return SECRET_NAMES.includes(name.toLowerCase());
+}
+
+export { redact, redactValue, isSecret };
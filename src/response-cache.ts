@@ -0,0 +1,366 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { writeAtomic } from './atomic-write';
+
+type CacheEntry = {
+    /** Path of the request below the endpoint, such as `/douyin/user/`. */
+    path: string;
+    /** Query parameters of the request, without credentials. */
+    params: { [key: string]: string };
+    status: number;
+    headers: { [key: string]: string };
+    /** Base64 encoded body. */
+    body: string;
+    etag?: string;
+    lastModified?: string;
+    storedAt: number;
+    /** Until then the entry is used without asking the server. */
+    expiresAt: number;
+}
+
+/**
+ * Where `ResponseCache` keeps its entries. Keys are hashes of the method,
+ * URL and key headers of a request.
+ */
+interface CacheStore {
+    get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+    set(key: string, entry: CacheEntry): Promise<void> | void;
+    delete(key: string): Promise<void> | void;
+    keys(): Promise<string[]> | string[];
+}
+
+/**
+ * Keeps the most recently used entries in memory.
+ */
+class MemoryCacheStore implements CacheStore {
+    readonly maxEntries: number;
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(maxEntries: number = 500) {
+        this.maxEntries = maxEntries;
+    }
+
+    get(key: string): CacheEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Map keeps insertion order, so re-inserting marks the entry as recently used.
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.maxEntries) {
+                break;
+            }
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    keys(): string[] {
+        return [...this.entries.keys()];
+    }
+}
+
+/**
+ * Keeps one JSON file per entry in `directory`, so the cache survives restarts.
+ */
+class FileCacheStore implements CacheStore {
+    directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        try {
+            return JSON.parse(await readFile(this.path(key), 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeAtomic(this.path(key), JSON.stringify(entry));
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.path(key), { force: true });
+    }
+
+    async keys(): Promise<string[]> {
+        try {
+            return (await readdir(this.directory))
+                .filter((name) => name.endsWith('.json'))
+                .map((name) => name.slice(0, -'.json'.length));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private path(key: string): string {
+        return join(this.directory, key + '.json');
+    }
+}
+
+/**
+ * Drops cached reads after a successful mutation. `match` restricts the
+ * rule to entries whose query parameter equals a parameter of the
+ * mutation, given as `{ entryParam: mutationParam }`.
+ */
+type CacheInvalidation = {
+    /** Path prefix of the mutations, such as `/douyin/user/profile/`. */
+    mutation: string;
+    /** Path prefixes of the entries to drop. */
+    routes: string[];
+    match?: { [param: string]: string };
+}
+
+/**
+ * What GuGoTik mutations change. Besides these rules, a mutation always
+ * drops the entries below its own path, as REST endpoints expect.
+ */
+const defaultInvalidations: CacheInvalidation[] = [
+    { mutation: '/douyin/user/profile/', routes: ['/douyin/user/'], match: { user_id: 'user_id' } },
+    { mutation: '/douyin/favorite/action/', routes: ['/douyin/favorite/list/', '/douyin/user/'], match: { user_id: 'actor_id' } },
+    { mutation: '/douyin/favorite/action/', routes: ['/douyin/feed/video/'], match: { video_id: 'video_id' } },
+    { mutation: '/douyin/relation/', routes: ['/douyin/relation/'] },
+    { mutation: '/douyin/relation/', routes: ['/douyin/user/'], match: { user_id: 'actor_id' } },
+    { mutation: '/douyin/relation/', routes: ['/douyin/user/'], match: { user_id: 'to_user_id' } },
+    { mutation: '/douyin/comment/', routes: ['/douyin/feed/video/'], match: { video_id: 'video_id' } },
+    { mutation: '/douyin/message/action/', routes: ['/douyin/message/'] },
+    { mutation: '/douyin/publish/', routes: ['/douyin/publish/list/', '/douyin/feed/'] },
+];
+
+type ResponseCacheOptions = {
+    /** Defaults to a `MemoryCacheStore`. */
+    store?: CacheStore;
+    /**
+     * Milliseconds a response without `Cache-Control: max-age` is used
+     * without asking the server. Defaults to 0: such responses are only
+     * kept when they carry an `ETag` or `Last-Modified` to revalidate with.
+     */
+    ttl?: number;
+    /** TTLs for the paths starting with a prefix. The longest matching prefix wins. */
+    routes?: { [prefix: string]: number };
+    /** Request headers that tell apart responses of the same URL. */
+    keyHeaders?: string[];
+    /** Defaults to `defaultInvalidations`. */
+    invalidations?: CacheInvalidation[];
+    /** Query parameters never written to the store. */
+    redactParams?: string[];
+    /** Called with the path and number of entries dropped by each invalidation. */
+    onInvalidate?: (path: string, count: number) => void;
+}
+
+/**
+ * Caches the responses of `GET` requests for `Client.setCache`. Entries are
+ * used while fresh, then revalidated with `If-None-Match` or
+ * `If-Modified-Since` when the server sent an `ETag` or `Last-Modified`.
+ */
+class ResponseCache {
+    readonly store: CacheStore;
+    private readonly ttl: number;
+    private readonly routes: [string, number][];
+    private readonly keyHeaders: string[];
+    private readonly invalidations: CacheInvalidation[];
+    private readonly redactParams: string[];
+    private readonly onInvalidate?: (path: string, count: number) => void;
+
+    constructor(options: ResponseCacheOptions = {}) {
+        this.store = options.store ?? new MemoryCacheStore();
+        this.ttl = options.ttl ?? 0;
+        this.routes = Object.entries(options.routes ?? {}).sort(([a], [b]) => b.length - a.length);
+        this.keyHeaders = (options.keyHeaders ?? ['authorization', 'accept-language', 'x-appwrite-project', 'x-appwrite-key', 'x-appwrite-session', 'x-appwrite-jwt', 'x-appwrite-locale'])
+            .map((name) => name.toLowerCase());
+        this.invalidations = options.invalidations ?? defaultInvalidations;
+        this.redactParams = options.redactParams ?? ['token', 'password', 'secret'];
+        this.onInvalidate = options.onInvalidate;
+    }
+
+    key(method: string, uri: string, headers: { [key: string]: string }): string {
+        const values = Object.entries(headers)
+            .map(([name, value]) => [name.toLowerCase(), value])
+            .filter(([name]) => this.keyHeaders.includes(name))
+            .sort(([a], [b]) => a.localeCompare(b));
+
+        return createHash('sha256').update(JSON.stringify([method.toUpperCase(), uri, values])).digest('hex');
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return await this.store.get(key);
+    }
+
+    isFresh(entry: CacheEntry): boolean {
+        return entry.expiresAt > Date.now();
+    }
+
+    /**
+     * Headers that ask the server whether `entry` is still current.
+     */
+    conditionalHeaders(entry: CacheEntry | undefined): { [key: string]: string } {
+        const headers: { [key: string]: string } = {};
+        if (entry?.etag) {
+            headers['if-none-match'] = entry.etag;
+        }
+        if (entry?.lastModified) {
+            headers['if-modified-since'] = entry.lastModified;
+        }
+        return headers;
+    }
+
+    /**
+     * Keep a successful response when its headers allow it. Returns the
+     * stored entry, if any.
+     */
+    async set(key: string, url: URL, path: string, response: Response, body: Uint8Array): Promise<CacheEntry | undefined> {
+        const cacheControl = ResponseCache.parseCacheControl(response.headers.get('cache-control'));
+        if (response.status !== 200 || 'no-store' in cacheControl) {
+            return undefined;
+        }
+
+        // GuGoTik reports failures inside a 200 response, and those are not worth keeping.
+        if (response.headers.get('content-type')?.includes('application/json')) {
+            try {
+                const data = JSON.parse(Buffer.from(body).toString('utf8'));
+                if (typeof data?.status_code === 'number' && data.status_code !== 0) {
+                    return undefined;
+                }
+            } catch {
+                return undefined;
+            }
+        }
+
+        const entry: CacheEntry = {
+            path,
+            params: Object.fromEntries([...url.searchParams].filter(([name]) => !this.redactParams.includes(name))),
+            status: response.status,
+            headers: Object.fromEntries([...response.headers].filter(([name]) => !['set-cookie', 'x-appwrite-warning'].includes(name.toLowerCase()))),
+            body: Buffer.from(body).toString('base64'),
+            etag: response.headers.get('etag') ?? undefined,
+            lastModified: response.headers.get('last-modified') ?? undefined,
+            storedAt: Date.now(),
+            expiresAt: this.expiresAt(path, cacheControl),
+        };
+
+        if (entry.expiresAt <= entry.storedAt && !entry.etag && !entry.lastModified) {
+            return undefined;
+        }
+
+        await this.store.set(key, entry);
+        return entry;
+    }
+
+    /**
+     * Extend an entry the server confirmed with a `304 Not Modified`.
+     */
+    async revalidated(key: string, entry: CacheEntry, response: Response): Promise<CacheEntry> {
+        const cacheControl = ResponseCache.parseCacheControl(response.headers.get('cache-control') ?? entry.headers['cache-control'] ?? null);
+        const refreshed = {
+            ...entry,
+            etag: response.headers.get('etag') ?? entry.etag,
+            storedAt: Date.now(),
+            expiresAt: this.expiresAt(entry.path, cacheControl),
+        };
+
+        await this.store.set(key, refreshed);
+        return refreshed;
+    }
+
+    /**
+     * Drop the entries below `path`, optionally only those whose query
+     * parameters include `params`. Returns the number of entries dropped.
+     */
+    async invalidate(path: string, params: { [key: string]: any } = {}): Promise<number> {
+        let count = 0;
+        for (const key of await this.store.keys()) {
+            const entry = await this.store.get(key);
+            if (entry && entry.path.startsWith(path) && Object.entries(params).every(([name, value]) => entry.params[name] === String(value))) {
+                await this.store.delete(key);
+                count++;
+            }
+        }
+
+        this.onInvalidate?.(path, count);
+        return count;
+    }
+
+    /**
+     * Apply the invalidation rules to a successful mutation.
+     */
+    async mutated(path: string, params: { [key: string]: any }): Promise<void> {
+        await this.invalidate(path);
+
+        for (const rule of this.invalidations) {
+            if (!path.startsWith(rule.mutation)) {
+                continue;
+            }
+
+            const match = Object.entries(rule.match ?? {}).map(([name, param]) => [name, params[param]]);
+            // A rule matching on a parameter the mutation did not send cannot tell which entries changed.
+            if (match.some(([_, value]) => typeof value === 'undefined' || value === null)) {
+                continue;
+            }
+
+            for (const route of rule.routes) {
+                await this.invalidate(route, Object.fromEntries(match));
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        for (const key of await this.store.keys()) {
+            await this.store.delete(key);
+        }
+    }
+
+    private expiresAt(path: string, cacheControl: { [directive: string]: string }): number {
+        const now = Date.now();
+
+        if ('no-cache' in cacheControl) {
+            return now;
+        }
+
+        const maxAge = Number(cacheControl['max-age']);
+        if (!Number.isNaN(maxAge)) {
+            return now + maxAge * 1000;
+        }
+
+        return now + (this.routes.find(([prefix]) => path.startsWith(prefix))?.[1] ?? this.ttl);
+    }
+
+    static toResponse(entry: CacheEntry): Response {
+        return new Response(Buffer.from(entry.body, 'base64'), { status: entry.status, headers: entry.headers });
+    }
+
+    static parseCacheControl(value: string | null): { [directive: string]: string } {
+        const directives: { [directive: string]: string } = {};
+        for (const part of (value ?? '').split(',')) {
+            const [name, argument] = part.trim().split('=');
+            if (name) {
+                directives[name.toLowerCase()] = (argument ?? '').replace(/^"|"$/g, '');
+            }
+        }
+        return directives;
+    }
+}
+
+export { ResponseCache, MemoryCacheStore, FileCacheStore, defaultInvalidations };
+export type { CacheEntry, CacheStore, CacheInvalidation, ResponseCacheOptions };
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { AuthenticatorType } from '../enums/authenticator-type';
@@ -15,10 +15,11 @@ export class Account {
     /**
      * Get the currently logged in user.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(): Promise<Models.User<Preferences>> {
+    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(requestOptions?: RequestOptions): Promise<Models.User<Preferences>> {
 
         const apiPath = '/account';
         const payload: Payload = {};
@@ -32,6 +33,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -42,10 +45,11 @@ export class Account {
      * @param {string} params.email - User email.
      * @param {string} params.password - New user password. Must be between 8 and 256 chars.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }): Promise<Models.User<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Use this endpoint to allow a new user to register a new account in your project. After the user registration completes successfully, you can use the [/account/verfication](https://appwrite.io/docs/references/cloud/client-web/account#createVerification) route to start verifying the user email address. To allow the new user to login to their new account, you need to create a new [account session](https://appwrite.io/docs/references/cloud/client-web/account#createEmailSession).
      *
@@ -53,19 +57,22 @@ export class Account {
      * @param {string} email - User email.
      * @param {string} password - New user password. Must be between 8 and 256 chars.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     create<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -73,6 +80,7 @@ export class Account {
                 password: rest[1] as string,
                 name: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -115,6 +123,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -125,10 +135,11 @@ export class Account {
      *
      * @param {string} params.email - User email.
      * @param {string} params.password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { email: string, password: string  }): Promise<Models.User<Preferences>>;
+    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { email: string, password: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update currently logged in user account email address. After changing user address, the user confirmation status will get reset. A new confirmation email is not sent automatically however you can use the send confirmation email endpoint again to send the confirmation email. For security measures, user password is required to complete this request.
      * This endpoint can also be used to convert an anonymous account to a normal one, by passing an email address and a new password.
@@ -136,24 +147,28 @@ export class Account {
      *
      * @param {string} email - User email.
      * @param {string} password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(email: string, password: string): Promise<Models.User<Preferences>>;
+    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(email: string, password: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { email: string, password: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { email: string, password: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { email: string, password: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 email: paramsOrFirst as string,
                 password: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const email = params.email;
@@ -185,6 +200,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -193,33 +210,38 @@ export class Account {
      *
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, provider, providerUid, providerEmail, providerAccessTokenExpiry
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IdentityList>}
      */
-    listIdentities(params?: { queries?: string[], total?: boolean  }): Promise<Models.IdentityList>;
+    listIdentities(params?: { queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.IdentityList>;
     /**
      * Get the list of identities for the currently logged in user.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, provider, providerUid, providerEmail, providerAccessTokenExpiry
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IdentityList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listIdentities(queries?: string[], total?: boolean): Promise<Models.IdentityList>;
+    listIdentities(queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.IdentityList>;
     listIdentities(
         paramsOrFirst?: { queries?: string[], total?: boolean } | string[],
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.IdentityList> {
         let params: { queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 total: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -244,6 +266,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -251,30 +275,36 @@ export class Account {
      * Delete an identity by its unique ID.
      *
      * @param {string} params.identityId - Identity ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteIdentity(params: { identityId: string  }): Promise<{}>;
+    deleteIdentity(params: { identityId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an identity by its unique ID.
      *
      * @param {string} identityId - Identity ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteIdentity(identityId: string): Promise<{}>;
+    deleteIdentity(identityId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteIdentity(
-        paramsOrFirst: { identityId: string } | string    
+        paramsOrFirst: { identityId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { identityId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { identityId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 identityId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const identityId = params.identityId;
@@ -296,16 +326,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Use this endpoint to create a JSON Web Token. You can use the resulting JWT to authenticate on behalf of the current user when working with the Appwrite server-side API and SDKs. The JWT secret is valid for 15 minutes from its creation and will be invalid if the user will logout in that time frame.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Jwt>}
      */
-    createJWT(): Promise<Models.Jwt> {
+    createJWT(requestOptions?: RequestOptions): Promise<Models.Jwt> {
 
         const apiPath = '/account/jwts';
         const payload: Payload = {};
@@ -320,6 +353,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -328,33 +363,38 @@ export class Account {
      *
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listLogs(params?: { queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listLogs(params?: { queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the list of latest security activity logs for the currently logged in user. Each log returns user IP address, location and date and time of log.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listLogs(queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listLogs(queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listLogs(
         paramsOrFirst?: { queries?: string[], total?: boolean } | string[],
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 total: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -379,6 +419,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -386,30 +428,36 @@ export class Account {
      * Enable or disable MFA on an account.
      *
      * @param {boolean} params.mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { mfa: boolean  }): Promise<Models.User<Preferences>>;
+    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { mfa: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Enable or disable MFA on an account.
      *
      * @param {boolean} mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(mfa: boolean): Promise<Models.User<Preferences>>;
+    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(mfa: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { mfa: boolean } | boolean    
+        paramsOrFirst: { mfa: boolean } | boolean,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.User<Preferences>> {
         let params: { mfa: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { mfa: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 mfa: paramsOrFirst as boolean            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const mfa = params.mfa;
@@ -434,6 +482,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -441,31 +491,37 @@ export class Account {
      * Add an authenticator app to be used as an MFA factor. Verify the authenticator using the [verify authenticator](/docs/references/cloud/client-web/account#updateMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} params.type - Type of authenticator. Must be `totp`
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaType>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.createMFAAuthenticator` instead.
      */
-    createMfaAuthenticator(params: { type: AuthenticatorType  }): Promise<Models.MfaType>;
+    createMfaAuthenticator(params: { type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<Models.MfaType>;
     /**
      * Add an authenticator app to be used as an MFA factor. Verify the authenticator using the [verify authenticator](/docs/references/cloud/client-web/account#updateMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} type - Type of authenticator. Must be `totp`
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaType>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMfaAuthenticator(type: AuthenticatorType): Promise<Models.MfaType>;
+    createMfaAuthenticator(type: AuthenticatorType, requestOptions?: RequestOptions): Promise<Models.MfaType>;
     createMfaAuthenticator(
-        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType    
+        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaType> {
         let params: { type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const type = params.type;
@@ -487,6 +543,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -494,30 +552,36 @@ export class Account {
      * Add an authenticator app to be used as an MFA factor. Verify the authenticator using the [verify authenticator](/docs/references/cloud/client-web/account#updateMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} params.type - Type of authenticator. Must be `totp`
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaType>}
      */
-    createMFAAuthenticator(params: { type: AuthenticatorType  }): Promise<Models.MfaType>;
+    createMFAAuthenticator(params: { type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<Models.MfaType>;
     /**
      * Add an authenticator app to be used as an MFA factor. Verify the authenticator using the [verify authenticator](/docs/references/cloud/client-web/account#updateMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} type - Type of authenticator. Must be `totp`
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaType>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMFAAuthenticator(type: AuthenticatorType): Promise<Models.MfaType>;
+    createMFAAuthenticator(type: AuthenticatorType, requestOptions?: RequestOptions): Promise<Models.MfaType>;
     createMFAAuthenticator(
-        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType    
+        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaType> {
         let params: { type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const type = params.type;
@@ -539,6 +603,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -547,34 +613,39 @@ export class Account {
      *
      * @param {AuthenticatorType} params.type - Type of authenticator.
      * @param {string} params.otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.updateMFAAuthenticator` instead.
      */
-    updateMfaAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { type: AuthenticatorType, otp: string  }): Promise<Models.User<Preferences>>;
+    updateMfaAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { type: AuthenticatorType, otp: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Verify an authenticator app after adding it using the [add authenticator](/docs/references/cloud/client-web/account#createMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} type - Type of authenticator.
      * @param {string} otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMfaAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(type: AuthenticatorType, otp: string): Promise<Models.User<Preferences>>;
+    updateMfaAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(type: AuthenticatorType, otp: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateMfaAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { type: AuthenticatorType, otp: string } | AuthenticatorType,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { type: AuthenticatorType, otp: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType, otp: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType,
                 otp: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const type = params.type;
@@ -603,6 +674,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -611,33 +684,38 @@ export class Account {
      *
      * @param {AuthenticatorType} params.type - Type of authenticator.
      * @param {string} params.otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateMFAAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { type: AuthenticatorType, otp: string  }): Promise<Models.User<Preferences>>;
+    updateMFAAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { type: AuthenticatorType, otp: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Verify an authenticator app after adding it using the [add authenticator](/docs/references/cloud/client-web/account#createMfaAuthenticator) method.
      *
      * @param {AuthenticatorType} type - Type of authenticator.
      * @param {string} otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMFAAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(type: AuthenticatorType, otp: string): Promise<Models.User<Preferences>>;
+    updateMFAAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(type: AuthenticatorType, otp: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateMFAAuthenticator<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { type: AuthenticatorType, otp: string } | AuthenticatorType,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { type: AuthenticatorType, otp: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType, otp: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType,
                 otp: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const type = params.type;
@@ -666,6 +744,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -673,31 +753,37 @@ export class Account {
      * Delete an authenticator for a user by ID.
      *
      * @param {AuthenticatorType} params.type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.deleteMFAAuthenticator` instead.
      */
-    deleteMfaAuthenticator(params: { type: AuthenticatorType  }): Promise<{}>;
+    deleteMfaAuthenticator(params: { type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an authenticator for a user by ID.
      *
      * @param {AuthenticatorType} type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteMfaAuthenticator(type: AuthenticatorType): Promise<{}>;
+    deleteMfaAuthenticator(type: AuthenticatorType, requestOptions?: RequestOptions): Promise<{}>;
     deleteMfaAuthenticator(
-        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType    
+        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const type = params.type;
@@ -719,6 +805,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -726,30 +814,36 @@ export class Account {
      * Delete an authenticator for a user by ID.
      *
      * @param {AuthenticatorType} params.type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteMFAAuthenticator(params: { type: AuthenticatorType  }): Promise<{}>;
+    deleteMFAAuthenticator(params: { type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an authenticator for a user by ID.
      *
      * @param {AuthenticatorType} type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteMFAAuthenticator(type: AuthenticatorType): Promise<{}>;
+    deleteMFAAuthenticator(type: AuthenticatorType, requestOptions?: RequestOptions): Promise<{}>;
     deleteMFAAuthenticator(
-        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType    
+        paramsOrFirst: { type: AuthenticatorType } | AuthenticatorType,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'type' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 type: paramsOrFirst as AuthenticatorType            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const type = params.type;
@@ -771,6 +865,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -778,31 +874,37 @@ export class Account {
      * Begin the process of MFA verification after sign-in. Finish the flow with [updateMfaChallenge](/docs/references/cloud/client-web/account#updateMfaChallenge) method.
      *
      * @param {AuthenticationFactor} params.factor - Factor used for verification. Must be one of following: `email`, `phone`, `totp`, `recoveryCode`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaChallenge>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.createMFAChallenge` instead.
      */
-    createMfaChallenge(params: { factor: AuthenticationFactor  }): Promise<Models.MfaChallenge>;
+    createMfaChallenge(params: { factor: AuthenticationFactor  }, requestOptions?: RequestOptions): Promise<Models.MfaChallenge>;
     /**
      * Begin the process of MFA verification after sign-in. Finish the flow with [updateMfaChallenge](/docs/references/cloud/client-web/account#updateMfaChallenge) method.
      *
      * @param {AuthenticationFactor} factor - Factor used for verification. Must be one of following: `email`, `phone`, `totp`, `recoveryCode`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaChallenge>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMfaChallenge(factor: AuthenticationFactor): Promise<Models.MfaChallenge>;
+    createMfaChallenge(factor: AuthenticationFactor, requestOptions?: RequestOptions): Promise<Models.MfaChallenge>;
     createMfaChallenge(
-        paramsOrFirst: { factor: AuthenticationFactor } | AuthenticationFactor    
+        paramsOrFirst: { factor: AuthenticationFactor } | AuthenticationFactor,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaChallenge> {
         let params: { factor: AuthenticationFactor };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'factor' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { factor: AuthenticationFactor };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 factor: paramsOrFirst as AuthenticationFactor            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const factor = params.factor;
@@ -827,6 +929,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -834,30 +938,36 @@ export class Account {
      * Begin the process of MFA verification after sign-in. Finish the flow with [updateMfaChallenge](/docs/references/cloud/client-web/account#updateMfaChallenge) method.
      *
      * @param {AuthenticationFactor} params.factor - Factor used for verification. Must be one of following: `email`, `phone`, `totp`, `recoveryCode`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaChallenge>}
      */
-    createMFAChallenge(params: { factor: AuthenticationFactor  }): Promise<Models.MfaChallenge>;
+    createMFAChallenge(params: { factor: AuthenticationFactor  }, requestOptions?: RequestOptions): Promise<Models.MfaChallenge>;
     /**
      * Begin the process of MFA verification after sign-in. Finish the flow with [updateMfaChallenge](/docs/references/cloud/client-web/account#updateMfaChallenge) method.
      *
      * @param {AuthenticationFactor} factor - Factor used for verification. Must be one of following: `email`, `phone`, `totp`, `recoveryCode`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaChallenge>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMFAChallenge(factor: AuthenticationFactor): Promise<Models.MfaChallenge>;
+    createMFAChallenge(factor: AuthenticationFactor, requestOptions?: RequestOptions): Promise<Models.MfaChallenge>;
     createMFAChallenge(
-        paramsOrFirst: { factor: AuthenticationFactor } | AuthenticationFactor    
+        paramsOrFirst: { factor: AuthenticationFactor } | AuthenticationFactor,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaChallenge> {
         let params: { factor: AuthenticationFactor };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'factor' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { factor: AuthenticationFactor };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 factor: paramsOrFirst as AuthenticationFactor            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const factor = params.factor;
@@ -882,6 +992,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -890,34 +1002,39 @@ export class Account {
      *
      * @param {string} params.challengeId - ID of the challenge.
      * @param {string} params.otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.updateMFAChallenge` instead.
      */
-    updateMfaChallenge(params: { challengeId: string, otp: string  }): Promise<Models.Session>;
+    updateMfaChallenge(params: { challengeId: string, otp: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Complete the MFA challenge by providing the one-time password. Finish the process of MFA verification by providing the one-time password. To begin the flow, use [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method.
      *
      * @param {string} challengeId - ID of the challenge.
      * @param {string} otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMfaChallenge(challengeId: string, otp: string): Promise<Models.Session>;
+    updateMfaChallenge(challengeId: string, otp: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     updateMfaChallenge(
         paramsOrFirst: { challengeId: string, otp: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { challengeId: string, otp: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { challengeId: string, otp: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 challengeId: paramsOrFirst as string,
                 otp: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const challengeId = params.challengeId;
@@ -949,6 +1066,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -957,33 +1076,38 @@ export class Account {
      *
      * @param {string} params.challengeId - ID of the challenge.
      * @param {string} params.otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    updateMFAChallenge(params: { challengeId: string, otp: string  }): Promise<Models.Session>;
+    updateMFAChallenge(params: { challengeId: string, otp: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Complete the MFA challenge by providing the one-time password. Finish the process of MFA verification by providing the one-time password. To begin the flow, use [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method.
      *
      * @param {string} challengeId - ID of the challenge.
      * @param {string} otp - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMFAChallenge(challengeId: string, otp: string): Promise<Models.Session>;
+    updateMFAChallenge(challengeId: string, otp: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     updateMFAChallenge(
         paramsOrFirst: { challengeId: string, otp: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { challengeId: string, otp: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { challengeId: string, otp: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 challengeId: paramsOrFirst as string,
                 otp: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const challengeId = params.challengeId;
@@ -1015,17 +1139,20 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List the factors available on the account to be used as a MFA challange.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.listMFAFactors` instead.
      */
-    listMfaFactors(): Promise<Models.MfaFactors> {
+    listMfaFactors(requestOptions?: RequestOptions): Promise<Models.MfaFactors> {
 
         const apiPath = '/account/mfa/factors';
         const payload: Payload = {};
@@ -1039,16 +1166,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List the factors available on the account to be used as a MFA challange.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      */
-    listMFAFactors(): Promise<Models.MfaFactors> {
+    listMFAFactors(requestOptions?: RequestOptions): Promise<Models.MfaFactors> {
 
         const apiPath = '/account/mfa/factors';
         const payload: Payload = {};
@@ -1062,17 +1192,20 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get recovery codes that can be used as backup for MFA flow. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to read recovery codes.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.getMFARecoveryCodes` instead.
      */
-    getMfaRecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    getMfaRecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1086,16 +1219,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get recovery codes that can be used as backup for MFA flow. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to read recovery codes.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    getMFARecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    getMFARecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1109,17 +1245,20 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Generate recovery codes as backup for MFA flow. It's recommended to generate and show then immediately after user successfully adds their authehticator. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.createMFARecoveryCodes` instead.
      */
-    createMfaRecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    createMfaRecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1134,16 +1273,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Generate recovery codes as backup for MFA flow. It's recommended to generate and show then immediately after user successfully adds their authehticator. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    createMFARecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    createMFARecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1158,17 +1300,20 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Regenerate recovery codes that can be used as backup for MFA flow. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to regenreate recovery codes.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.updateMFARecoveryCodes` instead.
      */
-    updateMfaRecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    updateMfaRecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1183,16 +1328,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Regenerate recovery codes that can be used as backup for MFA flow. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to regenreate recovery codes.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    updateMFARecoveryCodes(): Promise<Models.MfaRecoveryCodes> {
+    updateMFARecoveryCodes(requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes> {
 
         const apiPath = '/account/mfa/recovery-codes';
         const payload: Payload = {};
@@ -1207,6 +1355,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1214,30 +1364,36 @@ export class Account {
      * Update currently logged in user account name.
      *
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { name: string  }): Promise<Models.User<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { name: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update currently logged in user account name.
      *
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(name: string): Promise<Models.User<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(name: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { name: string } | string    
+        paramsOrFirst: { name: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.User<Preferences>> {
         let params: { name: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { name: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 name: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const name = params.name;
@@ -1262,6 +1418,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1270,33 +1428,38 @@ export class Account {
      *
      * @param {string} params.password - New user password. Must be at least 8 chars.
      * @param {string} params.oldPassword - Current user password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { password: string, oldPassword?: string  }): Promise<Models.User<Preferences>>;
+    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { password: string, oldPassword?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update currently logged in user password. For validation, user is required to pass in the new password, and the old password. For users created with OAuth, Team Invites and Magic URL, oldPassword is optional.
      *
      * @param {string} password - New user password. Must be at least 8 chars.
      * @param {string} oldPassword - Current user password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(password: string, oldPassword?: string): Promise<Models.User<Preferences>>;
+    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(password: string, oldPassword?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { password: string, oldPassword?: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { password: string, oldPassword?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { password: string, oldPassword?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 password: paramsOrFirst as string,
                 oldPassword: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const password = params.password;
@@ -1325,6 +1488,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1333,33 +1498,38 @@ export class Account {
      *
      * @param {string} params.phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} params.password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { phone: string, password: string  }): Promise<Models.User<Preferences>>;
+    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { phone: string, password: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the currently logged in user's phone number. After updating the phone number, the phone verification status will be reset. A confirmation SMS is not sent automatically, however you can use the [POST /account/verification/phone](https://appwrite.io/docs/references/cloud/client-web/account#createPhoneVerification) endpoint to send a confirmation SMS.
      *
      * @param {string} phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(phone: string, password: string): Promise<Models.User<Preferences>>;
+    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(phone: string, password: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { phone: string, password: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { phone: string, password: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { phone: string, password: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 phone: paramsOrFirst as string,
                 password: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const phone = params.phone;
@@ -1391,16 +1561,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get the preferences as a key-value object for the currently logged in user.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      */
-    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(): Promise<Preferences> {
+    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(requestOptions?: RequestOptions): Promise<Preferences> {
 
         const apiPath = '/account/prefs';
         const payload: Payload = {};
@@ -1414,6 +1587,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1421,30 +1596,36 @@ export class Account {
      * Update currently logged in user account preferences. The object you pass is stored as is, and replaces any previous value. The maximum allowed prefs size is 64kB and throws error if exceeded.
      *
      * @param {Partial<Preferences>} params.prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { prefs: Partial<Preferences>  }): Promise<Models.User<Preferences>>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { prefs: Partial<Preferences>  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update currently logged in user account preferences. The object you pass is stored as is, and replaces any previous value. The maximum allowed prefs size is 64kB and throws error if exceeded.
      *
      * @param {Partial<Preferences>} prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(prefs: Partial<Preferences>): Promise<Models.User<Preferences>>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(prefs: Partial<Preferences>, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { prefs: Partial<Preferences> } | Partial<Preferences>    
+        paramsOrFirst: { prefs: Partial<Preferences> } | Partial<Preferences>,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.User<Preferences>> {
         let params: { prefs: Partial<Preferences> };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'prefs' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { prefs: Partial<Preferences> };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 prefs: paramsOrFirst as Partial<Preferences>            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const prefs = params.prefs;
@@ -1469,6 +1650,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1477,33 +1660,38 @@ export class Account {
      *
      * @param {string} params.email - User email.
      * @param {string} params.url - URL to redirect the user back to your app from the recovery email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createRecovery(params: { email: string, url: string  }): Promise<Models.Token>;
+    createRecovery(params: { email: string, url: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Sends the user an email with a temporary secret key for password reset. When the user clicks the confirmation link he is redirected back to your app password reset URL with the secret key and email address values attached to the URL query string. Use the query string params to submit a request to the [PUT /account/recovery](https://appwrite.io/docs/references/cloud/client-web/account#updateRecovery) endpoint to complete the process. The verification link sent to the user's email address is valid for 1 hour.
      *
      * @param {string} email - User email.
      * @param {string} url - URL to redirect the user back to your app from the recovery email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createRecovery(email: string, url: string): Promise<Models.Token>;
+    createRecovery(email: string, url: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     createRecovery(
         paramsOrFirst: { email: string, url: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { email: string, url: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { email: string, url: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 email: paramsOrFirst as string,
                 url: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const email = params.email;
@@ -1535,6 +1723,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1546,10 +1736,11 @@ export class Account {
      * @param {string} params.userId - User ID.
      * @param {string} params.secret - Valid reset token.
      * @param {string} params.password - New user password. Must be between 8 and 256 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    updateRecovery(params: { userId: string, secret: string, password: string  }): Promise<Models.Token>;
+    updateRecovery(params: { userId: string, secret: string, password: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to complete the user account password reset. Both the **userId** and **secret** arguments will be passed as query parameters to the redirect URL you have provided when sending your request to the [POST /account/recovery](https://appwrite.io/docs/references/cloud/client-web/account#createRecovery) endpoint.
      * 
@@ -1558,25 +1749,29 @@ export class Account {
      * @param {string} userId - User ID.
      * @param {string} secret - Valid reset token.
      * @param {string} password - New user password. Must be between 8 and 256 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateRecovery(userId: string, secret: string, password: string): Promise<Models.Token>;
+    updateRecovery(userId: string, secret: string, password: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     updateRecovery(
         paramsOrFirst: { userId: string, secret: string, password: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, secret: string, password: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string, password: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string,
                 password: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1615,16 +1810,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get the list of active sessions across different devices for the currently logged in user.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SessionList>}
      */
-    listSessions(): Promise<Models.SessionList> {
+    listSessions(requestOptions?: RequestOptions): Promise<Models.SessionList> {
 
         const apiPath = '/account/sessions';
         const payload: Payload = {};
@@ -1638,16 +1836,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Delete all sessions from the user account and remove any sessions cookies from the end client.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteSessions(): Promise<{}> {
+    deleteSessions(requestOptions?: RequestOptions): Promise<{}> {
 
         const apiPath = '/account/sessions';
         const payload: Payload = {};
@@ -1662,16 +1863,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Use this endpoint to allow a new user to register an anonymous account in your project. This route will also create a new session for the user. To allow the new user to convert an anonymous account to a normal account, you need to update its [email and password](https://appwrite.io/docs/references/cloud/client-web/account#updateEmail) or create an [OAuth2 session](https://appwrite.io/docs/references/cloud/client-web/account#CreateOAuth2Session).
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    createAnonymousSession(): Promise<Models.Session> {
+    createAnonymousSession(requestOptions?: RequestOptions): Promise<Models.Session> {
 
         const apiPath = '/account/sessions/anonymous';
         const payload: Payload = {};
@@ -1686,6 +1890,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1696,10 +1902,11 @@ export class Account {
      *
      * @param {string} params.email - User email.
      * @param {string} params.password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    createEmailPasswordSession(params: { email: string, password: string  }): Promise<Models.Session>;
+    createEmailPasswordSession(params: { email: string, password: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Allow the user to login into their account by providing a valid email and password combination. This route will create a new session for the user.
      * 
@@ -1707,24 +1914,28 @@ export class Account {
      *
      * @param {string} email - User email.
      * @param {string} password - User password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmailPasswordSession(email: string, password: string): Promise<Models.Session>;
+    createEmailPasswordSession(email: string, password: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     createEmailPasswordSession(
         paramsOrFirst: { email: string, password: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { email: string, password: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { email: string, password: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 email: paramsOrFirst as string,
                 password: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const email = params.email;
@@ -1756,6 +1967,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1764,34 +1977,39 @@ export class Account {
      *
      * @param {string} params.userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated This API has been deprecated since 1.6.0. Please use `Account.createSession` instead.
      */
-    updateMagicURLSession(params: { userId: string, secret: string  }): Promise<Models.Session>;
+    updateMagicURLSession(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Use this endpoint to create a session from token. Provide the **userId** and **secret** parameters from the successful response of authentication flows initiated by token creation. For example, magic URL and phone login.
      *
      * @param {string} userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMagicURLSession(userId: string, secret: string): Promise<Models.Session>;
+    updateMagicURLSession(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     updateMagicURLSession(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1823,6 +2041,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1831,34 +2051,39 @@ export class Account {
      *
      * @param {string} params.userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated This API has been deprecated since 1.6.0. Please use `Account.createSession` instead.
      */
-    updatePhoneSession(params: { userId: string, secret: string  }): Promise<Models.Session>;
+    updatePhoneSession(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Use this endpoint to create a session from token. Provide the **userId** and **secret** parameters from the successful response of authentication flows initiated by token creation. For example, magic URL and phone login.
      *
      * @param {string} userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePhoneSession(userId: string, secret: string): Promise<Models.Session>;
+    updatePhoneSession(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     updatePhoneSession(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1890,6 +2115,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1898,33 +2125,38 @@ export class Account {
      *
      * @param {string} params.userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.secret - Secret of a token generated by login methods. For example, the `createMagicURLToken` or `createPhoneToken` methods.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    createSession(params: { userId: string, secret: string  }): Promise<Models.Session>;
+    createSession(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Use this endpoint to create a session from token. Provide the **userId** and **secret** parameters from the successful response of authentication flows initiated by token creation. For example, magic URL and phone login.
      *
      * @param {string} userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} secret - Secret of a token generated by login methods. For example, the `createMagicURLToken` or `createPhoneToken` methods.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSession(userId: string, secret: string): Promise<Models.Session>;
+    createSession(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     createSession(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Session> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1956,6 +2188,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1963,30 +2197,36 @@ export class Account {
      * Use this endpoint to get a logged in user's session using a Session ID. Inputting 'current' will return the current session being used.
      *
      * @param {string} params.sessionId - Session ID. Use the string 'current' to get the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    getSession(params: { sessionId: string  }): Promise<Models.Session>;
+    getSession(params: { sessionId: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Use this endpoint to get a logged in user's session using a Session ID. Inputting 'current' will return the current session being used.
      *
      * @param {string} sessionId - Session ID. Use the string 'current' to get the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getSession(sessionId: string): Promise<Models.Session>;
+    getSession(sessionId: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     getSession(
-        paramsOrFirst: { sessionId: string } | string    
+        paramsOrFirst: { sessionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Session> {
         let params: { sessionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { sessionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 sessionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const sessionId = params.sessionId;
@@ -2007,6 +2247,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2014,30 +2256,36 @@ export class Account {
      * Use this endpoint to extend a session's length. Extending a session is useful when session expiry is short. If the session was created using an OAuth provider, this endpoint refreshes the access token from the provider.
      *
      * @param {string} params.sessionId - Session ID. Use the string 'current' to update the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    updateSession(params: { sessionId: string  }): Promise<Models.Session>;
+    updateSession(params: { sessionId: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Use this endpoint to extend a session's length. Extending a session is useful when session expiry is short. If the session was created using an OAuth provider, this endpoint refreshes the access token from the provider.
      *
      * @param {string} sessionId - Session ID. Use the string 'current' to update the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSession(sessionId: string): Promise<Models.Session>;
+    updateSession(sessionId: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     updateSession(
-        paramsOrFirst: { sessionId: string } | string    
+        paramsOrFirst: { sessionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Session> {
         let params: { sessionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { sessionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 sessionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const sessionId = params.sessionId;
@@ -2059,6 +2307,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2066,30 +2316,36 @@ export class Account {
      * Logout the user. Use 'current' as the session ID to logout on this device, use a session ID to logout on another device. If you're looking to logout the user on all devices, use [Delete Sessions](https://appwrite.io/docs/references/cloud/client-web/account#deleteSessions) instead.
      *
      * @param {string} params.sessionId - Session ID. Use the string 'current' to delete the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteSession(params: { sessionId: string  }): Promise<{}>;
+    deleteSession(params: { sessionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Logout the user. Use 'current' as the session ID to logout on this device, use a session ID to logout on another device. If you're looking to logout the user on all devices, use [Delete Sessions](https://appwrite.io/docs/references/cloud/client-web/account#deleteSessions) instead.
      *
      * @param {string} sessionId - Session ID. Use the string 'current' to delete the current device session.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteSession(sessionId: string): Promise<{}>;
+    deleteSession(sessionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteSession(
-        paramsOrFirst: { sessionId: string } | string    
+        paramsOrFirst: { sessionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { sessionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { sessionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 sessionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const sessionId = params.sessionId;
@@ -2111,16 +2367,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Block the currently logged in user account. Behind the scene, the user record is not deleted but permanently blocked from any access. To completely delete a user, use the Users API instead.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(): Promise<Models.User<Preferences>> {
+    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(requestOptions?: RequestOptions): Promise<Models.User<Preferences>> {
 
         const apiPath = '/account/status';
         const payload: Payload = {};
@@ -2135,6 +2394,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2147,10 +2408,11 @@ export class Account {
      * @param {string} params.userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars. If the email address has never been used, a new account is created using the provided userId. Otherwise, if the email address is already attached to an account, the user ID is ignored.
      * @param {string} params.email - User email.
      * @param {boolean} params.phrase - Toggle for security phrase. If enabled, email will be send with a randomly generated phrase and the phrase will also be included in the response. Confirming phrases match increases the security of your authentication flow.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createEmailToken(params: { userId: string, email: string, phrase?: boolean  }): Promise<Models.Token>;
+    createEmailToken(params: { userId: string, email: string, phrase?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Sends the user an email with a secret key for creating a session. If the email address has never been used, a **new account is created** using the provided `userId`. Otherwise, if the email address is already attached to an account, the **user ID is ignored**. Then, the user will receive an email with the one-time password. Use the returned user ID and secret and submit a request to the [POST /v1/account/sessions/token](https://appwrite.io/docs/references/cloud/client-web/account#createSession) endpoint to complete the login process. The secret sent to the user's email is valid for 15 minutes.
      * 
@@ -2160,25 +2422,29 @@ export class Account {
      * @param {string} userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars. If the email address has never been used, a new account is created using the provided userId. Otherwise, if the email address is already attached to an account, the user ID is ignored.
      * @param {string} email - User email.
      * @param {boolean} phrase - Toggle for security phrase. If enabled, email will be send with a randomly generated phrase and the phrase will also be included in the response. Confirming phrases match increases the security of your authentication flow.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmailToken(userId: string, email: string, phrase?: boolean): Promise<Models.Token>;
+    createEmailToken(userId: string, email: string, phrase?: boolean, requestOptions?: RequestOptions): Promise<Models.Token>;
     createEmailToken(
         paramsOrFirst: { userId: string, email: string, phrase?: boolean } | string,
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, email: string, phrase?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, phrase?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 email: rest[0] as string,
                 phrase: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2214,6 +2480,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2227,10 +2495,11 @@ export class Account {
      * @param {string} params.email - User email.
      * @param {string} params.url - URL to redirect the user back to your app from the magic URL login. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {boolean} params.phrase - Toggle for security phrase. If enabled, email will be send with a randomly generated phrase and the phrase will also be included in the response. Confirming phrases match increases the security of your authentication flow.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createMagicURLToken(params: { userId: string, email: string, url?: string, phrase?: boolean  }): Promise<Models.Token>;
+    createMagicURLToken(params: { userId: string, email: string, url?: string, phrase?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Sends the user an email with a secret key for creating a session. If the provided user ID has not been registered, a new user will be created. When the user clicks the link in the email, the user is redirected back to the URL you provided with the secret key and userId values attached to the URL query string. Use the query string parameters to submit a request to the [POST /v1/account/sessions/token](https://appwrite.io/docs/references/cloud/client-web/account#createSession) endpoint to complete the login process. The link sent to the user's email address is valid for 1 hour.
      * 
@@ -2241,19 +2510,22 @@ export class Account {
      * @param {string} email - User email.
      * @param {string} url - URL to redirect the user back to your app from the magic URL login. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {boolean} phrase - Toggle for security phrase. If enabled, email will be send with a randomly generated phrase and the phrase will also be included in the response. Confirming phrases match increases the security of your authentication flow.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMagicURLToken(userId: string, email: string, url?: string, phrase?: boolean): Promise<Models.Token>;
+    createMagicURLToken(userId: string, email: string, url?: string, phrase?: boolean, requestOptions?: RequestOptions): Promise<Models.Token>;
     createMagicURLToken(
         paramsOrFirst: { userId: string, email: string, url?: string, phrase?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, email: string, url?: string, phrase?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, url?: string, phrase?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -2261,6 +2533,7 @@ export class Account {
                 url: rest[1] as string,
                 phrase: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2300,6 +2573,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2314,10 +2589,11 @@ export class Account {
      * @param {string} params.success - URL to redirect back to your app after a successful login attempt.  Only URLs from hostnames in your project's platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string} params.failure - URL to redirect back to your app after a failed login attempt.  Only URLs from hostnames in your project's platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string[]} params.scopes - A list of custom OAuth2 scopes. Check each provider internal docs for a list of supported scopes. Maximum of 100 scopes are allowed, each 4096 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<string>}
      */
-    createOAuth2Token(params: { provider: OAuthProvider, success?: string, failure?: string, scopes?: string[]  }): Promise<string>;
+    createOAuth2Token(params: { provider: OAuthProvider, success?: string, failure?: string, scopes?: string[]  }, requestOptions?: RequestOptions): Promise<string>;
     /**
      * Allow the user to login to their account using the OAuth2 provider of their choice. Each OAuth2 provider should be enabled from the Appwrite console first. Use the success and failure arguments to provide a redirect URL's back to your app when login is completed. 
      * 
@@ -2329,19 +2605,22 @@ export class Account {
      * @param {string} success - URL to redirect back to your app after a successful login attempt.  Only URLs from hostnames in your project's platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string} failure - URL to redirect back to your app after a failed login attempt.  Only URLs from hostnames in your project's platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string[]} scopes - A list of custom OAuth2 scopes. Check each provider internal docs for a list of supported scopes. Maximum of 100 scopes are allowed, each 4096 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<string>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createOAuth2Token(provider: OAuthProvider, success?: string, failure?: string, scopes?: string[]): Promise<string>;
+    createOAuth2Token(provider: OAuthProvider, success?: string, failure?: string, scopes?: string[], requestOptions?: RequestOptions): Promise<string>;
     createOAuth2Token(
         paramsOrFirst: { provider: OAuthProvider, success?: string, failure?: string, scopes?: string[] } | OAuthProvider,
-        ...rest: [(string)?, (string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (RequestOptions)?]    
     ): Promise<string> {
         let params: { provider: OAuthProvider, success?: string, failure?: string, scopes?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'provider' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { provider: OAuthProvider, success?: string, failure?: string, scopes?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 provider: paramsOrFirst as OAuthProvider,
@@ -2349,6 +2628,7 @@ export class Account {
                 failure: rest[1] as string,
                 scopes: rest[2] as string[]            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const provider = params.provider;
@@ -2380,7 +2660,8 @@ export class Account {
             'get',
             uri,
             apiHeaders,
-            payload
+            payload,
+            requestOptions,
         );
     }
 
@@ -2391,10 +2672,11 @@ export class Account {
      *
      * @param {string} params.userId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars. If the phone number has never been used, a new account is created using the provided userId. Otherwise, if the phone number is already attached to an account, the user ID is ignored.
      * @param {string} params.phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createPhoneToken(params: { userId: string, phone: string  }): Promise<Models.Token>;
+    createPhoneToken(params: { userId: string, phone: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Sends the user an SMS with a secret key for creating a session. If the provided user ID has not be registered, a new user will be created. Use the returned user ID and secret and submit a request to the [POST /v1/account/sessions/token](https://appwrite.io/docs/references/cloud/client-web/account#createSession) endpoint to complete the login process. The secret sent to the user's phone is valid for 15 minutes.
      * 
@@ -2402,24 +2684,28 @@ export class Account {
      *
      * @param {string} userId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars. If the phone number has never been used, a new account is created using the provided userId. Otherwise, if the phone number is already attached to an account, the user ID is ignored.
      * @param {string} phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPhoneToken(userId: string, phone: string): Promise<Models.Token>;
+    createPhoneToken(userId: string, phone: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     createPhoneToken(
         paramsOrFirst: { userId: string, phone: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, phone: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, phone: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 phone: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2451,6 +2737,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2461,10 +2749,11 @@ export class Account {
      * 
      *
      * @param {string} params.url - URL to redirect the user back to your app from the verification email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createEmailVerification(params: { url: string  }): Promise<Models.Token>;
+    createEmailVerification(params: { url: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to send a verification message to your user email address to confirm they are the valid owners of that address. Both the **userId** and **secret** arguments will be passed as query parameters to the URL you have provided to be attached to the verification email. The provided URL should redirect the user back to your app and allow you to complete the verification process by verifying both the **userId** and **secret** parameters. Learn more about how to [complete the verification process](https://appwrite.io/docs/references/cloud/client-web/account#updateVerification). The verification link sent to the user's email address is valid for 7 days.
      * 
@@ -2472,22 +2761,27 @@ export class Account {
      * 
      *
      * @param {string} url - URL to redirect the user back to your app from the verification email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmailVerification(url: string): Promise<Models.Token>;
+    createEmailVerification(url: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     createEmailVerification(
-        paramsOrFirst: { url: string } | string    
+        paramsOrFirst: { url: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Token> {
         let params: { url: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { url: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 url: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const url = params.url;
@@ -2512,6 +2806,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2522,11 +2818,12 @@ export class Account {
      * 
      *
      * @param {string} params.url - URL to redirect the user back to your app from the verification email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.createEmailVerification` instead.
      */
-    createVerification(params: { url: string  }): Promise<Models.Token>;
+    createVerification(params: { url: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to send a verification message to your user email address to confirm they are the valid owners of that address. Both the **userId** and **secret** arguments will be passed as query parameters to the URL you have provided to be attached to the verification email. The provided URL should redirect the user back to your app and allow you to complete the verification process by verifying both the **userId** and **secret** parameters. Learn more about how to [complete the verification process](https://appwrite.io/docs/references/cloud/client-web/account#updateVerification). The verification link sent to the user's email address is valid for 7 days.
      * 
@@ -2534,22 +2831,27 @@ export class Account {
      * 
      *
      * @param {string} url - URL to redirect the user back to your app from the verification email. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVerification(url: string): Promise<Models.Token>;
+    createVerification(url: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     createVerification(
-        paramsOrFirst: { url: string } | string    
+        paramsOrFirst: { url: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Token> {
         let params: { url: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { url: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 url: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const url = params.url;
@@ -2574,6 +2876,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2582,33 +2886,38 @@ export class Account {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    updateEmailVerification(params: { userId: string, secret: string  }): Promise<Models.Token>;
+    updateEmailVerification(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to complete the user email verification process. Use both the **userId** and **secret** parameters that were attached to your app URL to verify the user email ownership. If confirmed this route will return a 200 status code.
      *
      * @param {string} userId - User ID.
      * @param {string} secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmailVerification(userId: string, secret: string): Promise<Models.Token>;
+    updateEmailVerification(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     updateEmailVerification(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2640,6 +2949,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2648,34 +2959,39 @@ export class Account {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Account.updateEmailVerification` instead.
      */
-    updateVerification(params: { userId: string, secret: string  }): Promise<Models.Token>;
+    updateVerification(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to complete the user email verification process. Use both the **userId** and **secret** parameters that were attached to your app URL to verify the user email ownership. If confirmed this route will return a 200 status code.
      *
      * @param {string} userId - User ID.
      * @param {string} secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateVerification(userId: string, secret: string): Promise<Models.Token>;
+    updateVerification(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     updateVerification(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2707,16 +3023,19 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Use this endpoint to send a verification SMS to the currently logged in user. This endpoint is meant for use after updating a user's phone number using the [accountUpdatePhone](https://appwrite.io/docs/references/cloud/client-web/account#updatePhone) endpoint. Learn more about how to [complete the verification process](https://appwrite.io/docs/references/cloud/client-web/account#updatePhoneVerification). The verification code sent to the user's phone number is valid for 15 minutes.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createPhoneVerification(): Promise<Models.Token> {
+    createPhoneVerification(requestOptions?: RequestOptions): Promise<Models.Token> {
 
         const apiPath = '/account/verifications/phone';
         const payload: Payload = {};
@@ -2731,6 +3050,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2739,33 +3060,38 @@ export class Account {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    updatePhoneVerification(params: { userId: string, secret: string  }): Promise<Models.Token>;
+    updatePhoneVerification(params: { userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Use this endpoint to complete the user phone verification process. Use the **userId** and **secret** that were sent to your user's phone number to verify the user email ownership. If confirmed this route will return a 200 status code.
      *
      * @param {string} userId - User ID.
      * @param {string} secret - Valid verification token.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePhoneVerification(userId: string, secret: string): Promise<Models.Token>;
+    updatePhoneVerification(userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Token>;
     updatePhoneVerification(
         paramsOrFirst: { userId: string, secret: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 secret: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2797,6 +3123,8 @@ export class Account {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
+import { Session } from '../session';
 
 export class Auth {
     client: Client;
@@ -10,18 +11,22 @@ export class Auth {
     /**
      * User Login
      *
-     * Login with username and password
+     * Login with username and password. On success the returned token and
+     * user ID become the client's identity for later GuGoTik calls, and the
+     * response carries a `session` bound to the logged-in user.
      *
      * @param {string} username - Username
      * @param {string} password - Password
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
-     * @returns {Promise<{status_code: number, status_msg: string, user_id: number, token: string}>}
+     * @returns {Promise<{status_code: number, status_msg: string, user_id: number, token: string, session?: Session}>}
      */
-    async login(username: string, password: string): Promise<{
+    async login(username: string, password: string, requestOptions?: RequestOptions): Promise<{
         status_code: number;
         status_msg: string;
         user_id: number;
         token: string;
+        session?: Session;
     }> {
         if (typeof username === 'undefined') {
             throw new AppwriteException('Missing required parameter: "username"');
@@ -40,35 +45,45 @@ export class Auth {
             payload['password'] = password;
         }
 
-        const uri = new URL(this.client.config.endpoint + apiPath + '?username=' + username + '&password=' + password);
+        const uri = new URL(this.client.config.endpoint + apiPath);
 
         const apiHeaders: { [header: string]: string } = {
             'content-type': 'application/x-www-form-urlencoded',
         };
 
-        return this.client.call(
+        const response = await this.client.call(
             'post',
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
+
+        await this.authenticate(response);
+
+        return response;
     }
 
     /**
      * User Register
      *
-     * Register a new user account
+     * Register a new user account. On success the returned token and user ID
+     * become the client's identity for later GuGoTik calls, and the response
+     * carries a `session` bound to the new user.
      *
      * @param {string} username - Username (max 32 characters)
      * @param {string} password - Password (max 32 characters)
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
-     * @returns {Promise<{status_code: number, status_msg: string, user_id: number, token: string}>}
+     * @returns {Promise<{status_code: number, status_msg: string, user_id: number, token: string, session?: Session}>}
      */
-    async register(username: string, password: string): Promise<{
+    async register(username: string, password: string, requestOptions?: RequestOptions): Promise<{
         status_code: number;
         status_msg: string;
         user_id: number;
         token: string;
+        session?: Session;
     }> {
         if (typeof username === 'undefined') {
             throw new AppwriteException('Missing required parameter: "username"');
@@ -87,18 +102,36 @@ export class Auth {
             payload['password'] = password;
         }
 
-        const uri = new URL(this.client.config.endpoint + apiPath + '?username=' + username + '&password=' + password);
+        const uri = new URL(this.client.config.endpoint + apiPath);
 
         const apiHeaders: { [header: string]: string } = {
             'content-type': 'application/x-www-form-urlencoded',
         };
 
-        return this.client.call(
+        const response = await this.client.call(
             'post',
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
+
+        await this.authenticate(response);
+
+        return response;
     }
-}
 
+    private async authenticate(response: { status_code?: number, user_id?: number, token?: string, session?: Session }): Promise<void> {
+        if (response?.status_code === 0 && response.token) {
+            this.client.setToken(response.token);
+            if (typeof response.user_id !== 'undefined') {
+                this.client.setActorId(response.user_id);
+                response.session = new Session(this.client, response.user_id, response.token);
+            }
+
+            // Keep the new token where the credential provider stores it.
+            await this.client.credentials?.save({ token: response.token, userId: response.user_id });
+        }
+    }
+}
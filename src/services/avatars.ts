@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { Browser } from '../enums/browser';
@@ -24,10 +24,11 @@ export class Avatars {
      * @param {number} params.width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getBrowser(params: { code: Browser, width?: number, height?: number, quality?: number  }): Promise<ArrayBuffer>;
+    getBrowser(params: { code: Browser, width?: number, height?: number, quality?: number  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * You can use this endpoint to show different browser icons to your users. The code argument receives the browser code as it appears in your user [GET /account/sessions](https://appwrite.io/docs/references/cloud/client-web/account#getSessions) endpoint. Use width, height and quality arguments to change the output settings.
      * 
@@ -37,19 +38,22 @@ export class Avatars {
      * @param {number} width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getBrowser(code: Browser, width?: number, height?: number, quality?: number): Promise<ArrayBuffer>;
+    getBrowser(code: Browser, width?: number, height?: number, quality?: number, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getBrowser(
         paramsOrFirst: { code: Browser, width?: number, height?: number, quality?: number } | Browser,
-        ...rest: [(number)?, (number)?, (number)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (number)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { code: Browser, width?: number, height?: number, quality?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'code' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { code: Browser, width?: number, height?: number, quality?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 code: paramsOrFirst as Browser,
@@ -57,6 +61,7 @@ export class Avatars {
                 height: rest[1] as number,
                 quality: rest[2] as number            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const code = params.code;
@@ -89,7 +94,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -103,10 +109,11 @@ export class Avatars {
      * @param {number} params.width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getCreditCard(params: { code: CreditCard, width?: number, height?: number, quality?: number  }): Promise<ArrayBuffer>;
+    getCreditCard(params: { code: CreditCard, width?: number, height?: number, quality?: number  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * The credit card endpoint will return you the icon of the credit card provider you need. Use width, height and quality arguments to change the output settings.
      * 
@@ -117,19 +124,22 @@ export class Avatars {
      * @param {number} width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getCreditCard(code: CreditCard, width?: number, height?: number, quality?: number): Promise<ArrayBuffer>;
+    getCreditCard(code: CreditCard, width?: number, height?: number, quality?: number, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getCreditCard(
         paramsOrFirst: { code: CreditCard, width?: number, height?: number, quality?: number } | CreditCard,
-        ...rest: [(number)?, (number)?, (number)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (number)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { code: CreditCard, width?: number, height?: number, quality?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'code' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { code: CreditCard, width?: number, height?: number, quality?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 code: paramsOrFirst as CreditCard,
@@ -137,6 +147,7 @@ export class Avatars {
                 height: rest[1] as number,
                 quality: rest[2] as number            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const code = params.code;
@@ -169,7 +180,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -179,32 +191,38 @@ export class Avatars {
      * This endpoint does not follow HTTP redirects.
      *
      * @param {string} params.url - Website URL which you want to fetch the favicon from.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getFavicon(params: { url: string  }): Promise<ArrayBuffer>;
+    getFavicon(params: { url: string  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Use this endpoint to fetch the favorite icon (AKA favicon) of any remote website URL.
      * 
      * This endpoint does not follow HTTP redirects.
      *
      * @param {string} url - Website URL which you want to fetch the favicon from.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFavicon(url: string): Promise<ArrayBuffer>;
+    getFavicon(url: string, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getFavicon(
-        paramsOrFirst: { url: string } | string    
+        paramsOrFirst: { url: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<ArrayBuffer> {
         let params: { url: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { url: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 url: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const url = params.url;
@@ -228,7 +246,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -242,10 +261,11 @@ export class Avatars {
      * @param {number} params.width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getFlag(params: { code: Flag, width?: number, height?: number, quality?: number  }): Promise<ArrayBuffer>;
+    getFlag(params: { code: Flag, width?: number, height?: number, quality?: number  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * You can use this endpoint to show different country flags icons to your users. The code argument receives the 2 letter country code. Use width, height and quality arguments to change the output settings. Country codes follow the [ISO 3166-1](https://en.wikipedia.org/wiki/ISO_3166-1) standard.
      * 
@@ -256,19 +276,22 @@ export class Avatars {
      * @param {number} width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} quality - Image quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFlag(code: Flag, width?: number, height?: number, quality?: number): Promise<ArrayBuffer>;
+    getFlag(code: Flag, width?: number, height?: number, quality?: number, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getFlag(
         paramsOrFirst: { code: Flag, width?: number, height?: number, quality?: number } | Flag,
-        ...rest: [(number)?, (number)?, (number)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (number)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { code: Flag, width?: number, height?: number, quality?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'code' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { code: Flag, width?: number, height?: number, quality?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 code: paramsOrFirst as Flag,
@@ -276,6 +299,7 @@ export class Avatars {
                 height: rest[1] as number,
                 quality: rest[2] as number            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const code = params.code;
@@ -308,7 +332,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -322,10 +347,11 @@ export class Avatars {
      * @param {string} params.url - Image URL which you want to crop.
      * @param {number} params.width - Resize preview image width, Pass an integer between 0 to 2000. Defaults to 400.
      * @param {number} params.height - Resize preview image height, Pass an integer between 0 to 2000. Defaults to 400.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getImage(params: { url: string, width?: number, height?: number  }): Promise<ArrayBuffer>;
+    getImage(params: { url: string, width?: number, height?: number  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Use this endpoint to fetch a remote image URL and crop it to any image size you want. This endpoint is very useful if you need to crop and display remote images in your app or in case you want to make sure a 3rd party image is properly served using a TLS protocol.
      * 
@@ -336,25 +362,29 @@ export class Avatars {
      * @param {string} url - Image URL which you want to crop.
      * @param {number} width - Resize preview image width, Pass an integer between 0 to 2000. Defaults to 400.
      * @param {number} height - Resize preview image height, Pass an integer between 0 to 2000. Defaults to 400.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getImage(url: string, width?: number, height?: number): Promise<ArrayBuffer>;
+    getImage(url: string, width?: number, height?: number, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getImage(
         paramsOrFirst: { url: string, width?: number, height?: number } | string,
-        ...rest: [(number)?, (number)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { url: string, width?: number, height?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { url: string, width?: number, height?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 url: paramsOrFirst as string,
                 width: rest[0] as number,
                 height: rest[1] as number            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const url = params.url;
@@ -386,7 +416,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -402,10 +433,11 @@ export class Avatars {
      * @param {number} params.width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} params.height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {string} params.background - Changes background color. By default a random color will be picked and stay will persistent to the given name.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getInitials(params?: { name?: string, width?: number, height?: number, background?: string  }): Promise<ArrayBuffer>;
+    getInitials(params?: { name?: string, width?: number, height?: number, background?: string  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Use this endpoint to show your user initials avatar icon on your website or app. By default, this route will try to print your logged-in user name or email initials. You can also overwrite the user name if you pass the 'name' parameter. If no name is given and no user is logged, an empty avatar will be returned.
      * 
@@ -418,19 +450,22 @@ export class Avatars {
      * @param {number} width - Image width. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {number} height - Image height. Pass an integer between 0 to 2000. Defaults to 100.
      * @param {string} background - Changes background color. By default a random color will be picked and stay will persistent to the given name.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getInitials(name?: string, width?: number, height?: number, background?: string): Promise<ArrayBuffer>;
+    getInitials(name?: string, width?: number, height?: number, background?: string, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getInitials(
         paramsOrFirst?: { name?: string, width?: number, height?: number, background?: string } | string,
-        ...rest: [(number)?, (number)?, (string)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { name?: string, width?: number, height?: number, background?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { name?: string, width?: number, height?: number, background?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 name: paramsOrFirst as string,
@@ -438,6 +473,7 @@ export class Avatars {
                 height: rest[1] as number,
                 background: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const name = params.name;
@@ -470,7 +506,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -482,10 +519,11 @@ export class Avatars {
      * @param {number} params.size - QR code size. Pass an integer between 1 to 1000. Defaults to 400.
      * @param {number} params.margin - Margin from edge. Pass an integer between 0 to 10. Defaults to 1.
      * @param {boolean} params.download - Return resulting image with 'Content-Disposition: attachment ' headers for the browser to start downloading it. Pass 0 for no header, or 1 for otherwise. Default value is set to 0.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getQR(params: { text: string, size?: number, margin?: number, download?: boolean  }): Promise<ArrayBuffer>;
+    getQR(params: { text: string, size?: number, margin?: number, download?: boolean  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Converts a given plain text to a QR code image. You can use the query parameters to change the size and style of the resulting image.
      * 
@@ -494,19 +532,22 @@ export class Avatars {
      * @param {number} size - QR code size. Pass an integer between 1 to 1000. Defaults to 400.
      * @param {number} margin - Margin from edge. Pass an integer between 0 to 10. Defaults to 1.
      * @param {boolean} download - Return resulting image with 'Content-Disposition: attachment ' headers for the browser to start downloading it. Pass 0 for no header, or 1 for otherwise. Default value is set to 0.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQR(text: string, size?: number, margin?: number, download?: boolean): Promise<ArrayBuffer>;
+    getQR(text: string, size?: number, margin?: number, download?: boolean, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getQR(
         paramsOrFirst: { text: string, size?: number, margin?: number, download?: boolean } | string,
-        ...rest: [(number)?, (number)?, (boolean)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (boolean)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { text: string, size?: number, margin?: number, download?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { text: string, size?: number, margin?: number, download?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 text: paramsOrFirst as string,
@@ -514,6 +555,7 @@ export class Avatars {
                 margin: rest[1] as number,
                 download: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const text = params.text;
@@ -549,7 +591,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -580,10 +623,11 @@ export class Avatars {
      * @param {number} params.height - Output image height. Pass 0 to use original height, or an integer between 1 to 2000. Defaults to 0 (original height).
      * @param {number} params.quality - Screenshot quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
      * @param {Output} params.output - Output format type (jpeg, jpg, png, gif and webp).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getScreenshot(params: { url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output  }): Promise<ArrayBuffer>;
+    getScreenshot(params: { url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Use this endpoint to capture a screenshot of any website URL. This endpoint uses a headless browser to render the webpage and capture it as an image.
      * 
@@ -611,19 +655,22 @@ export class Avatars {
      * @param {number} height - Output image height. Pass 0 to use original height, or an integer between 1 to 2000. Defaults to 0 (original height).
      * @param {number} quality - Screenshot quality. Pass an integer between 0 to 100. Defaults to keep existing image quality.
      * @param {Output} output - Output format type (jpeg, jpg, png, gif and webp).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getScreenshot(url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output): Promise<ArrayBuffer>;
+    getScreenshot(url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getScreenshot(
         paramsOrFirst: { url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output } | string,
-        ...rest: [(object)?, (number)?, (number)?, (number)?, (Theme)?, (string)?, (boolean)?, (string)?, (Timezone)?, (number)?, (number)?, (number)?, (boolean)?, (string[])?, (number)?, (number)?, (number)?, (number)?, (Output)?]    
+        ...rest: [(object | RequestOptions)?, (number)?, (number)?, (number)?, (Theme)?, (string)?, (boolean)?, (string)?, (Timezone)?, (number)?, (number)?, (number)?, (boolean)?, (string[])?, (number)?, (number)?, (number)?, (number)?, (Output)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { url: string, headers?: object, viewportWidth?: number, viewportHeight?: number, scale?: number, theme?: Theme, userAgent?: string, fullpage?: boolean, locale?: string, timezone?: Timezone, latitude?: number, longitude?: number, accuracy?: number, touch?: boolean, permissions?: string[], sleep?: number, width?: number, height?: number, quality?: number, output?: Output };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 url: paramsOrFirst as string,
@@ -647,6 +694,7 @@ export class Avatars {
                 quality: rest[17] as number,
                 output: rest[18] as Output            
             };
+            requestOptions = rest[19] as RequestOptions;
         }
         
         const url = params.url;
@@ -746,7 +794,8 @@ export class Avatars {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 }
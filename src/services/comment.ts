@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
 import { User } from './user';
 
 export interface Comment {
@@ -15,6 +15,24 @@ export class CommentService {
         this.client = client;
     }
 
+    /**
+     * Add Comment
+     *
+     * Add a comment to a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {string} params.commentText - Comment content
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, comment: Comment}>}
+     */
+    addComment(params: { videoId: number, commentText: string, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment: Comment;
+    }>;
     /**
      * Add Comment
      *
@@ -24,14 +42,44 @@ export class CommentService {
      * @param {number} actorId - Current user ID
      * @param {string} token - Authentication token
      * @param {string} commentText - Comment content
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, comment: Comment}>}
      */
-    async addComment(videoId: number, actorId: number, token: string, commentText: string): Promise<{
+    addComment(videoId: number, actorId: number, token: string, commentText: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment: Comment;
+    }>;
+    async addComment(
+        paramsOrFirst: { videoId: number, commentText: string, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         comment: Comment;
     }> {
+        let params: { videoId: number, commentText: string, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string,
+                commentText: rest[2] as string
+            };
+            requestOptions = rest[3] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const commentText = params.commentText;
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -65,9 +113,28 @@ export class CommentService {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Delete Comment
+     *
+     * Delete a comment from a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {number} params.commentId - Comment ID to delete
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    deleteComment(params: { videoId: number, commentId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Delete Comment
      *
@@ -77,13 +144,42 @@ export class CommentService {
      * @param {number} actorId - Current user ID
      * @param {string} token - Authentication token
      * @param {number} commentId - Comment ID to delete
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async deleteComment(videoId: number, actorId: number, token: string, commentId: number): Promise<{
+    deleteComment(videoId: number, actorId: number, token: string, commentId: number, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async deleteComment(
+        paramsOrFirst: { videoId: number, commentId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (number)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { videoId: number, commentId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string,
+                commentId: rest[2] as number
+            };
+            requestOptions = rest[3] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const commentId = params.commentId;
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -117,25 +213,72 @@ export class CommentService {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * List Comments
+     *
+     * Get list of comments for a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, comment_list: Comment[]}>}
+     */
+    listComments(params: { videoId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment_list: Comment[];
+    }>;
     /**
      * List Comments
      *
      * Get list of comments for a video
      *
      * @param {number} videoId - Video ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, comment_list: Comment[]}>}
      */
-    async listComments(videoId: number, actorId: number, token: string): Promise<{
+    listComments(videoId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment_list: Comment[];
+    }>;
+    async listComments(
+        paramsOrFirst: { videoId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         comment_list: Comment[];
     }> {
+        let params: { videoId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -165,25 +308,72 @@ export class CommentService {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Count Comments
+     *
+     * Get comment count for a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, comment_count: number}>}
+     */
+    countComments(params: { videoId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment_count: number;
+    }>;
     /**
      * Count Comments
      *
      * Get comment count for a video
      *
      * @param {number} videoId - Video ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, comment_count: number}>}
      */
-    async countComments(videoId: number, actorId: number, token: string): Promise<{
+    countComments(videoId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        comment_count: number;
+    }>;
+    async countComments(
+        paramsOrFirst: { videoId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         comment_count: number;
     }> {
+        let params: { videoId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -213,6 +403,8 @@ export class CommentService {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { RelationshipType } from '../enums/relationship-type';
@@ -18,36 +18,41 @@ export class Databases {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DatabaseList>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.list` instead.
      */
-    list(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.DatabaseList>;
+    list(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.DatabaseList>;
     /**
      * Get a list of all databases from the current Appwrite project. You can use the search parameter to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DatabaseList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list(queries?: string[], search?: string, total?: boolean): Promise<Models.DatabaseList>;
+    list(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.DatabaseList>;
     list(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.DatabaseList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -76,6 +81,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -86,11 +93,12 @@ export class Databases {
      * @param {string} params.databaseId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.name - Database name. Max length: 128 chars.
      * @param {boolean} params.enabled - Is the database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.create` instead.
      */
-    create(params: { databaseId: string, name: string, enabled?: boolean  }): Promise<Models.Database>;
+    create(params: { databaseId: string, name: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Create a new Database.
      * 
@@ -98,25 +106,29 @@ export class Databases {
      * @param {string} databaseId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} name - Database name. Max length: 128 chars.
      * @param {boolean} enabled - Is the database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create(databaseId: string, name: string, enabled?: boolean): Promise<Models.Database>;
+    create(databaseId: string, name: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Database>;
     create(
         paramsOrFirst: { databaseId: string, name: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Database> {
         let params: { databaseId: string, name: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, name: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 name: rest[0] as string,
                 enabled: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -152,6 +164,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -159,30 +173,36 @@ export class Databases {
      * List transactions across all databases.
      *
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TransactionList>}
      */
-    listTransactions(params?: { queries?: string[]  }): Promise<Models.TransactionList>;
+    listTransactions(params?: { queries?: string[]  }, requestOptions?: RequestOptions): Promise<Models.TransactionList>;
     /**
      * List transactions across all databases.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TransactionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTransactions(queries?: string[]): Promise<Models.TransactionList>;
+    listTransactions(queries?: string[], requestOptions?: RequestOptions): Promise<Models.TransactionList>;
     listTransactions(
-        paramsOrFirst?: { queries?: string[] } | string[]    
+        paramsOrFirst?: { queries?: string[] } | string[],
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.TransactionList> {
         let params: { queries?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[]            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -203,6 +223,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -210,30 +232,36 @@ export class Databases {
      * Create a new transaction.
      *
      * @param {number} params.ttl - Seconds before the transaction expires.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    createTransaction(params?: { ttl?: number  }): Promise<Models.Transaction>;
+    createTransaction(params?: { ttl?: number  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Create a new transaction.
      *
      * @param {number} ttl - Seconds before the transaction expires.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTransaction(ttl?: number): Promise<Models.Transaction>;
+    createTransaction(ttl?: number, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     createTransaction(
-        paramsOrFirst?: { ttl?: number } | number    
+        paramsOrFirst?: { ttl?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Transaction> {
         let params: { ttl?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { ttl?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 ttl: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const ttl = params.ttl;
@@ -255,6 +283,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -262,30 +292,36 @@ export class Databases {
      * Get a transaction by its unique ID.
      *
      * @param {string} params.transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    getTransaction(params: { transactionId: string  }): Promise<Models.Transaction>;
+    getTransaction(params: { transactionId: string  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Get a transaction by its unique ID.
      *
      * @param {string} transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getTransaction(transactionId: string): Promise<Models.Transaction>;
+    getTransaction(transactionId: string, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     getTransaction(
-        paramsOrFirst: { transactionId: string } | string    
+        paramsOrFirst: { transactionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Transaction> {
         let params: { transactionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -306,6 +342,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -315,35 +353,40 @@ export class Databases {
      * @param {string} params.transactionId - Transaction ID.
      * @param {boolean} params.commit - Commit transaction?
      * @param {boolean} params.rollback - Rollback transaction?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    updateTransaction(params: { transactionId: string, commit?: boolean, rollback?: boolean  }): Promise<Models.Transaction>;
+    updateTransaction(params: { transactionId: string, commit?: boolean, rollback?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Update a transaction, to either commit or roll back its operations.
      *
      * @param {string} transactionId - Transaction ID.
      * @param {boolean} commit - Commit transaction?
      * @param {boolean} rollback - Rollback transaction?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTransaction(transactionId: string, commit?: boolean, rollback?: boolean): Promise<Models.Transaction>;
+    updateTransaction(transactionId: string, commit?: boolean, rollback?: boolean, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     updateTransaction(
         paramsOrFirst: { transactionId: string, commit?: boolean, rollback?: boolean } | string,
-        ...rest: [(boolean)?, (boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Transaction> {
         let params: { transactionId: string, commit?: boolean, rollback?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string, commit?: boolean, rollback?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string,
                 commit: rest[0] as boolean,
                 rollback: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -373,6 +416,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -380,30 +425,36 @@ export class Databases {
      * Delete a transaction by its unique ID.
      *
      * @param {string} params.transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteTransaction(params: { transactionId: string  }): Promise<{}>;
+    deleteTransaction(params: { transactionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a transaction by its unique ID.
      *
      * @param {string} transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteTransaction(transactionId: string): Promise<{}>;
+    deleteTransaction(transactionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteTransaction(
-        paramsOrFirst: { transactionId: string } | string    
+        paramsOrFirst: { transactionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { transactionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -425,6 +476,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -433,33 +486,38 @@ export class Databases {
      *
      * @param {string} params.transactionId - Transaction ID.
      * @param {object[]} params.operations - Array of staged operations.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    createOperations(params: { transactionId: string, operations?: object[]  }): Promise<Models.Transaction>;
+    createOperations(params: { transactionId: string, operations?: object[]  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Create multiple operations in a single transaction.
      *
      * @param {string} transactionId - Transaction ID.
      * @param {object[]} operations - Array of staged operations.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createOperations(transactionId: string, operations?: object[]): Promise<Models.Transaction>;
+    createOperations(transactionId: string, operations?: object[], requestOptions?: RequestOptions): Promise<Models.Transaction>;
     createOperations(
         paramsOrFirst: { transactionId: string, operations?: object[] } | string,
-        ...rest: [(object[])?]    
+        ...rest: [(object[] | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Transaction> {
         let params: { transactionId: string, operations?: object[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string, operations?: object[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string,
                 operations: rest[0] as object[]            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -485,6 +543,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -492,31 +552,37 @@ export class Databases {
      * Get a database by its unique ID. This endpoint response returns a JSON object with the database metadata.
      *
      * @param {string} params.databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.get` instead.
      */
-    get(params: { databaseId: string  }): Promise<Models.Database>;
+    get(params: { databaseId: string  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Get a database by its unique ID. This endpoint response returns a JSON object with the database metadata.
      *
      * @param {string} databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get(databaseId: string): Promise<Models.Database>;
+    get(databaseId: string, requestOptions?: RequestOptions): Promise<Models.Database>;
     get(
-        paramsOrFirst: { databaseId: string } | string    
+        paramsOrFirst: { databaseId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Database> {
         let params: { databaseId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -537,6 +603,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -546,36 +614,41 @@ export class Databases {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.name - Database name. Max length: 128 chars.
      * @param {boolean} params.enabled - Is database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.update` instead.
      */
-    update(params: { databaseId: string, name: string, enabled?: boolean  }): Promise<Models.Database>;
+    update(params: { databaseId: string, name: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Update a database by its unique ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} name - Database name. Max length: 128 chars.
      * @param {boolean} enabled - Is database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    update(databaseId: string, name: string, enabled?: boolean): Promise<Models.Database>;
+    update(databaseId: string, name: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Database>;
     update(
         paramsOrFirst: { databaseId: string, name: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Database> {
         let params: { databaseId: string, name: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, name: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 name: rest[0] as string,
                 enabled: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -608,6 +681,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -615,31 +690,37 @@ export class Databases {
      * Delete a database by its unique ID. Only API keys with with databases.write scope can delete a database.
      *
      * @param {string} params.databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.delete` instead.
      */
-    delete(params: { databaseId: string  }): Promise<{}>;
+    delete(params: { databaseId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a database by its unique ID. Only API keys with with databases.write scope can delete a database.
      *
      * @param {string} databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(databaseId: string): Promise<{}>;
+    delete(databaseId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { databaseId: string } | string    
+        paramsOrFirst: { databaseId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { databaseId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -661,6 +742,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -671,11 +754,12 @@ export class Databases {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, documentSecurity
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.CollectionList>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.listTables` instead.
      */
-    listCollections(params: { databaseId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.CollectionList>;
+    listCollections(params: { databaseId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.CollectionList>;
     /**
      * Get a list of all collections that belong to the provided databaseId. You can use the search parameter to filter your results.
      *
@@ -683,19 +767,22 @@ export class Databases {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, documentSecurity
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.CollectionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listCollections(databaseId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.CollectionList>;
+    listCollections(databaseId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.CollectionList>;
     listCollections(
         paramsOrFirst: { databaseId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.CollectionList> {
         let params: { databaseId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -703,6 +790,7 @@ export class Databases {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -735,6 +823,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -749,11 +839,12 @@ export class Databases {
      * @param {boolean} params.enabled - Is collection enabled? When set to 'disabled', users cannot access the collection but Server SDKs with and API key can still read and write to the collection. No data is lost when this is toggled.
      * @param {object[]} params.attributes - Array of attribute definitions to create. Each attribute should contain: key (string), type (string: string, integer, float, boolean, datetime), size (integer, required for string type), required (boolean, optional), default (mixed, optional), array (boolean, optional), and type-specific options.
      * @param {object[]} params.indexes - Array of index definitions to create. Each index should contain: key (string), type (string: key, fulltext, unique, spatial), attributes (array of attribute keys), orders (array of ASC/DESC, optional), and lengths (array of integers, optional).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createTable` instead.
      */
-    createCollection(params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[]  }): Promise<Models.Collection>;
+    createCollection(params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[]  }, requestOptions?: RequestOptions): Promise<Models.Collection>;
     /**
      * Create a new Collection. Before using this route, you should create a new database resource using either a [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection) API or directly from your database console.
      *
@@ -765,19 +856,22 @@ export class Databases {
      * @param {boolean} enabled - Is collection enabled? When set to 'disabled', users cannot access the collection but Server SDKs with and API key can still read and write to the collection. No data is lost when this is toggled.
      * @param {object[]} attributes - Array of attribute definitions to create. Each attribute should contain: key (string), type (string: string, integer, float, boolean, datetime), size (integer, required for string type), required (boolean, optional), default (mixed, optional), array (boolean, optional), and type-specific options.
      * @param {object[]} indexes - Array of index definitions to create. Each index should contain: key (string), type (string: key, fulltext, unique, spatial), attributes (array of attribute keys), orders (array of ASC/DESC, optional), and lengths (array of integers, optional).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createCollection(databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[]): Promise<Models.Collection>;
+    createCollection(databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[], requestOptions?: RequestOptions): Promise<Models.Collection>;
     createCollection(
         paramsOrFirst: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[] } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (boolean)?, (object[])?, (object[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (boolean)?, (object[])?, (object[])?, (RequestOptions)?]    
     ): Promise<Models.Collection> {
         let params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, attributes?: object[], indexes?: object[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -789,6 +883,7 @@ export class Databases {
                 attributes: rest[5] as object[],
                 indexes: rest[6] as object[]            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -844,6 +939,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -852,34 +949,39 @@ export class Databases {
      *
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.getTable` instead.
      */
-    getCollection(params: { databaseId: string, collectionId: string  }): Promise<Models.Collection>;
+    getCollection(params: { databaseId: string, collectionId: string  }, requestOptions?: RequestOptions): Promise<Models.Collection>;
     /**
      * Get a collection by its unique ID. This endpoint response returns a JSON object with the collection metadata.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getCollection(databaseId: string, collectionId: string): Promise<Models.Collection>;
+    getCollection(databaseId: string, collectionId: string, requestOptions?: RequestOptions): Promise<Models.Collection>;
     getCollection(
         paramsOrFirst: { databaseId: string, collectionId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Collection> {
         let params: { databaseId: string, collectionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -904,6 +1006,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -916,11 +1020,12 @@ export class Databases {
      * @param {string[]} params.permissions - An array of permission strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} params.documentSecurity - Enables configuring permissions for individual documents. A user needs one of document or collection level permissions to access a document. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} params.enabled - Is collection enabled? When set to 'disabled', users cannot access the collection but Server SDKs with and API key can still read and write to the collection. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateTable` instead.
      */
-    updateCollection(params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean  }): Promise<Models.Collection>;
+    updateCollection(params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Collection>;
     /**
      * Update a collection by its unique ID.
      *
@@ -930,19 +1035,22 @@ export class Databases {
      * @param {string[]} permissions - An array of permission strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} documentSecurity - Enables configuring permissions for individual documents. A user needs one of document or collection level permissions to access a document. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} enabled - Is collection enabled? When set to 'disabled', users cannot access the collection but Server SDKs with and API key can still read and write to the collection. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Collection>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateCollection(databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean): Promise<Models.Collection>;
+    updateCollection(databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Collection>;
     updateCollection(
         paramsOrFirst: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Collection> {
         let params: { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, name: string, permissions?: string[], documentSecurity?: boolean, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -952,6 +1060,7 @@ export class Databases {
                 documentSecurity: rest[3] as boolean,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -996,6 +1105,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1004,34 +1115,39 @@ export class Databases {
      *
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.deleteTable` instead.
      */
-    deleteCollection(params: { databaseId: string, collectionId: string  }): Promise<{}>;
+    deleteCollection(params: { databaseId: string, collectionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a collection by its unique ID. Only users with write permissions have access to delete this resource.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteCollection(databaseId: string, collectionId: string): Promise<{}>;
+    deleteCollection(databaseId: string, collectionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteCollection(
         paramsOrFirst: { databaseId: string, collectionId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, collectionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1057,6 +1173,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1067,11 +1185,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: key, type, size, required, array, status, error
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeList>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.listColumns` instead.
      */
-    listAttributes(params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean  }): Promise<Models.AttributeList>;
+    listAttributes(params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeList>;
     /**
      * List attributes in the collection.
      *
@@ -1079,19 +1198,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: key, type, size, required, array, status, error
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listAttributes(databaseId: string, collectionId: string, queries?: string[], total?: boolean): Promise<Models.AttributeList>;
+    listAttributes(databaseId: string, collectionId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeList>;
     listAttributes(
         paramsOrFirst: { databaseId: string, collectionId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeList> {
         let params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1099,6 +1221,7 @@ export class Databases {
                 queries: rest[1] as string[],
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1131,6 +1254,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1144,11 +1269,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {boolean} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeBoolean>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createBooleanColumn` instead.
      */
-    createBooleanAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean  }): Promise<Models.AttributeBoolean>;
+    createBooleanAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeBoolean>;
     /**
      * Create a boolean attribute.
      * 
@@ -1159,19 +1285,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {boolean} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeBoolean>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createBooleanAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean): Promise<Models.AttributeBoolean>;
+    createBooleanAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeBoolean>;
     createBooleanAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeBoolean> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1181,6 +1310,7 @@ export class Databases {
                 xdefault: rest[3] as boolean,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1228,6 +1358,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1240,11 +1372,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {boolean} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} params.newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeBoolean>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateBooleanColumn` instead.
      */
-    updateBooleanAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string  }): Promise<Models.AttributeBoolean>;
+    updateBooleanAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeBoolean>;
     /**
      * Update a boolean attribute. Changing the `default` value will not update already existing documents.
      *
@@ -1254,19 +1387,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {boolean} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeBoolean>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateBooleanAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string): Promise<Models.AttributeBoolean>;
+    updateBooleanAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeBoolean>;
     updateBooleanAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (boolean)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeBoolean> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1276,6 +1412,7 @@ export class Databases {
                 xdefault: rest[3] as boolean,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1323,6 +1460,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1335,11 +1474,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for the attribute in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeDatetime>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createDatetimeColumn` instead.
      */
-    createDatetimeAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.AttributeDatetime>;
+    createDatetimeAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeDatetime>;
     /**
      * Create a date time attribute according to the ISO 8601 standard.
      *
@@ -1349,19 +1489,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for the attribute in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeDatetime>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDatetimeAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.AttributeDatetime>;
+    createDatetimeAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeDatetime>;
     createDatetimeAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeDatetime> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1371,6 +1514,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1418,6 +1562,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1430,11 +1576,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} params.newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeDatetime>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateDatetimeColumn` instead.
      */
-    updateDatetimeAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.AttributeDatetime>;
+    updateDatetimeAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeDatetime>;
     /**
      * Update a date time attribute. Changing the `default` value will not update already existing documents.
      *
@@ -1444,19 +1591,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeDatetime>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDatetimeAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.AttributeDatetime>;
+    updateDatetimeAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeDatetime>;
     updateDatetimeAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeDatetime> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1466,6 +1616,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1513,6 +1664,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1526,11 +1679,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEmail>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createEmailColumn` instead.
      */
-    createEmailAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.AttributeEmail>;
+    createEmailAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeEmail>;
     /**
      * Create an email attribute.
      * 
@@ -1541,19 +1695,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEmail>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmailAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.AttributeEmail>;
+    createEmailAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeEmail>;
     createEmailAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeEmail> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1563,6 +1720,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1610,6 +1768,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1623,11 +1783,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEmail>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateEmailColumn` instead.
      */
-    updateEmailAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.AttributeEmail>;
+    updateEmailAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeEmail>;
     /**
      * Update an email attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -1638,19 +1799,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEmail>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmailAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.AttributeEmail>;
+    updateEmailAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeEmail>;
     updateEmailAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeEmail> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1660,6 +1824,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1707,6 +1872,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1721,11 +1888,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEnum>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createEnumColumn` instead.
      */
-    createEnumAttribute(params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.AttributeEnum>;
+    createEnumAttribute(params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeEnum>;
     /**
      * Create an enum attribute. The `elements` param acts as a white-list of accepted values for this attribute. 
      * 
@@ -1737,19 +1905,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEnum>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEnumAttribute(databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean): Promise<Models.AttributeEnum>;
+    createEnumAttribute(databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeEnum>;
     createEnumAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeEnum> {
         let params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1760,6 +1931,7 @@ export class Databases {
                 xdefault: rest[4] as string,
                 array: rest[5] as boolean            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1814,6 +1986,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1828,11 +2002,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEnum>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateEnumColumn` instead.
      */
-    updateEnumAttribute(params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.AttributeEnum>;
+    updateEnumAttribute(params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeEnum>;
     /**
      * Update an enum attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -1844,19 +2019,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeEnum>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEnumAttribute(databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string): Promise<Models.AttributeEnum>;
+    updateEnumAttribute(databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeEnum>;
     updateEnumAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeEnum> {
         let params: { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1867,6 +2045,7 @@ export class Databases {
                 xdefault: rest[4] as string,
                 newKey: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1921,6 +2100,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1936,11 +2117,12 @@ export class Databases {
      * @param {number} params.max - Maximum value.
      * @param {number} params.xdefault - Default value. Cannot be set when required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeFloat>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createFloatColumn` instead.
      */
-    createFloatAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }): Promise<Models.AttributeFloat>;
+    createFloatAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeFloat>;
     /**
      * Create a float attribute. Optionally, minimum and maximum values can be provided.
      * 
@@ -1953,19 +2135,22 @@ export class Databases {
      * @param {number} max - Maximum value.
      * @param {number} xdefault - Default value. Cannot be set when required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeFloat>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFloatAttribute(databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean): Promise<Models.AttributeFloat>;
+    createFloatAttribute(databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeFloat>;
     createFloatAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeFloat> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1977,6 +2162,7 @@ export class Databases {
                 xdefault: rest[5] as number,
                 array: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2032,6 +2218,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2047,11 +2235,12 @@ export class Databases {
      * @param {number} params.min - Minimum value.
      * @param {number} params.max - Maximum value.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeFloat>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateFloatColumn` instead.
      */
-    updateFloatAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }): Promise<Models.AttributeFloat>;
+    updateFloatAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeFloat>;
     /**
      * Update a float attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -2064,19 +2253,22 @@ export class Databases {
      * @param {number} min - Minimum value.
      * @param {number} max - Maximum value.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeFloat>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFloatAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string): Promise<Models.AttributeFloat>;
+    updateFloatAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeFloat>;
     updateFloatAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeFloat> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2088,6 +2280,7 @@ export class Databases {
                 max: rest[5] as number,
                 newKey: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2143,6 +2336,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2158,11 +2353,12 @@ export class Databases {
      * @param {number} params.max - Maximum value
      * @param {number} params.xdefault - Default value. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeInteger>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createIntegerColumn` instead.
      */
-    createIntegerAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }): Promise<Models.AttributeInteger>;
+    createIntegerAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeInteger>;
     /**
      * Create an integer attribute. Optionally, minimum and maximum values can be provided.
      * 
@@ -2175,19 +2371,22 @@ export class Databases {
      * @param {number} max - Maximum value
      * @param {number} xdefault - Default value. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeInteger>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIntegerAttribute(databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean): Promise<Models.AttributeInteger>;
+    createIntegerAttribute(databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeInteger>;
     createIntegerAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeInteger> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2199,6 +2398,7 @@ export class Databases {
                 xdefault: rest[5] as number,
                 array: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2254,6 +2454,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2269,11 +2471,12 @@ export class Databases {
      * @param {number} params.min - Minimum value
      * @param {number} params.max - Maximum value
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeInteger>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateIntegerColumn` instead.
      */
-    updateIntegerAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }): Promise<Models.AttributeInteger>;
+    updateIntegerAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeInteger>;
     /**
      * Update an integer attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -2286,19 +2489,22 @@ export class Databases {
      * @param {number} min - Minimum value
      * @param {number} max - Maximum value
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeInteger>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateIntegerAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string): Promise<Models.AttributeInteger>;
+    updateIntegerAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeInteger>;
     updateIntegerAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeInteger> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2310,6 +2516,7 @@ export class Databases {
                 max: rest[5] as number,
                 newKey: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2365,6 +2572,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2378,11 +2587,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeIp>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createIpColumn` instead.
      */
-    createIpAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.AttributeIp>;
+    createIpAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeIp>;
     /**
      * Create IP address attribute.
      * 
@@ -2393,19 +2603,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeIp>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIpAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.AttributeIp>;
+    createIpAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeIp>;
     createIpAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeIp> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2415,6 +2628,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2462,6 +2676,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2475,11 +2691,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value. Cannot be set when attribute is required.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeIp>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateIpColumn` instead.
      */
-    updateIpAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.AttributeIp>;
+    updateIpAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeIp>;
     /**
      * Update an ip attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -2490,19 +2707,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value. Cannot be set when attribute is required.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeIp>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateIpAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.AttributeIp>;
+    updateIpAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeIp>;
     updateIpAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeIp> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2512,6 +2732,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2559,6 +2780,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2570,11 +2793,12 @@ export class Databases {
      * @param {string} params.key - Attribute Key.
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeLine>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createLineColumn` instead.
      */
-    createLineAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.AttributeLine>;
+    createLineAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.AttributeLine>;
     /**
      * Create a geometric line attribute.
      *
@@ -2583,19 +2807,22 @@ export class Databases {
      * @param {string} key - Attribute Key.
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeLine>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createLineAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.AttributeLine>;
+    createLineAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.AttributeLine>;
     createLineAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.AttributeLine> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2604,6 +2831,7 @@ export class Databases {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2647,6 +2875,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2659,11 +2889,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when attribute is required.
      * @param {string} params.newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeLine>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateLineColumn` instead.
      */
-    updateLineAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.AttributeLine>;
+    updateLineAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeLine>;
     /**
      * Update a line attribute. Changing the `default` value will not update already existing documents.
      *
@@ -2673,19 +2904,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when attribute is required.
      * @param {string} newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeLine>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateLineAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.AttributeLine>;
+    updateLineAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeLine>;
     updateLineAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeLine> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2695,6 +2929,7 @@ export class Databases {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2739,6 +2974,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2750,11 +2987,12 @@ export class Databases {
      * @param {string} params.key - Attribute Key.
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePoint>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createPointColumn` instead.
      */
-    createPointAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.AttributePoint>;
+    createPointAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.AttributePoint>;
     /**
      * Create a geometric point attribute.
      *
@@ -2763,19 +3001,22 @@ export class Databases {
      * @param {string} key - Attribute Key.
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePoint>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPointAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.AttributePoint>;
+    createPointAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.AttributePoint>;
     createPointAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.AttributePoint> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2784,6 +3025,7 @@ export class Databases {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2827,6 +3069,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2839,11 +3083,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when attribute is required.
      * @param {string} params.newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePoint>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updatePointColumn` instead.
      */
-    updatePointAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.AttributePoint>;
+    updatePointAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributePoint>;
     /**
      * Update a point attribute. Changing the `default` value will not update already existing documents.
      *
@@ -2853,19 +3098,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when attribute is required.
      * @param {string} newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePoint>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePointAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.AttributePoint>;
+    updatePointAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributePoint>;
     updatePointAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributePoint> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2875,6 +3123,7 @@ export class Databases {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2919,6 +3168,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2930,11 +3181,12 @@ export class Databases {
      * @param {string} params.key - Attribute Key.
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePolygon>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createPolygonColumn` instead.
      */
-    createPolygonAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.AttributePolygon>;
+    createPolygonAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.AttributePolygon>;
     /**
      * Create a geometric polygon attribute.
      *
@@ -2943,19 +3195,22 @@ export class Databases {
      * @param {string} key - Attribute Key.
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when attribute is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePolygon>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPolygonAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.AttributePolygon>;
+    createPolygonAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.AttributePolygon>;
     createPolygonAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.AttributePolygon> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2964,6 +3219,7 @@ export class Databases {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3007,6 +3263,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3019,11 +3277,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {any[]} params.xdefault - Default value for attribute when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when attribute is required.
      * @param {string} params.newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePolygon>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updatePolygonColumn` instead.
      */
-    updatePolygonAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.AttributePolygon>;
+    updatePolygonAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributePolygon>;
     /**
      * Update a polygon attribute. Changing the `default` value will not update already existing documents.
      *
@@ -3033,19 +3292,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {any[]} xdefault - Default value for attribute when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when attribute is required.
      * @param {string} newKey - New attribute key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributePolygon>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePolygonAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.AttributePolygon>;
+    updatePolygonAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributePolygon>;
     updatePolygonAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributePolygon> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3055,6 +3317,7 @@ export class Databases {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3099,6 +3362,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3114,11 +3379,12 @@ export class Databases {
      * @param {string} params.key - Attribute Key.
      * @param {string} params.twoWayKey - Two Way Attribute Key.
      * @param {RelationMutate} params.onDelete - Constraints option
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeRelationship>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createRelationshipColumn` instead.
      */
-    createRelationshipAttribute(params: { databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate  }): Promise<Models.AttributeRelationship>;
+    createRelationshipAttribute(params: { databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate  }, requestOptions?: RequestOptions): Promise<Models.AttributeRelationship>;
     /**
      * Create relationship attribute. [Learn more about relationship attributes](https://appwrite.io/docs/databases-relationships#relationship-attributes).
      * 
@@ -3131,19 +3397,22 @@ export class Databases {
      * @param {string} key - Attribute Key.
      * @param {string} twoWayKey - Two Way Attribute Key.
      * @param {RelationMutate} onDelete - Constraints option
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeRelationship>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createRelationshipAttribute(databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate): Promise<Models.AttributeRelationship>;
+    createRelationshipAttribute(databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate, requestOptions?: RequestOptions): Promise<Models.AttributeRelationship>;
     createRelationshipAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate } | string,
-        ...rest: [(string)?, (string)?, (RelationshipType)?, (boolean)?, (string)?, (string)?, (RelationMutate)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RelationshipType)?, (boolean)?, (string)?, (string)?, (RelationMutate)?, (RequestOptions)?]    
     ): Promise<Models.AttributeRelationship> {
         let params: { databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, relatedCollectionId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3155,6 +3424,7 @@ export class Databases {
                 twoWayKey: rest[5] as string,
                 onDelete: rest[6] as RelationMutate            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3210,6 +3480,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3225,11 +3497,12 @@ export class Databases {
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
      * @param {boolean} params.encrypt - Toggle encryption for the attribute. Encryption enhances security by not storing any plain text values in the database. However, encrypted attributes cannot be queried.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeString>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createStringColumn` instead.
      */
-    createStringAttribute(params: { databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean  }): Promise<Models.AttributeString>;
+    createStringAttribute(params: { databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeString>;
     /**
      * Create a string attribute.
      * 
@@ -3242,19 +3515,22 @@ export class Databases {
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
      * @param {boolean} encrypt - Toggle encryption for the attribute. Encryption enhances security by not storing any plain text values in the database. However, encrypted attributes cannot be queried.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeString>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createStringAttribute(databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean): Promise<Models.AttributeString>;
+    createStringAttribute(databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeString>;
     createStringAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeString> {
         let params: { databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3266,6 +3542,7 @@ export class Databases {
                 array: rest[5] as boolean,
                 encrypt: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3324,6 +3601,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3338,11 +3617,12 @@ export class Databases {
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {number} params.size - Maximum size of the string attribute.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeString>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateStringColumn` instead.
      */
-    updateStringAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string  }): Promise<Models.AttributeString>;
+    updateStringAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeString>;
     /**
      * Update a string attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -3354,19 +3634,22 @@ export class Databases {
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {number} size - Maximum size of the string attribute.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeString>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateStringAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string): Promise<Models.AttributeString>;
+    updateStringAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeString>;
     updateStringAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeString> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3377,6 +3660,7 @@ export class Databases {
                 size: rest[4] as number,
                 newKey: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3428,6 +3712,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3441,11 +3727,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} params.array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeUrl>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createUrlColumn` instead.
      */
-    createUrlAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.AttributeUrl>;
+    createUrlAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.AttributeUrl>;
     /**
      * Create a URL attribute.
      * 
@@ -3456,19 +3743,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {boolean} array - Is attribute an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeUrl>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createUrlAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.AttributeUrl>;
+    createUrlAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.AttributeUrl>;
     createUrlAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.AttributeUrl> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3478,6 +3768,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3525,6 +3816,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3538,11 +3831,12 @@ export class Databases {
      * @param {boolean} params.required - Is attribute required?
      * @param {string} params.xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeUrl>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateUrlColumn` instead.
      */
-    updateUrlAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.AttributeUrl>;
+    updateUrlAttribute(params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeUrl>;
     /**
      * Update an url attribute. Changing the `default` value will not update already existing documents.
      * 
@@ -3553,19 +3847,22 @@ export class Databases {
      * @param {boolean} required - Is attribute required?
      * @param {string} xdefault - Default value for attribute when not provided. Cannot be set when attribute is required.
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeUrl>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateUrlAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.AttributeUrl>;
+    updateUrlAttribute(databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeUrl>;
     updateUrlAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeUrl> {
         let params: { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3575,6 +3872,7 @@ export class Databases {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3622,6 +3920,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3631,36 +3931,41 @@ export class Databases {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID.
      * @param {string} params.key - Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.getColumn` instead.
      */
-    getAttribute(params: { databaseId: string, collectionId: string, key: string  }): Promise<{}>;
+    getAttribute(params: { databaseId: string, collectionId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Get attribute by ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID.
      * @param {string} key - Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getAttribute(databaseId: string, collectionId: string, key: string): Promise<{}>;
+    getAttribute(databaseId: string, collectionId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     getAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, collectionId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3689,6 +3994,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3698,36 +4005,41 @@ export class Databases {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID.
      * @param {string} params.key - Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.deleteColumn` instead.
      */
-    deleteAttribute(params: { databaseId: string, collectionId: string, key: string  }): Promise<{}>;
+    deleteAttribute(params: { databaseId: string, collectionId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Deletes an attribute.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID.
      * @param {string} key - Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteAttribute(databaseId: string, collectionId: string, key: string): Promise<{}>;
+    deleteAttribute(databaseId: string, collectionId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, collectionId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3757,6 +4069,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3769,11 +4083,12 @@ export class Databases {
      * @param {string} params.key - Attribute Key.
      * @param {RelationMutate} params.onDelete - Constraints option
      * @param {string} params.newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeRelationship>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateRelationshipColumn` instead.
      */
-    updateRelationshipAttribute(params: { databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string  }): Promise<Models.AttributeRelationship>;
+    updateRelationshipAttribute(params: { databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.AttributeRelationship>;
     /**
      * Update relationship attribute. [Learn more about relationship attributes](https://appwrite.io/docs/databases-relationships#relationship-attributes).
      * 
@@ -3783,19 +4098,22 @@ export class Databases {
      * @param {string} key - Attribute Key.
      * @param {RelationMutate} onDelete - Constraints option
      * @param {string} newKey - New Attribute Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.AttributeRelationship>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateRelationshipAttribute(databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string): Promise<Models.AttributeRelationship>;
+    updateRelationshipAttribute(databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string, requestOptions?: RequestOptions): Promise<Models.AttributeRelationship>;
     updateRelationshipAttribute(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (RelationMutate)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RelationMutate)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.AttributeRelationship> {
         let params: { databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, onDelete?: RelationMutate, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3804,6 +4122,7 @@ export class Databases {
                 onDelete: rest[2] as RelationMutate,
                 newKey: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3841,6 +4160,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3852,11 +4173,12 @@ export class Databases {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID to read uncommitted changes within the transaction.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.listRows` instead.
      */
-    listDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean  }): Promise<Models.DocumentList<Document>>;
+    listDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     /**
      * Get a list of all the user's documents in a given collection. You can use the query params to filter your results.
      *
@@ -3865,19 +4187,22 @@ export class Databases {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID to read uncommitted changes within the transaction.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean): Promise<Models.DocumentList<Document>>;
+    listDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     listDocuments<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.DocumentList<Document>> {
         let params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, queries?: string[], transactionId?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3886,6 +4211,7 @@ export class Databases {
                 transactionId: rest[2] as string,
                 total: rest[3] as boolean            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3922,6 +4248,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3934,11 +4262,12 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>} params.data - Document data as JSON object.
      * @param {string[]} params.permissions - An array of permissions strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createRow` instead.
      */
-    createDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string  }): Promise<Document>;
+    createDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Create a new Document. Before using this route, you should create a new collection resource using either a [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection) API or directly from your database console.
      *
@@ -3948,19 +4277,22 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>} data - Document data as JSON object.
      * @param {string[]} permissions - An array of permissions strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string): Promise<Document>;
+    createDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     createDocument<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Omit<Document, keyof Models.Document>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3970,6 +4302,7 @@ export class Databases {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4017,6 +4350,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4027,11 +4362,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection). Make sure to define attributes before creating documents.
      * @param {object[]} params.documents - Array of documents data as JSON objects.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createRows` instead.
      */
-    createDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string  }): Promise<Models.DocumentList<Document>>;
+    createDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     /**
      * Create new Documents. Before using this route, you should create a new collection resource using either a [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection) API or directly from your database console.
      *
@@ -4039,19 +4375,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection). Make sure to define attributes before creating documents.
      * @param {object[]} documents - Array of documents data as JSON objects.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documents: object[], transactionId?: string): Promise<Models.DocumentList<Document>>;
+    createDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documents: object[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     createDocuments<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documents: object[], transactionId?: string } | string,
-        ...rest: [(string)?, (object[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.DocumentList<Document>> {
         let params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documents: object[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4059,6 +4398,7 @@ export class Databases {
                 documents: rest[1] as object[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4095,6 +4435,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4106,11 +4448,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID.
      * @param {object[]} params.documents - Array of document data as JSON objects. May contain partial documents.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.upsertRows` instead.
      */
-    upsertDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string  }): Promise<Models.DocumentList<Document>>;
+    upsertDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     /**
      * Create or update Documents. Before using this route, you should create a new collection resource using either a [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection) API or directly from your database console.
      * 
@@ -4119,19 +4462,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID.
      * @param {object[]} documents - Array of document data as JSON objects. May contain partial documents.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    upsertDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documents: object[], transactionId?: string): Promise<Models.DocumentList<Document>>;
+    upsertDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documents: object[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     upsertDocuments<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documents: object[], transactionId?: string } | string,
-        ...rest: [(string)?, (object[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.DocumentList<Document>> {
         let params: { databaseId: string, collectionId: string, documents: object[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documents: object[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4139,6 +4485,7 @@ export class Databases {
                 documents: rest[1] as object[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4175,6 +4522,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4186,11 +4535,12 @@ export class Databases {
      * @param {object} params.data - Document data as JSON object. Include only attribute and value pairs to be updated.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateRows` instead.
      */
-    updateDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string  }): Promise<Models.DocumentList<Document>>;
+    updateDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     /**
      * Update all documents that match your queries, if no queries are submitted then all documents are updated. You can pass only specific fields to be updated.
      *
@@ -4199,19 +4549,22 @@ export class Databases {
      * @param {object} data - Document data as JSON object. Include only attribute and value pairs to be updated.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string): Promise<Models.DocumentList<Document>>;
+    updateDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     updateDocuments<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (object)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.DocumentList<Document>> {
         let params: { databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, data?: object, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4220,6 +4573,7 @@ export class Databases {
                 queries: rest[2] as string[],
                 transactionId: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4257,6 +4611,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4267,11 +4623,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.deleteRows` instead.
      */
-    deleteDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string  }): Promise<Models.DocumentList<Document>>;
+    deleteDocuments<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     /**
      * Bulk delete documents using queries, if no queries are passed then all documents are deleted.
      *
@@ -4279,19 +4636,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DocumentList<Document>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, queries?: string[], transactionId?: string): Promise<Models.DocumentList<Document>>;
+    deleteDocuments<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.DocumentList<Document>>;
     deleteDocuments<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.DocumentList<Document>> {
         let params: { databaseId: string, collectionId: string, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4299,6 +4659,7 @@ export class Databases {
                 queries: rest[1] as string[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4332,6 +4693,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4343,11 +4706,12 @@ export class Databases {
      * @param {string} params.documentId - Document ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID to read uncommitted changes within the transaction.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.getRow` instead.
      */
-    getDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string  }): Promise<Document>;
+    getDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Get a document by its unique ID. This endpoint response returns a JSON object with the document data.
      *
@@ -4356,19 +4720,22 @@ export class Databases {
      * @param {string} documentId - Document ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID to read uncommitted changes within the transaction.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string): Promise<Document>;
+    getDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     getDocument<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4377,6 +4744,7 @@ export class Databases {
                 queries: rest[2] as string[],
                 transactionId: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4413,6 +4781,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4425,11 +4795,12 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>} params.data - Document data as JSON object. Include all required attributes of the document to be created or updated.
      * @param {string[]} params.permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.upsertRow` instead.
      */
-    upsertDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string  }): Promise<Document>;
+    upsertDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Create or update a Document. Before using this route, you should create a new collection resource using either a [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection) API or directly from your database console.
      *
@@ -4439,19 +4810,22 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>} data - Document data as JSON object. Include all required attributes of the document to be created or updated.
      * @param {string[]} permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    upsertDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string): Promise<Document>;
+    upsertDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     upsertDocument<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, data: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4461,6 +4835,7 @@ export class Databases {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4505,6 +4880,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4517,11 +4894,12 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>} params.data - Document data as JSON object. Include only attribute and value pairs to be updated.
      * @param {string[]} params.permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.updateRow` instead.
      */
-    updateDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string  }): Promise<Document>;
+    updateDocument<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Update a document by its unique ID. Using the patch method you can pass only specific fields that will get updated.
      *
@@ -4531,19 +4909,22 @@ export class Databases {
      * @param {Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>} data - Document data as JSON object. Include only attribute and value pairs to be updated.
      * @param {string[]} permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string): Promise<Document>;
+    updateDocument<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     updateDocument<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, data?: Document extends Models.DefaultDocument ? Partial<Models.Document> & Record<string, any> : Partial<Models.Document> & Partial<Omit<Document, keyof Models.Document>>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4553,6 +4934,7 @@ export class Databases {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4594,6 +4976,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4604,11 +4988,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} params.documentId - Document ID.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.deleteRow` instead.
      */
-    deleteDocument(params: { databaseId: string, collectionId: string, documentId: string, transactionId?: string  }): Promise<{}>;
+    deleteDocument(params: { databaseId: string, collectionId: string, documentId: string, transactionId?: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a document by its unique ID.
      *
@@ -4616,19 +5001,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} documentId - Document ID.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteDocument(databaseId: string, collectionId: string, documentId: string, transactionId?: string): Promise<{}>;
+    deleteDocument(databaseId: string, collectionId: string, documentId: string, transactionId?: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteDocument(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, collectionId: string, documentId: string, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4636,6 +5024,7 @@ export class Databases {
                 documentId: rest[1] as string,
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4669,6 +5058,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4682,11 +5073,12 @@ export class Databases {
      * @param {number} params.value - Value to increment the attribute by. The value must be a number.
      * @param {number} params.min - Minimum value for the attribute. If the current value is lesser than this value, an exception will be thrown.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.decrementRowColumn` instead.
      */
-    decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string  }): Promise<Document>;
+    decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Decrement a specific attribute of a document by a given value.
      *
@@ -4697,19 +5089,22 @@ export class Databases {
      * @param {number} value - Value to increment the attribute by. The value must be a number.
      * @param {number} min - Minimum value for the attribute. If the current value is lesser than this value, an exception will be thrown.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string): Promise<Document>;
+    decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     decrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, min?: number, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4720,6 +5115,7 @@ export class Databases {
                 min: rest[4] as number,
                 transactionId: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4765,6 +5161,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4778,11 +5176,12 @@ export class Databases {
      * @param {number} params.value - Value to increment the attribute by. The value must be a number.
      * @param {number} params.max - Maximum value for the attribute. If the current value is greater than this value, an error will be thrown.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.incrementRowColumn` instead.
      */
-    incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string  }): Promise<Document>;
+    incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string  }, requestOptions?: RequestOptions): Promise<Document>;
     /**
      * Increment a specific attribute of a document by a given value.
      *
@@ -4793,19 +5192,22 @@ export class Databases {
      * @param {number} value - Value to increment the attribute by. The value must be a number.
      * @param {number} max - Maximum value for the attribute. If the current value is greater than this value, an error will be thrown.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Document>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string): Promise<Document>;
+    incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string, requestOptions?: RequestOptions): Promise<Document>;
     incrementDocumentAttribute<Document extends Models.Document = Models.DefaultDocument>(
         paramsOrFirst: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Document> {
         let params: { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, documentId: string, attribute: string, value?: number, max?: number, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4816,6 +5218,7 @@ export class Databases {
                 max: rest[4] as number,
                 transactionId: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4861,6 +5264,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4871,11 +5276,12 @@ export class Databases {
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: key, type, status, attributes, error
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IndexList>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.listIndexes` instead.
      */
-    listIndexes(params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean  }): Promise<Models.IndexList>;
+    listIndexes(params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.IndexList>;
     /**
      * List indexes in the collection.
      *
@@ -4883,19 +5289,22 @@ export class Databases {
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: key, type, status, attributes, error
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IndexList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listIndexes(databaseId: string, collectionId: string, queries?: string[], total?: boolean): Promise<Models.IndexList>;
+    listIndexes(databaseId: string, collectionId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.IndexList>;
     listIndexes(
         paramsOrFirst: { databaseId: string, collectionId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.IndexList> {
         let params: { databaseId: string, collectionId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4903,6 +5312,7 @@ export class Databases {
                 queries: rest[1] as string[],
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4935,6 +5345,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4949,11 +5361,12 @@ export class Databases {
      * @param {string[]} params.attributes - Array of attributes to index. Maximum of 100 attributes are allowed, each 32 characters long.
      * @param {string[]} params.orders - Array of index orders. Maximum of 100 orders are allowed.
      * @param {number[]} params.lengths - Length of index. Maximum of 100
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Index>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.createIndex` instead.
      */
-    createIndex(params: { databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[]  }): Promise<Models.Index>;
+    createIndex(params: { databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[]  }, requestOptions?: RequestOptions): Promise<Models.Index>;
     /**
      * Creates an index on the attributes listed. Your index should include all the attributes you will query in a single request.
      * Attributes can be `key`, `fulltext`, and `unique`.
@@ -4965,19 +5378,22 @@ export class Databases {
      * @param {string[]} attributes - Array of attributes to index. Maximum of 100 attributes are allowed, each 32 characters long.
      * @param {string[]} orders - Array of index orders. Maximum of 100 orders are allowed.
      * @param {number[]} lengths - Length of index. Maximum of 100
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Index>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIndex(databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[]): Promise<Models.Index>;
+    createIndex(databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[], requestOptions?: RequestOptions): Promise<Models.Index>;
     createIndex(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[] } | string,
-        ...rest: [(string)?, (string)?, (IndexType)?, (string[])?, (string[])?, (number[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (IndexType)?, (string[])?, (string[])?, (number[])?, (RequestOptions)?]    
     ): Promise<Models.Index> {
         let params: { databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string, type: IndexType, attributes: string[], orders?: string[], lengths?: number[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4988,6 +5404,7 @@ export class Databases {
                 orders: rest[4] as string[],
                 lengths: rest[5] as number[]            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -5042,6 +5459,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5051,36 +5470,41 @@ export class Databases {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} params.key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Index>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.getIndex` instead.
      */
-    getIndex(params: { databaseId: string, collectionId: string, key: string  }): Promise<Models.Index>;
+    getIndex(params: { databaseId: string, collectionId: string, key: string  }, requestOptions?: RequestOptions): Promise<Models.Index>;
     /**
      * Get an index by its unique ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Index>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getIndex(databaseId: string, collectionId: string, key: string): Promise<Models.Index>;
+    getIndex(databaseId: string, collectionId: string, key: string, requestOptions?: RequestOptions): Promise<Models.Index>;
     getIndex(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Index> {
         let params: { databaseId: string, collectionId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -5109,6 +5533,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5118,36 +5544,41 @@ export class Databases {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} params.key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `TablesDB.deleteIndex` instead.
      */
-    deleteIndex(params: { databaseId: string, collectionId: string, key: string  }): Promise<{}>;
+    deleteIndex(params: { databaseId: string, collectionId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an index.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} collectionId - Collection ID. You can create a new collection using the Database service [server integration](https://appwrite.io/docs/server/databases#databasesCreateCollection).
      * @param {string} key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteIndex(databaseId: string, collectionId: string, key: string): Promise<{}>;
+    deleteIndex(databaseId: string, collectionId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteIndex(
         paramsOrFirst: { databaseId: string, collectionId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, collectionId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, collectionId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 collectionId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -5177,6 +5608,8 @@ export class Databases {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
 import { Video } from './feed';
 
 export class Favorite {
@@ -8,21 +8,64 @@ export class Favorite {
         this.client = client;
     }
 
+    /**
+     * Like Video
+     *
+     * Like/favorite a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    likeVideo(params: { videoId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Like Video
      *
      * Like/favorite a video
      *
      * @param {number} videoId - Video ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async likeVideo(videoId: number, actorId: number, token: string): Promise<{
+    likeVideo(videoId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async likeVideo(
+        paramsOrFirst: { videoId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { videoId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -52,24 +95,69 @@ export class Favorite {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Unlike Video
+     *
+     * Unlike/unfavorite a video
+     *
+     * @param {number} params.videoId - Video ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    unlikeVideo(params: { videoId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Unlike Video
      *
      * Unlike/unfavorite a video
      *
      * @param {number} videoId - Video ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async unlikeVideo(videoId: number, actorId: number, token: string): Promise<{
+    unlikeVideo(videoId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async unlikeVideo(
+        paramsOrFirst: { videoId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { videoId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                videoId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const videoId = params.videoId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof videoId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "videoId"');
         }
@@ -99,25 +187,72 @@ export class Favorite {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * List Favorite Videos
+     *
+     * Get list of videos favorited by a user
+     *
+     * @param {number} params.userId - User ID whose favorites to list
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, video_list: Video[]}>}
+     */
+    listFavorites(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        video_list: Video[];
+    }>;
     /**
      * List Favorite Videos
      *
      * Get list of videos favorited by a user
      *
      * @param {number} userId - User ID whose favorites to list
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, video_list: Video[]}>}
      */
-    async listFavorites(userId: number, actorId: number, token: string): Promise<{
+    listFavorites(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        video_list: Video[];
+    }>;
+    async listFavorites(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         video_list: Video[];
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -147,6 +282,8 @@ export class Favorite {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 }
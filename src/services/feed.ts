@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
+import { GuGoTikException } from '../exceptions';
 import { User } from './user';
 
 export interface Video {
@@ -25,11 +26,12 @@ export class Feed {
      * Get recommended video feed
      *
      * @param {string} latestTime - Optional latest time for pagination
-     * @param {number} actorId - Optional current user ID
+     * @param {number} actorId - Optional current user ID, defaults to the client identity
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, next_time?: number, video_list?: Video[]}>}
      */
-    async listVideos(latestTime?: string, actorId?: number): Promise<{
+    async listVideos(latestTime?: string, actorId?: number, requestOptions?: RequestOptions): Promise<{
         status_code: number;
         status_msg: string;
         next_time?: number;
@@ -41,6 +43,7 @@ export class Feed {
         if (typeof latestTime !== 'undefined') {
             payload['latest_time'] = latestTime;
         }
+        actorId = actorId ?? this.client.config.actorId;
         if (typeof actorId !== 'undefined') {
             payload['actor_id'] = actorId;
         }
@@ -57,6 +60,8 @@ export class Feed {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
@@ -66,11 +71,12 @@ export class Feed {
      * Get a single video by its ID with detailed information
      *
      * @param {number} videoId - Video ID to retrieve
-     * @param {number} actorId - Optional current user ID for personalized data
+     * @param {number} actorId - Optional current user ID for personalized data, defaults to the client identity
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, video?: Video}>}
      */
-    async getVideoById(videoId: number, actorId?: number): Promise<{
+    async getVideoById(videoId: number, actorId?: number, requestOptions?: RequestOptions): Promise<{
         status_code: number;
         status_msg: string;
         video?: Video;
@@ -84,6 +90,7 @@ export class Feed {
 
         payload['video_id'] = videoId;
 
+        actorId = actorId ?? this.client.config.actorId;
         if (typeof actorId !== 'undefined') {
             payload['actor_id'] = actorId;
         }
@@ -100,7 +107,72 @@ export class Feed {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
-}
 
+    /**
+     * Iterate Videos
+     *
+     * Walk the recommended feed page by page, following `next_time` until the
+     * feed is exhausted. Videos already yielded by an earlier page are skipped.
+     *
+     * @param {number} params.actorId - Optional current user ID, defaults to the client identity
+     * @param {number | string} params.startTime - Optional time to start from, defaults to now
+     * @param {number} params.maxItems - Optional maximum number of videos to yield
+     * @param {AbortSignal} params.signal - Optional signal to stop iterating, also cancels the page being fetched
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for every page request.
+     * @throws {AppwriteException}
+     * @returns {AsyncIterable<Video>}
+     */
+    async *iterate(params: { actorId?: number, startTime?: number | string, maxItems?: number, signal?: AbortSignal } = {}, requestOptions?: RequestOptions): AsyncIterable<Video> {
+        const { actorId, maxItems } = params;
+        const signal = params.signal ?? requestOptions?.signal;
+        const seen = new Set<number>();
+
+        let latestTime = typeof params.startTime !== 'undefined' ? String(params.startTime) : undefined;
+        let count = 0;
+
+        if (maxItems === 0) {
+            return;
+        }
+
+        while (true) {
+            signal?.throwIfAborted();
+
+            const page = await this.listVideos(latestTime, actorId, { ...requestOptions, signal });
+
+            // Without status code errors a failed page comes back as an envelope, which must not read as the end of the feed.
+            if (typeof page?.status_code === 'number' && page.status_code !== 0) {
+                throw GuGoTikException.from(page.status_code, page.status_msg ?? '', '/douyin/feed/', JSON.stringify(page));
+            }
+            const videos = page.video_list ?? [];
+            let fresh = 0;
+
+            for (const video of videos) {
+                if (seen.has(video.id)) {
+                    continue;
+                }
+
+                seen.add(video.id);
+                fresh++;
+
+                yield video;
+
+                if (typeof maxItems !== 'undefined' && ++count >= maxItems) {
+                    return;
+                }
+                signal?.throwIfAborted();
+            }
+
+            // A page without new videos, or a cursor that does not move, means the feed is exhausted.
+            const nextTime = typeof page.next_time !== 'undefined' ? String(page.next_time) : undefined;
+            if (fresh === 0 || typeof nextTime === 'undefined' || nextTime === latestTime) {
+                return;
+            }
+
+            latestTime = nextTime;
+        }
+    }
+}
@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type DownloadProgress, type DownloadResult, type RequestOptions } from '../client';
+import type { Readable } from 'stream';
 import type { Models } from '../models';
 
 import { Runtime } from '../enums/runtime';
@@ -20,35 +21,40 @@ export class Functions {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, runtime, deploymentId, schedule, scheduleNext, schedulePrevious, timeout, entrypoint, commands, installationId
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.FunctionList>}
      */
-    list(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.FunctionList>;
+    list(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.FunctionList>;
     /**
      * Get a list of all the project's functions. You can use the query params to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, runtime, deploymentId, schedule, scheduleNext, schedulePrevious, timeout, entrypoint, commands, installationId
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.FunctionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list(queries?: string[], search?: string, total?: boolean): Promise<Models.FunctionList>;
+    list(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.FunctionList>;
     list(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.FunctionList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -77,6 +83,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -101,10 +109,11 @@ export class Functions {
      * @param {boolean} params.providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the function? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} params.providerRootDirectory - Path to function code in the linked repo.
      * @param {string} params.specification - Runtime specification for the function and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      */
-    create(params: { functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }): Promise<Models.Function>;
+    create(params: { functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }, requestOptions?: RequestOptions): Promise<Models.Function>;
     /**
      * Create a new function. You can pass a list of [permissions](https://appwrite.io/docs/permissions) to allow different project users or team with access to execute the function using the client API.
      *
@@ -126,19 +135,22 @@ export class Functions {
      * @param {boolean} providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the function? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} providerRootDirectory - Path to function code in the linked repo.
      * @param {string} specification - Runtime specification for the function and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create(functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string): Promise<Models.Function>;
+    create(functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string, requestOptions?: RequestOptions): Promise<Models.Function>;
     create(
         paramsOrFirst: { functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string } | string,
-        ...rest: [(string)?, (Runtime)?, (string[])?, (string[])?, (string)?, (number)?, (boolean)?, (boolean)?, (string)?, (string)?, (string[])?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (Runtime)?, (string[])?, (string[])?, (string)?, (number)?, (boolean)?, (boolean)?, (string)?, (string)?, (string[])?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Function> {
         let params: { functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, name: string, runtime: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -160,6 +172,7 @@ export class Functions {
                 providerRootDirectory: rest[15] as string,
                 specification: rest[16] as string            
             };
+            requestOptions = rest[17] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -258,16 +271,19 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get a list of all runtimes that are currently active on your instance.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RuntimeList>}
      */
-    listRuntimes(): Promise<Models.RuntimeList> {
+    listRuntimes(requestOptions?: RequestOptions): Promise<Models.RuntimeList> {
 
         const apiPath = '/functions/runtimes';
         const payload: Payload = {};
@@ -281,16 +297,19 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List allowed function specifications for this instance.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SpecificationList>}
      */
-    listSpecifications(): Promise<Models.SpecificationList> {
+    listSpecifications(requestOptions?: RequestOptions): Promise<Models.SpecificationList> {
 
         const apiPath = '/functions/specifications';
         const payload: Payload = {};
@@ -304,6 +323,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -311,30 +332,36 @@ export class Functions {
      * Get a function by its unique ID.
      *
      * @param {string} params.functionId - Function ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      */
-    get(params: { functionId: string  }): Promise<Models.Function>;
+    get(params: { functionId: string  }, requestOptions?: RequestOptions): Promise<Models.Function>;
     /**
      * Get a function by its unique ID.
      *
      * @param {string} functionId - Function ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get(functionId: string): Promise<Models.Function>;
+    get(functionId: string, requestOptions?: RequestOptions): Promise<Models.Function>;
     get(
-        paramsOrFirst: { functionId: string } | string    
+        paramsOrFirst: { functionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Function> {
         let params: { functionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -355,6 +382,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -379,10 +408,11 @@ export class Functions {
      * @param {boolean} params.providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the function? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} params.providerRootDirectory - Path to function code in the linked repo.
      * @param {string} params.specification - Runtime specification for the function and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      */
-    update(params: { functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }): Promise<Models.Function>;
+    update(params: { functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }, requestOptions?: RequestOptions): Promise<Models.Function>;
     /**
      * Update function by its unique ID.
      *
@@ -404,19 +434,22 @@ export class Functions {
      * @param {boolean} providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the function? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} providerRootDirectory - Path to function code in the linked repo.
      * @param {string} specification - Runtime specification for the function and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    update(functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string): Promise<Models.Function>;
+    update(functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string, requestOptions?: RequestOptions): Promise<Models.Function>;
     update(
         paramsOrFirst: { functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string } | string,
-        ...rest: [(string)?, (Runtime)?, (string[])?, (string[])?, (string)?, (number)?, (boolean)?, (boolean)?, (string)?, (string)?, (string[])?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (Runtime)?, (string[])?, (string[])?, (string)?, (number)?, (boolean)?, (boolean)?, (string)?, (string)?, (string[])?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Function> {
         let params: { functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, name: string, runtime?: Runtime, execute?: string[], events?: string[], schedule?: string, timeout?: number, enabled?: boolean, logging?: boolean, entrypoint?: string, commands?: string, scopes?: string[], installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -438,6 +471,7 @@ export class Functions {
                 providerRootDirectory: rest[15] as string,
                 specification: rest[16] as string            
             };
+            requestOptions = rest[17] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -530,6 +564,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -537,30 +573,36 @@ export class Functions {
      * Delete a function by its unique ID.
      *
      * @param {string} params.functionId - Function ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { functionId: string  }): Promise<{}>;
+    delete(params: { functionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a function by its unique ID.
      *
      * @param {string} functionId - Function ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(functionId: string): Promise<{}>;
+    delete(functionId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { functionId: string } | string    
+        paramsOrFirst: { functionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { functionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -582,6 +624,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -590,33 +634,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      */
-    updateFunctionDeployment(params: { functionId: string, deploymentId: string  }): Promise<Models.Function>;
+    updateFunctionDeployment(params: { functionId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Function>;
     /**
      * Update the function active deployment. Use this endpoint to switch the code deployment that should be used when visitor opens your function.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Function>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFunctionDeployment(functionId: string, deploymentId: string): Promise<Models.Function>;
+    updateFunctionDeployment(functionId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Function>;
     updateFunctionDeployment(
         paramsOrFirst: { functionId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Function> {
         let params: { functionId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -645,6 +694,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -655,10 +706,11 @@ export class Functions {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: buildSize, sourceSize, totalSize, buildDuration, status, activate, type
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DeploymentList>}
      */
-    listDeployments(params: { functionId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.DeploymentList>;
+    listDeployments(params: { functionId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.DeploymentList>;
     /**
      * Get a list of all the function's code deployments. You can use the query params to filter your results.
      *
@@ -666,19 +718,22 @@ export class Functions {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: buildSize, sourceSize, totalSize, buildDuration, status, activate, type
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DeploymentList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listDeployments(functionId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.DeploymentList>;
+    listDeployments(functionId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.DeploymentList>;
     listDeployments(
         paramsOrFirst: { functionId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.DeploymentList> {
         let params: { functionId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -686,6 +741,7 @@ export class Functions {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -718,6 +774,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -733,10 +791,11 @@ export class Functions {
      * @param {boolean} params.activate - Automatically activate the deployment when it is finished building.
      * @param {string} params.entrypoint - Entrypoint File.
      * @param {string} params.commands - Build Commands.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createDeployment(params: { functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string , onProgress?: (progress: UploadProgress) => void }): Promise<Models.Deployment>;
+    createDeployment(params: { functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string , onProgress?: (progress: UploadProgress) => void }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a new function code deployment. Use this endpoint to upload a new version of your code function. To execute your newly uploaded code, you'll need to update the function's deployment to use your new deployment UID.
      * 
@@ -749,21 +808,24 @@ export class Functions {
      * @param {boolean} activate - Automatically activate the deployment when it is finished building.
      * @param {string} entrypoint - Entrypoint File.
      * @param {string} commands - Build Commands.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDeployment(functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string, onProgress?: (progress: UploadProgress) => void): Promise<Models.Deployment>;
+    createDeployment(functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string, onProgress?: (progress: UploadProgress) => void, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createDeployment(
         paramsOrFirst: { functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string, onProgress?: (progress: UploadProgress) => void  } | string,
-        ...rest: [(File)?, (boolean)?, (string)?, (string)?,((progress: UploadProgress) => void)?]    
+        ...rest: [(File | RequestOptions)?, (boolean)?, (string)?, (string)?, ((progress: UploadProgress) => void)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string };
         let onProgress: ((progress: UploadProgress) => void);
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, code: File, activate: boolean, entrypoint?: string, commands?: string };
             onProgress = paramsOrFirst?.onProgress as ((progress: UploadProgress) => void);
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -773,6 +835,7 @@ export class Functions {
                 commands: rest[3] as string            
             };
             onProgress = rest[4] as ((progress: UploadProgress) => void);
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -816,7 +879,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
-            onProgress
+            onProgress,
+            requestOptions,
         );
     }
 
@@ -826,35 +890,40 @@ export class Functions {
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
      * @param {string} params.buildId - Build unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createDuplicateDeployment(params: { functionId: string, deploymentId: string, buildId?: string  }): Promise<Models.Deployment>;
+    createDuplicateDeployment(params: { functionId: string, deploymentId: string, buildId?: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a new build for an existing function deployment. This endpoint allows you to rebuild a deployment with the updated function configuration, including its entrypoint and build commands if they have been modified. The build process will be queued and executed asynchronously. The original deployment's code will be preserved and used for the new build.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
      * @param {string} buildId - Build unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDuplicateDeployment(functionId: string, deploymentId: string, buildId?: string): Promise<Models.Deployment>;
+    createDuplicateDeployment(functionId: string, deploymentId: string, buildId?: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createDuplicateDeployment(
         paramsOrFirst: { functionId: string, deploymentId: string, buildId?: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, deploymentId: string, buildId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string, buildId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string,
                 buildId: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -887,6 +956,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -902,10 +973,11 @@ export class Functions {
      * @param {TemplateReferenceType} params.type - Type for the reference provided. Can be commit, branch, or tag
      * @param {string} params.reference - Reference value, can be a commit hash, branch name, or release tag
      * @param {boolean} params.activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createTemplateDeployment(params: { functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean  }): Promise<Models.Deployment>;
+    createTemplateDeployment(params: { functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a deployment based on a template.
      * 
@@ -918,19 +990,22 @@ export class Functions {
      * @param {TemplateReferenceType} type - Type for the reference provided. Can be commit, branch, or tag
      * @param {string} reference - Reference value, can be a commit hash, branch name, or release tag
      * @param {boolean} activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTemplateDeployment(functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean): Promise<Models.Deployment>;
+    createTemplateDeployment(functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createTemplateDeployment(
         paramsOrFirst: { functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (TemplateReferenceType)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (TemplateReferenceType)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -941,6 +1016,7 @@ export class Functions {
                 reference: rest[4] as string,
                 activate: rest[5] as boolean            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1001,6 +1077,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1013,10 +1091,11 @@ export class Functions {
      * @param {VCSReferenceType} params.type - Type of reference passed. Allowed values are: branch, commit
      * @param {string} params.reference - VCS reference to create deployment from. Depending on type this can be: branch name, commit hash
      * @param {boolean} params.activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createVcsDeployment(params: { functionId: string, type: VCSReferenceType, reference: string, activate?: boolean  }): Promise<Models.Deployment>;
+    createVcsDeployment(params: { functionId: string, type: VCSReferenceType, reference: string, activate?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a deployment when a function is connected to VCS.
      * 
@@ -1026,19 +1105,22 @@ export class Functions {
      * @param {VCSReferenceType} type - Type of reference passed. Allowed values are: branch, commit
      * @param {string} reference - VCS reference to create deployment from. Depending on type this can be: branch name, commit hash
      * @param {boolean} activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVcsDeployment(functionId: string, type: VCSReferenceType, reference: string, activate?: boolean): Promise<Models.Deployment>;
+    createVcsDeployment(functionId: string, type: VCSReferenceType, reference: string, activate?: boolean, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createVcsDeployment(
         paramsOrFirst: { functionId: string, type: VCSReferenceType, reference: string, activate?: boolean } | string,
-        ...rest: [(VCSReferenceType)?, (string)?, (boolean)?]    
+        ...rest: [(VCSReferenceType | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, type: VCSReferenceType, reference: string, activate?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, type: VCSReferenceType, reference: string, activate?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -1046,6 +1128,7 @@ export class Functions {
                 reference: rest[1] as string,
                 activate: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1085,6 +1168,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1093,33 +1178,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    getDeployment(params: { functionId: string, deploymentId: string  }): Promise<Models.Deployment>;
+    getDeployment(params: { functionId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Get a function deployment by its unique ID.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getDeployment(functionId: string, deploymentId: string): Promise<Models.Deployment>;
+    getDeployment(functionId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     getDeployment(
         paramsOrFirst: { functionId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1144,6 +1234,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1152,33 +1244,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteDeployment(params: { functionId: string, deploymentId: string  }): Promise<{}>;
+    deleteDeployment(params: { functionId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a code deployment by its unique ID.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteDeployment(functionId: string, deploymentId: string): Promise<{}>;
+    deleteDeployment(functionId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteDeployment(
         paramsOrFirst: { functionId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { functionId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1204,6 +1301,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1213,35 +1312,40 @@ export class Functions {
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
      * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getDeploymentDownload(params: { functionId: string, deploymentId: string, type?: DeploymentDownloadType  }): Promise<ArrayBuffer>;
+    getDeploymentDownload(params: { functionId: string, deploymentId: string, type?: DeploymentDownloadType  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Get a function deployment content by its unique ID. The endpoint response return with a 'Content-Disposition: attachment' header that tells the browser to start downloading the file to user downloads directory.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
      * @param {DeploymentDownloadType} type - Deployment file to download. Can be: "source", "output".
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getDeploymentDownload(functionId: string, deploymentId: string, type?: DeploymentDownloadType): Promise<ArrayBuffer>;
+    getDeploymentDownload(functionId: string, deploymentId: string, type?: DeploymentDownloadType, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getDeploymentDownload(
         paramsOrFirst: { functionId: string, deploymentId: string, type?: DeploymentDownloadType } | string,
-        ...rest: [(string)?, (DeploymentDownloadType)?]    
+        ...rest: [(string | RequestOptions)?, (DeploymentDownloadType)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { functionId: string, deploymentId: string, type?: DeploymentDownloadType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string, type?: DeploymentDownloadType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string,
                 type: rest[1] as DeploymentDownloadType            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1270,42 +1374,109 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
+    /**
+     * Stream a function deployment content by its unique ID without buffering it in memory. Use `Readable.toWeb()` for a web `ReadableStream`.
+     *
+     * @param {string} params.functionId - Function ID.
+     * @param {string} params.deploymentId - Deployment ID.
+     * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {number} params.offset - Byte to start from, to continue a partial download.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<Readable>}
+     */
+    getDeploymentDownloadStream(params: { functionId: string, deploymentId: string, type?: DeploymentDownloadType, offset?: number, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<Readable> {
+        const { functionId, deploymentId, type, offset, onProgress } = params || {};
+        const { uri, payload } = this.deploymentDownloadRequest(functionId, deploymentId, type);
+
+        return this.client.download('get', uri, {}, payload, { ...requestOptions, offset, onProgress });
+    }
+
+    /**
+     * Download a function deployment content by its unique ID straight to a path on disk. With `resume`, an existing file at the path is kept and only the remaining bytes are requested.
+     *
+     * @param {string} params.functionId - Function ID.
+     * @param {string} params.deploymentId - Deployment ID.
+     * @param {string} params.path - Where to write the deployment file.
+     * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {boolean} params.resume - Continue a partial download already at the path.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<DownloadResult>}
+     */
+    downloadDeployment(params: { functionId: string, deploymentId: string, path: string, type?: DeploymentDownloadType, resume?: boolean, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<DownloadResult> {
+        const { functionId, deploymentId, path, type, resume, onProgress } = params || {};
+
+        if (typeof path === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "path"');
+        }
+
+        const { uri, payload } = this.deploymentDownloadRequest(functionId, deploymentId, type);
+
+        return this.client.downloadToPath('get', uri, {}, payload, path, { ...requestOptions, resume, onProgress });
+    }
+
+    private deploymentDownloadRequest(functionId: string, deploymentId: string, type?: DeploymentDownloadType): { uri: URL, payload: Payload } {
+        if (typeof functionId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "functionId"');
+        }
+        if (typeof deploymentId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "deploymentId"');
+        }
+
+        const apiPath = '/functions/{functionId}/deployments/{deploymentId}/download'.replace('{functionId}', functionId).replace('{deploymentId}', deploymentId);
+        const payload: Payload = {};
+        if (typeof type !== 'undefined') {
+            payload['type'] = type;
+        }
+
+        return { uri: new URL(this.client.config.endpoint + apiPath), payload };
+    }
+
     /**
      * Cancel an ongoing function deployment build. If the build is already in progress, it will be stopped and marked as canceled. If the build hasn't started yet, it will be marked as canceled without executing. You cannot cancel builds that have already completed (status 'ready') or failed. The response includes the final build status and details.
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    updateDeploymentStatus(params: { functionId: string, deploymentId: string  }): Promise<Models.Deployment>;
+    updateDeploymentStatus(params: { functionId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Cancel an ongoing function deployment build. If the build is already in progress, it will be stopped and marked as canceled. If the build hasn't started yet, it will be marked as canceled without executing. You cannot cancel builds that have already completed (status 'ready') or failed. The response includes the final build status and details.
      *
      * @param {string} functionId - Function ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDeploymentStatus(functionId: string, deploymentId: string): Promise<Models.Deployment>;
+    updateDeploymentStatus(functionId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     updateDeploymentStatus(
         paramsOrFirst: { functionId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { functionId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1331,6 +1502,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1340,35 +1513,40 @@ export class Functions {
      * @param {string} params.functionId - Function ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: trigger, status, responseStatusCode, duration, requestMethod, requestPath, deploymentId
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ExecutionList>}
      */
-    listExecutions(params: { functionId: string, queries?: string[], total?: boolean  }): Promise<Models.ExecutionList>;
+    listExecutions(params: { functionId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ExecutionList>;
     /**
      * Get a list of all the current user function execution logs. You can use the query params to filter your results.
      *
      * @param {string} functionId - Function ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: trigger, status, responseStatusCode, duration, requestMethod, requestPath, deploymentId
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ExecutionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listExecutions(functionId: string, queries?: string[], total?: boolean): Promise<Models.ExecutionList>;
+    listExecutions(functionId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.ExecutionList>;
     listExecutions(
         paramsOrFirst: { functionId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ExecutionList> {
         let params: { functionId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1397,6 +1575,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1410,10 +1590,11 @@ export class Functions {
      * @param {ExecutionMethod} params.method - HTTP method of execution. Default value is POST.
      * @param {object} params.headers - HTTP headers of execution. Defaults to empty.
      * @param {string} params.scheduledAt - Scheduled execution time in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future with precision in minutes.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      */
-    createExecution(params: { functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string  }): Promise<Models.Execution>;
+    createExecution(params: { functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Execution>;
     /**
      * Trigger a function execution. The returned object will return you the current execution status. You can ping the `Get Execution` endpoint to get updates on the current execution status. Once this endpoint is called, your function execution process will start asynchronously.
      *
@@ -1424,19 +1605,22 @@ export class Functions {
      * @param {ExecutionMethod} method - HTTP method of execution. Default value is POST.
      * @param {object} headers - HTTP headers of execution. Defaults to empty.
      * @param {string} scheduledAt - Scheduled execution time in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future with precision in minutes.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createExecution(functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string): Promise<Models.Execution>;
+    createExecution(functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Execution>;
     createExecution(
         paramsOrFirst: { functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (ExecutionMethod)?, (object)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (ExecutionMethod)?, (object)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Execution> {
         let params: { functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, body?: string, async?: boolean, xpath?: string, method?: ExecutionMethod, headers?: object, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -1447,6 +1631,7 @@ export class Functions {
                 headers: rest[4] as object,
                 scheduledAt: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1492,6 +1677,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1500,33 +1687,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.executionId - Execution ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      */
-    getExecution(params: { functionId: string, executionId: string  }): Promise<Models.Execution>;
+    getExecution(params: { functionId: string, executionId: string  }, requestOptions?: RequestOptions): Promise<Models.Execution>;
     /**
      * Get a function execution log by its unique ID.
      *
      * @param {string} functionId - Function ID.
      * @param {string} executionId - Execution ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getExecution(functionId: string, executionId: string): Promise<Models.Execution>;
+    getExecution(functionId: string, executionId: string, requestOptions?: RequestOptions): Promise<Models.Execution>;
     getExecution(
         paramsOrFirst: { functionId: string, executionId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Execution> {
         let params: { functionId: string, executionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, executionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 executionId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1551,6 +1743,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1559,33 +1753,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function ID.
      * @param {string} params.executionId - Execution ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteExecution(params: { functionId: string, executionId: string  }): Promise<{}>;
+    deleteExecution(params: { functionId: string, executionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a function execution by its unique ID.
      *
      * @param {string} functionId - Function ID.
      * @param {string} executionId - Execution ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteExecution(functionId: string, executionId: string): Promise<{}>;
+    deleteExecution(functionId: string, executionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteExecution(
         paramsOrFirst: { functionId: string, executionId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { functionId: string, executionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, executionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 executionId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1611,6 +1810,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1618,30 +1819,36 @@ export class Functions {
      * Get a list of all variables of a specific function.
      *
      * @param {string} params.functionId - Function unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.VariableList>}
      */
-    listVariables(params: { functionId: string  }): Promise<Models.VariableList>;
+    listVariables(params: { functionId: string  }, requestOptions?: RequestOptions): Promise<Models.VariableList>;
     /**
      * Get a list of all variables of a specific function.
      *
      * @param {string} functionId - Function unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.VariableList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listVariables(functionId: string): Promise<Models.VariableList>;
+    listVariables(functionId: string, requestOptions?: RequestOptions): Promise<Models.VariableList>;
     listVariables(
-        paramsOrFirst: { functionId: string } | string    
+        paramsOrFirst: { functionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.VariableList> {
         let params: { functionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1662,6 +1869,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1672,10 +1881,11 @@ export class Functions {
      * @param {string} params.key - Variable key. Max length: 255 chars.
      * @param {string} params.value - Variable value. Max length: 8192 chars.
      * @param {boolean} params.secret - Secret variables can be updated or deleted, but only functions can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    createVariable(params: { functionId: string, key: string, value: string, secret?: boolean  }): Promise<Models.Variable>;
+    createVariable(params: { functionId: string, key: string, value: string, secret?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Create a new function environment variable. These variables can be accessed in the function at runtime as environment variables.
      *
@@ -1683,19 +1893,22 @@ export class Functions {
      * @param {string} key - Variable key. Max length: 255 chars.
      * @param {string} value - Variable value. Max length: 8192 chars.
      * @param {boolean} secret - Secret variables can be updated or deleted, but only functions can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVariable(functionId: string, key: string, value: string, secret?: boolean): Promise<Models.Variable>;
+    createVariable(functionId: string, key: string, value: string, secret?: boolean, requestOptions?: RequestOptions): Promise<Models.Variable>;
     createVariable(
         paramsOrFirst: { functionId: string, key: string, value: string, secret?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { functionId: string, key: string, value: string, secret?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, key: string, value: string, secret?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -1703,6 +1916,7 @@ export class Functions {
                 value: rest[1] as string,
                 secret: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1742,6 +1956,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1750,33 +1966,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function unique ID.
      * @param {string} params.variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    getVariable(params: { functionId: string, variableId: string  }): Promise<Models.Variable>;
+    getVariable(params: { functionId: string, variableId: string  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Get a variable by its unique ID.
      *
      * @param {string} functionId - Function unique ID.
      * @param {string} variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getVariable(functionId: string, variableId: string): Promise<Models.Variable>;
+    getVariable(functionId: string, variableId: string, requestOptions?: RequestOptions): Promise<Models.Variable>;
     getVariable(
         paramsOrFirst: { functionId: string, variableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { functionId: string, variableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, variableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 variableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1801,6 +2022,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1812,10 +2035,11 @@ export class Functions {
      * @param {string} params.key - Variable key. Max length: 255 chars.
      * @param {string} params.value - Variable value. Max length: 8192 chars.
      * @param {boolean} params.secret - Secret variables can be updated or deleted, but only functions can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    updateVariable(params: { functionId: string, variableId: string, key: string, value?: string, secret?: boolean  }): Promise<Models.Variable>;
+    updateVariable(params: { functionId: string, variableId: string, key: string, value?: string, secret?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Update variable by its unique ID.
      *
@@ -1824,19 +2048,22 @@ export class Functions {
      * @param {string} key - Variable key. Max length: 255 chars.
      * @param {string} value - Variable value. Max length: 8192 chars.
      * @param {boolean} secret - Secret variables can be updated or deleted, but only functions can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateVariable(functionId: string, variableId: string, key: string, value?: string, secret?: boolean): Promise<Models.Variable>;
+    updateVariable(functionId: string, variableId: string, key: string, value?: string, secret?: boolean, requestOptions?: RequestOptions): Promise<Models.Variable>;
     updateVariable(
         paramsOrFirst: { functionId: string, variableId: string, key: string, value?: string, secret?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { functionId: string, variableId: string, key: string, value?: string, secret?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, variableId: string, key: string, value?: string, secret?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
@@ -1845,6 +2072,7 @@ export class Functions {
                 value: rest[2] as string,
                 secret: rest[3] as boolean            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1885,6 +2113,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1893,33 +2123,38 @@ export class Functions {
      *
      * @param {string} params.functionId - Function unique ID.
      * @param {string} params.variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteVariable(params: { functionId: string, variableId: string  }): Promise<{}>;
+    deleteVariable(params: { functionId: string, variableId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a variable by its unique ID.
      *
      * @param {string} functionId - Function unique ID.
      * @param {string} variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteVariable(functionId: string, variableId: string): Promise<{}>;
+    deleteVariable(functionId: string, variableId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteVariable(
         paramsOrFirst: { functionId: string, variableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { functionId: string, variableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { functionId: string, variableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 functionId: paramsOrFirst as string,
                 variableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const functionId = params.functionId;
@@ -1945,6 +2180,8 @@ export class Functions {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
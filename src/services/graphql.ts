@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 
@@ -13,30 +13,36 @@ export class Graphql {
      * Execute a GraphQL mutation.
      *
      * @param {object} params.query - The query or queries to execute.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    query(params: { query: object  }): Promise<{}>;
+    query(params: { query: object  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Execute a GraphQL mutation.
      *
      * @param {object} query - The query or queries to execute.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    query(query: object): Promise<{}>;
+    query(query: object, requestOptions?: RequestOptions): Promise<{}>;
     query(
-        paramsOrFirst: { query: object } | object    
+        paramsOrFirst: { query: object } | object,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { query: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'query' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { query: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 query: paramsOrFirst as object            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const query = params.query;
@@ -62,6 +68,8 @@ export class Graphql {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -69,30 +77,36 @@ export class Graphql {
      * Execute a GraphQL mutation.
      *
      * @param {object} params.query - The query or queries to execute.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    mutation(params: { query: object  }): Promise<{}>;
+    mutation(params: { query: object  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Execute a GraphQL mutation.
      *
      * @param {object} query - The query or queries to execute.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    mutation(query: object): Promise<{}>;
+    mutation(query: object, requestOptions?: RequestOptions): Promise<{}>;
     mutation(
-        paramsOrFirst: { query: object } | object    
+        paramsOrFirst: { query: object } | object,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { query: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'query' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { query: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 query: paramsOrFirst as object            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const query = params.query;
@@ -118,6 +132,8 @@ export class Graphql {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
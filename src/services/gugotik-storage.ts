@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
+import { File } from 'node-fetch-native-with-agent';
 
 export class GuGoTikStorage {
     client: Client;
@@ -13,10 +14,11 @@ export class GuGoTikStorage {
      * Upload an image file directly to GuGoTik storage
      *
      * @param {Buffer | Blob | File} file - Image file to upload
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, file_url?: string}>}
      */
-    async uploadFile(file: Buffer | Blob | File): Promise<{
+    async uploadFile(file: Buffer | Blob | File, requestOptions?: RequestOptions): Promise<{
         status_code: number;
         status_msg: string;
         file_url?: string;
@@ -28,7 +30,16 @@ export class GuGoTikStorage {
         const apiPath = '/douyin/storage/upload/';
         const payload: Payload = {};
 
-        payload['file'] = file;
+        // FormData only sends Files as file parts, anything else would go out as a string.
+        if (file instanceof File) {
+            payload['file'] = file;
+        } else if (file instanceof Blob) {
+            payload['file'] = new File([file], 'file', { type: file.type });
+        } else if (Buffer.isBuffer(file)) {
+            payload['file'] = new File([new Uint8Array(file.buffer, file.byteOffset, file.byteLength)], 'file');
+        } else {
+            throw new AppwriteException('Invalid file type. Expected Buffer, Blob, or File');
+        }
 
         const uri = new URL(this.client.config.endpoint + apiPath);
 
@@ -41,6 +52,8 @@ export class GuGoTikStorage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { Name } from '../enums/name';
@@ -13,10 +13,11 @@ export class Health {
     /**
      * Check the Appwrite HTTP server is up and responsive.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    get(): Promise<Models.HealthStatus> {
+    get(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health';
         const payload: Payload = {};
@@ -30,16 +31,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite Antivirus server is up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthAntivirus>}
      */
-    getAntivirus(): Promise<Models.HealthAntivirus> {
+    getAntivirus(requestOptions?: RequestOptions): Promise<Models.HealthAntivirus> {
 
         const apiPath = '/health/anti-virus';
         const payload: Payload = {};
@@ -53,16 +57,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite in-memory cache servers are up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    getCache(): Promise<Models.HealthStatus> {
+    getCache(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health/cache';
         const payload: Payload = {};
@@ -76,6 +83,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -83,30 +92,36 @@ export class Health {
      * Get the SSL certificate for a domain
      *
      * @param {string} params.domain - string
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthCertificate>}
      */
-    getCertificate(params?: { domain?: string  }): Promise<Models.HealthCertificate>;
+    getCertificate(params?: { domain?: string  }, requestOptions?: RequestOptions): Promise<Models.HealthCertificate>;
     /**
      * Get the SSL certificate for a domain
      *
      * @param {string} domain - string
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthCertificate>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getCertificate(domain?: string): Promise<Models.HealthCertificate>;
+    getCertificate(domain?: string, requestOptions?: RequestOptions): Promise<Models.HealthCertificate>;
     getCertificate(
-        paramsOrFirst?: { domain?: string } | string    
+        paramsOrFirst?: { domain?: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthCertificate> {
         let params: { domain?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { domain?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 domain: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const domain = params.domain;
@@ -127,16 +142,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite database servers are up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    getDB(): Promise<Models.HealthStatus> {
+    getDB(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health/db';
         const payload: Payload = {};
@@ -150,16 +168,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite pub-sub servers are up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    getPubSub(): Promise<Models.HealthStatus> {
+    getPubSub(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health/pubsub';
         const payload: Payload = {};
@@ -173,6 +194,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -180,30 +203,36 @@ export class Health {
      * Get the number of builds that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueBuilds(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueBuilds(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of builds that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueBuilds(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueBuilds(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueBuilds(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -224,6 +253,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -231,30 +262,36 @@ export class Health {
      * Get the number of certificates that are waiting to be issued against [Letsencrypt](https://letsencrypt.org/) in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueCertificates(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueCertificates(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of certificates that are waiting to be issued against [Letsencrypt](https://letsencrypt.org/) in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueCertificates(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueCertificates(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueCertificates(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -275,6 +312,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -283,33 +322,38 @@ export class Health {
      *
      * @param {string} params.name - Queue name for which to check the queue size
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueDatabases(params?: { name?: string, threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueDatabases(params?: { name?: string, threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of database changes that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {string} name - Queue name for which to check the queue size
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueDatabases(name?: string, threshold?: number): Promise<Models.HealthQueue>;
+    getQueueDatabases(name?: string, threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueDatabases(
         paramsOrFirst?: { name?: string, threshold?: number } | string,
-        ...rest: [(number)?]    
+        ...rest: [(number | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.HealthQueue> {
         let params: { name?: string, threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { name?: string, threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 name: paramsOrFirst as string,
                 threshold: rest[0] as number            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const name = params.name;
@@ -334,6 +378,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -341,30 +387,36 @@ export class Health {
      * Get the number of background destructive changes that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueDeletes(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueDeletes(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of background destructive changes that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueDeletes(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueDeletes(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueDeletes(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -385,6 +437,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -394,34 +448,39 @@ export class Health {
      *
      * @param {Name} params.name - The name of the queue
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getFailedJobs(params: { name: Name, threshold?: number  }): Promise<Models.HealthQueue>;
+    getFailedJobs(params: { name: Name, threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Returns the amount of failed jobs in a given queue.
      * 
      *
      * @param {Name} name - The name of the queue
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFailedJobs(name: Name, threshold?: number): Promise<Models.HealthQueue>;
+    getFailedJobs(name: Name, threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getFailedJobs(
         paramsOrFirst: { name: Name, threshold?: number } | Name,
-        ...rest: [(number)?]    
+        ...rest: [(number | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.HealthQueue> {
         let params: { name: Name, threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst) && 'name' in paramsOrFirst)) {
             params = (paramsOrFirst || {}) as { name: Name, threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 name: paramsOrFirst as Name,
                 threshold: rest[0] as number            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const name = params.name;
@@ -446,6 +505,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -453,30 +514,36 @@ export class Health {
      * Get the number of function executions that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueFunctions(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueFunctions(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of function executions that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueFunctions(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueFunctions(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueFunctions(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -497,6 +564,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -504,30 +573,36 @@ export class Health {
      * Get the number of logs that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueLogs(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueLogs(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of logs that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueLogs(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueLogs(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueLogs(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -548,6 +623,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -555,30 +632,36 @@ export class Health {
      * Get the number of mails that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueMails(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueMails(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of mails that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueMails(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueMails(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueMails(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -599,6 +682,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -606,30 +691,36 @@ export class Health {
      * Get the number of messages that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueMessaging(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueMessaging(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of messages that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueMessaging(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueMessaging(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueMessaging(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -650,6 +741,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -657,30 +750,36 @@ export class Health {
      * Get the number of migrations that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueMigrations(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueMigrations(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of migrations that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueMigrations(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueMigrations(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueMigrations(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -701,6 +800,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -708,30 +809,36 @@ export class Health {
      * Get the number of metrics that are waiting to be processed in the Appwrite stats resources queue.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueStatsResources(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueStatsResources(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of metrics that are waiting to be processed in the Appwrite stats resources queue.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueStatsResources(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueStatsResources(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueStatsResources(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -752,6 +859,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -759,30 +868,36 @@ export class Health {
      * Get the number of metrics that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueUsage(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueUsage(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of metrics that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueUsage(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueUsage(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueUsage(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -803,6 +918,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -810,30 +927,36 @@ export class Health {
      * Get the number of webhooks that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} params.threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      */
-    getQueueWebhooks(params?: { threshold?: number  }): Promise<Models.HealthQueue>;
+    getQueueWebhooks(params?: { threshold?: number  }, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     /**
      * Get the number of webhooks that are waiting to be processed in the Appwrite internal queue server.
      *
      * @param {number} threshold - Queue size threshold. When hit (equal or higher), endpoint returns server error. Default value is 5000.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthQueue>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getQueueWebhooks(threshold?: number): Promise<Models.HealthQueue>;
+    getQueueWebhooks(threshold?: number, requestOptions?: RequestOptions): Promise<Models.HealthQueue>;
     getQueueWebhooks(
-        paramsOrFirst?: { threshold?: number } | number    
+        paramsOrFirst?: { threshold?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.HealthQueue> {
         let params: { threshold?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { threshold?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 threshold: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const threshold = params.threshold;
@@ -854,16 +977,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite storage device is up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    getStorage(): Promise<Models.HealthStatus> {
+    getStorage(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health/storage';
         const payload: Payload = {};
@@ -877,16 +1003,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite local storage device is up and connection is successful.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthStatus>}
      */
-    getStorageLocal(): Promise<Models.HealthStatus> {
+    getStorageLocal(requestOptions?: RequestOptions): Promise<Models.HealthStatus> {
 
         const apiPath = '/health/storage/local';
         const payload: Payload = {};
@@ -900,16 +1029,19 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Check the Appwrite server time is synced with Google remote NTP server. We use this technology to smoothly handle leap seconds with no disruptive events. The [Network Time Protocol](https://en.wikipedia.org/wiki/Network_Time_Protocol) (NTP) is used by hundreds of millions of computers and devices to synchronize their clocks over the Internet. If your computer sets its own clock, it likely uses NTP.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.HealthTime>}
      */
-    getTime(): Promise<Models.HealthTime> {
+    getTime(requestOptions?: RequestOptions): Promise<Models.HealthTime> {
 
         const apiPath = '/health/time';
         const payload: Payload = {};
@@ -923,6 +1055,8 @@ export class Health {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
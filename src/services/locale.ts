@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 
@@ -14,10 +14,11 @@ export class Locale {
      * 
      * ([IP Geolocation by DB-IP](https://db-ip.com))
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Locale>}
      */
-    get(): Promise<Models.Locale> {
+    get(requestOptions?: RequestOptions): Promise<Models.Locale> {
 
         const apiPath = '/locale';
         const payload: Payload = {};
@@ -31,16 +32,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all locale codes in [ISO 639-1](https://en.wikipedia.org/wiki/List_of_ISO_639-1_codes).
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LocaleCodeList>}
      */
-    listCodes(): Promise<Models.LocaleCodeList> {
+    listCodes(requestOptions?: RequestOptions): Promise<Models.LocaleCodeList> {
 
         const apiPath = '/locale/codes';
         const payload: Payload = {};
@@ -54,16 +58,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all continents. You can use the locale header to get the data in a supported language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ContinentList>}
      */
-    listContinents(): Promise<Models.ContinentList> {
+    listContinents(requestOptions?: RequestOptions): Promise<Models.ContinentList> {
 
         const apiPath = '/locale/continents';
         const payload: Payload = {};
@@ -77,16 +84,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all countries. You can use the locale header to get the data in a supported language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.CountryList>}
      */
-    listCountries(): Promise<Models.CountryList> {
+    listCountries(requestOptions?: RequestOptions): Promise<Models.CountryList> {
 
         const apiPath = '/locale/countries';
         const payload: Payload = {};
@@ -100,16 +110,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all countries that are currently members of the EU. You can use the locale header to get the data in a supported language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.CountryList>}
      */
-    listCountriesEU(): Promise<Models.CountryList> {
+    listCountriesEU(requestOptions?: RequestOptions): Promise<Models.CountryList> {
 
         const apiPath = '/locale/countries/eu';
         const payload: Payload = {};
@@ -123,16 +136,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all countries phone codes. You can use the locale header to get the data in a supported language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.PhoneList>}
      */
-    listCountriesPhones(): Promise<Models.PhoneList> {
+    listCountriesPhones(requestOptions?: RequestOptions): Promise<Models.PhoneList> {
 
         const apiPath = '/locale/countries/phones';
         const payload: Payload = {};
@@ -146,16 +162,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all currencies, including currency symbol, name, plural, and decimal digits for all major and minor currencies. You can use the locale header to get the data in a supported language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.CurrencyList>}
      */
-    listCurrencies(): Promise<Models.CurrencyList> {
+    listCurrencies(requestOptions?: RequestOptions): Promise<Models.CurrencyList> {
 
         const apiPath = '/locale/currencies';
         const payload: Payload = {};
@@ -169,16 +188,19 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List of all languages classified by ISO 639-1 including 2-letter code, name in English, and name in the respective language.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LanguageList>}
      */
-    listLanguages(): Promise<Models.LanguageList> {
+    listLanguages(requestOptions?: RequestOptions): Promise<Models.LanguageList> {
 
         const apiPath = '/locale/languages';
         const payload: Payload = {};
@@ -192,6 +214,8 @@ export class Locale {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
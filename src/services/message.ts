@@ -1,4 +1,6 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
+import { MessageWatch, type MessageWatchOptions } from '../message-watch';
+import { Conversation, type ConversationOptions } from '../conversation';
 
 export interface Message {
     id: number;
@@ -15,6 +17,23 @@ export class MessageService {
         this.client = client;
     }
 
+    /**
+     * Send Message
+     *
+     * Send a message to another user
+     *
+     * @param {number} params.toUserId - Recipient user ID
+     * @param {string} params.content - Message content
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    sendMessage(params: { toUserId: number, content: string, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Send Message
      *
@@ -24,13 +43,42 @@ export class MessageService {
      * @param {number} actorId - Current user ID
      * @param {string} token - Authentication token
      * @param {string} content - Message content
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async sendMessage(toUserId: number, actorId: number, token: string, content: string): Promise<{
+    sendMessage(toUserId: number, actorId: number, token: string, content: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async sendMessage(
+        paramsOrFirst: { toUserId: number, content: string, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { toUserId: number, content: string, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                toUserId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string,
+                content: rest[2] as string
+            };
+            requestOptions = rest[3] as RequestOptions;
+        }
+
+        const toUserId = params.toUserId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const content = params.content;
+
         if (typeof toUserId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "toUserId"');
         }
@@ -64,9 +112,29 @@ export class MessageService {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * List Messages
+     *
+     * Get chat messages between two users
+     *
+     * @param {number} params.toUserId - Other user ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {number} params.preMsgTime - Optional previous message time for pagination
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, message_list: Message[]}>}
+     */
+    listMessages(params: { toUserId: number, actorId?: number, token?: string, preMsgTime?: number }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        message_list: Message[];
+    }>;
     /**
      * List Messages
      *
@@ -76,14 +144,44 @@ export class MessageService {
      * @param {number} actorId - Current user ID
      * @param {string} token - Authentication token
      * @param {number} preMsgTime - Optional previous message time for pagination
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, message_list: Message[]}>}
      */
-    async listMessages(toUserId: number, actorId: number, token: string, preMsgTime?: number): Promise<{
+    listMessages(toUserId: number, actorId: number, token: string, preMsgTime?: number, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        message_list: Message[];
+    }>;
+    async listMessages(
+        paramsOrFirst: { toUserId: number, actorId?: number, token?: string, preMsgTime?: number } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (number)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         message_list: Message[];
     }> {
+        let params: { toUserId: number, actorId?: number, token?: string, preMsgTime?: number };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                toUserId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string,
+                preMsgTime: rest[2] as number
+            };
+            requestOptions = rest[3] as RequestOptions;
+        }
+
+        const toUserId = params.toUserId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const preMsgTime = params.preMsgTime;
+
         if (typeof toUserId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "toUserId"');
         }
@@ -116,7 +214,49 @@ export class MessageService {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
+
+    /**
+     * Watch Messages
+     *
+     * Follow the chat with another user as new messages arrive, by polling
+     * List Messages or through the `stream` endpoint when the backend has
+     * one. Iterate the result with `for await`, or listen for its `message`
+     * events.
+     *
+     * @param {number} toUserId - Other user ID
+     * @param {MessageWatchOptions} options - Poll intervals, identity, starting time, stream endpoint and abort signal.
+     * @returns {MessageWatch}
+     */
+    watch(toUserId: number, options: MessageWatchOptions = {}): MessageWatch {
+        if (typeof toUserId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "toUserId"');
+        }
+
+        return new MessageWatch(this, toUserId, options);
+    }
+
+    /**
+     * Conversation
+     *
+     * The full chat with another user as one ordered timeline, kept in a
+     * local store and synced incrementally, with JSON Lines, CSV and HTML
+     * export.
+     *
+     * @param {number} toUserId - Other user ID
+     * @param {ConversationOptions} options - Identity, store and paging of the backend.
+     * @throws {AppwriteException}
+     * @returns {Conversation}
+     */
+    conversation(toUserId: number, options: ConversationOptions = {}): Conversation {
+        if (typeof toUserId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "toUserId"');
+        }
+
+        return new Conversation(this, toUserId, options);
+    }
 }
 
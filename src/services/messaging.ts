@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { MessagePriority } from '../enums/message-priority';
@@ -17,35 +17,40 @@ export class Messaging {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: scheduledAt, deliveredAt, deliveredTotal, status, description, providerType
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MessageList>}
      */
-    listMessages(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.MessageList>;
+    listMessages(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.MessageList>;
     /**
      * Get a list of all messages from the current Appwrite project.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: scheduledAt, deliveredAt, deliveredTotal, status, description, providerType
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MessageList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMessages(queries?: string[], search?: string, total?: boolean): Promise<Models.MessageList>;
+    listMessages(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.MessageList>;
     listMessages(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.MessageList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -74,6 +79,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -92,10 +99,11 @@ export class Messaging {
      * @param {boolean} params.draft - Is message a draft
      * @param {boolean} params.html - Is content of type HTML
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    createEmail(params: { messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string  }): Promise<Models.Message>;
+    createEmail(params: { messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Create a new email message.
      *
@@ -111,19 +119,22 @@ export class Messaging {
      * @param {boolean} draft - Is message a draft
      * @param {boolean} html - Is content of type HTML
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmail(messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string): Promise<Models.Message>;
+    createEmail(messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     createEmail(
         paramsOrFirst: { messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (string[])?, (string[])?, (string[])?, (string[])?, (string[])?, (boolean)?, (boolean)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (string[])?, (string[])?, (string[])?, (string[])?, (string[])?, (boolean)?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, subject: string, content: string, topics?: string[], users?: string[], targets?: string[], cc?: string[], bcc?: string[], attachments?: string[], draft?: boolean, html?: boolean, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -139,6 +150,7 @@ export class Messaging {
                 html: rest[9] as boolean,
                 scheduledAt: rest[10] as string            
             };
+            requestOptions = rest[11] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -213,6 +225,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -232,10 +246,11 @@ export class Messaging {
      * @param {string[]} params.bcc - Array of target IDs to be added as BCC.
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
      * @param {string[]} params.attachments - Array of compound ID strings of bucket IDs and file IDs to be attached to the email. They should be formatted as <BUCKET_ID>:<FILE_ID>.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    updateEmail(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[]  }): Promise<Models.Message>;
+    updateEmail(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[]  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Update an email message by its unique ID. This endpoint only works on messages that are in draft status. Messages that are already processing, sent, or failed cannot be updated.
      * 
@@ -252,19 +267,22 @@ export class Messaging {
      * @param {string[]} bcc - Array of target IDs to be added as BCC.
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
      * @param {string[]} attachments - Array of compound ID strings of bucket IDs and file IDs to be attached to the email. They should be formatted as <BUCKET_ID>:<FILE_ID>.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmail(messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[]): Promise<Models.Message>;
+    updateEmail(messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[], requestOptions?: RequestOptions): Promise<Models.Message>;
     updateEmail(
         paramsOrFirst: { messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[] } | string,
-        ...rest: [(string[])?, (string[])?, (string[])?, (string)?, (string)?, (boolean)?, (boolean)?, (string[])?, (string[])?, (string)?, (string[])?]    
+        ...rest: [(string[] | RequestOptions)?, (string[])?, (string[])?, (string)?, (string)?, (boolean)?, (boolean)?, (string[])?, (string[])?, (string)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, topics?: string[], users?: string[], targets?: string[], subject?: string, content?: string, draft?: boolean, html?: boolean, cc?: string[], bcc?: string[], scheduledAt?: string, attachments?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -280,6 +298,7 @@ export class Messaging {
                 scheduledAt: rest[9] as string,
                 attachments: rest[10] as string[]            
             };
+            requestOptions = rest[11] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -345,6 +364,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -370,10 +391,11 @@ export class Messaging {
      * @param {boolean} params.contentAvailable - If set to true, the notification will be delivered in the background. Available only for iOS Platform.
      * @param {boolean} params.critical - If set to true, the notification will be marked as critical. This requires the app to have the critical notification entitlement. Available only for iOS Platform.
      * @param {MessagePriority} params.priority - Set the notification priority. "normal" will consider device state and may not deliver notifications immediately. "high" will always attempt to immediately deliver the notification.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    createPush(params: { messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority  }): Promise<Models.Message>;
+    createPush(params: { messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Create a new push notification.
      *
@@ -396,19 +418,22 @@ export class Messaging {
      * @param {boolean} contentAvailable - If set to true, the notification will be delivered in the background. Available only for iOS Platform.
      * @param {boolean} critical - If set to true, the notification will be marked as critical. This requires the app to have the critical notification entitlement. Available only for iOS Platform.
      * @param {MessagePriority} priority - Set the notification priority. "normal" will consider device state and may not deliver notifications immediately. "high" will always attempt to immediately deliver the notification.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPush(messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority): Promise<Models.Message>;
+    createPush(messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority, requestOptions?: RequestOptions): Promise<Models.Message>;
     createPush(
         paramsOrFirst: { messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (string[])?, (string[])?, (object)?, (string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (MessagePriority)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (string[])?, (string[])?, (object)?, (string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (MessagePriority)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, title?: string, body?: string, topics?: string[], users?: string[], targets?: string[], data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -431,6 +456,7 @@ export class Messaging {
                 critical: rest[16] as boolean,
                 priority: rest[17] as MessagePriority            
             };
+            requestOptions = rest[18] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -527,6 +553,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -553,10 +581,11 @@ export class Messaging {
      * @param {boolean} params.contentAvailable - If set to true, the notification will be delivered in the background. Available only for iOS Platform.
      * @param {boolean} params.critical - If set to true, the notification will be marked as critical. This requires the app to have the critical notification entitlement. Available only for iOS Platform.
      * @param {MessagePriority} params.priority - Set the notification priority. "normal" will consider device battery state and may send notifications later. "high" will always attempt to immediately deliver the notification.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    updatePush(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority  }): Promise<Models.Message>;
+    updatePush(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Update a push notification by its unique ID. This endpoint only works on messages that are in draft status. Messages that are already processing, sent, or failed cannot be updated.
      * 
@@ -580,19 +609,22 @@ export class Messaging {
      * @param {boolean} contentAvailable - If set to true, the notification will be delivered in the background. Available only for iOS Platform.
      * @param {boolean} critical - If set to true, the notification will be marked as critical. This requires the app to have the critical notification entitlement. Available only for iOS Platform.
      * @param {MessagePriority} priority - Set the notification priority. "normal" will consider device battery state and may send notifications later. "high" will always attempt to immediately deliver the notification.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePush(messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority): Promise<Models.Message>;
+    updatePush(messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority, requestOptions?: RequestOptions): Promise<Models.Message>;
     updatePush(
         paramsOrFirst: { messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority } | string,
-        ...rest: [(string[])?, (string[])?, (string[])?, (string)?, (string)?, (object)?, (string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (MessagePriority)?]    
+        ...rest: [(string[] | RequestOptions)?, (string[])?, (string[])?, (string)?, (string)?, (object)?, (string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (MessagePriority)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, topics?: string[], users?: string[], targets?: string[], title?: string, body?: string, data?: object, action?: string, image?: string, icon?: string, sound?: string, color?: string, tag?: string, badge?: number, draft?: boolean, scheduledAt?: string, contentAvailable?: boolean, critical?: boolean, priority?: MessagePriority };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -615,6 +647,7 @@ export class Messaging {
                 critical: rest[16] as boolean,
                 priority: rest[17] as MessagePriority            
             };
+            requestOptions = rest[18] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -708,6 +741,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -721,11 +756,12 @@ export class Messaging {
      * @param {string[]} params.targets - List of Targets IDs.
      * @param {boolean} params.draft - Is message a draft
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.createSMS` instead.
      */
-    createSms(params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string  }): Promise<Models.Message>;
+    createSms(params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Create a new SMS message.
      *
@@ -736,19 +772,22 @@ export class Messaging {
      * @param {string[]} targets - List of Targets IDs.
      * @param {boolean} draft - Is message a draft
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSms(messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string): Promise<Models.Message>;
+    createSms(messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     createSms(
         paramsOrFirst: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string } | string,
-        ...rest: [(string)?, (string[])?, (string[])?, (string[])?, (boolean)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string[])?, (string[])?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -759,6 +798,7 @@ export class Messaging {
                 draft: rest[4] as boolean,
                 scheduledAt: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -810,6 +850,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -823,10 +865,11 @@ export class Messaging {
      * @param {string[]} params.targets - List of Targets IDs.
      * @param {boolean} params.draft - Is message a draft
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    createSMS(params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string  }): Promise<Models.Message>;
+    createSMS(params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Create a new SMS message.
      *
@@ -837,19 +880,22 @@ export class Messaging {
      * @param {string[]} targets - List of Targets IDs.
      * @param {boolean} draft - Is message a draft
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSMS(messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string): Promise<Models.Message>;
+    createSMS(messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     createSMS(
         paramsOrFirst: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string } | string,
-        ...rest: [(string)?, (string[])?, (string[])?, (string[])?, (boolean)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string[])?, (string[])?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, content: string, topics?: string[], users?: string[], targets?: string[], draft?: boolean, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -860,6 +906,7 @@ export class Messaging {
                 draft: rest[4] as boolean,
                 scheduledAt: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -911,6 +958,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -925,11 +974,12 @@ export class Messaging {
      * @param {string} params.content - Email Content.
      * @param {boolean} params.draft - Is message a draft
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.updateSMS` instead.
      */
-    updateSms(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string  }): Promise<Models.Message>;
+    updateSms(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Update an SMS message by its unique ID. This endpoint only works on messages that are in draft status. Messages that are already processing, sent, or failed cannot be updated.
      * 
@@ -941,19 +991,22 @@ export class Messaging {
      * @param {string} content - Email Content.
      * @param {boolean} draft - Is message a draft
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSms(messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string): Promise<Models.Message>;
+    updateSms(messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     updateSms(
         paramsOrFirst: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string } | string,
-        ...rest: [(string[])?, (string[])?, (string[])?, (string)?, (boolean)?, (string)?]    
+        ...rest: [(string[] | RequestOptions)?, (string[])?, (string[])?, (string)?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -964,6 +1017,7 @@ export class Messaging {
                 draft: rest[4] as boolean,
                 scheduledAt: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1009,6 +1063,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1023,10 +1079,11 @@ export class Messaging {
      * @param {string} params.content - Email Content.
      * @param {boolean} params.draft - Is message a draft
      * @param {string} params.scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    updateSMS(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string  }): Promise<Models.Message>;
+    updateSMS(params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Update an SMS message by its unique ID. This endpoint only works on messages that are in draft status. Messages that are already processing, sent, or failed cannot be updated.
      * 
@@ -1038,19 +1095,22 @@ export class Messaging {
      * @param {string} content - Email Content.
      * @param {boolean} draft - Is message a draft
      * @param {string} scheduledAt - Scheduled delivery time for message in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. DateTime value must be in future.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSMS(messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string): Promise<Models.Message>;
+    updateSMS(messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     updateSMS(
         paramsOrFirst: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string } | string,
-        ...rest: [(string[])?, (string[])?, (string[])?, (string)?, (boolean)?, (string)?]    
+        ...rest: [(string[] | RequestOptions)?, (string[])?, (string[])?, (string)?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Message> {
         let params: { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, topics?: string[], users?: string[], targets?: string[], content?: string, draft?: boolean, scheduledAt?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
@@ -1061,6 +1121,7 @@ export class Messaging {
                 draft: rest[4] as boolean,
                 scheduledAt: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1106,6 +1167,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1114,31 +1177,37 @@ export class Messaging {
      * 
      *
      * @param {string} params.messageId - Message ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      */
-    getMessage(params: { messageId: string  }): Promise<Models.Message>;
+    getMessage(params: { messageId: string  }, requestOptions?: RequestOptions): Promise<Models.Message>;
     /**
      * Get a message by its unique ID.
      * 
      *
      * @param {string} messageId - Message ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Message>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getMessage(messageId: string): Promise<Models.Message>;
+    getMessage(messageId: string, requestOptions?: RequestOptions): Promise<Models.Message>;
     getMessage(
-        paramsOrFirst: { messageId: string } | string    
+        paramsOrFirst: { messageId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Message> {
         let params: { messageId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1159,6 +1228,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1166,30 +1237,36 @@ export class Messaging {
      * Delete a message. If the message is not a draft or scheduled, but has been sent, this will not recall the message.
      *
      * @param {string} params.messageId - Message ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { messageId: string  }): Promise<{}>;
+    delete(params: { messageId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a message. If the message is not a draft or scheduled, but has been sent, this will not recall the message.
      *
      * @param {string} messageId - Message ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(messageId: string): Promise<{}>;
+    delete(messageId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { messageId: string } | string    
+        paramsOrFirst: { messageId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { messageId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1211,6 +1288,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1220,35 +1299,40 @@ export class Messaging {
      * @param {string} params.messageId - Message ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listMessageLogs(params: { messageId: string, queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listMessageLogs(params: { messageId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the message activity logs listed by its unique ID.
      *
      * @param {string} messageId - Message ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMessageLogs(messageId: string, queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listMessageLogs(messageId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listMessageLogs(
         paramsOrFirst: { messageId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { messageId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1277,6 +1361,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1286,35 +1372,40 @@ export class Messaging {
      * @param {string} params.messageId - Message ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, providerId, identifier, providerType
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TargetList>}
      */
-    listTargets(params: { messageId: string, queries?: string[], total?: boolean  }): Promise<Models.TargetList>;
+    listTargets(params: { messageId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.TargetList>;
     /**
      * Get a list of the targets associated with a message.
      *
      * @param {string} messageId - Message ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, providerId, identifier, providerType
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TargetList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTargets(messageId: string, queries?: string[], total?: boolean): Promise<Models.TargetList>;
+    listTargets(messageId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.TargetList>;
     listTargets(
         paramsOrFirst: { messageId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.TargetList> {
         let params: { messageId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { messageId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 messageId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const messageId = params.messageId;
@@ -1343,6 +1434,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1352,35 +1445,40 @@ export class Messaging {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, provider, type, enabled
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ProviderList>}
      */
-    listProviders(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.ProviderList>;
+    listProviders(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ProviderList>;
     /**
      * Get a list of all providers from the current Appwrite project.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, provider, type, enabled
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ProviderList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listProviders(queries?: string[], search?: string, total?: boolean): Promise<Models.ProviderList>;
+    listProviders(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.ProviderList>;
     listProviders(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ProviderList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -1409,6 +1507,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1423,11 +1523,12 @@ export class Messaging {
      * @param {string} params.bundleId - APNS bundle ID.
      * @param {boolean} params.sandbox - Use APNS sandbox environment.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.createAPNSProvider` instead.
      */
-    createApnsProvider(params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean  }): Promise<Models.Provider>;
+    createApnsProvider(params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Apple Push Notification service provider.
      *
@@ -1439,19 +1540,22 @@ export class Messaging {
      * @param {string} bundleId - APNS bundle ID.
      * @param {boolean} sandbox - Use APNS sandbox environment.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createApnsProvider(providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean): Promise<Models.Provider>;
+    createApnsProvider(providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createApnsProvider(
         paramsOrFirst: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1463,6 +1567,7 @@ export class Messaging {
                 sandbox: rest[5] as boolean,
                 enabled: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1518,6 +1623,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1532,10 +1639,11 @@ export class Messaging {
      * @param {string} params.bundleId - APNS bundle ID.
      * @param {boolean} params.sandbox - Use APNS sandbox environment.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createAPNSProvider(params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean  }): Promise<Models.Provider>;
+    createAPNSProvider(params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Apple Push Notification service provider.
      *
@@ -1547,19 +1655,22 @@ export class Messaging {
      * @param {string} bundleId - APNS bundle ID.
      * @param {boolean} sandbox - Use APNS sandbox environment.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createAPNSProvider(providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean): Promise<Models.Provider>;
+    createAPNSProvider(providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createAPNSProvider(
         paramsOrFirst: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1571,6 +1682,7 @@ export class Messaging {
                 sandbox: rest[5] as boolean,
                 enabled: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1626,6 +1738,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1640,11 +1754,12 @@ export class Messaging {
      * @param {string} params.teamId - APNS team ID.
      * @param {string} params.bundleId - APNS bundle ID.
      * @param {boolean} params.sandbox - Use APNS sandbox environment.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.updateAPNSProvider` instead.
      */
-    updateApnsProvider(params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean  }): Promise<Models.Provider>;
+    updateApnsProvider(params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Apple Push Notification service provider by its unique ID.
      *
@@ -1656,19 +1771,22 @@ export class Messaging {
      * @param {string} teamId - APNS team ID.
      * @param {string} bundleId - APNS bundle ID.
      * @param {boolean} sandbox - Use APNS sandbox environment.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateApnsProvider(providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean): Promise<Models.Provider>;
+    updateApnsProvider(providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateApnsProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1680,6 +1798,7 @@ export class Messaging {
                 bundleId: rest[5] as string,
                 sandbox: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1729,6 +1848,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1743,10 +1864,11 @@ export class Messaging {
      * @param {string} params.teamId - APNS team ID.
      * @param {string} params.bundleId - APNS bundle ID.
      * @param {boolean} params.sandbox - Use APNS sandbox environment.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateAPNSProvider(params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean  }): Promise<Models.Provider>;
+    updateAPNSProvider(params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Apple Push Notification service provider by its unique ID.
      *
@@ -1758,19 +1880,22 @@ export class Messaging {
      * @param {string} teamId - APNS team ID.
      * @param {string} bundleId - APNS bundle ID.
      * @param {boolean} sandbox - Use APNS sandbox environment.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateAPNSProvider(providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean): Promise<Models.Provider>;
+    updateAPNSProvider(providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateAPNSProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, authKey?: string, authKeyId?: string, teamId?: string, bundleId?: string, sandbox?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1782,6 +1907,7 @@ export class Messaging {
                 bundleId: rest[5] as string,
                 sandbox: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1831,6 +1957,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1841,11 +1969,12 @@ export class Messaging {
      * @param {string} params.name - Provider name.
      * @param {object} params.serviceAccountJSON - FCM service account JSON.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.createFCMProvider` instead.
      */
-    createFcmProvider(params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean  }): Promise<Models.Provider>;
+    createFcmProvider(params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Firebase Cloud Messaging provider.
      *
@@ -1853,19 +1982,22 @@ export class Messaging {
      * @param {string} name - Provider name.
      * @param {object} serviceAccountJSON - FCM service account JSON.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFcmProvider(providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean): Promise<Models.Provider>;
+    createFcmProvider(providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createFcmProvider(
         paramsOrFirst: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean } | string,
-        ...rest: [(string)?, (object)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (object)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1873,6 +2005,7 @@ export class Messaging {
                 serviceAccountJSON: rest[1] as object,
                 enabled: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1912,6 +2045,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1922,10 +2057,11 @@ export class Messaging {
      * @param {string} params.name - Provider name.
      * @param {object} params.serviceAccountJSON - FCM service account JSON.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createFCMProvider(params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean  }): Promise<Models.Provider>;
+    createFCMProvider(params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Firebase Cloud Messaging provider.
      *
@@ -1933,19 +2069,22 @@ export class Messaging {
      * @param {string} name - Provider name.
      * @param {object} serviceAccountJSON - FCM service account JSON.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFCMProvider(providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean): Promise<Models.Provider>;
+    createFCMProvider(providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createFCMProvider(
         paramsOrFirst: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean } | string,
-        ...rest: [(string)?, (object)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (object)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, serviceAccountJSON?: object, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -1953,6 +2092,7 @@ export class Messaging {
                 serviceAccountJSON: rest[1] as object,
                 enabled: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -1992,6 +2132,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2002,11 +2144,12 @@ export class Messaging {
      * @param {string} params.name - Provider name.
      * @param {boolean} params.enabled - Set as enabled.
      * @param {object} params.serviceAccountJSON - FCM service account JSON.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.updateFCMProvider` instead.
      */
-    updateFcmProvider(params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object  }): Promise<Models.Provider>;
+    updateFcmProvider(params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Firebase Cloud Messaging provider by its unique ID.
      *
@@ -2014,19 +2157,22 @@ export class Messaging {
      * @param {string} name - Provider name.
      * @param {boolean} enabled - Set as enabled.
      * @param {object} serviceAccountJSON - FCM service account JSON.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFcmProvider(providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object): Promise<Models.Provider>;
+    updateFcmProvider(providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateFcmProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object } | string,
-        ...rest: [(string)?, (boolean)?, (object)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (object)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2034,6 +2180,7 @@ export class Messaging {
                 enabled: rest[1] as boolean,
                 serviceAccountJSON: rest[2] as object            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2067,6 +2214,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2077,10 +2226,11 @@ export class Messaging {
      * @param {string} params.name - Provider name.
      * @param {boolean} params.enabled - Set as enabled.
      * @param {object} params.serviceAccountJSON - FCM service account JSON.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateFCMProvider(params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object  }): Promise<Models.Provider>;
+    updateFCMProvider(params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Firebase Cloud Messaging provider by its unique ID.
      *
@@ -2088,19 +2238,22 @@ export class Messaging {
      * @param {string} name - Provider name.
      * @param {boolean} enabled - Set as enabled.
      * @param {object} serviceAccountJSON - FCM service account JSON.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFCMProvider(providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object): Promise<Models.Provider>;
+    updateFCMProvider(providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateFCMProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object } | string,
-        ...rest: [(string)?, (boolean)?, (object)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (object)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, serviceAccountJSON?: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2108,6 +2261,7 @@ export class Messaging {
                 enabled: rest[1] as boolean,
                 serviceAccountJSON: rest[2] as object            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2141,6 +2295,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2157,10 +2313,11 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name. Reply to name must have reply to email as well.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email. Reply to email must have reply to name as well.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createMailgunProvider(params: { providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createMailgunProvider(params: { providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Mailgun provider.
      *
@@ -2174,19 +2331,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name. Reply to name must have reply to email as well.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email. Reply to email must have reply to name as well.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMailgunProvider(providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    createMailgunProvider(providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createMailgunProvider(
         paramsOrFirst: { providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, apiKey?: string, domain?: string, isEuRegion?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2200,6 +2360,7 @@ export class Messaging {
                 replyToEmail: rest[7] as string,
                 enabled: rest[8] as boolean            
             };
+            requestOptions = rest[9] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2263,6 +2424,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2279,10 +2442,11 @@ export class Messaging {
      * @param {string} params.fromEmail - Sender email address.
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateMailgunProvider(params: { providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }): Promise<Models.Provider>;
+    updateMailgunProvider(params: { providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Mailgun provider by its unique ID.
      *
@@ -2296,19 +2460,22 @@ export class Messaging {
      * @param {string} fromEmail - Sender email address.
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMailgunProvider(providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string): Promise<Models.Provider>;
+    updateMailgunProvider(providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateMailgunProvider(
         paramsOrFirst: { providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (boolean)?, (boolean)?, (string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (boolean)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, apiKey?: string, domain?: string, isEuRegion?: boolean, enabled?: boolean, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2322,6 +2489,7 @@ export class Messaging {
                 replyToName: rest[7] as string,
                 replyToEmail: rest[8] as string            
             };
+            requestOptions = rest[9] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2379,6 +2547,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2391,10 +2561,11 @@ export class Messaging {
      * @param {string} params.senderId - Msg91 sender ID.
      * @param {string} params.authKey - Msg91 auth key.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createMsg91Provider(params: { providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createMsg91Provider(params: { providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new MSG91 provider.
      *
@@ -2404,19 +2575,22 @@ export class Messaging {
      * @param {string} senderId - Msg91 sender ID.
      * @param {string} authKey - Msg91 auth key.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMsg91Provider(providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean): Promise<Models.Provider>;
+    createMsg91Provider(providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createMsg91Provider(
         paramsOrFirst: { providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, templateId?: string, senderId?: string, authKey?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2426,6 +2600,7 @@ export class Messaging {
                 authKey: rest[3] as string,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2473,6 +2648,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2485,10 +2662,11 @@ export class Messaging {
      * @param {string} params.templateId - Msg91 template ID.
      * @param {string} params.senderId - Msg91 sender ID.
      * @param {string} params.authKey - Msg91 auth key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateMsg91Provider(params: { providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string  }): Promise<Models.Provider>;
+    updateMsg91Provider(params: { providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a MSG91 provider by its unique ID.
      *
@@ -2498,19 +2676,22 @@ export class Messaging {
      * @param {string} templateId - Msg91 template ID.
      * @param {string} senderId - Msg91 sender ID.
      * @param {string} authKey - Msg91 auth key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMsg91Provider(providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string): Promise<Models.Provider>;
+    updateMsg91Provider(providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateMsg91Provider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, templateId?: string, senderId?: string, authKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2520,6 +2701,7 @@ export class Messaging {
                 senderId: rest[3] as string,
                 authKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2561,6 +2743,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2575,10 +2759,11 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createResendProvider(params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createResendProvider(params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Resend provider.
      *
@@ -2590,19 +2775,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createResendProvider(providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    createResendProvider(providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createResendProvider(
         paramsOrFirst: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2614,6 +2802,7 @@ export class Messaging {
                 replyToEmail: rest[5] as string,
                 enabled: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2669,6 +2858,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2683,10 +2874,11 @@ export class Messaging {
      * @param {string} params.fromEmail - Sender email address.
      * @param {string} params.replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} params.replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateResendProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }): Promise<Models.Provider>;
+    updateResendProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Resend provider by its unique ID.
      *
@@ -2698,19 +2890,22 @@ export class Messaging {
      * @param {string} fromEmail - Sender email address.
      * @param {string} replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateResendProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string): Promise<Models.Provider>;
+    updateResendProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateResendProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2722,6 +2917,7 @@ export class Messaging {
                 replyToName: rest[5] as string,
                 replyToEmail: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2771,6 +2967,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2785,10 +2983,11 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createSendgridProvider(params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createSendgridProvider(params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Sendgrid provider.
      *
@@ -2800,19 +2999,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSendgridProvider(providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    createSendgridProvider(providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createSendgridProvider(
         paramsOrFirst: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2824,6 +3026,7 @@ export class Messaging {
                 replyToEmail: rest[5] as string,
                 enabled: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2879,6 +3082,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2893,10 +3098,11 @@ export class Messaging {
      * @param {string} params.fromEmail - Sender email address.
      * @param {string} params.replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} params.replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateSendgridProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }): Promise<Models.Provider>;
+    updateSendgridProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Sendgrid provider by its unique ID.
      *
@@ -2908,19 +3114,22 @@ export class Messaging {
      * @param {string} fromEmail - Sender email address.
      * @param {string} replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSendgridProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string): Promise<Models.Provider>;
+    updateSendgridProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateSendgridProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, apiKey?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -2932,6 +3141,7 @@ export class Messaging {
                 replyToName: rest[5] as string,
                 replyToEmail: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -2981,6 +3191,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3001,11 +3213,12 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.createSMTPProvider` instead.
      */
-    createSmtpProvider(params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createSmtpProvider(params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new SMTP provider.
      *
@@ -3023,19 +3236,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSmtpProvider(providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    createSmtpProvider(providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createSmtpProvider(
         paramsOrFirst: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3053,6 +3269,7 @@ export class Messaging {
                 replyToEmail: rest[11] as string,
                 enabled: rest[12] as boolean            
             };
+            requestOptions = rest[13] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3135,6 +3352,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3155,10 +3374,11 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} params.replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createSMTPProvider(params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createSMTPProvider(params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new SMTP provider.
      *
@@ -3176,19 +3396,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the reply to field for the mail. Default value is sender name.
      * @param {string} replyToEmail - Email set in the reply to field for the mail. Default value is sender email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSMTPProvider(providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    createSMTPProvider(providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createSMTPProvider(
         paramsOrFirst: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, host: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3206,6 +3429,7 @@ export class Messaging {
                 replyToEmail: rest[11] as string,
                 enabled: rest[12] as boolean            
             };
+            requestOptions = rest[13] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3288,6 +3512,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3308,11 +3534,12 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} params.replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Messaging.updateSMTPProvider` instead.
      */
-    updateSmtpProvider(params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    updateSmtpProvider(params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a SMTP provider by its unique ID.
      *
@@ -3330,19 +3557,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSmtpProvider(providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    updateSmtpProvider(providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateSmtpProvider(
         paramsOrFirst: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3360,6 +3590,7 @@ export class Messaging {
                 replyToEmail: rest[11] as string,
                 enabled: rest[12] as boolean            
             };
+            requestOptions = rest[13] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3433,6 +3664,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3453,10 +3686,11 @@ export class Messaging {
      * @param {string} params.replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} params.replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateSMTPProvider(params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    updateSMTPProvider(params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a SMTP provider by its unique ID.
      *
@@ -3474,19 +3708,22 @@ export class Messaging {
      * @param {string} replyToName - Name set in the Reply To field for the mail. Default value is Sender Name.
      * @param {string} replyToEmail - Email set in the Reply To field for the mail. Default value is Sender Email.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSMTPProvider(providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean): Promise<Models.Provider>;
+    updateSMTPProvider(providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateSMTPProvider(
         paramsOrFirst: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (string)?, (string)?, (SmtpEncryption)?, (boolean)?, (string)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, host?: string, port?: number, username?: string, password?: string, encryption?: SmtpEncryption, autoTLS?: boolean, mailer?: string, fromName?: string, fromEmail?: string, replyToName?: string, replyToEmail?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3504,6 +3741,7 @@ export class Messaging {
                 replyToEmail: rest[11] as string,
                 enabled: rest[12] as boolean            
             };
+            requestOptions = rest[13] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3577,6 +3815,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3589,10 +3829,11 @@ export class Messaging {
      * @param {string} params.customerId - Telesign customer ID.
      * @param {string} params.apiKey - Telesign API key.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createTelesignProvider(params: { providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createTelesignProvider(params: { providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Telesign provider.
      *
@@ -3602,19 +3843,22 @@ export class Messaging {
      * @param {string} customerId - Telesign customer ID.
      * @param {string} apiKey - Telesign API key.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTelesignProvider(providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean): Promise<Models.Provider>;
+    createTelesignProvider(providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createTelesignProvider(
         paramsOrFirst: { providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, from?: string, customerId?: string, apiKey?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3624,6 +3868,7 @@ export class Messaging {
                 apiKey: rest[3] as string,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3671,6 +3916,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3683,10 +3930,11 @@ export class Messaging {
      * @param {string} params.customerId - Telesign customer ID.
      * @param {string} params.apiKey - Telesign API key.
      * @param {string} params.from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateTelesignProvider(params: { providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string  }): Promise<Models.Provider>;
+    updateTelesignProvider(params: { providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Telesign provider by its unique ID.
      *
@@ -3696,19 +3944,22 @@ export class Messaging {
      * @param {string} customerId - Telesign customer ID.
      * @param {string} apiKey - Telesign API key.
      * @param {string} from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTelesignProvider(providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string): Promise<Models.Provider>;
+    updateTelesignProvider(providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateTelesignProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, customerId?: string, apiKey?: string, from?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3718,6 +3969,7 @@ export class Messaging {
                 apiKey: rest[3] as string,
                 from: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3759,6 +4011,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3771,10 +4025,11 @@ export class Messaging {
      * @param {string} params.username - Textmagic username.
      * @param {string} params.apiKey - Textmagic apiKey.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createTextmagicProvider(params: { providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createTextmagicProvider(params: { providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Textmagic provider.
      *
@@ -3784,19 +4039,22 @@ export class Messaging {
      * @param {string} username - Textmagic username.
      * @param {string} apiKey - Textmagic apiKey.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTextmagicProvider(providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean): Promise<Models.Provider>;
+    createTextmagicProvider(providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createTextmagicProvider(
         paramsOrFirst: { providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, from?: string, username?: string, apiKey?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3806,6 +4064,7 @@ export class Messaging {
                 apiKey: rest[3] as string,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3853,6 +4112,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3865,10 +4126,11 @@ export class Messaging {
      * @param {string} params.username - Textmagic username.
      * @param {string} params.apiKey - Textmagic apiKey.
      * @param {string} params.from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateTextmagicProvider(params: { providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string  }): Promise<Models.Provider>;
+    updateTextmagicProvider(params: { providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Textmagic provider by its unique ID.
      *
@@ -3878,19 +4140,22 @@ export class Messaging {
      * @param {string} username - Textmagic username.
      * @param {string} apiKey - Textmagic apiKey.
      * @param {string} from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTextmagicProvider(providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string): Promise<Models.Provider>;
+    updateTextmagicProvider(providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateTextmagicProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, username?: string, apiKey?: string, from?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3900,6 +4165,7 @@ export class Messaging {
                 apiKey: rest[3] as string,
                 from: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -3941,6 +4207,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3953,10 +4221,11 @@ export class Messaging {
      * @param {string} params.accountSid - Twilio account secret ID.
      * @param {string} params.authToken - Twilio authentication token.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createTwilioProvider(params: { providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createTwilioProvider(params: { providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Twilio provider.
      *
@@ -3966,19 +4235,22 @@ export class Messaging {
      * @param {string} accountSid - Twilio account secret ID.
      * @param {string} authToken - Twilio authentication token.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTwilioProvider(providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean): Promise<Models.Provider>;
+    createTwilioProvider(providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createTwilioProvider(
         paramsOrFirst: { providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, from?: string, accountSid?: string, authToken?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -3988,6 +4260,7 @@ export class Messaging {
                 authToken: rest[3] as string,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4035,6 +4308,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4047,10 +4322,11 @@ export class Messaging {
      * @param {string} params.accountSid - Twilio account secret ID.
      * @param {string} params.authToken - Twilio authentication token.
      * @param {string} params.from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateTwilioProvider(params: { providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string  }): Promise<Models.Provider>;
+    updateTwilioProvider(params: { providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Twilio provider by its unique ID.
      *
@@ -4060,19 +4336,22 @@ export class Messaging {
      * @param {string} accountSid - Twilio account secret ID.
      * @param {string} authToken - Twilio authentication token.
      * @param {string} from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTwilioProvider(providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string): Promise<Models.Provider>;
+    updateTwilioProvider(providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateTwilioProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, accountSid?: string, authToken?: string, from?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -4082,6 +4361,7 @@ export class Messaging {
                 authToken: rest[3] as string,
                 from: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4123,6 +4403,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4135,10 +4417,11 @@ export class Messaging {
      * @param {string} params.apiKey - Vonage API key.
      * @param {string} params.apiSecret - Vonage API secret.
      * @param {boolean} params.enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    createVonageProvider(params: { providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean  }): Promise<Models.Provider>;
+    createVonageProvider(params: { providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Create a new Vonage provider.
      *
@@ -4148,19 +4431,22 @@ export class Messaging {
      * @param {string} apiKey - Vonage API key.
      * @param {string} apiSecret - Vonage API secret.
      * @param {boolean} enabled - Set as enabled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVonageProvider(providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean): Promise<Models.Provider>;
+    createVonageProvider(providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Provider>;
     createVonageProvider(
         paramsOrFirst: { providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name: string, from?: string, apiKey?: string, apiSecret?: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -4170,6 +4456,7 @@ export class Messaging {
                 apiSecret: rest[3] as string,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4217,6 +4504,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4229,10 +4518,11 @@ export class Messaging {
      * @param {string} params.apiKey - Vonage API key.
      * @param {string} params.apiSecret - Vonage API secret.
      * @param {string} params.from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    updateVonageProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string  }): Promise<Models.Provider>;
+    updateVonageProvider(params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Update a Vonage provider by its unique ID.
      *
@@ -4242,19 +4532,22 @@ export class Messaging {
      * @param {string} apiKey - Vonage API key.
      * @param {string} apiSecret - Vonage API secret.
      * @param {string} from - Sender number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateVonageProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string): Promise<Models.Provider>;
+    updateVonageProvider(providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     updateVonageProvider(
         paramsOrFirst: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string } | string,
-        ...rest: [(string)?, (boolean)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Provider> {
         let params: { providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, name?: string, enabled?: boolean, apiKey?: string, apiSecret?: string, from?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
@@ -4264,6 +4557,7 @@ export class Messaging {
                 apiSecret: rest[3] as string,
                 from: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4305,6 +4599,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4313,31 +4609,37 @@ export class Messaging {
      * 
      *
      * @param {string} params.providerId - Provider ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      */
-    getProvider(params: { providerId: string  }): Promise<Models.Provider>;
+    getProvider(params: { providerId: string  }, requestOptions?: RequestOptions): Promise<Models.Provider>;
     /**
      * Get a provider by its unique ID.
      * 
      *
      * @param {string} providerId - Provider ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Provider>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getProvider(providerId: string): Promise<Models.Provider>;
+    getProvider(providerId: string, requestOptions?: RequestOptions): Promise<Models.Provider>;
     getProvider(
-        paramsOrFirst: { providerId: string } | string    
+        paramsOrFirst: { providerId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Provider> {
         let params: { providerId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4358,6 +4660,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4365,30 +4669,36 @@ export class Messaging {
      * Delete a provider by its unique ID.
      *
      * @param {string} params.providerId - Provider ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteProvider(params: { providerId: string  }): Promise<{}>;
+    deleteProvider(params: { providerId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a provider by its unique ID.
      *
      * @param {string} providerId - Provider ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteProvider(providerId: string): Promise<{}>;
+    deleteProvider(providerId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteProvider(
-        paramsOrFirst: { providerId: string } | string    
+        paramsOrFirst: { providerId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { providerId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4410,6 +4720,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4419,35 +4731,40 @@ export class Messaging {
      * @param {string} params.providerId - Provider ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listProviderLogs(params: { providerId: string, queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listProviderLogs(params: { providerId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the provider activity logs listed by its unique ID.
      *
      * @param {string} providerId - Provider ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listProviderLogs(providerId: string, queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listProviderLogs(providerId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listProviderLogs(
         paramsOrFirst: { providerId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { providerId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { providerId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 providerId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const providerId = params.providerId;
@@ -4476,6 +4793,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4485,35 +4804,40 @@ export class Messaging {
      * @param {string} params.subscriberId - Subscriber ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listSubscriberLogs(params: { subscriberId: string, queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listSubscriberLogs(params: { subscriberId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the subscriber activity logs listed by its unique ID.
      *
      * @param {string} subscriberId - Subscriber ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listSubscriberLogs(subscriberId: string, queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listSubscriberLogs(subscriberId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listSubscriberLogs(
         paramsOrFirst: { subscriberId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { subscriberId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { subscriberId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 subscriberId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const subscriberId = params.subscriberId;
@@ -4542,6 +4866,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4551,35 +4877,40 @@ export class Messaging {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, description, emailTotal, smsTotal, pushTotal
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TopicList>}
      */
-    listTopics(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.TopicList>;
+    listTopics(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.TopicList>;
     /**
      * Get a list of all topics from the current Appwrite project.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, description, emailTotal, smsTotal, pushTotal
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TopicList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTopics(queries?: string[], search?: string, total?: boolean): Promise<Models.TopicList>;
+    listTopics(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.TopicList>;
     listTopics(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.TopicList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -4608,6 +4939,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4617,35 +4950,40 @@ export class Messaging {
      * @param {string} params.topicId - Topic ID. Choose a custom Topic ID or a new Topic ID.
      * @param {string} params.name - Topic Name.
      * @param {string[]} params.subscribe - An array of role strings with subscribe permission. By default all users are granted with any subscribe permission. [learn more about roles](https://appwrite.io/docs/permissions#permission-roles). Maximum of 100 roles are allowed, each 64 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      */
-    createTopic(params: { topicId: string, name: string, subscribe?: string[]  }): Promise<Models.Topic>;
+    createTopic(params: { topicId: string, name: string, subscribe?: string[]  }, requestOptions?: RequestOptions): Promise<Models.Topic>;
     /**
      * Create a new topic.
      *
      * @param {string} topicId - Topic ID. Choose a custom Topic ID or a new Topic ID.
      * @param {string} name - Topic Name.
      * @param {string[]} subscribe - An array of role strings with subscribe permission. By default all users are granted with any subscribe permission. [learn more about roles](https://appwrite.io/docs/permissions#permission-roles). Maximum of 100 roles are allowed, each 64 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTopic(topicId: string, name: string, subscribe?: string[]): Promise<Models.Topic>;
+    createTopic(topicId: string, name: string, subscribe?: string[], requestOptions?: RequestOptions): Promise<Models.Topic>;
     createTopic(
         paramsOrFirst: { topicId: string, name: string, subscribe?: string[] } | string,
-        ...rest: [(string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.Topic> {
         let params: { topicId: string, name: string, subscribe?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, name: string, subscribe?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 name: rest[0] as string,
                 subscribe: rest[1] as string[]            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4681,6 +5019,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4689,31 +5029,37 @@ export class Messaging {
      * 
      *
      * @param {string} params.topicId - Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      */
-    getTopic(params: { topicId: string  }): Promise<Models.Topic>;
+    getTopic(params: { topicId: string  }, requestOptions?: RequestOptions): Promise<Models.Topic>;
     /**
      * Get a topic by its unique ID.
      * 
      *
      * @param {string} topicId - Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getTopic(topicId: string): Promise<Models.Topic>;
+    getTopic(topicId: string, requestOptions?: RequestOptions): Promise<Models.Topic>;
     getTopic(
-        paramsOrFirst: { topicId: string } | string    
+        paramsOrFirst: { topicId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Topic> {
         let params: { topicId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4734,6 +5080,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4744,10 +5092,11 @@ export class Messaging {
      * @param {string} params.topicId - Topic ID.
      * @param {string} params.name - Topic Name.
      * @param {string[]} params.subscribe - An array of role strings with subscribe permission. By default all users are granted with any subscribe permission. [learn more about roles](https://appwrite.io/docs/permissions#permission-roles). Maximum of 100 roles are allowed, each 64 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      */
-    updateTopic(params: { topicId: string, name?: string, subscribe?: string[]  }): Promise<Models.Topic>;
+    updateTopic(params: { topicId: string, name?: string, subscribe?: string[]  }, requestOptions?: RequestOptions): Promise<Models.Topic>;
     /**
      * Update a topic by its unique ID.
      * 
@@ -4755,25 +5104,29 @@ export class Messaging {
      * @param {string} topicId - Topic ID.
      * @param {string} name - Topic Name.
      * @param {string[]} subscribe - An array of role strings with subscribe permission. By default all users are granted with any subscribe permission. [learn more about roles](https://appwrite.io/docs/permissions#permission-roles). Maximum of 100 roles are allowed, each 64 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Topic>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTopic(topicId: string, name?: string, subscribe?: string[]): Promise<Models.Topic>;
+    updateTopic(topicId: string, name?: string, subscribe?: string[], requestOptions?: RequestOptions): Promise<Models.Topic>;
     updateTopic(
         paramsOrFirst: { topicId: string, name?: string, subscribe?: string[] } | string,
-        ...rest: [(string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.Topic> {
         let params: { topicId: string, name?: string, subscribe?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, name?: string, subscribe?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 name: rest[0] as string,
                 subscribe: rest[1] as string[]            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4803,6 +5156,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4810,30 +5165,36 @@ export class Messaging {
      * Delete a topic by its unique ID.
      *
      * @param {string} params.topicId - Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteTopic(params: { topicId: string  }): Promise<{}>;
+    deleteTopic(params: { topicId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a topic by its unique ID.
      *
      * @param {string} topicId - Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteTopic(topicId: string): Promise<{}>;
+    deleteTopic(topicId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteTopic(
-        paramsOrFirst: { topicId: string } | string    
+        paramsOrFirst: { topicId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { topicId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4855,6 +5216,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4864,35 +5227,40 @@ export class Messaging {
      * @param {string} params.topicId - Topic ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listTopicLogs(params: { topicId: string, queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listTopicLogs(params: { topicId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the topic activity logs listed by its unique ID.
      *
      * @param {string} topicId - Topic ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTopicLogs(topicId: string, queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listTopicLogs(topicId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listTopicLogs(
         paramsOrFirst: { topicId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { topicId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4921,6 +5289,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4931,10 +5301,11 @@ export class Messaging {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, provider, type, enabled
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SubscriberList>}
      */
-    listSubscribers(params: { topicId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.SubscriberList>;
+    listSubscribers(params: { topicId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.SubscriberList>;
     /**
      * Get a list of all subscribers from the current Appwrite project.
      *
@@ -4942,19 +5313,22 @@ export class Messaging {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, provider, type, enabled
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SubscriberList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listSubscribers(topicId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.SubscriberList>;
+    listSubscribers(topicId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.SubscriberList>;
     listSubscribers(
         paramsOrFirst: { topicId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.SubscriberList> {
         let params: { topicId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
@@ -4962,6 +5336,7 @@ export class Messaging {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -4994,6 +5369,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5003,35 +5380,40 @@ export class Messaging {
      * @param {string} params.topicId - Topic ID. The topic ID to subscribe to.
      * @param {string} params.subscriberId - Subscriber ID. Choose a custom Subscriber ID or a new Subscriber ID.
      * @param {string} params.targetId - Target ID. The target ID to link to the specified Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Subscriber>}
      */
-    createSubscriber(params: { topicId: string, subscriberId: string, targetId: string  }): Promise<Models.Subscriber>;
+    createSubscriber(params: { topicId: string, subscriberId: string, targetId: string  }, requestOptions?: RequestOptions): Promise<Models.Subscriber>;
     /**
      * Create a new subscriber.
      *
      * @param {string} topicId - Topic ID. The topic ID to subscribe to.
      * @param {string} subscriberId - Subscriber ID. Choose a custom Subscriber ID or a new Subscriber ID.
      * @param {string} targetId - Target ID. The target ID to link to the specified Topic ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Subscriber>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSubscriber(topicId: string, subscriberId: string, targetId: string): Promise<Models.Subscriber>;
+    createSubscriber(topicId: string, subscriberId: string, targetId: string, requestOptions?: RequestOptions): Promise<Models.Subscriber>;
     createSubscriber(
         paramsOrFirst: { topicId: string, subscriberId: string, targetId: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Subscriber> {
         let params: { topicId: string, subscriberId: string, targetId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, subscriberId: string, targetId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 subscriberId: rest[0] as string,
                 targetId: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -5067,6 +5449,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5076,34 +5460,39 @@ export class Messaging {
      *
      * @param {string} params.topicId - Topic ID. The topic ID subscribed to.
      * @param {string} params.subscriberId - Subscriber ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Subscriber>}
      */
-    getSubscriber(params: { topicId: string, subscriberId: string  }): Promise<Models.Subscriber>;
+    getSubscriber(params: { topicId: string, subscriberId: string  }, requestOptions?: RequestOptions): Promise<Models.Subscriber>;
     /**
      * Get a subscriber by its unique ID.
      * 
      *
      * @param {string} topicId - Topic ID. The topic ID subscribed to.
      * @param {string} subscriberId - Subscriber ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Subscriber>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getSubscriber(topicId: string, subscriberId: string): Promise<Models.Subscriber>;
+    getSubscriber(topicId: string, subscriberId: string, requestOptions?: RequestOptions): Promise<Models.Subscriber>;
     getSubscriber(
         paramsOrFirst: { topicId: string, subscriberId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Subscriber> {
         let params: { topicId: string, subscriberId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, subscriberId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 subscriberId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -5128,6 +5517,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5136,33 +5527,38 @@ export class Messaging {
      *
      * @param {string} params.topicId - Topic ID. The topic ID subscribed to.
      * @param {string} params.subscriberId - Subscriber ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteSubscriber(params: { topicId: string, subscriberId: string  }): Promise<{}>;
+    deleteSubscriber(params: { topicId: string, subscriberId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a subscriber by its unique ID.
      *
      * @param {string} topicId - Topic ID. The topic ID subscribed to.
      * @param {string} subscriberId - Subscriber ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteSubscriber(topicId: string, subscriberId: string): Promise<{}>;
+    deleteSubscriber(topicId: string, subscriberId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteSubscriber(
         paramsOrFirst: { topicId: string, subscriberId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { topicId: string, subscriberId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { topicId: string, subscriberId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 topicId: paramsOrFirst as string,
                 subscriberId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const topicId = params.topicId;
@@ -5188,6 +5584,8 @@ export class Messaging {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, type UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, type UploadProgress, type RequestOptions } from '../client';
 import { Video } from './feed';
 import { FormData, File } from 'node-fetch-native-with-agent';
 
@@ -9,6 +9,24 @@ export class Publish {
         this.client = client;
     }
 
+    /**
+     * Publish Video
+     *
+     * Upload and publish a new video with support for chunked uploads
+     *
+     * @param {Buffer | Blob | File} params.data - Video file data
+     * @param {string} params.title - Video title
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {(progress: UploadProgress) => void} params.onProgress - Optional callback for upload progress
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    publishVideo(params: { data: Buffer | Blob | File, title: string, actorId?: number, token?: string, onProgress?: (progress: UploadProgress) => void }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Publish Video
      *
@@ -19,19 +37,51 @@ export class Publish {
      * @param {Buffer | Blob | File} data - Video file data
      * @param {string} title - Video title
      * @param {(progress: UploadProgress) => void} onProgress - Optional callback for upload progress
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async publishVideo(
+    publishVideo(
         actorId: number,
         token: string,
         data: Buffer | Blob | File,
         title: string,
-        onProgress?: (progress: UploadProgress) => void
+        onProgress?: (progress: UploadProgress) => void,
+        requestOptions?: RequestOptions
+    ): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async publishVideo(
+        paramsOrFirst: { data: Buffer | Blob | File, title: string, actorId?: number, token?: string, onProgress?: (progress: UploadProgress) => void } | number,
+        ...rest: [(string | RequestOptions)?, (Buffer | Blob | File)?, (string)?, ((progress: UploadProgress) => void)?, (RequestOptions)?]
     ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { data: Buffer | Blob | File, title: string, actorId?: number, token?: string, onProgress?: (progress: UploadProgress) => void };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                actorId: paramsOrFirst as number,
+                token: rest[0] as string,
+                data: rest[1] as Buffer | Blob | File,
+                title: rest[2] as string,
+                onProgress: rest[3] as ((progress: UploadProgress) => void)
+            };
+            requestOptions = rest[4] as RequestOptions;
+        }
+
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const data = params.data;
+        const title = params.title;
+        const onProgress = params.onProgress;
+
         if (typeof actorId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "actorId"');
         }
@@ -54,10 +104,10 @@ export class Publish {
         } else if (data instanceof Blob) {
             fileData = new File([data], 'video.mp4', { type: 'video/mp4' });
         } else if (Buffer.isBuffer(data)) {
-            // Convert Buffer to Uint8Array for Blob compatibility
+            // File copies the bytes, so the video is held in memory twice while it uploads.
+            // Use InputFile.fromPath or InputFile.fromStream to avoid holding large videos in memory.
             const uint8Array = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-            const blob = new Blob([uint8Array], { type: 'video/mp4' });
-            fileData = new File([blob], 'video.mp4', { type: 'video/mp4' });
+            fileData = new File([uint8Array], 'video.mp4', { type: 'video/mp4' });
         } else {
             throw new AppwriteException('Invalid data type. Expected Buffer, Blob, or File');
         }
@@ -77,13 +127,14 @@ export class Publish {
         };
 
         // Use chunkedUpload if file is large or if progress callback is provided
-        if (fileData.size > Client.CHUNK_SIZE || onProgress) {
+        if (fileData.size > this.client.config.chunkSize || onProgress) {
             return this.client.chunkedUpload(
                 'post',
                 uri,
                 apiHeaders,
                 payload,
-                onProgress || (() => {})
+                onProgress || (() => {}),
+                requestOptions,
             );
         }
 
@@ -93,25 +144,72 @@ export class Publish {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * List Published Videos
+     *
+     * Get list of videos published by a user
+     *
+     * @param {number} params.userId - User ID whose videos to list
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, video_list: Video[]}>}
+     */
+    listPublishedVideos(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        video_list: Video[];
+    }>;
     /**
      * List Published Videos
      *
      * Get list of videos published by a user
      *
      * @param {number} userId - User ID whose videos to list
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, video_list: Video[]}>}
      */
-    async listPublishedVideos(userId: number, actorId: number, token: string): Promise<{
+    listPublishedVideos(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        video_list: Video[];
+    }>;
+    async listPublishedVideos(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         video_list: Video[];
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -141,9 +239,27 @@ export class Publish {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Delete Video
+     *
+     * Delete a video by its ID (owner only)
+     *
+     * @param {number} params.videoId - Video ID to delete
+     * @param {number} params.actorId - Current user ID (must be video owner), defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    deleteVideo(params: { videoId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Delete Video
      *
@@ -152,13 +268,40 @@ export class Publish {
      * @param {number} actorId - Current user ID (must be video owner)
      * @param {number} videoId - Video ID to delete
      * @param {string} token - Authentication token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async deleteVideo(actorId: number, videoId: number, token: string): Promise<{
+    deleteVideo(actorId: number, videoId: number, token: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async deleteVideo(
+        paramsOrFirst: { videoId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { videoId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                actorId: paramsOrFirst as number,
+                videoId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const videoId = params.videoId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof actorId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "actorId"');
         }
@@ -188,6 +331,8 @@ export class Publish {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
 import { User } from './user';
 
 export class Relation {
@@ -8,21 +8,64 @@ export class Relation {
         this.client = client;
     }
 
+    /**
+     * Follow User
+     *
+     * Follow a user
+     *
+     * @param {number} params.userId - User ID to follow
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    follow(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Follow User
      *
      * Follow a user
      *
      * @param {number} userId - User ID to follow
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async follow(userId: number, actorId: number, token: string): Promise<{
+    follow(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async follow(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -51,24 +94,69 @@ export class Relation {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Unfollow User
+     *
+     * Unfollow a user
+     *
+     * @param {number} params.userId - User ID to unfollow
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    unfollow(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Unfollow User
      *
      * Unfollow a user
      *
      * @param {number} userId - User ID to unfollow
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async unfollow(userId: number, actorId: number, token: string): Promise<{
+    unfollow(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async unfollow(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -97,25 +185,72 @@ export class Relation {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Get Follow List
+     *
+     * Get list of users that a user is following
+     *
+     * @param {number} params.userId - User ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
+     */
+    getFollowList(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
     /**
      * Get Follow List
      *
      * Get list of users that a user is following
      *
      * @param {number} userId - User ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
      */
-    async getFollowList(userId: number, actorId: number, token: string): Promise<{
+    getFollowList(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
+    async getFollowList(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         user_list: User[];
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -145,25 +280,72 @@ export class Relation {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Get Follower List
+     *
+     * Get list of users following a user
+     *
+     * @param {number} params.userId - User ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
+     */
+    getFollowerList(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
     /**
      * Get Follower List
      *
      * Get list of users following a user
      *
      * @param {number} userId - User ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
      */
-    async getFollowerList(userId: number, actorId: number, token: string): Promise<{
+    getFollowerList(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
+    async getFollowerList(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         user_list: User[];
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -193,25 +375,72 @@ export class Relation {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Get Friend List
+     *
+     * Get list of mutual friends
+     *
+     * @param {number} params.userId - User ID
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
+     */
+    getFriendList(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
     /**
      * Get Friend List
      *
      * Get list of mutual friends
      *
      * @param {number} userId - User ID
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, user_list: User[]}>}
      */
-    async getFriendList(userId: number, actorId: number, token: string): Promise<{
+    getFriendList(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user_list: User[];
+    }>;
+    async getFriendList(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         user_list: User[];
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -241,23 +470,66 @@ export class Relation {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Check if Following
+     *
+     * Check if current user is following another user
+     *
+     * @param {number} params.userId - User ID to check
+     * @param {number} params.actorId - Current user ID, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{result: boolean}>}
+     */
+    isFollowing(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        result: boolean;
+    }>;
     /**
      * Check if Following
      *
      * Check if current user is following another user
      *
      * @param {number} userId - User ID to check
-     * @param {number} actorId - Current user ID
-     * @param {string} token - Authentication token
+     * @param {number} actorId - Current user ID, defaults to the client identity
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{result: boolean}>}
      */
-    async isFollowing(userId: number, actorId: number, token: string): Promise<{
+    isFollowing(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        result: boolean;
+    }>;
+    async isFollowing(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         result: boolean;
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -287,6 +559,8 @@ export class Relation {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type DownloadProgress, type DownloadResult, type RequestOptions } from '../client';
+import type { Readable } from 'stream';
 import type { Models } from '../models';
 
 import { Framework } from '../enums/framework';
@@ -21,35 +22,40 @@ export class Sites {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, framework, deploymentId, buildCommand, installCommand, outputDirectory, installationId
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SiteList>}
      */
-    list(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.SiteList>;
+    list(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.SiteList>;
     /**
      * Get a list of all the project's sites. You can use the query params to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, enabled, framework, deploymentId, buildCommand, installCommand, outputDirectory, installationId
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SiteList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list(queries?: string[], search?: string, total?: boolean): Promise<Models.SiteList>;
+    list(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.SiteList>;
     list(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.SiteList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -78,6 +84,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -102,10 +110,11 @@ export class Sites {
      * @param {boolean} params.providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the site? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} params.providerRootDirectory - Path to site code in the linked repo.
      * @param {string} params.specification - Framework specification for the site and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      */
-    create(params: { siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }): Promise<Models.Site>;
+    create(params: { siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }, requestOptions?: RequestOptions): Promise<Models.Site>;
     /**
      * Create a new site.
      *
@@ -127,19 +136,22 @@ export class Sites {
      * @param {boolean} providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the site? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} providerRootDirectory - Path to site code in the linked repo.
      * @param {string} specification - Framework specification for the site and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create(siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string): Promise<Models.Site>;
+    create(siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string, requestOptions?: RequestOptions): Promise<Models.Site>;
     create(
         paramsOrFirst: { siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string } | string,
-        ...rest: [(string)?, (Framework)?, (BuildRuntime)?, (boolean)?, (boolean)?, (number)?, (string)?, (string)?, (string)?, (Adapter)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (Framework)?, (BuildRuntime)?, (boolean)?, (boolean)?, (number)?, (string)?, (string)?, (string)?, (Adapter)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Site> {
         let params: { siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, name: string, framework: Framework, buildRuntime: BuildRuntime, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, adapter?: Adapter, installationId?: string, fallbackFile?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -161,6 +173,7 @@ export class Sites {
                 providerRootDirectory: rest[15] as string,
                 specification: rest[16] as string            
             };
+            requestOptions = rest[17] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -262,16 +275,19 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * Get a list of all frameworks that are currently available on the server instance.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.FrameworkList>}
      */
-    listFrameworks(): Promise<Models.FrameworkList> {
+    listFrameworks(requestOptions?: RequestOptions): Promise<Models.FrameworkList> {
 
         const apiPath = '/sites/frameworks';
         const payload: Payload = {};
@@ -285,16 +301,19 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
     /**
      * List allowed site specifications for this instance.
      *
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SpecificationList>}
      */
-    listSpecifications(): Promise<Models.SpecificationList> {
+    listSpecifications(requestOptions?: RequestOptions): Promise<Models.SpecificationList> {
 
         const apiPath = '/sites/specifications';
         const payload: Payload = {};
@@ -308,6 +327,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -315,30 +336,36 @@ export class Sites {
      * Get a site by its unique ID.
      *
      * @param {string} params.siteId - Site ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      */
-    get(params: { siteId: string  }): Promise<Models.Site>;
+    get(params: { siteId: string  }, requestOptions?: RequestOptions): Promise<Models.Site>;
     /**
      * Get a site by its unique ID.
      *
      * @param {string} siteId - Site ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get(siteId: string): Promise<Models.Site>;
+    get(siteId: string, requestOptions?: RequestOptions): Promise<Models.Site>;
     get(
-        paramsOrFirst: { siteId: string } | string    
+        paramsOrFirst: { siteId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Site> {
         let params: { siteId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -359,6 +386,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -383,10 +412,11 @@ export class Sites {
      * @param {boolean} params.providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the site? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} params.providerRootDirectory - Path to site code in the linked repo.
      * @param {string} params.specification - Framework specification for the site and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      */
-    update(params: { siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }): Promise<Models.Site>;
+    update(params: { siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string  }, requestOptions?: RequestOptions): Promise<Models.Site>;
     /**
      * Update site by its unique ID.
      *
@@ -408,19 +438,22 @@ export class Sites {
      * @param {boolean} providerSilentMode - Is the VCS (Version Control System) connection in silent mode for the repo linked to the site? In silent mode, comments will not be made on commits and pull requests.
      * @param {string} providerRootDirectory - Path to site code in the linked repo.
      * @param {string} specification - Framework specification for the site and builds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    update(siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string): Promise<Models.Site>;
+    update(siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string, requestOptions?: RequestOptions): Promise<Models.Site>;
     update(
         paramsOrFirst: { siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string } | string,
-        ...rest: [(string)?, (Framework)?, (boolean)?, (boolean)?, (number)?, (string)?, (string)?, (string)?, (BuildRuntime)?, (Adapter)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (Framework)?, (boolean)?, (boolean)?, (number)?, (string)?, (string)?, (string)?, (BuildRuntime)?, (Adapter)?, (string)?, (string)?, (string)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Site> {
         let params: { siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, name: string, framework: Framework, enabled?: boolean, logging?: boolean, timeout?: number, installCommand?: string, buildCommand?: string, outputDirectory?: string, buildRuntime?: BuildRuntime, adapter?: Adapter, fallbackFile?: string, installationId?: string, providerRepositoryId?: string, providerBranch?: string, providerSilentMode?: boolean, providerRootDirectory?: string, specification?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -442,6 +475,7 @@ export class Sites {
                 providerRootDirectory: rest[15] as string,
                 specification: rest[16] as string            
             };
+            requestOptions = rest[17] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -537,6 +571,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -544,30 +580,36 @@ export class Sites {
      * Delete a site by its unique ID.
      *
      * @param {string} params.siteId - Site ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { siteId: string  }): Promise<{}>;
+    delete(params: { siteId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a site by its unique ID.
      *
      * @param {string} siteId - Site ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(siteId: string): Promise<{}>;
+    delete(siteId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { siteId: string } | string    
+        paramsOrFirst: { siteId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { siteId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -589,6 +631,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -597,33 +641,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      */
-    updateSiteDeployment(params: { siteId: string, deploymentId: string  }): Promise<Models.Site>;
+    updateSiteDeployment(params: { siteId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Site>;
     /**
      * Update the site active deployment. Use this endpoint to switch the code deployment that should be used when visitor opens your site.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Site>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateSiteDeployment(siteId: string, deploymentId: string): Promise<Models.Site>;
+    updateSiteDeployment(siteId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Site>;
     updateSiteDeployment(
         paramsOrFirst: { siteId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Site> {
         let params: { siteId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -652,6 +701,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -662,10 +713,11 @@ export class Sites {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: buildSize, sourceSize, totalSize, buildDuration, status, activate, type
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DeploymentList>}
      */
-    listDeployments(params: { siteId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.DeploymentList>;
+    listDeployments(params: { siteId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.DeploymentList>;
     /**
      * Get a list of all the site's code deployments. You can use the query params to filter your results.
      *
@@ -673,19 +725,22 @@ export class Sites {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: buildSize, sourceSize, totalSize, buildDuration, status, activate, type
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DeploymentList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listDeployments(siteId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.DeploymentList>;
+    listDeployments(siteId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.DeploymentList>;
     listDeployments(
         paramsOrFirst: { siteId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.DeploymentList> {
         let params: { siteId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -693,6 +748,7 @@ export class Sites {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -725,6 +781,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -737,10 +795,11 @@ export class Sites {
      * @param {string} params.installCommand - Install Commands.
      * @param {string} params.buildCommand - Build Commands.
      * @param {string} params.outputDirectory - Output Directory.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createDeployment(params: { siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string , onProgress?: (progress: UploadProgress) => void }): Promise<Models.Deployment>;
+    createDeployment(params: { siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string , onProgress?: (progress: UploadProgress) => void }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a new site code deployment. Use this endpoint to upload a new version of your site code. To activate your newly uploaded code, you'll need to update the site's deployment to use your new deployment ID.
      *
@@ -750,21 +809,24 @@ export class Sites {
      * @param {string} installCommand - Install Commands.
      * @param {string} buildCommand - Build Commands.
      * @param {string} outputDirectory - Output Directory.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDeployment(siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string, onProgress?: (progress: UploadProgress) => void): Promise<Models.Deployment>;
+    createDeployment(siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string, onProgress?: (progress: UploadProgress) => void, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createDeployment(
         paramsOrFirst: { siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string, onProgress?: (progress: UploadProgress) => void  } | string,
-        ...rest: [(File)?, (boolean)?, (string)?, (string)?, (string)?,((progress: UploadProgress) => void)?]    
+        ...rest: [(File | RequestOptions)?, (boolean)?, (string)?, (string)?, (string)?, ((progress: UploadProgress) => void)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string };
         let onProgress: ((progress: UploadProgress) => void);
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, code: File, activate: boolean, installCommand?: string, buildCommand?: string, outputDirectory?: string };
             onProgress = paramsOrFirst?.onProgress as ((progress: UploadProgress) => void);
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -775,6 +837,7 @@ export class Sites {
                 outputDirectory: rest[4] as string            
             };
             onProgress = rest[5] as ((progress: UploadProgress) => void);
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -822,7 +885,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
-            onProgress
+            onProgress,
+            requestOptions,
         );
     }
 
@@ -831,33 +895,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createDuplicateDeployment(params: { siteId: string, deploymentId: string  }): Promise<Models.Deployment>;
+    createDuplicateDeployment(params: { siteId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a new build for an existing site deployment. This endpoint allows you to rebuild a deployment with the updated site configuration, including its commands and output directory if they have been modified. The build process will be queued and executed asynchronously. The original deployment's code will be preserved and used for the new build.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDuplicateDeployment(siteId: string, deploymentId: string): Promise<Models.Deployment>;
+    createDuplicateDeployment(siteId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createDuplicateDeployment(
         paramsOrFirst: { siteId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -886,6 +955,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -901,10 +972,11 @@ export class Sites {
      * @param {TemplateReferenceType} params.type - Type for the reference provided. Can be commit, branch, or tag
      * @param {string} params.reference - Reference value, can be a commit hash, branch name, or release tag
      * @param {boolean} params.activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createTemplateDeployment(params: { siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean  }): Promise<Models.Deployment>;
+    createTemplateDeployment(params: { siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a deployment based on a template.
      * 
@@ -917,19 +989,22 @@ export class Sites {
      * @param {TemplateReferenceType} type - Type for the reference provided. Can be commit, branch, or tag
      * @param {string} reference - Reference value, can be a commit hash, branch name, or release tag
      * @param {boolean} activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTemplateDeployment(siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean): Promise<Models.Deployment>;
+    createTemplateDeployment(siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createTemplateDeployment(
         paramsOrFirst: { siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (TemplateReferenceType)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (TemplateReferenceType)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, repository: string, owner: string, rootDirectory: string, type: TemplateReferenceType, reference: string, activate?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -940,6 +1015,7 @@ export class Sites {
                 reference: rest[4] as string,
                 activate: rest[5] as boolean            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1000,6 +1076,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1012,10 +1090,11 @@ export class Sites {
      * @param {VCSReferenceType} params.type - Type of reference passed. Allowed values are: branch, commit
      * @param {string} params.reference - VCS reference to create deployment from. Depending on type this can be: branch name, commit hash
      * @param {boolean} params.activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    createVcsDeployment(params: { siteId: string, type: VCSReferenceType, reference: string, activate?: boolean  }): Promise<Models.Deployment>;
+    createVcsDeployment(params: { siteId: string, type: VCSReferenceType, reference: string, activate?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Create a deployment when a site is connected to VCS.
      * 
@@ -1025,19 +1104,22 @@ export class Sites {
      * @param {VCSReferenceType} type - Type of reference passed. Allowed values are: branch, commit
      * @param {string} reference - VCS reference to create deployment from. Depending on type this can be: branch name, commit hash
      * @param {boolean} activate - Automatically activate the deployment when it is finished building.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVcsDeployment(siteId: string, type: VCSReferenceType, reference: string, activate?: boolean): Promise<Models.Deployment>;
+    createVcsDeployment(siteId: string, type: VCSReferenceType, reference: string, activate?: boolean, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     createVcsDeployment(
         paramsOrFirst: { siteId: string, type: VCSReferenceType, reference: string, activate?: boolean } | string,
-        ...rest: [(VCSReferenceType)?, (string)?, (boolean)?]    
+        ...rest: [(VCSReferenceType | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, type: VCSReferenceType, reference: string, activate?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, type: VCSReferenceType, reference: string, activate?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -1045,6 +1127,7 @@ export class Sites {
                 reference: rest[1] as string,
                 activate: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1084,6 +1167,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1092,33 +1177,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    getDeployment(params: { siteId: string, deploymentId: string  }): Promise<Models.Deployment>;
+    getDeployment(params: { siteId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Get a site deployment by its unique ID.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getDeployment(siteId: string, deploymentId: string): Promise<Models.Deployment>;
+    getDeployment(siteId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     getDeployment(
         paramsOrFirst: { siteId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1143,6 +1233,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1151,33 +1243,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteDeployment(params: { siteId: string, deploymentId: string  }): Promise<{}>;
+    deleteDeployment(params: { siteId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a site deployment by its unique ID.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteDeployment(siteId: string, deploymentId: string): Promise<{}>;
+    deleteDeployment(siteId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteDeployment(
         paramsOrFirst: { siteId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { siteId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1203,6 +1300,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1212,35 +1311,40 @@ export class Sites {
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
      * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getDeploymentDownload(params: { siteId: string, deploymentId: string, type?: DeploymentDownloadType  }): Promise<ArrayBuffer>;
+    getDeploymentDownload(params: { siteId: string, deploymentId: string, type?: DeploymentDownloadType  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Get a site deployment content by its unique ID. The endpoint response return with a 'Content-Disposition: attachment' header that tells the browser to start downloading the file to user downloads directory.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
      * @param {DeploymentDownloadType} type - Deployment file to download. Can be: "source", "output".
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getDeploymentDownload(siteId: string, deploymentId: string, type?: DeploymentDownloadType): Promise<ArrayBuffer>;
+    getDeploymentDownload(siteId: string, deploymentId: string, type?: DeploymentDownloadType, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getDeploymentDownload(
         paramsOrFirst: { siteId: string, deploymentId: string, type?: DeploymentDownloadType } | string,
-        ...rest: [(string)?, (DeploymentDownloadType)?]    
+        ...rest: [(string | RequestOptions)?, (DeploymentDownloadType)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { siteId: string, deploymentId: string, type?: DeploymentDownloadType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string, type?: DeploymentDownloadType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string,
                 type: rest[1] as DeploymentDownloadType            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1269,42 +1373,109 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
+    /**
+     * Stream a site deployment content by its unique ID without buffering it in memory. Use `Readable.toWeb()` for a web `ReadableStream`.
+     *
+     * @param {string} params.siteId - Site ID.
+     * @param {string} params.deploymentId - Deployment ID.
+     * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {number} params.offset - Byte to start from, to continue a partial download.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<Readable>}
+     */
+    getDeploymentDownloadStream(params: { siteId: string, deploymentId: string, type?: DeploymentDownloadType, offset?: number, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<Readable> {
+        const { siteId, deploymentId, type, offset, onProgress } = params || {};
+        const { uri, payload } = this.deploymentDownloadRequest(siteId, deploymentId, type);
+
+        return this.client.download('get', uri, {}, payload, { ...requestOptions, offset, onProgress });
+    }
+
+    /**
+     * Download a site deployment content by its unique ID straight to a path on disk. With `resume`, an existing file at the path is kept and only the remaining bytes are requested.
+     *
+     * @param {string} params.siteId - Site ID.
+     * @param {string} params.deploymentId - Deployment ID.
+     * @param {string} params.path - Where to write the deployment file.
+     * @param {DeploymentDownloadType} params.type - Deployment file to download. Can be: "source", "output".
+     * @param {boolean} params.resume - Continue a partial download already at the path.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<DownloadResult>}
+     */
+    downloadDeployment(params: { siteId: string, deploymentId: string, path: string, type?: DeploymentDownloadType, resume?: boolean, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<DownloadResult> {
+        const { siteId, deploymentId, path, type, resume, onProgress } = params || {};
+
+        if (typeof path === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "path"');
+        }
+
+        const { uri, payload } = this.deploymentDownloadRequest(siteId, deploymentId, type);
+
+        return this.client.downloadToPath('get', uri, {}, payload, path, { ...requestOptions, resume, onProgress });
+    }
+
+    private deploymentDownloadRequest(siteId: string, deploymentId: string, type?: DeploymentDownloadType): { uri: URL, payload: Payload } {
+        if (typeof siteId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "siteId"');
+        }
+        if (typeof deploymentId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "deploymentId"');
+        }
+
+        const apiPath = '/sites/{siteId}/deployments/{deploymentId}/download'.replace('{siteId}', siteId).replace('{deploymentId}', deploymentId);
+        const payload: Payload = {};
+        if (typeof type !== 'undefined') {
+            payload['type'] = type;
+        }
+
+        return { uri: new URL(this.client.config.endpoint + apiPath), payload };
+    }
+
     /**
      * Cancel an ongoing site deployment build. If the build is already in progress, it will be stopped and marked as canceled. If the build hasn't started yet, it will be marked as canceled without executing. You cannot cancel builds that have already completed (status 'ready') or failed. The response includes the final build status and details.
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      */
-    updateDeploymentStatus(params: { siteId: string, deploymentId: string  }): Promise<Models.Deployment>;
+    updateDeploymentStatus(params: { siteId: string, deploymentId: string  }, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     /**
      * Cancel an ongoing site deployment build. If the build is already in progress, it will be stopped and marked as canceled. If the build hasn't started yet, it will be marked as canceled without executing. You cannot cancel builds that have already completed (status 'ready') or failed. The response includes the final build status and details.
      *
      * @param {string} siteId - Site ID.
      * @param {string} deploymentId - Deployment ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Deployment>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDeploymentStatus(siteId: string, deploymentId: string): Promise<Models.Deployment>;
+    updateDeploymentStatus(siteId: string, deploymentId: string, requestOptions?: RequestOptions): Promise<Models.Deployment>;
     updateDeploymentStatus(
         paramsOrFirst: { siteId: string, deploymentId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Deployment> {
         let params: { siteId: string, deploymentId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, deploymentId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 deploymentId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1330,6 +1501,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1339,35 +1512,40 @@ export class Sites {
      * @param {string} params.siteId - Site ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: trigger, status, responseStatusCode, duration, requestMethod, requestPath, deploymentId
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ExecutionList>}
      */
-    listLogs(params: { siteId: string, queries?: string[], total?: boolean  }): Promise<Models.ExecutionList>;
+    listLogs(params: { siteId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ExecutionList>;
     /**
      * Get a list of all site logs. You can use the query params to filter your results.
      *
      * @param {string} siteId - Site ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: trigger, status, responseStatusCode, duration, requestMethod, requestPath, deploymentId
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ExecutionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listLogs(siteId: string, queries?: string[], total?: boolean): Promise<Models.ExecutionList>;
+    listLogs(siteId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.ExecutionList>;
     listLogs(
         paramsOrFirst: { siteId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ExecutionList> {
         let params: { siteId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1396,6 +1574,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1404,33 +1584,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.logId - Log ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      */
-    getLog(params: { siteId: string, logId: string  }): Promise<Models.Execution>;
+    getLog(params: { siteId: string, logId: string  }, requestOptions?: RequestOptions): Promise<Models.Execution>;
     /**
      * Get a site request log by its unique ID.
      *
      * @param {string} siteId - Site ID.
      * @param {string} logId - Log ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Execution>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getLog(siteId: string, logId: string): Promise<Models.Execution>;
+    getLog(siteId: string, logId: string, requestOptions?: RequestOptions): Promise<Models.Execution>;
     getLog(
         paramsOrFirst: { siteId: string, logId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Execution> {
         let params: { siteId: string, logId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, logId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 logId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1455,6 +1640,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1463,33 +1650,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site ID.
      * @param {string} params.logId - Log ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteLog(params: { siteId: string, logId: string  }): Promise<{}>;
+    deleteLog(params: { siteId: string, logId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a site log by its unique ID.
      *
      * @param {string} siteId - Site ID.
      * @param {string} logId - Log ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteLog(siteId: string, logId: string): Promise<{}>;
+    deleteLog(siteId: string, logId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteLog(
         paramsOrFirst: { siteId: string, logId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { siteId: string, logId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, logId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 logId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1515,6 +1707,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1522,30 +1716,36 @@ export class Sites {
      * Get a list of all variables of a specific site.
      *
      * @param {string} params.siteId - Site unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.VariableList>}
      */
-    listVariables(params: { siteId: string  }): Promise<Models.VariableList>;
+    listVariables(params: { siteId: string  }, requestOptions?: RequestOptions): Promise<Models.VariableList>;
     /**
      * Get a list of all variables of a specific site.
      *
      * @param {string} siteId - Site unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.VariableList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listVariables(siteId: string): Promise<Models.VariableList>;
+    listVariables(siteId: string, requestOptions?: RequestOptions): Promise<Models.VariableList>;
     listVariables(
-        paramsOrFirst: { siteId: string } | string    
+        paramsOrFirst: { siteId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.VariableList> {
         let params: { siteId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1566,6 +1766,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1576,10 +1778,11 @@ export class Sites {
      * @param {string} params.key - Variable key. Max length: 255 chars.
      * @param {string} params.value - Variable value. Max length: 8192 chars.
      * @param {boolean} params.secret - Secret variables can be updated or deleted, but only sites can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    createVariable(params: { siteId: string, key: string, value: string, secret?: boolean  }): Promise<Models.Variable>;
+    createVariable(params: { siteId: string, key: string, value: string, secret?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Create a new site variable. These variables can be accessed during build and runtime (server-side rendering) as environment variables.
      *
@@ -1587,19 +1790,22 @@ export class Sites {
      * @param {string} key - Variable key. Max length: 255 chars.
      * @param {string} value - Variable value. Max length: 8192 chars.
      * @param {boolean} secret - Secret variables can be updated or deleted, but only sites can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createVariable(siteId: string, key: string, value: string, secret?: boolean): Promise<Models.Variable>;
+    createVariable(siteId: string, key: string, value: string, secret?: boolean, requestOptions?: RequestOptions): Promise<Models.Variable>;
     createVariable(
         paramsOrFirst: { siteId: string, key: string, value: string, secret?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { siteId: string, key: string, value: string, secret?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, key: string, value: string, secret?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -1607,6 +1813,7 @@ export class Sites {
                 value: rest[1] as string,
                 secret: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1646,6 +1853,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1654,33 +1863,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site unique ID.
      * @param {string} params.variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    getVariable(params: { siteId: string, variableId: string  }): Promise<Models.Variable>;
+    getVariable(params: { siteId: string, variableId: string  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Get a variable by its unique ID.
      *
      * @param {string} siteId - Site unique ID.
      * @param {string} variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getVariable(siteId: string, variableId: string): Promise<Models.Variable>;
+    getVariable(siteId: string, variableId: string, requestOptions?: RequestOptions): Promise<Models.Variable>;
     getVariable(
         paramsOrFirst: { siteId: string, variableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { siteId: string, variableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, variableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 variableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1705,6 +1919,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1716,10 +1932,11 @@ export class Sites {
      * @param {string} params.key - Variable key. Max length: 255 chars.
      * @param {string} params.value - Variable value. Max length: 8192 chars.
      * @param {boolean} params.secret - Secret variables can be updated or deleted, but only sites can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      */
-    updateVariable(params: { siteId: string, variableId: string, key: string, value?: string, secret?: boolean  }): Promise<Models.Variable>;
+    updateVariable(params: { siteId: string, variableId: string, key: string, value?: string, secret?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Variable>;
     /**
      * Update variable by its unique ID.
      *
@@ -1728,19 +1945,22 @@ export class Sites {
      * @param {string} key - Variable key. Max length: 255 chars.
      * @param {string} value - Variable value. Max length: 8192 chars.
      * @param {boolean} secret - Secret variables can be updated or deleted, but only sites can read them during build and runtime.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Variable>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateVariable(siteId: string, variableId: string, key: string, value?: string, secret?: boolean): Promise<Models.Variable>;
+    updateVariable(siteId: string, variableId: string, key: string, value?: string, secret?: boolean, requestOptions?: RequestOptions): Promise<Models.Variable>;
     updateVariable(
         paramsOrFirst: { siteId: string, variableId: string, key: string, value?: string, secret?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Variable> {
         let params: { siteId: string, variableId: string, key: string, value?: string, secret?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, variableId: string, key: string, value?: string, secret?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
@@ -1749,6 +1969,7 @@ export class Sites {
                 value: rest[2] as string,
                 secret: rest[3] as boolean            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1789,6 +2010,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1797,33 +2020,38 @@ export class Sites {
      *
      * @param {string} params.siteId - Site unique ID.
      * @param {string} params.variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteVariable(params: { siteId: string, variableId: string  }): Promise<{}>;
+    deleteVariable(params: { siteId: string, variableId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a variable by its unique ID.
      *
      * @param {string} siteId - Site unique ID.
      * @param {string} variableId - Variable unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteVariable(siteId: string, variableId: string): Promise<{}>;
+    deleteVariable(siteId: string, variableId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteVariable(
         paramsOrFirst: { siteId: string, variableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { siteId: string, variableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { siteId: string, variableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 siteId: paramsOrFirst as string,
                 variableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const siteId = params.siteId;
@@ -1849,6 +2077,8 @@ export class Sites {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
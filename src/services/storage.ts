@@ -1,4 +1,5 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type DownloadProgress, type DownloadResult, type RequestOptions } from '../client';
+import type { Readable } from 'stream';
 import type { Models } from '../models';
 
 import { Compression } from '../enums/compression';
@@ -18,35 +19,40 @@ export class Storage {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: enabled, name, fileSecurity, maximumFileSize, encryption, antivirus, transformations
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.BucketList>}
      */
-    listBuckets(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.BucketList>;
+    listBuckets(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.BucketList>;
     /**
      * Get a list of all the storage buckets. You can use the query params to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: enabled, name, fileSecurity, maximumFileSize, encryption, antivirus, transformations
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.BucketList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listBuckets(queries?: string[], search?: string, total?: boolean): Promise<Models.BucketList>;
+    listBuckets(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.BucketList>;
     listBuckets(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.BucketList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -75,6 +81,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -92,10 +100,11 @@ export class Storage {
      * @param {boolean} params.encryption - Is encryption enabled? For file size above 20MB encryption is skipped even if it's enabled
      * @param {boolean} params.antivirus - Is virus scanning enabled? For file size above 20MB AntiVirus scanning is skipped even if it's enabled
      * @param {boolean} params.transformations - Are image transformations enabled?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      */
-    createBucket(params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean  }): Promise<Models.Bucket>;
+    createBucket(params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     /**
      * Create a new storage bucket.
      *
@@ -110,19 +119,22 @@ export class Storage {
      * @param {boolean} encryption - Is encryption enabled? For file size above 20MB encryption is skipped even if it's enabled
      * @param {boolean} antivirus - Is virus scanning enabled? For file size above 20MB AntiVirus scanning is skipped even if it's enabled
      * @param {boolean} transformations - Are image transformations enabled?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createBucket(bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean): Promise<Models.Bucket>;
+    createBucket(bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     createBucket(
         paramsOrFirst: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?, (boolean)?, (number)?, (string[])?, (Compression)?, (boolean)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (boolean)?, (number)?, (string[])?, (Compression)?, (boolean)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Bucket> {
         let params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -137,6 +149,7 @@ export class Storage {
                 antivirus: rest[8] as boolean,
                 transformations: rest[9] as boolean            
             };
+            requestOptions = rest[10] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -204,6 +217,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -211,30 +226,36 @@ export class Storage {
      * Get a storage bucket by its unique ID. This endpoint response returns a JSON object with the storage bucket metadata.
      *
      * @param {string} params.bucketId - Bucket unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      */
-    getBucket(params: { bucketId: string  }): Promise<Models.Bucket>;
+    getBucket(params: { bucketId: string  }, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     /**
      * Get a storage bucket by its unique ID. This endpoint response returns a JSON object with the storage bucket metadata.
      *
      * @param {string} bucketId - Bucket unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getBucket(bucketId: string): Promise<Models.Bucket>;
+    getBucket(bucketId: string, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     getBucket(
-        paramsOrFirst: { bucketId: string } | string    
+        paramsOrFirst: { bucketId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Bucket> {
         let params: { bucketId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -255,6 +276,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -272,10 +295,11 @@ export class Storage {
      * @param {boolean} params.encryption - Is encryption enabled? For file size above 20MB encryption is skipped even if it's enabled
      * @param {boolean} params.antivirus - Is virus scanning enabled? For file size above 20MB AntiVirus scanning is skipped even if it's enabled
      * @param {boolean} params.transformations - Are image transformations enabled?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      */
-    updateBucket(params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean  }): Promise<Models.Bucket>;
+    updateBucket(params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     /**
      * Update a storage bucket by its unique ID.
      *
@@ -290,19 +314,22 @@ export class Storage {
      * @param {boolean} encryption - Is encryption enabled? For file size above 20MB encryption is skipped even if it's enabled
      * @param {boolean} antivirus - Is virus scanning enabled? For file size above 20MB AntiVirus scanning is skipped even if it's enabled
      * @param {boolean} transformations - Are image transformations enabled?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Bucket>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateBucket(bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean): Promise<Models.Bucket>;
+    updateBucket(bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean, requestOptions?: RequestOptions): Promise<Models.Bucket>;
     updateBucket(
         paramsOrFirst: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?, (boolean)?, (number)?, (string[])?, (Compression)?, (boolean)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (boolean)?, (number)?, (string[])?, (Compression)?, (boolean)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Bucket> {
         let params: { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, name: string, permissions?: string[], fileSecurity?: boolean, enabled?: boolean, maximumFileSize?: number, allowedFileExtensions?: string[], compression?: Compression, encryption?: boolean, antivirus?: boolean, transformations?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -317,6 +344,7 @@ export class Storage {
                 antivirus: rest[8] as boolean,
                 transformations: rest[9] as boolean            
             };
+            requestOptions = rest[10] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -381,6 +409,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -388,30 +418,36 @@ export class Storage {
      * Delete a storage bucket by its unique ID.
      *
      * @param {string} params.bucketId - Bucket unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteBucket(params: { bucketId: string  }): Promise<{}>;
+    deleteBucket(params: { bucketId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a storage bucket by its unique ID.
      *
      * @param {string} bucketId - Bucket unique ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteBucket(bucketId: string): Promise<{}>;
+    deleteBucket(bucketId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteBucket(
-        paramsOrFirst: { bucketId: string } | string    
+        paramsOrFirst: { bucketId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { bucketId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -433,6 +469,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -443,10 +481,11 @@ export class Storage {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, signature, mimeType, sizeOriginal, chunksTotal, chunksUploaded
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.FileList>}
      */
-    listFiles(params: { bucketId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.FileList>;
+    listFiles(params: { bucketId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.FileList>;
     /**
      * Get a list of all the user files. You can use the query params to filter your results.
      *
@@ -454,19 +493,22 @@ export class Storage {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, signature, mimeType, sizeOriginal, chunksTotal, chunksUploaded
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.FileList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listFiles(bucketId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.FileList>;
+    listFiles(bucketId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.FileList>;
     listFiles(
         paramsOrFirst: { bucketId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.FileList> {
         let params: { bucketId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -474,6 +516,7 @@ export class Storage {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -506,6 +549,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -523,10 +568,11 @@ export class Storage {
      * @param {string} params.fileId - File ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {File} params.file - Binary file. Appwrite SDKs provide helpers to handle file input. [Learn about file input](https://appwrite.io/docs/products/storage/upload-download#input-file).
      * @param {string[]} params.permissions - An array of permission strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      */
-    createFile(params: { bucketId: string, fileId: string, file: File, permissions?: string[] , onProgress?: (progress: UploadProgress) => void }): Promise<Models.File>;
+    createFile(params: { bucketId: string, fileId: string, file: File, permissions?: string[] , onProgress?: (progress: UploadProgress) => void }, requestOptions?: RequestOptions): Promise<Models.File>;
     /**
      * Create a new file. Before using this route, you should create a new bucket resource using either a [server integration](https://appwrite.io/docs/server/storage#storageCreateBucket) API or directly from your Appwrite console.
      * 
@@ -541,21 +587,24 @@ export class Storage {
      * @param {string} fileId - File ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {File} file - Binary file. Appwrite SDKs provide helpers to handle file input. [Learn about file input](https://appwrite.io/docs/products/storage/upload-download#input-file).
      * @param {string[]} permissions - An array of permission strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFile(bucketId: string, fileId: string, file: File, permissions?: string[], onProgress?: (progress: UploadProgress) => void): Promise<Models.File>;
+    createFile(bucketId: string, fileId: string, file: File, permissions?: string[], onProgress?: (progress: UploadProgress) => void, requestOptions?: RequestOptions): Promise<Models.File>;
     createFile(
         paramsOrFirst: { bucketId: string, fileId: string, file: File, permissions?: string[], onProgress?: (progress: UploadProgress) => void  } | string,
-        ...rest: [(string)?, (File)?, (string[])?,((progress: UploadProgress) => void)?]    
+        ...rest: [(string | RequestOptions)?, (File)?, (string[])?, ((progress: UploadProgress) => void)?, (RequestOptions)?]    
     ): Promise<Models.File> {
         let params: { bucketId: string, fileId: string, file: File, permissions?: string[] };
         let onProgress: ((progress: UploadProgress) => void);
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, file: File, permissions?: string[] };
             onProgress = paramsOrFirst?.onProgress as ((progress: UploadProgress) => void);
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -564,6 +613,7 @@ export class Storage {
                 permissions: rest[2] as string[]            
             };
             onProgress = rest[3] as ((progress: UploadProgress) => void);
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -603,7 +653,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
-            onProgress
+            onProgress,
+            requestOptions,
         );
     }
 
@@ -612,33 +663,38 @@ export class Storage {
      *
      * @param {string} params.bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} params.fileId - File ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      */
-    getFile(params: { bucketId: string, fileId: string  }): Promise<Models.File>;
+    getFile(params: { bucketId: string, fileId: string  }, requestOptions?: RequestOptions): Promise<Models.File>;
     /**
      * Get a file by its unique ID. This endpoint response returns a JSON object with the file metadata.
      *
      * @param {string} bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} fileId - File ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFile(bucketId: string, fileId: string): Promise<Models.File>;
+    getFile(bucketId: string, fileId: string, requestOptions?: RequestOptions): Promise<Models.File>;
     getFile(
         paramsOrFirst: { bucketId: string, fileId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.File> {
         let params: { bucketId: string, fileId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
                 fileId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -663,6 +719,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -673,10 +731,11 @@ export class Storage {
      * @param {string} params.fileId - File unique ID.
      * @param {string} params.name - Name of the file
      * @param {string[]} params.permissions - An array of permission string. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      */
-    updateFile(params: { bucketId: string, fileId: string, name?: string, permissions?: string[]  }): Promise<Models.File>;
+    updateFile(params: { bucketId: string, fileId: string, name?: string, permissions?: string[]  }, requestOptions?: RequestOptions): Promise<Models.File>;
     /**
      * Update a file by its unique ID. Only users with write permissions have access to update this resource.
      *
@@ -684,19 +743,22 @@ export class Storage {
      * @param {string} fileId - File unique ID.
      * @param {string} name - Name of the file
      * @param {string[]} permissions - An array of permission string. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.File>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFile(bucketId: string, fileId: string, name?: string, permissions?: string[]): Promise<Models.File>;
+    updateFile(bucketId: string, fileId: string, name?: string, permissions?: string[], requestOptions?: RequestOptions): Promise<Models.File>;
     updateFile(
         paramsOrFirst: { bucketId: string, fileId: string, name?: string, permissions?: string[] } | string,
-        ...rest: [(string)?, (string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.File> {
         let params: { bucketId: string, fileId: string, name?: string, permissions?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, name?: string, permissions?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -704,6 +766,7 @@ export class Storage {
                 name: rest[1] as string,
                 permissions: rest[2] as string[]            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -737,6 +800,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -745,33 +810,38 @@ export class Storage {
      *
      * @param {string} params.bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} params.fileId - File ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteFile(params: { bucketId: string, fileId: string  }): Promise<{}>;
+    deleteFile(params: { bucketId: string, fileId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a file by its unique ID. Only users with write permissions have access to delete this resource.
      *
      * @param {string} bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} fileId - File ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteFile(bucketId: string, fileId: string): Promise<{}>;
+    deleteFile(bucketId: string, fileId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteFile(
         paramsOrFirst: { bucketId: string, fileId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { bucketId: string, fileId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
                 fileId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -797,6 +867,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -806,35 +878,40 @@ export class Storage {
      * @param {string} params.bucketId - Storage bucket ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} params.fileId - File ID.
      * @param {string} params.token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getFileDownload(params: { bucketId: string, fileId: string, token?: string  }): Promise<ArrayBuffer>;
+    getFileDownload(params: { bucketId: string, fileId: string, token?: string  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Get a file content by its unique ID. The endpoint response return with a 'Content-Disposition: attachment' header that tells the browser to start downloading the file to user downloads directory.
      *
      * @param {string} bucketId - Storage bucket ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} fileId - File ID.
      * @param {string} token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFileDownload(bucketId: string, fileId: string, token?: string): Promise<ArrayBuffer>;
+    getFileDownload(bucketId: string, fileId: string, token?: string, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getFileDownload(
         paramsOrFirst: { bucketId: string, fileId: string, token?: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { bucketId: string, fileId: string, token?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, token?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
                 fileId: rest[0] as string,
                 token: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -863,7 +940,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -884,10 +962,11 @@ export class Storage {
      * @param {string} params.background - Preview image background color. Only works with transparent images (png). Use a valid HEX color, no # is needed for prefix.
      * @param {ImageFormat} params.output - Output format type (jpeg, jpg, png, gif and webp).
      * @param {string} params.token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getFilePreview(params: { bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string  }): Promise<ArrayBuffer>;
+    getFilePreview(params: { bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Get a file preview image. Currently, this method supports preview for image files (jpg, png, and gif), other supported formats, like pdf, docs, slides, and spreadsheets, will return the file icon image. You can also pass query string arguments for cutting and resizing your preview image. Preview is supported only for image files smaller than 10MB.
      *
@@ -905,19 +984,22 @@ export class Storage {
      * @param {string} background - Preview image background color. Only works with transparent images (png). Use a valid HEX color, no # is needed for prefix.
      * @param {ImageFormat} output - Output format type (jpeg, jpg, png, gif and webp).
      * @param {string} token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFilePreview(bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string): Promise<ArrayBuffer>;
+    getFilePreview(bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getFilePreview(
         paramsOrFirst: { bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string } | string,
-        ...rest: [(string)?, (number)?, (number)?, (ImageGravity)?, (number)?, (number)?, (string)?, (number)?, (number)?, (number)?, (string)?, (ImageFormat)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (number)?, (number)?, (ImageGravity)?, (number)?, (number)?, (string)?, (number)?, (number)?, (number)?, (string)?, (ImageFormat)?, (string)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, width?: number, height?: number, gravity?: ImageGravity, quality?: number, borderWidth?: number, borderColor?: string, borderRadius?: number, opacity?: number, rotation?: number, background?: string, output?: ImageFormat, token?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -935,6 +1017,7 @@ export class Storage {
                 output: rest[11] as ImageFormat,
                 token: rest[12] as string            
             };
+            requestOptions = rest[13] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -1007,7 +1090,8 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
 
@@ -1017,35 +1101,40 @@ export class Storage {
      * @param {string} params.bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} params.fileId - File ID.
      * @param {string} params.token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      */
-    getFileView(params: { bucketId: string, fileId: string, token?: string  }): Promise<ArrayBuffer>;
+    getFileView(params: { bucketId: string, fileId: string, token?: string  }, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     /**
      * Get a file content by its unique ID. This endpoint is similar to the download method but returns with no  'Content-Disposition: attachment' header.
      *
      * @param {string} bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} fileId - File ID.
      * @param {string} token - File token for accessing this file.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<ArrayBuffer>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getFileView(bucketId: string, fileId: string, token?: string): Promise<ArrayBuffer>;
+    getFileView(bucketId: string, fileId: string, token?: string, requestOptions?: RequestOptions): Promise<ArrayBuffer>;
     getFileView(
         paramsOrFirst: { bucketId: string, fileId: string, token?: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<ArrayBuffer> {
         let params: { bucketId: string, fileId: string, token?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, token?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
                 fileId: rest[0] as string,
                 token: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -1074,7 +1163,89 @@ export class Storage {
             uri,
             apiHeaders,
             payload,
-            'arrayBuffer'
+            'arrayBuffer',
+            requestOptions,
         );
     }
+
+    /**
+     * Stream a file content by its unique ID without buffering it in memory. Use `Readable.toWeb()` for a web `ReadableStream`.
+     *
+     * @param {string} params.bucketId - Storage bucket ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
+     * @param {string} params.fileId - File ID.
+     * @param {string} params.token - File token for accessing this file.
+     * @param {number} params.offset - Byte to start from, to continue a partial download.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<Readable>}
+     */
+    getFileDownloadStream(params: { bucketId: string, fileId: string, token?: string, offset?: number, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<Readable> {
+        return this.streamFile('download', params, requestOptions);
+    }
+
+    /**
+     * Stream a file content by its unique ID as it would be displayed in a browser, without buffering it in memory. Use `Readable.toWeb()` for a web `ReadableStream`.
+     *
+     * @param {string} params.bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
+     * @param {string} params.fileId - File ID.
+     * @param {string} params.token - File token for accessing this file.
+     * @param {number} params.offset - Byte to start from, to continue a partial download.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<Readable>}
+     */
+    getFileViewStream(params: { bucketId: string, fileId: string, token?: string, offset?: number, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<Readable> {
+        return this.streamFile('view', params, requestOptions);
+    }
+
+    /**
+     * Download a file content by its unique ID straight to a path on disk. With `resume`, an existing file at the path is kept and only the remaining bytes are requested.
+     *
+     * @param {string} params.bucketId - Storage bucket ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
+     * @param {string} params.fileId - File ID.
+     * @param {string} params.path - Where to write the file.
+     * @param {string} params.token - File token for accessing this file.
+     * @param {boolean} params.resume - Continue a partial download already at the path.
+     * @param {(progress: DownloadProgress) => void} params.onProgress - Called for every chunk received.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<DownloadResult>}
+     */
+    downloadFile(params: { bucketId: string, fileId: string, path: string, token?: string, resume?: boolean, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<DownloadResult> {
+        const { bucketId, fileId, path, token, resume, onProgress } = params || {};
+
+        if (typeof path === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "path"');
+        }
+
+        const { uri, payload } = this.fileRequest('download', bucketId, fileId, token);
+
+        return this.client.downloadToPath('get', uri, {}, payload, path, { ...requestOptions, resume, onProgress });
+    }
+
+    private streamFile(endpoint: 'download' | 'view', params: { bucketId: string, fileId: string, token?: string, offset?: number, onProgress?: (progress: DownloadProgress) => void }, requestOptions?: RequestOptions): Promise<Readable> {
+        const { bucketId, fileId, token, offset, onProgress } = params || {};
+        const { uri, payload } = this.fileRequest(endpoint, bucketId, fileId, token);
+
+        return this.client.download('get', uri, {}, payload, { ...requestOptions, offset, onProgress });
+    }
+
+    private fileRequest(endpoint: 'download' | 'view', bucketId: string, fileId: string, token?: string): { uri: URL, payload: Payload } {
+        if (typeof bucketId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "bucketId"');
+        }
+        if (typeof fileId === 'undefined') {
+            throw new AppwriteException('Missing required parameter: "fileId"');
+        }
+
+        const apiPath = '/storage/buckets/{bucketId}/files/{fileId}/{endpoint}'.replace('{bucketId}', bucketId).replace('{fileId}', fileId).replace('{endpoint}', endpoint);
+        const payload: Payload = {};
+        if (typeof token !== 'undefined') {
+            payload['token'] = token;
+        }
+
+        return { uri: new URL(this.client.config.endpoint + apiPath), payload };
+    }
 }
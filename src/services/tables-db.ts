@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { RelationshipType } from '../enums/relationship-type';
@@ -18,35 +18,40 @@ export class TablesDB {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: name
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DatabaseList>}
      */
-    list(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.DatabaseList>;
+    list(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.DatabaseList>;
     /**
      * Get a list of all databases from the current Appwrite project. You can use the search parameter to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: name
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.DatabaseList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list(queries?: string[], search?: string, total?: boolean): Promise<Models.DatabaseList>;
+    list(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.DatabaseList>;
     list(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.DatabaseList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -75,6 +80,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -85,10 +92,11 @@ export class TablesDB {
      * @param {string} params.databaseId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.name - Database name. Max length: 128 chars.
      * @param {boolean} params.enabled - Is the database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      */
-    create(params: { databaseId: string, name: string, enabled?: boolean  }): Promise<Models.Database>;
+    create(params: { databaseId: string, name: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Create a new Database.
      * 
@@ -96,25 +104,29 @@ export class TablesDB {
      * @param {string} databaseId - Unique Id. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} name - Database name. Max length: 128 chars.
      * @param {boolean} enabled - Is the database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create(databaseId: string, name: string, enabled?: boolean): Promise<Models.Database>;
+    create(databaseId: string, name: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Database>;
     create(
         paramsOrFirst: { databaseId: string, name: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Database> {
         let params: { databaseId: string, name: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, name: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 name: rest[0] as string,
                 enabled: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -150,6 +162,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -157,30 +171,36 @@ export class TablesDB {
      * List transactions across all databases.
      *
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TransactionList>}
      */
-    listTransactions(params?: { queries?: string[]  }): Promise<Models.TransactionList>;
+    listTransactions(params?: { queries?: string[]  }, requestOptions?: RequestOptions): Promise<Models.TransactionList>;
     /**
      * List transactions across all databases.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TransactionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTransactions(queries?: string[]): Promise<Models.TransactionList>;
+    listTransactions(queries?: string[], requestOptions?: RequestOptions): Promise<Models.TransactionList>;
     listTransactions(
-        paramsOrFirst?: { queries?: string[] } | string[]    
+        paramsOrFirst?: { queries?: string[] } | string[],
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.TransactionList> {
         let params: { queries?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[]            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -201,6 +221,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -208,30 +230,36 @@ export class TablesDB {
      * Create a new transaction.
      *
      * @param {number} params.ttl - Seconds before the transaction expires.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    createTransaction(params?: { ttl?: number  }): Promise<Models.Transaction>;
+    createTransaction(params?: { ttl?: number  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Create a new transaction.
      *
      * @param {number} ttl - Seconds before the transaction expires.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTransaction(ttl?: number): Promise<Models.Transaction>;
+    createTransaction(ttl?: number, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     createTransaction(
-        paramsOrFirst?: { ttl?: number } | number    
+        paramsOrFirst?: { ttl?: number } | number,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Transaction> {
         let params: { ttl?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { ttl?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 ttl: paramsOrFirst as number            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const ttl = params.ttl;
@@ -253,6 +281,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -260,30 +290,36 @@ export class TablesDB {
      * Get a transaction by its unique ID.
      *
      * @param {string} params.transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    getTransaction(params: { transactionId: string  }): Promise<Models.Transaction>;
+    getTransaction(params: { transactionId: string  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Get a transaction by its unique ID.
      *
      * @param {string} transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getTransaction(transactionId: string): Promise<Models.Transaction>;
+    getTransaction(transactionId: string, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     getTransaction(
-        paramsOrFirst: { transactionId: string } | string    
+        paramsOrFirst: { transactionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Transaction> {
         let params: { transactionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -304,6 +340,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -313,35 +351,40 @@ export class TablesDB {
      * @param {string} params.transactionId - Transaction ID.
      * @param {boolean} params.commit - Commit transaction?
      * @param {boolean} params.rollback - Rollback transaction?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    updateTransaction(params: { transactionId: string, commit?: boolean, rollback?: boolean  }): Promise<Models.Transaction>;
+    updateTransaction(params: { transactionId: string, commit?: boolean, rollback?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Update a transaction, to either commit or roll back its operations.
      *
      * @param {string} transactionId - Transaction ID.
      * @param {boolean} commit - Commit transaction?
      * @param {boolean} rollback - Rollback transaction?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTransaction(transactionId: string, commit?: boolean, rollback?: boolean): Promise<Models.Transaction>;
+    updateTransaction(transactionId: string, commit?: boolean, rollback?: boolean, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     updateTransaction(
         paramsOrFirst: { transactionId: string, commit?: boolean, rollback?: boolean } | string,
-        ...rest: [(boolean)?, (boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Transaction> {
         let params: { transactionId: string, commit?: boolean, rollback?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string, commit?: boolean, rollback?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string,
                 commit: rest[0] as boolean,
                 rollback: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -371,6 +414,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -378,30 +423,36 @@ export class TablesDB {
      * Delete a transaction by its unique ID.
      *
      * @param {string} params.transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteTransaction(params: { transactionId: string  }): Promise<{}>;
+    deleteTransaction(params: { transactionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a transaction by its unique ID.
      *
      * @param {string} transactionId - Transaction ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteTransaction(transactionId: string): Promise<{}>;
+    deleteTransaction(transactionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteTransaction(
-        paramsOrFirst: { transactionId: string } | string    
+        paramsOrFirst: { transactionId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { transactionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -423,6 +474,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -431,33 +484,38 @@ export class TablesDB {
      *
      * @param {string} params.transactionId - Transaction ID.
      * @param {object[]} params.operations - Array of staged operations.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      */
-    createOperations(params: { transactionId: string, operations?: object[]  }): Promise<Models.Transaction>;
+    createOperations(params: { transactionId: string, operations?: object[]  }, requestOptions?: RequestOptions): Promise<Models.Transaction>;
     /**
      * Create multiple operations in a single transaction.
      *
      * @param {string} transactionId - Transaction ID.
      * @param {object[]} operations - Array of staged operations.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Transaction>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createOperations(transactionId: string, operations?: object[]): Promise<Models.Transaction>;
+    createOperations(transactionId: string, operations?: object[], requestOptions?: RequestOptions): Promise<Models.Transaction>;
     createOperations(
         paramsOrFirst: { transactionId: string, operations?: object[] } | string,
-        ...rest: [(object[])?]    
+        ...rest: [(object[] | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Transaction> {
         let params: { transactionId: string, operations?: object[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { transactionId: string, operations?: object[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 transactionId: paramsOrFirst as string,
                 operations: rest[0] as object[]            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const transactionId = params.transactionId;
@@ -483,6 +541,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -490,30 +550,36 @@ export class TablesDB {
      * Get a database by its unique ID. This endpoint response returns a JSON object with the database metadata.
      *
      * @param {string} params.databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      */
-    get(params: { databaseId: string  }): Promise<Models.Database>;
+    get(params: { databaseId: string  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Get a database by its unique ID. This endpoint response returns a JSON object with the database metadata.
      *
      * @param {string} databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get(databaseId: string): Promise<Models.Database>;
+    get(databaseId: string, requestOptions?: RequestOptions): Promise<Models.Database>;
     get(
-        paramsOrFirst: { databaseId: string } | string    
+        paramsOrFirst: { databaseId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Database> {
         let params: { databaseId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -534,6 +600,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -543,35 +611,40 @@ export class TablesDB {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.name - Database name. Max length: 128 chars.
      * @param {boolean} params.enabled - Is database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      */
-    update(params: { databaseId: string, name: string, enabled?: boolean  }): Promise<Models.Database>;
+    update(params: { databaseId: string, name: string, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Database>;
     /**
      * Update a database by its unique ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} name - Database name. Max length: 128 chars.
      * @param {boolean} enabled - Is database enabled? When set to 'disabled', users cannot access the database but Server SDKs with an API key can still read and write to the database. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Database>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    update(databaseId: string, name: string, enabled?: boolean): Promise<Models.Database>;
+    update(databaseId: string, name: string, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Database>;
     update(
         paramsOrFirst: { databaseId: string, name: string, enabled?: boolean } | string,
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Database> {
         let params: { databaseId: string, name: string, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, name: string, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 name: rest[0] as string,
                 enabled: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -604,6 +677,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -611,30 +686,36 @@ export class TablesDB {
      * Delete a database by its unique ID. Only API keys with with databases.write scope can delete a database.
      *
      * @param {string} params.databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { databaseId: string  }): Promise<{}>;
+    delete(params: { databaseId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a database by its unique ID. Only API keys with with databases.write scope can delete a database.
      *
      * @param {string} databaseId - Database ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(databaseId: string): Promise<{}>;
+    delete(databaseId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { databaseId: string } | string    
+        paramsOrFirst: { databaseId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { databaseId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -656,6 +737,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -666,10 +749,11 @@ export class TablesDB {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: name, enabled, rowSecurity
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TableList>}
      */
-    listTables(params: { databaseId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.TableList>;
+    listTables(params: { databaseId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.TableList>;
     /**
      * Get a list of all tables that belong to the provided databaseId. You can use the search parameter to filter your results.
      *
@@ -677,19 +761,22 @@ export class TablesDB {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: name, enabled, rowSecurity
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TableList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTables(databaseId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.TableList>;
+    listTables(databaseId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.TableList>;
     listTables(
         paramsOrFirst: { databaseId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.TableList> {
         let params: { databaseId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -697,6 +784,7 @@ export class TablesDB {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -729,6 +817,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -743,10 +833,11 @@ export class TablesDB {
      * @param {boolean} params.enabled - Is table enabled? When set to 'disabled', users cannot access the table but Server SDKs with and API key can still read and write to the table. No data is lost when this is toggled.
      * @param {object[]} params.columns - Array of column definitions to create. Each column should contain: key (string), type (string: string, integer, float, boolean, datetime, relationship), size (integer, required for string type), required (boolean, optional), default (mixed, optional), array (boolean, optional), and type-specific options.
      * @param {object[]} params.indexes - Array of index definitions to create. Each index should contain: key (string), type (string: key, fulltext, unique, spatial), attributes (array of column keys), orders (array of ASC/DESC, optional), and lengths (array of integers, optional).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      */
-    createTable(params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[]  }): Promise<Models.Table>;
+    createTable(params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[]  }, requestOptions?: RequestOptions): Promise<Models.Table>;
     /**
      * Create a new Table. Before using this route, you should create a new database resource using either a [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable) API or directly from your database console.
      *
@@ -758,19 +849,22 @@ export class TablesDB {
      * @param {boolean} enabled - Is table enabled? When set to 'disabled', users cannot access the table but Server SDKs with and API key can still read and write to the table. No data is lost when this is toggled.
      * @param {object[]} columns - Array of column definitions to create. Each column should contain: key (string), type (string: string, integer, float, boolean, datetime, relationship), size (integer, required for string type), required (boolean, optional), default (mixed, optional), array (boolean, optional), and type-specific options.
      * @param {object[]} indexes - Array of index definitions to create. Each index should contain: key (string), type (string: key, fulltext, unique, spatial), attributes (array of column keys), orders (array of ASC/DESC, optional), and lengths (array of integers, optional).
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTable(databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[]): Promise<Models.Table>;
+    createTable(databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[], requestOptions?: RequestOptions): Promise<Models.Table>;
     createTable(
         paramsOrFirst: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[] } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (boolean)?, (object[])?, (object[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (boolean)?, (object[])?, (object[])?, (RequestOptions)?]    
     ): Promise<Models.Table> {
         let params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, columns?: object[], indexes?: object[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -782,6 +876,7 @@ export class TablesDB {
                 columns: rest[5] as object[],
                 indexes: rest[6] as object[]            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -837,6 +932,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -845,33 +942,38 @@ export class TablesDB {
      *
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      */
-    getTable(params: { databaseId: string, tableId: string  }): Promise<Models.Table>;
+    getTable(params: { databaseId: string, tableId: string  }, requestOptions?: RequestOptions): Promise<Models.Table>;
     /**
      * Get a table by its unique ID. This endpoint response returns a JSON object with the table metadata.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getTable(databaseId: string, tableId: string): Promise<Models.Table>;
+    getTable(databaseId: string, tableId: string, requestOptions?: RequestOptions): Promise<Models.Table>;
     getTable(
         paramsOrFirst: { databaseId: string, tableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Table> {
         let params: { databaseId: string, tableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -896,6 +998,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -908,10 +1012,11 @@ export class TablesDB {
      * @param {string[]} params.permissions - An array of permission strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} params.rowSecurity - Enables configuring permissions for individual rows. A user needs one of row or table-level permissions to access a row. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} params.enabled - Is table enabled? When set to 'disabled', users cannot access the table but Server SDKs with and API key can still read and write to the table. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      */
-    updateTable(params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean  }): Promise<Models.Table>;
+    updateTable(params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean  }, requestOptions?: RequestOptions): Promise<Models.Table>;
     /**
      * Update a table by its unique ID.
      *
@@ -921,19 +1026,22 @@ export class TablesDB {
      * @param {string[]} permissions - An array of permission strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} rowSecurity - Enables configuring permissions for individual rows. A user needs one of row or table-level permissions to access a row. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {boolean} enabled - Is table enabled? When set to 'disabled', users cannot access the table but Server SDKs with and API key can still read and write to the table. No data is lost when this is toggled.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Table>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTable(databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean): Promise<Models.Table>;
+    updateTable(databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean, requestOptions?: RequestOptions): Promise<Models.Table>;
     updateTable(
         paramsOrFirst: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.Table> {
         let params: { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, name: string, permissions?: string[], rowSecurity?: boolean, enabled?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -943,6 +1051,7 @@ export class TablesDB {
                 rowSecurity: rest[3] as boolean,
                 enabled: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -987,6 +1096,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -995,33 +1106,38 @@ export class TablesDB {
      *
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteTable(params: { databaseId: string, tableId: string  }): Promise<{}>;
+    deleteTable(params: { databaseId: string, tableId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a table by its unique ID. Only users with write permissions have access to delete this resource.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteTable(databaseId: string, tableId: string): Promise<{}>;
+    deleteTable(databaseId: string, tableId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteTable(
         paramsOrFirst: { databaseId: string, tableId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, tableId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1047,6 +1163,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1057,10 +1175,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: key, type, size, required, array, status, error
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnList>}
      */
-    listColumns(params: { databaseId: string, tableId: string, queries?: string[], total?: boolean  }): Promise<Models.ColumnList>;
+    listColumns(params: { databaseId: string, tableId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnList>;
     /**
      * List columns in the table.
      *
@@ -1068,19 +1187,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: key, type, size, required, array, status, error
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listColumns(databaseId: string, tableId: string, queries?: string[], total?: boolean): Promise<Models.ColumnList>;
+    listColumns(databaseId: string, tableId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnList>;
     listColumns(
         paramsOrFirst: { databaseId: string, tableId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnList> {
         let params: { databaseId: string, tableId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1088,6 +1210,7 @@ export class TablesDB {
                 queries: rest[1] as string[],
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1120,6 +1243,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1133,10 +1258,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {boolean} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnBoolean>}
      */
-    createBooleanColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean  }): Promise<Models.ColumnBoolean>;
+    createBooleanColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnBoolean>;
     /**
      * Create a boolean column.
      * 
@@ -1147,19 +1273,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {boolean} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnBoolean>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createBooleanColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean): Promise<Models.ColumnBoolean>;
+    createBooleanColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnBoolean>;
     createBooleanColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnBoolean> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1169,6 +1298,7 @@ export class TablesDB {
                 xdefault: rest[3] as boolean,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1216,6 +1346,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1228,10 +1360,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {boolean} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnBoolean>}
      */
-    updateBooleanColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string  }): Promise<Models.ColumnBoolean>;
+    updateBooleanColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnBoolean>;
     /**
      * Update a boolean column. Changing the `default` value will not update already existing rows.
      *
@@ -1241,19 +1374,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {boolean} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnBoolean>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateBooleanColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string): Promise<Models.ColumnBoolean>;
+    updateBooleanColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnBoolean>;
     updateBooleanColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (boolean)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (boolean)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnBoolean> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: boolean, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1263,6 +1399,7 @@ export class TablesDB {
                 xdefault: rest[3] as boolean,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1310,6 +1447,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1322,10 +1461,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for the column in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnDatetime>}
      */
-    createDatetimeColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.ColumnDatetime>;
+    createDatetimeColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnDatetime>;
     /**
      * Create a date time column according to the ISO 8601 standard.
      *
@@ -1335,19 +1475,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for the column in [ISO 8601](https://www.iso.org/iso-8601-date-and-time-format.html) format. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnDatetime>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createDatetimeColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.ColumnDatetime>;
+    createDatetimeColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnDatetime>;
     createDatetimeColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnDatetime> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1357,6 +1500,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1404,6 +1548,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1416,10 +1562,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnDatetime>}
      */
-    updateDatetimeColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.ColumnDatetime>;
+    updateDatetimeColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnDatetime>;
     /**
      * Update a date time column. Changing the `default` value will not update already existing rows.
      *
@@ -1429,19 +1576,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnDatetime>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateDatetimeColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.ColumnDatetime>;
+    updateDatetimeColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnDatetime>;
     updateDatetimeColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnDatetime> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1451,6 +1601,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1498,6 +1649,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1511,10 +1664,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEmail>}
      */
-    createEmailColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.ColumnEmail>;
+    createEmailColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnEmail>;
     /**
      * Create an email column.
      * 
@@ -1525,19 +1679,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEmail>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEmailColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.ColumnEmail>;
+    createEmailColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnEmail>;
     createEmailColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnEmail> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1547,6 +1704,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1594,6 +1752,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1607,10 +1767,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEmail>}
      */
-    updateEmailColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.ColumnEmail>;
+    updateEmailColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnEmail>;
     /**
      * Update an email column. Changing the `default` value will not update already existing rows.
      * 
@@ -1621,19 +1782,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEmail>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmailColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.ColumnEmail>;
+    updateEmailColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnEmail>;
     updateEmailColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnEmail> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1643,6 +1807,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1690,6 +1855,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1703,10 +1870,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEnum>}
      */
-    createEnumColumn(params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.ColumnEnum>;
+    createEnumColumn(params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnEnum>;
     /**
      * Create an enumeration column. The `elements` param acts as a white-list of accepted values for this column.
      *
@@ -1717,19 +1885,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEnum>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createEnumColumn(databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean): Promise<Models.ColumnEnum>;
+    createEnumColumn(databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnEnum>;
     createEnumColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnEnum> {
         let params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1740,6 +1911,7 @@ export class TablesDB {
                 xdefault: rest[4] as string,
                 array: rest[5] as boolean            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1794,6 +1966,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1808,10 +1982,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEnum>}
      */
-    updateEnumColumn(params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.ColumnEnum>;
+    updateEnumColumn(params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnEnum>;
     /**
      * Update an enum column. Changing the `default` value will not update already existing rows.
      * 
@@ -1823,19 +1998,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnEnum>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEnumColumn(databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string): Promise<Models.ColumnEnum>;
+    updateEnumColumn(databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnEnum>;
     updateEnumColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnEnum> {
         let params: { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, elements: string[], required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1846,6 +2024,7 @@ export class TablesDB {
                 xdefault: rest[4] as string,
                 newKey: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -1900,6 +2079,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1915,10 +2096,11 @@ export class TablesDB {
      * @param {number} params.max - Maximum value
      * @param {number} params.xdefault - Default value. Cannot be set when required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnFloat>}
      */
-    createFloatColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }): Promise<Models.ColumnFloat>;
+    createFloatColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnFloat>;
     /**
      * Create a float column. Optionally, minimum and maximum values can be provided.
      * 
@@ -1931,19 +2113,22 @@ export class TablesDB {
      * @param {number} max - Maximum value
      * @param {number} xdefault - Default value. Cannot be set when required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnFloat>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFloatColumn(databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean): Promise<Models.ColumnFloat>;
+    createFloatColumn(databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnFloat>;
     createFloatColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnFloat> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -1955,6 +2140,7 @@ export class TablesDB {
                 xdefault: rest[5] as number,
                 array: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2010,6 +2196,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2025,10 +2213,11 @@ export class TablesDB {
      * @param {number} params.min - Minimum value
      * @param {number} params.max - Maximum value
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnFloat>}
      */
-    updateFloatColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }): Promise<Models.ColumnFloat>;
+    updateFloatColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnFloat>;
     /**
      * Update a float column. Changing the `default` value will not update already existing rows.
      * 
@@ -2041,19 +2230,22 @@ export class TablesDB {
      * @param {number} min - Minimum value
      * @param {number} max - Maximum value
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnFloat>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateFloatColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string): Promise<Models.ColumnFloat>;
+    updateFloatColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnFloat>;
     updateFloatColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnFloat> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2065,6 +2257,7 @@ export class TablesDB {
                 max: rest[5] as number,
                 newKey: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2120,6 +2313,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2135,10 +2330,11 @@ export class TablesDB {
      * @param {number} params.max - Maximum value
      * @param {number} params.xdefault - Default value. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnInteger>}
      */
-    createIntegerColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }): Promise<Models.ColumnInteger>;
+    createIntegerColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnInteger>;
     /**
      * Create an integer column. Optionally, minimum and maximum values can be provided.
      * 
@@ -2151,19 +2347,22 @@ export class TablesDB {
      * @param {number} max - Maximum value
      * @param {number} xdefault - Default value. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnInteger>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIntegerColumn(databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean): Promise<Models.ColumnInteger>;
+    createIntegerColumn(databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnInteger>;
     createIntegerColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnInteger> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, min?: number, max?: number, xdefault?: number, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2175,6 +2374,7 @@ export class TablesDB {
                 xdefault: rest[5] as number,
                 array: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2230,6 +2430,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2245,10 +2447,11 @@ export class TablesDB {
      * @param {number} params.min - Minimum value
      * @param {number} params.max - Maximum value
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnInteger>}
      */
-    updateIntegerColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }): Promise<Models.ColumnInteger>;
+    updateIntegerColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnInteger>;
     /**
      * Update an integer column. Changing the `default` value will not update already existing rows.
      * 
@@ -2261,19 +2464,22 @@ export class TablesDB {
      * @param {number} min - Minimum value
      * @param {number} max - Maximum value
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnInteger>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateIntegerColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string): Promise<Models.ColumnInteger>;
+    updateIntegerColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnInteger>;
     updateIntegerColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (number)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnInteger> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: number, min?: number, max?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2285,6 +2491,7 @@ export class TablesDB {
                 max: rest[5] as number,
                 newKey: rest[6] as string            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2340,6 +2547,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2353,10 +2562,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIp>}
      */
-    createIpColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.ColumnIp>;
+    createIpColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnIp>;
     /**
      * Create IP address column.
      * 
@@ -2367,19 +2577,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIp>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIpColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.ColumnIp>;
+    createIpColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnIp>;
     createIpColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnIp> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2389,6 +2602,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2436,6 +2650,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2449,10 +2665,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIp>}
      */
-    updateIpColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.ColumnIp>;
+    updateIpColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnIp>;
     /**
      * Update an ip column. Changing the `default` value will not update already existing rows.
      * 
@@ -2463,19 +2680,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIp>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateIpColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.ColumnIp>;
+    updateIpColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnIp>;
     updateIpColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnIp> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2485,6 +2705,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2532,6 +2753,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2543,10 +2766,11 @@ export class TablesDB {
      * @param {string} params.key - Column Key.
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnLine>}
      */
-    createLineColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.ColumnLine>;
+    createLineColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.ColumnLine>;
     /**
      * Create a geometric line column.
      *
@@ -2555,19 +2779,22 @@ export class TablesDB {
      * @param {string} key - Column Key.
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnLine>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createLineColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.ColumnLine>;
+    createLineColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.ColumnLine>;
     createLineColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.ColumnLine> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2576,6 +2803,7 @@ export class TablesDB {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2619,6 +2847,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2631,10 +2861,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnLine>}
      */
-    updateLineColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.ColumnLine>;
+    updateLineColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnLine>;
     /**
      * Update a line column. Changing the `default` value will not update already existing rows.
      *
@@ -2644,19 +2875,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, two-dimensional array of coordinate pairs, [[longitude, latitude], [longitude, latitude], …], listing the vertices of the line in order. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnLine>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateLineColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.ColumnLine>;
+    updateLineColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnLine>;
     updateLineColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnLine> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2666,6 +2900,7 @@ export class TablesDB {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2710,6 +2945,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2721,10 +2958,11 @@ export class TablesDB {
      * @param {string} params.key - Column Key.
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPoint>}
      */
-    createPointColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.ColumnPoint>;
+    createPointColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.ColumnPoint>;
     /**
      * Create a geometric point column.
      *
@@ -2733,19 +2971,22 @@ export class TablesDB {
      * @param {string} key - Column Key.
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPoint>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPointColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.ColumnPoint>;
+    createPointColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.ColumnPoint>;
     createPointColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.ColumnPoint> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2754,6 +2995,7 @@ export class TablesDB {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2797,6 +3039,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2809,10 +3053,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPoint>}
      */
-    updatePointColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.ColumnPoint>;
+    updatePointColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnPoint>;
     /**
      * Update a point column. Changing the `default` value will not update already existing rows.
      *
@@ -2822,19 +3067,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, array of two numbers [longitude, latitude], representing a single coordinate. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPoint>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePointColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.ColumnPoint>;
+    updatePointColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnPoint>;
     updatePointColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnPoint> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2844,6 +3092,7 @@ export class TablesDB {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2888,6 +3137,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2899,10 +3150,11 @@ export class TablesDB {
      * @param {string} params.key - Column Key.
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPolygon>}
      */
-    createPolygonColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }): Promise<Models.ColumnPolygon>;
+    createPolygonColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]  }, requestOptions?: RequestOptions): Promise<Models.ColumnPolygon>;
     /**
      * Create a geometric polygon column.
      *
@@ -2911,19 +3163,22 @@ export class TablesDB {
      * @param {string} key - Column Key.
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when column is required.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPolygon>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPolygonColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[]): Promise<Models.ColumnPolygon>;
+    createPolygonColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], requestOptions?: RequestOptions): Promise<Models.ColumnPolygon>;
     createPolygonColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (RequestOptions)?]    
     ): Promise<Models.ColumnPolygon> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -2932,6 +3187,7 @@ export class TablesDB {
                 required: rest[2] as boolean,
                 xdefault: rest[3] as any[]            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -2975,6 +3231,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2987,10 +3245,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {any[]} params.xdefault - Default value for column when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPolygon>}
      */
-    updatePolygonColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }): Promise<Models.ColumnPolygon>;
+    updatePolygonColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnPolygon>;
     /**
      * Update a polygon column. Changing the `default` value will not update already existing rows.
      *
@@ -3000,19 +3259,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {any[]} xdefault - Default value for column when not provided, three-dimensional array where the outer array holds one or more linear rings, [[[longitude, latitude], …], …], the first ring is the exterior boundary, any additional rings are interior holes, and each ring must start and end with the same coordinate pair. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnPolygon>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePolygonColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string): Promise<Models.ColumnPolygon>;
+    updatePolygonColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnPolygon>;
     updatePolygonColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (any[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (any[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnPolygon> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: any[], newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3022,6 +3284,7 @@ export class TablesDB {
                 xdefault: rest[3] as any[],
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3066,6 +3329,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3081,10 +3346,11 @@ export class TablesDB {
      * @param {string} params.key - Column Key.
      * @param {string} params.twoWayKey - Two Way Column Key.
      * @param {RelationMutate} params.onDelete - Constraints option
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnRelationship>}
      */
-    createRelationshipColumn(params: { databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate  }): Promise<Models.ColumnRelationship>;
+    createRelationshipColumn(params: { databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate  }, requestOptions?: RequestOptions): Promise<Models.ColumnRelationship>;
     /**
      * Create relationship column. [Learn more about relationship columns](https://appwrite.io/docs/databases-relationships#relationship-columns).
      * 
@@ -3097,19 +3363,22 @@ export class TablesDB {
      * @param {string} key - Column Key.
      * @param {string} twoWayKey - Two Way Column Key.
      * @param {RelationMutate} onDelete - Constraints option
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnRelationship>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createRelationshipColumn(databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate): Promise<Models.ColumnRelationship>;
+    createRelationshipColumn(databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate, requestOptions?: RequestOptions): Promise<Models.ColumnRelationship>;
     createRelationshipColumn(
         paramsOrFirst: { databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate } | string,
-        ...rest: [(string)?, (string)?, (RelationshipType)?, (boolean)?, (string)?, (string)?, (RelationMutate)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RelationshipType)?, (boolean)?, (string)?, (string)?, (RelationMutate)?, (RequestOptions)?]    
     ): Promise<Models.ColumnRelationship> {
         let params: { databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, relatedTableId: string, type: RelationshipType, twoWay?: boolean, key?: string, twoWayKey?: string, onDelete?: RelationMutate };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3121,6 +3390,7 @@ export class TablesDB {
                 twoWayKey: rest[5] as string,
                 onDelete: rest[6] as RelationMutate            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3176,6 +3446,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3191,10 +3463,11 @@ export class TablesDB {
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
      * @param {boolean} params.encrypt - Toggle encryption for the column. Encryption enhances security by not storing any plain text values in the database. However, encrypted columns cannot be queried.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnString>}
      */
-    createStringColumn(params: { databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean  }): Promise<Models.ColumnString>;
+    createStringColumn(params: { databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnString>;
     /**
      * Create a string column.
      * 
@@ -3207,19 +3480,22 @@ export class TablesDB {
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
      * @param {boolean} encrypt - Toggle encryption for the column. Encryption enhances security by not storing any plain text values in the database. However, encrypted columns cannot be queried.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnString>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createStringColumn(databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean): Promise<Models.ColumnString>;
+    createStringColumn(databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnString>;
     createStringColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean } | string,
-        ...rest: [(string)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (number)?, (boolean)?, (string)?, (boolean)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnString> {
         let params: { databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, size: number, required: boolean, xdefault?: string, array?: boolean, encrypt?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3231,6 +3507,7 @@ export class TablesDB {
                 array: rest[5] as boolean,
                 encrypt: rest[6] as boolean            
             };
+            requestOptions = rest[7] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3289,6 +3566,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3303,10 +3582,11 @@ export class TablesDB {
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {number} params.size - Maximum size of the string column.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnString>}
      */
-    updateStringColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string  }): Promise<Models.ColumnString>;
+    updateStringColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnString>;
     /**
      * Update a string column. Changing the `default` value will not update already existing rows.
      * 
@@ -3318,19 +3598,22 @@ export class TablesDB {
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {number} size - Maximum size of the string column.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnString>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateStringColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string): Promise<Models.ColumnString>;
+    updateStringColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnString>;
     updateStringColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnString> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, size?: number, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3341,6 +3624,7 @@ export class TablesDB {
                 size: rest[4] as number,
                 newKey: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3392,6 +3676,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3405,10 +3691,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} params.array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnUrl>}
      */
-    createUrlColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }): Promise<Models.ColumnUrl>;
+    createUrlColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnUrl>;
     /**
      * Create a URL column.
      * 
@@ -3419,19 +3706,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {boolean} array - Is column an array?
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnUrl>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createUrlColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean): Promise<Models.ColumnUrl>;
+    createUrlColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnUrl>;
     createUrlColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnUrl> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, array?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3441,6 +3731,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 array: rest[4] as boolean            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3488,6 +3779,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3501,10 +3794,11 @@ export class TablesDB {
      * @param {boolean} params.required - Is column required?
      * @param {string} params.xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnUrl>}
      */
-    updateUrlColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }): Promise<Models.ColumnUrl>;
+    updateUrlColumn(params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnUrl>;
     /**
      * Update an url column. Changing the `default` value will not update already existing rows.
      * 
@@ -3515,19 +3809,22 @@ export class TablesDB {
      * @param {boolean} required - Is column required?
      * @param {string} xdefault - Default value for column when not provided. Cannot be set when column is required.
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnUrl>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateUrlColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string): Promise<Models.ColumnUrl>;
+    updateUrlColumn(databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnUrl>;
     updateUrlColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (boolean)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (boolean)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnUrl> {
         let params: { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, required: boolean, xdefault?: string, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3537,6 +3834,7 @@ export class TablesDB {
                 xdefault: rest[3] as string,
                 newKey: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3584,6 +3882,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3593,35 +3893,40 @@ export class TablesDB {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID.
      * @param {string} params.key - Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    getColumn(params: { databaseId: string, tableId: string, key: string  }): Promise<{}>;
+    getColumn(params: { databaseId: string, tableId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Get column by ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID.
      * @param {string} key - Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getColumn(databaseId: string, tableId: string, key: string): Promise<{}>;
+    getColumn(databaseId: string, tableId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     getColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, tableId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3650,6 +3955,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3659,35 +3966,40 @@ export class TablesDB {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID.
      * @param {string} params.key - Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteColumn(params: { databaseId: string, tableId: string, key: string  }): Promise<{}>;
+    deleteColumn(params: { databaseId: string, tableId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Deletes a column.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID.
      * @param {string} key - Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteColumn(databaseId: string, tableId: string, key: string): Promise<{}>;
+    deleteColumn(databaseId: string, tableId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, tableId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3717,6 +4029,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3729,10 +4043,11 @@ export class TablesDB {
      * @param {string} params.key - Column Key.
      * @param {RelationMutate} params.onDelete - Constraints option
      * @param {string} params.newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnRelationship>}
      */
-    updateRelationshipColumn(params: { databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string  }): Promise<Models.ColumnRelationship>;
+    updateRelationshipColumn(params: { databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnRelationship>;
     /**
      * Update relationship column. [Learn more about relationship columns](https://appwrite.io/docs/databases-relationships#relationship-columns).
      * 
@@ -3742,19 +4057,22 @@ export class TablesDB {
      * @param {string} key - Column Key.
      * @param {RelationMutate} onDelete - Constraints option
      * @param {string} newKey - New Column Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnRelationship>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateRelationshipColumn(databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string): Promise<Models.ColumnRelationship>;
+    updateRelationshipColumn(databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string, requestOptions?: RequestOptions): Promise<Models.ColumnRelationship>;
     updateRelationshipColumn(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string } | string,
-        ...rest: [(string)?, (string)?, (RelationMutate)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RelationMutate)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnRelationship> {
         let params: { databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, onDelete?: RelationMutate, newKey?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3763,6 +4081,7 @@ export class TablesDB {
                 onDelete: rest[2] as RelationMutate,
                 newKey: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3800,6 +4119,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3810,10 +4131,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: key, type, status, attributes, error
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndexList>}
      */
-    listIndexes(params: { databaseId: string, tableId: string, queries?: string[], total?: boolean  }): Promise<Models.ColumnIndexList>;
+    listIndexes(params: { databaseId: string, tableId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ColumnIndexList>;
     /**
      * List indexes on the table.
      *
@@ -3821,19 +4143,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following columns: key, type, status, attributes, error
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndexList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listIndexes(databaseId: string, tableId: string, queries?: string[], total?: boolean): Promise<Models.ColumnIndexList>;
+    listIndexes(databaseId: string, tableId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.ColumnIndexList>;
     listIndexes(
         paramsOrFirst: { databaseId: string, tableId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ColumnIndexList> {
         let params: { databaseId: string, tableId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3841,6 +4166,7 @@ export class TablesDB {
                 queries: rest[1] as string[],
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3873,6 +4199,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3887,10 +4215,11 @@ export class TablesDB {
      * @param {string[]} params.columns - Array of columns to index. Maximum of 100 columns are allowed, each 32 characters long.
      * @param {string[]} params.orders - Array of index orders. Maximum of 100 orders are allowed.
      * @param {number[]} params.lengths - Length of index. Maximum of 100
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndex>}
      */
-    createIndex(params: { databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[]  }): Promise<Models.ColumnIndex>;
+    createIndex(params: { databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[]  }, requestOptions?: RequestOptions): Promise<Models.ColumnIndex>;
     /**
      * Creates an index on the columns listed. Your index should include all the columns you will query in a single request.
      * Type can be `key`, `fulltext`, or `unique`.
@@ -3902,19 +4231,22 @@ export class TablesDB {
      * @param {string[]} columns - Array of columns to index. Maximum of 100 columns are allowed, each 32 characters long.
      * @param {string[]} orders - Array of index orders. Maximum of 100 orders are allowed.
      * @param {number[]} lengths - Length of index. Maximum of 100
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndex>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createIndex(databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[]): Promise<Models.ColumnIndex>;
+    createIndex(databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[], requestOptions?: RequestOptions): Promise<Models.ColumnIndex>;
     createIndex(
         paramsOrFirst: { databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[] } | string,
-        ...rest: [(string)?, (string)?, (IndexType)?, (string[])?, (string[])?, (number[])?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (IndexType)?, (string[])?, (string[])?, (number[])?, (RequestOptions)?]    
     ): Promise<Models.ColumnIndex> {
         let params: { databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string, type: IndexType, columns: string[], orders?: string[], lengths?: number[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -3925,6 +4257,7 @@ export class TablesDB {
                 orders: rest[4] as string[],
                 lengths: rest[5] as number[]            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -3979,6 +4312,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3988,35 +4323,40 @@ export class TablesDB {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} params.key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndex>}
      */
-    getIndex(params: { databaseId: string, tableId: string, key: string  }): Promise<Models.ColumnIndex>;
+    getIndex(params: { databaseId: string, tableId: string, key: string  }, requestOptions?: RequestOptions): Promise<Models.ColumnIndex>;
     /**
      * Get index by ID.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ColumnIndex>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getIndex(databaseId: string, tableId: string, key: string): Promise<Models.ColumnIndex>;
+    getIndex(databaseId: string, tableId: string, key: string, requestOptions?: RequestOptions): Promise<Models.ColumnIndex>;
     getIndex(
         paramsOrFirst: { databaseId: string, tableId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ColumnIndex> {
         let params: { databaseId: string, tableId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4045,6 +4385,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4054,35 +4396,40 @@ export class TablesDB {
      * @param {string} params.databaseId - Database ID.
      * @param {string} params.tableId - Table ID. You can create a new table using the TablesDB service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} params.key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteIndex(params: { databaseId: string, tableId: string, key: string  }): Promise<{}>;
+    deleteIndex(params: { databaseId: string, tableId: string, key: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an index.
      *
      * @param {string} databaseId - Database ID.
      * @param {string} tableId - Table ID. You can create a new table using the TablesDB service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} key - Index Key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteIndex(databaseId: string, tableId: string, key: string): Promise<{}>;
+    deleteIndex(databaseId: string, tableId: string, key: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteIndex(
         paramsOrFirst: { databaseId: string, tableId: string, key: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, tableId: string, key: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, key: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
                 tableId: rest[0] as string,
                 key: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4112,6 +4459,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4123,10 +4472,11 @@ export class TablesDB {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID to read uncommitted changes within the transaction.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      */
-    listRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean  }): Promise<Models.RowList<Row>>;
+    listRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     /**
      * Get a list of all the user's rows in a given table. You can use the query params to filter your results.
      *
@@ -4135,19 +4485,22 @@ export class TablesDB {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID to read uncommitted changes within the transaction.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean): Promise<Models.RowList<Row>>;
+    listRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     listRows<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.RowList<Row>> {
         let params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, queries?: string[], transactionId?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4156,6 +4509,7 @@ export class TablesDB {
                 transactionId: rest[2] as string,
                 total: rest[3] as boolean            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4192,6 +4546,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4204,10 +4560,11 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>} params.data - Row data as JSON object.
      * @param {string[]} params.permissions - An array of permissions strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    createRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string  }): Promise<Row>;
+    createRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Create a new Row. Before using this route, you should create a new table resource using either a [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable) API or directly from your database console.
      *
@@ -4217,19 +4574,22 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>} data - Row data as JSON object.
      * @param {string[]} permissions - An array of permissions strings. By default, only the current user is granted all permissions. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string): Promise<Row>;
+    createRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     createRow<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, data: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Omit<Row, keyof Models.Row>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4239,6 +4599,7 @@ export class TablesDB {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4286,6 +4647,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4296,10 +4659,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable). Make sure to define columns before creating rows.
      * @param {object[]} params.rows - Array of rows data as JSON objects.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      */
-    createRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rows: object[], transactionId?: string  }): Promise<Models.RowList<Row>>;
+    createRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rows: object[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     /**
      * Create new Rows. Before using this route, you should create a new table resource using either a [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable) API or directly from your database console.
      *
@@ -4307,19 +4671,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable). Make sure to define columns before creating rows.
      * @param {object[]} rows - Array of rows data as JSON objects.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rows: object[], transactionId?: string): Promise<Models.RowList<Row>>;
+    createRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rows: object[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     createRows<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rows: object[], transactionId?: string } | string,
-        ...rest: [(string)?, (object[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.RowList<Row>> {
         let params: { databaseId: string, tableId: string, rows: object[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rows: object[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4327,6 +4694,7 @@ export class TablesDB {
                 rows: rest[1] as object[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4363,6 +4731,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4374,10 +4744,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID.
      * @param {object[]} params.rows - Array of row data as JSON objects. May contain partial rows.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      */
-    upsertRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rows: object[], transactionId?: string  }): Promise<Models.RowList<Row>>;
+    upsertRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rows: object[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     /**
      * Create or update Rows. Before using this route, you should create a new table resource using either a [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable) API or directly from your database console.
      * 
@@ -4386,19 +4757,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID.
      * @param {object[]} rows - Array of row data as JSON objects. May contain partial rows.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    upsertRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rows: object[], transactionId?: string): Promise<Models.RowList<Row>>;
+    upsertRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rows: object[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     upsertRows<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rows: object[], transactionId?: string } | string,
-        ...rest: [(string)?, (object[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.RowList<Row>> {
         let params: { databaseId: string, tableId: string, rows: object[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rows: object[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4406,6 +4780,7 @@ export class TablesDB {
                 rows: rest[1] as object[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4442,6 +4817,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4453,10 +4830,11 @@ export class TablesDB {
      * @param {object} params.data - Row data as JSON object. Include only column and value pairs to be updated.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      */
-    updateRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string  }): Promise<Models.RowList<Row>>;
+    updateRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     /**
      * Update all rows that match your queries, if no queries are submitted then all rows are updated. You can pass only specific fields to be updated.
      *
@@ -4465,19 +4843,22 @@ export class TablesDB {
      * @param {object} data - Row data as JSON object. Include only column and value pairs to be updated.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string): Promise<Models.RowList<Row>>;
+    updateRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     updateRows<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (object)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (object)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.RowList<Row>> {
         let params: { databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, data?: object, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4486,6 +4867,7 @@ export class TablesDB {
                 queries: rest[2] as string[],
                 transactionId: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4523,6 +4905,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4533,10 +4917,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      */
-    deleteRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string  }): Promise<Models.RowList<Row>>;
+    deleteRows<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     /**
      * Bulk delete rows using queries, if no queries are passed then all rows are deleted.
      *
@@ -4544,19 +4929,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.RowList<Row>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, queries?: string[], transactionId?: string): Promise<Models.RowList<Row>>;
+    deleteRows<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Models.RowList<Row>>;
     deleteRows<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Models.RowList<Row>> {
         let params: { databaseId: string, tableId: string, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4564,6 +4952,7 @@ export class TablesDB {
                 queries: rest[1] as string[],
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4597,6 +4986,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4608,10 +4999,11 @@ export class TablesDB {
      * @param {string} params.rowId - Row ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} params.transactionId - Transaction ID to read uncommitted changes within the transaction.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    getRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string  }): Promise<Row>;
+    getRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Get a row by its unique ID. This endpoint response returns a JSON object with the row data.
      *
@@ -4620,19 +5012,22 @@ export class TablesDB {
      * @param {string} rowId - Row ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long.
      * @param {string} transactionId - Transaction ID to read uncommitted changes within the transaction.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string): Promise<Row>;
+    getRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     getRow<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, queries?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4641,6 +5036,7 @@ export class TablesDB {
                 queries: rest[2] as string[],
                 transactionId: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4677,6 +5073,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4689,10 +5087,11 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>} params.data - Row data as JSON object. Include all required columns of the row to be created or updated.
      * @param {string[]} params.permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    upsertRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string  }): Promise<Row>;
+    upsertRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Create or update a Row. Before using this route, you should create a new table resource using either a [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable) API or directly from your database console.
      *
@@ -4702,19 +5101,22 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>} data - Row data as JSON object. Include all required columns of the row to be created or updated.
      * @param {string[]} permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    upsertRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string): Promise<Row>;
+    upsertRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     upsertRow<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4724,6 +5126,7 @@ export class TablesDB {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4765,6 +5168,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4777,10 +5182,11 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>} params.data - Row data as JSON object. Include only columns and value pairs to be updated.
      * @param {string[]} params.permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    updateRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string  }): Promise<Row>;
+    updateRow<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Update a row by its unique ID. Using the patch method you can pass only specific fields that will get updated.
      *
@@ -4790,19 +5196,22 @@ export class TablesDB {
      * @param {Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>} data - Row data as JSON object. Include only columns and value pairs to be updated.
      * @param {string[]} permissions - An array of permissions strings. By default, the current permissions are inherited. [Learn more about permissions](https://appwrite.io/docs/permissions).
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string): Promise<Row>;
+    updateRow<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     updateRow<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>)?, (string[])?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>)?, (string[])?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, data?: Row extends Models.DefaultRow ? Partial<Models.Row> & Record<string, any> : Partial<Models.Row> & Partial<Omit<Row, keyof Models.Row>>, permissions?: string[], transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4812,6 +5221,7 @@ export class TablesDB {
                 permissions: rest[3] as string[],
                 transactionId: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4853,6 +5263,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4863,10 +5275,11 @@ export class TablesDB {
      * @param {string} params.tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} params.rowId - Row ID.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteRow(params: { databaseId: string, tableId: string, rowId: string, transactionId?: string  }): Promise<{}>;
+    deleteRow(params: { databaseId: string, tableId: string, rowId: string, transactionId?: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a row by its unique ID.
      *
@@ -4874,19 +5287,22 @@ export class TablesDB {
      * @param {string} tableId - Table ID. You can create a new table using the Database service [server integration](https://appwrite.io/docs/references/cloud/server-dart/tablesDB#createTable).
      * @param {string} rowId - Row ID.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteRow(databaseId: string, tableId: string, rowId: string, transactionId?: string): Promise<{}>;
+    deleteRow(databaseId: string, tableId: string, rowId: string, transactionId?: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteRow(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { databaseId: string, tableId: string, rowId: string, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4894,6 +5310,7 @@ export class TablesDB {
                 rowId: rest[1] as string,
                 transactionId: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -4927,6 +5344,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -4940,10 +5359,11 @@ export class TablesDB {
      * @param {number} params.value - Value to increment the column by. The value must be a number.
      * @param {number} params.min - Minimum value for the column. If the current value is lesser than this value, an exception will be thrown.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    decrementRowColumn<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string  }): Promise<Row>;
+    decrementRowColumn<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Decrement a specific column of a row by a given value.
      *
@@ -4954,19 +5374,22 @@ export class TablesDB {
      * @param {number} value - Value to increment the column by. The value must be a number.
      * @param {number} min - Minimum value for the column. If the current value is lesser than this value, an exception will be thrown.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    decrementRowColumn<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string): Promise<Row>;
+    decrementRowColumn<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     decrementRowColumn<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, column: string, value?: number, min?: number, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -4977,6 +5400,7 @@ export class TablesDB {
                 min: rest[4] as number,
                 transactionId: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -5022,6 +5446,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -5035,10 +5461,11 @@ export class TablesDB {
      * @param {number} params.value - Value to increment the column by. The value must be a number.
      * @param {number} params.max - Maximum value for the column. If the current value is greater than this value, an error will be thrown.
      * @param {string} params.transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      */
-    incrementRowColumn<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string  }): Promise<Row>;
+    incrementRowColumn<Row extends Models.Row = Models.DefaultRow>(params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string  }, requestOptions?: RequestOptions): Promise<Row>;
     /**
      * Increment a specific column of a row by a given value.
      *
@@ -5049,19 +5476,22 @@ export class TablesDB {
      * @param {number} value - Value to increment the column by. The value must be a number.
      * @param {number} max - Maximum value for the column. If the current value is greater than this value, an error will be thrown.
      * @param {string} transactionId - Transaction ID for staging the operation.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Row>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    incrementRowColumn<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string): Promise<Row>;
+    incrementRowColumn<Row extends Models.Row = Models.DefaultRow>(databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string, requestOptions?: RequestOptions): Promise<Row>;
     incrementRowColumn<Row extends Models.Row = Models.DefaultRow>(
         paramsOrFirst: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Row> {
         let params: { databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { databaseId: string, tableId: string, rowId: string, column: string, value?: number, max?: number, transactionId?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 databaseId: paramsOrFirst as string,
@@ -5072,6 +5502,7 @@ export class TablesDB {
                 max: rest[4] as number,
                 transactionId: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const databaseId = params.databaseId;
@@ -5117,6 +5548,8 @@ export class TablesDB {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
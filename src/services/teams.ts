@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 
@@ -15,35 +15,40 @@ export class Teams {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, total, billingPlan
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TeamList<Preferences>>}
      */
-    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.TeamList<Preferences>>;
+    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.TeamList<Preferences>>;
     /**
      * Get a list of all the teams in which the current user is a member. You can use the parameters to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, total, billingPlan
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TeamList<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(queries?: string[], search?: string, total?: boolean): Promise<Models.TeamList<Preferences>>;
+    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.TeamList<Preferences>>;
     list<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.TeamList<Preferences>> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -72,6 +77,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -81,35 +88,40 @@ export class Teams {
      * @param {string} params.teamId - Team ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} params.name - Team name. Max length: 128 chars.
      * @param {string[]} params.roles - Array of strings. Use this param to set the roles in the team for the user who created it. The default role is **owner**. A role can be any string. Learn more about [roles and permissions](https://appwrite.io/docs/permissions). Maximum of 100 roles are allowed, each 32 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, name: string, roles?: string[]  }): Promise<Models.Team<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, name: string, roles?: string[]  }, requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     /**
      * Create a new team. The user who creates the team will automatically be assigned as the owner of the team. Only the users with the owner role can invite new members, add new owners and delete or update the team.
      *
      * @param {string} teamId - Team ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
      * @param {string} name - Team name. Max length: 128 chars.
      * @param {string[]} roles - Array of strings. Use this param to set the roles in the team for the user who created it. The default role is **owner**. A role can be any string. Learn more about [roles and permissions](https://appwrite.io/docs/permissions). Maximum of 100 roles are allowed, each 32 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, name: string, roles?: string[]): Promise<Models.Team<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, name: string, roles?: string[], requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     create<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { teamId: string, name: string, roles?: string[] } | string,
-        ...rest: [(string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.Team<Preferences>> {
         let params: { teamId: string, name: string, roles?: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, name: string, roles?: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 name: rest[0] as string,
                 roles: rest[1] as string[]            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -145,6 +157,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -152,30 +166,36 @@ export class Teams {
      * Get a team by its ID. All team members have read access for this resource.
      *
      * @param {string} params.teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      */
-    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string  }): Promise<Models.Team<Preferences>>;
+    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string  }, requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     /**
      * Get a team by its ID. All team members have read access for this resource.
      *
      * @param {string} teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string): Promise<Models.Team<Preferences>>;
+    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     get<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { teamId: string } | string    
+        paramsOrFirst: { teamId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Team<Preferences>> {
         let params: { teamId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -196,6 +216,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -204,33 +226,38 @@ export class Teams {
      *
      * @param {string} params.teamId - Team ID.
      * @param {string} params.name - New team name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, name: string  }): Promise<Models.Team<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, name: string  }, requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     /**
      * Update the team's name by its unique ID.
      *
      * @param {string} teamId - Team ID.
      * @param {string} name - New team name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Team<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, name: string): Promise<Models.Team<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, name: string, requestOptions?: RequestOptions): Promise<Models.Team<Preferences>>;
     updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { teamId: string, name: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Team<Preferences>> {
         let params: { teamId: string, name: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, name: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 name: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -259,6 +286,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -266,30 +295,36 @@ export class Teams {
      * Delete a team using its ID. Only team members with the owner role can delete the team.
      *
      * @param {string} params.teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { teamId: string  }): Promise<{}>;
+    delete(params: { teamId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a team using its ID. Only team members with the owner role can delete the team.
      *
      * @param {string} teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(teamId: string): Promise<{}>;
+    delete(teamId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { teamId: string } | string    
+        paramsOrFirst: { teamId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { teamId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -311,6 +346,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -321,10 +358,11 @@ export class Teams {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, teamId, invited, joined, confirm, roles
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MembershipList>}
      */
-    listMemberships(params: { teamId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.MembershipList>;
+    listMemberships(params: { teamId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.MembershipList>;
     /**
      * Use this endpoint to list a team's members using the team's ID. All team members have read access to this endpoint. Hide sensitive attributes from the response by toggling membership privacy in the Console.
      *
@@ -332,19 +370,22 @@ export class Teams {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, teamId, invited, joined, confirm, roles
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MembershipList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMemberships(teamId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.MembershipList>;
+    listMemberships(teamId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.MembershipList>;
     listMemberships(
         paramsOrFirst: { teamId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.MembershipList> {
         let params: { teamId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
@@ -352,6 +393,7 @@ export class Teams {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -384,6 +426,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -404,10 +448,11 @@ export class Teams {
      * @param {string} params.phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} params.url - URL to redirect the user back to your app from the invitation email. This parameter is not required when an API key is supplied. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string} params.name - Name of the new team member. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      */
-    createMembership(params: { teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string  }): Promise<Models.Membership>;
+    createMembership(params: { teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.Membership>;
     /**
      * Invite a new member to join your team. Provide an ID for existing users, or invite unregistered users using an email or phone number. If initiated from a Client SDK, Appwrite will send an email or sms with a link to join the team to the invited user, and an account will be created for them if one doesn't exist. If initiated from a Server SDK, the new member will be added automatically to the team.
      * 
@@ -425,19 +470,22 @@ export class Teams {
      * @param {string} phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} url - URL to redirect the user back to your app from the invitation email. This parameter is not required when an API key is supplied. Only URLs from hostnames in your project platform list are allowed. This requirement helps to prevent an [open redirect](https://cheatsheetseries.owasp.org/cheatsheets/Unvalidated_Redirects_and_Forwards_Cheat_Sheet.html) attack against your project API.
      * @param {string} name - Name of the new team member. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMembership(teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string): Promise<Models.Membership>;
+    createMembership(teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string, requestOptions?: RequestOptions): Promise<Models.Membership>;
     createMembership(
         paramsOrFirst: { teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string } | string,
-        ...rest: [(string[])?, (string)?, (string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Membership> {
         let params: { teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, roles: string[], email?: string, userId?: string, phone?: string, url?: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
@@ -448,6 +496,7 @@ export class Teams {
                 url: rest[4] as string,
                 name: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -496,6 +545,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -504,33 +555,38 @@ export class Teams {
      *
      * @param {string} params.teamId - Team ID.
      * @param {string} params.membershipId - Membership ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      */
-    getMembership(params: { teamId: string, membershipId: string  }): Promise<Models.Membership>;
+    getMembership(params: { teamId: string, membershipId: string  }, requestOptions?: RequestOptions): Promise<Models.Membership>;
     /**
      * Get a team member by the membership unique id. All team members have read access for this resource. Hide sensitive attributes from the response by toggling membership privacy in the Console.
      *
      * @param {string} teamId - Team ID.
      * @param {string} membershipId - Membership ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getMembership(teamId: string, membershipId: string): Promise<Models.Membership>;
+    getMembership(teamId: string, membershipId: string, requestOptions?: RequestOptions): Promise<Models.Membership>;
     getMembership(
         paramsOrFirst: { teamId: string, membershipId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Membership> {
         let params: { teamId: string, membershipId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, membershipId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 membershipId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -555,6 +611,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -565,10 +623,11 @@ export class Teams {
      * @param {string} params.teamId - Team ID.
      * @param {string} params.membershipId - Membership ID.
      * @param {string[]} params.roles - An array of strings. Use this param to set the user's roles in the team. A role can be any string. Learn more about [roles and permissions](https://appwrite.io/docs/permissions). Maximum of 100 roles are allowed, each 32 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      */
-    updateMembership(params: { teamId: string, membershipId: string, roles: string[]  }): Promise<Models.Membership>;
+    updateMembership(params: { teamId: string, membershipId: string, roles: string[]  }, requestOptions?: RequestOptions): Promise<Models.Membership>;
     /**
      * Modify the roles of a team member. Only team members with the owner role have access to this endpoint. Learn more about [roles and permissions](https://appwrite.io/docs/permissions).
      * 
@@ -576,25 +635,29 @@ export class Teams {
      * @param {string} teamId - Team ID.
      * @param {string} membershipId - Membership ID.
      * @param {string[]} roles - An array of strings. Use this param to set the user's roles in the team. A role can be any string. Learn more about [roles and permissions](https://appwrite.io/docs/permissions). Maximum of 100 roles are allowed, each 32 characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMembership(teamId: string, membershipId: string, roles: string[]): Promise<Models.Membership>;
+    updateMembership(teamId: string, membershipId: string, roles: string[], requestOptions?: RequestOptions): Promise<Models.Membership>;
     updateMembership(
         paramsOrFirst: { teamId: string, membershipId: string, roles: string[] } | string,
-        ...rest: [(string)?, (string[])?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (RequestOptions)?]    
     ): Promise<Models.Membership> {
         let params: { teamId: string, membershipId: string, roles: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, membershipId: string, roles: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 membershipId: rest[0] as string,
                 roles: rest[1] as string[]            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -627,6 +690,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -635,33 +700,38 @@ export class Teams {
      *
      * @param {string} params.teamId - Team ID.
      * @param {string} params.membershipId - Membership ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteMembership(params: { teamId: string, membershipId: string  }): Promise<{}>;
+    deleteMembership(params: { teamId: string, membershipId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * This endpoint allows a user to leave a team or for a team owner to delete the membership of any other team member. You can also use this endpoint to delete a user membership even if it is not accepted.
      *
      * @param {string} teamId - Team ID.
      * @param {string} membershipId - Membership ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteMembership(teamId: string, membershipId: string): Promise<{}>;
+    deleteMembership(teamId: string, membershipId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteMembership(
         paramsOrFirst: { teamId: string, membershipId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { teamId: string, membershipId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, membershipId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 membershipId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -687,6 +757,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -700,10 +772,11 @@ export class Teams {
      * @param {string} params.membershipId - Membership ID.
      * @param {string} params.userId - User ID.
      * @param {string} params.secret - Secret key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      */
-    updateMembershipStatus(params: { teamId: string, membershipId: string, userId: string, secret: string  }): Promise<Models.Membership>;
+    updateMembershipStatus(params: { teamId: string, membershipId: string, userId: string, secret: string  }, requestOptions?: RequestOptions): Promise<Models.Membership>;
     /**
      * Use this endpoint to allow a user to accept an invitation to join a team after being redirected back to your app from the invitation email received by the user.
      * 
@@ -714,19 +787,22 @@ export class Teams {
      * @param {string} membershipId - Membership ID.
      * @param {string} userId - User ID.
      * @param {string} secret - Secret key.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Membership>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMembershipStatus(teamId: string, membershipId: string, userId: string, secret: string): Promise<Models.Membership>;
+    updateMembershipStatus(teamId: string, membershipId: string, userId: string, secret: string, requestOptions?: RequestOptions): Promise<Models.Membership>;
     updateMembershipStatus(
         paramsOrFirst: { teamId: string, membershipId: string, userId: string, secret: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Membership> {
         let params: { teamId: string, membershipId: string, userId: string, secret: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, membershipId: string, userId: string, secret: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
@@ -734,6 +810,7 @@ export class Teams {
                 userId: rest[1] as string,
                 secret: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -773,6 +850,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -780,30 +859,36 @@ export class Teams {
      * Get the team's shared preferences by its unique ID. If a preference doesn't need to be shared by all team members, prefer storing them in [user preferences](https://appwrite.io/docs/references/cloud/client-web/account#getPrefs).
      *
      * @param {string} params.teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      */
-    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string  }): Promise<Preferences>;
+    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string  }, requestOptions?: RequestOptions): Promise<Preferences>;
     /**
      * Get the team's shared preferences by its unique ID. If a preference doesn't need to be shared by all team members, prefer storing them in [user preferences](https://appwrite.io/docs/references/cloud/client-web/account#getPrefs).
      *
      * @param {string} teamId - Team ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string): Promise<Preferences>;
+    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, requestOptions?: RequestOptions): Promise<Preferences>;
     getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { teamId: string } | string    
+        paramsOrFirst: { teamId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Preferences> {
         let params: { teamId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -824,6 +909,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -832,33 +919,38 @@ export class Teams {
      *
      * @param {string} params.teamId - Team ID.
      * @param {object} params.prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, prefs: object  }): Promise<Preferences>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { teamId: string, prefs: object  }, requestOptions?: RequestOptions): Promise<Preferences>;
     /**
      * Update the team's preferences by its unique ID. The object you pass is stored as is and replaces any previous value. The maximum allowed prefs size is 64kB and throws an error if exceeded.
      *
      * @param {string} teamId - Team ID.
      * @param {object} prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, prefs: object): Promise<Preferences>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(teamId: string, prefs: object, requestOptions?: RequestOptions): Promise<Preferences>;
     updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { teamId: string, prefs: object } | string,
-        ...rest: [(object)?]    
+        ...rest: [(object | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Preferences> {
         let params: { teamId: string, prefs: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { teamId: string, prefs: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 teamId: paramsOrFirst as string,
                 prefs: rest[0] as object            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const teamId = params.teamId;
@@ -887,6 +979,8 @@ export class Teams {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
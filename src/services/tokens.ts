@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 
@@ -16,10 +16,11 @@ export class Tokens {
      * @param {string} params.fileId - File unique ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: expire
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceTokenList>}
      */
-    list(params: { bucketId: string, fileId: string, queries?: string[], total?: boolean  }): Promise<Models.ResourceTokenList>;
+    list(params: { bucketId: string, fileId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.ResourceTokenList>;
     /**
      * List all the tokens created for a specific file or bucket. You can use the query params to filter your results.
      *
@@ -27,19 +28,22 @@ export class Tokens {
      * @param {string} fileId - File unique ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: expire
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceTokenList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list(bucketId: string, fileId: string, queries?: string[], total?: boolean): Promise<Models.ResourceTokenList>;
+    list(bucketId: string, fileId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.ResourceTokenList>;
     list(
         paramsOrFirst: { bucketId: string, fileId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string)?, (string[])?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (string[])?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.ResourceTokenList> {
         let params: { bucketId: string, fileId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
@@ -47,6 +51,7 @@ export class Tokens {
                 queries: rest[1] as string[],
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -79,6 +84,8 @@ export class Tokens {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -88,35 +95,40 @@ export class Tokens {
      * @param {string} params.bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} params.fileId - File unique ID.
      * @param {string} params.expire - Token expiry date
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      */
-    createFileToken(params: { bucketId: string, fileId: string, expire?: string  }): Promise<Models.ResourceToken>;
+    createFileToken(params: { bucketId: string, fileId: string, expire?: string  }, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     /**
      * Create a new token. A token is linked to a file. Token can be passed as a request URL search parameter.
      *
      * @param {string} bucketId - Storage bucket unique ID. You can create a new storage bucket using the Storage service [server integration](https://appwrite.io/docs/server/storage#createBucket).
      * @param {string} fileId - File unique ID.
      * @param {string} expire - Token expiry date
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createFileToken(bucketId: string, fileId: string, expire?: string): Promise<Models.ResourceToken>;
+    createFileToken(bucketId: string, fileId: string, expire?: string, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     createFileToken(
         paramsOrFirst: { bucketId: string, fileId: string, expire?: string } | string,
-        ...rest: [(string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.ResourceToken> {
         let params: { bucketId: string, fileId: string, expire?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { bucketId: string, fileId: string, expire?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 bucketId: paramsOrFirst as string,
                 fileId: rest[0] as string,
                 expire: rest[1] as string            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const bucketId = params.bucketId;
@@ -146,6 +158,8 @@ export class Tokens {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -153,30 +167,36 @@ export class Tokens {
      * Get a token by its unique ID.
      *
      * @param {string} params.tokenId - Token ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      */
-    get(params: { tokenId: string  }): Promise<Models.ResourceToken>;
+    get(params: { tokenId: string  }, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     /**
      * Get a token by its unique ID.
      *
      * @param {string} tokenId - Token ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get(tokenId: string): Promise<Models.ResourceToken>;
+    get(tokenId: string, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     get(
-        paramsOrFirst: { tokenId: string } | string    
+        paramsOrFirst: { tokenId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.ResourceToken> {
         let params: { tokenId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { tokenId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 tokenId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const tokenId = params.tokenId;
@@ -197,6 +217,8 @@ export class Tokens {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -205,33 +227,38 @@ export class Tokens {
      *
      * @param {string} params.tokenId - Token unique ID.
      * @param {string} params.expire - File token expiry date
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      */
-    update(params: { tokenId: string, expire?: string  }): Promise<Models.ResourceToken>;
+    update(params: { tokenId: string, expire?: string  }, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     /**
      * Update a token by its unique ID. Use this endpoint to update a token's expiry date.
      *
      * @param {string} tokenId - Token unique ID.
      * @param {string} expire - File token expiry date
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.ResourceToken>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    update(tokenId: string, expire?: string): Promise<Models.ResourceToken>;
+    update(tokenId: string, expire?: string, requestOptions?: RequestOptions): Promise<Models.ResourceToken>;
     update(
         paramsOrFirst: { tokenId: string, expire?: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.ResourceToken> {
         let params: { tokenId: string, expire?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { tokenId: string, expire?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 tokenId: paramsOrFirst as string,
                 expire: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const tokenId = params.tokenId;
@@ -257,6 +284,8 @@ export class Tokens {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -264,30 +293,36 @@ export class Tokens {
      * Delete a token by its unique ID.
      *
      * @param {string} params.tokenId - Token ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { tokenId: string  }): Promise<{}>;
+    delete(params: { tokenId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a token by its unique ID.
      *
      * @param {string} tokenId - Token ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(tokenId: string): Promise<{}>;
+    delete(tokenId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { tokenId: string } | string    
+        paramsOrFirst: { tokenId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { tokenId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { tokenId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 tokenId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const tokenId = params.tokenId;
@@ -309,6 +344,8 @@ export class Tokens {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
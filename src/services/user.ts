@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload } from '../client';
+import { AppwriteException, Client, type Payload, type RequestOptions } from '../client';
 
 export interface User {
     id: number;
@@ -21,6 +21,23 @@ export class UserService {
         this.client = client;
     }
 
+    /**
+     * Get User Info
+     *
+     * Get user information by user ID
+     *
+     * @param {number} params.userId - User ID to query
+     * @param {number} actorId - Current logged in user ID
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string, user: User}>}
+     */
+    getUser(params: { userId: number, actorId?: number, token?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user: User;
+    }>;
     /**
      * Get User Info
      *
@@ -28,15 +45,43 @@ export class UserService {
      *
      * @param {number} userId - User ID to query
      * @param {number} actorId - Current logged in user ID
-     * @param {string} token - Authentication token
+     * @param {string} token - Authentication token, defaults to the client token
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string, user: User}>}
      */
-    async getUser(userId: number, actorId: number, token: string): Promise<{
+    getUser(userId: number, actorId?: number, token?: string, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+        user: User;
+    }>;
+    async getUser(
+        paramsOrFirst: { userId: number, actorId?: number, token?: string } | number,
+        ...rest: [(number | RequestOptions)?, (string)?, (RequestOptions)?]
+    ): Promise<{
         status_code: number;
         status_msg: string;
         user: User;
     }> {
+        let params: { userId: number, actorId?: number, token?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                actorId: rest[0] as number,
+                token: rest[1] as string
+            };
+            requestOptions = rest[2] as RequestOptions;
+        }
+
+        const userId = params.userId;
+        const actorId = params.actorId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -72,9 +117,29 @@ export class UserService {
             uri,
             apiHeaders,
             {},
+            'json',
+            requestOptions,
         );
     }
 
+    /**
+     * Update User Profile
+     *
+     * Update user profile information (avatar, background image, signature)
+     *
+     * @param {number} params.userId - User ID to update, defaults to the client identity
+     * @param {string} params.token - Authentication token, defaults to the client token
+     * @param {string} params.avatar - Optional avatar URL
+     * @param {string} params.backgroundImage - Optional background image URL
+     * @param {string} params.signature - Optional user signature/bio
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
+     * @throws {AppwriteException}
+     * @returns {Promise<{status_code: number, status_msg: string}>}
+     */
+    updateProfile(params: { userId?: number, token?: string, avatar?: string, backgroundImage?: string, signature?: string }, requestOptions?: RequestOptions): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
     /**
      * Update User Profile
      *
@@ -85,19 +150,51 @@ export class UserService {
      * @param {string} avatar - Optional avatar URL
      * @param {string} backgroundImage - Optional background image URL
      * @param {string} signature - Optional user signature/bio
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{status_code: number, status_msg: string}>}
      */
-    async updateProfile(
+    updateProfile(
         userId: number,
         token: string,
         avatar?: string,
         backgroundImage?: string,
-        signature?: string
+        signature?: string,
+        requestOptions?: RequestOptions
+    ): Promise<{
+        status_code: number;
+        status_msg: string;
+    }>;
+    async updateProfile(
+        paramsOrFirst: { userId?: number, token?: string, avatar?: string, backgroundImage?: string, signature?: string } | number,
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (RequestOptions)?]
     ): Promise<{
         status_code: number;
         status_msg: string;
     }> {
+        let params: { userId?: number, token?: string, avatar?: string, backgroundImage?: string, signature?: string };
+        let requestOptions: RequestOptions | undefined;
+
+        if (paramsOrFirst && typeof paramsOrFirst === 'object') {
+            params = paramsOrFirst;
+            requestOptions = rest[0] as RequestOptions;
+        } else {
+            params = {
+                userId: paramsOrFirst as number,
+                token: rest[0] as string,
+                avatar: rest[1] as string,
+                backgroundImage: rest[2] as string,
+                signature: rest[3] as string
+            };
+            requestOptions = rest[4] as RequestOptions;
+        }
+
+        const userId = params.userId ?? this.client.config.actorId;
+        const token = params.token ?? (this.client.config.token || undefined);
+        const avatar = params.avatar;
+        const backgroundImage = params.backgroundImage;
+        const signature = params.signature;
+
         if (typeof userId === 'undefined') {
             throw new AppwriteException('Missing required parameter: "userId"');
         }
@@ -132,6 +229,8 @@ export class UserService {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
@@ -1,4 +1,4 @@
-import { AppwriteException, Client, type Payload, UploadProgress } from '../client';
+import { AppwriteException, Client, type Payload, UploadProgress, type RequestOptions } from '../client';
 import type { Models } from '../models';
 
 import { PasswordHash } from '../enums/password-hash';
@@ -18,35 +18,40 @@ export class Users {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, email, phone, status, passwordUpdate, registration, emailVerification, phoneVerification, labels
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.UserList<Preferences>>}
      */
-    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.UserList<Preferences>>;
+    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.UserList<Preferences>>;
     /**
      * Get a list of all the project's users. You can use the query params to filter your results.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: name, email, phone, status, passwordUpdate, registration, emailVerification, phoneVerification, labels
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.UserList<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(queries?: string[], search?: string, total?: boolean): Promise<Models.UserList<Preferences>>;
+    list<Preferences extends Models.Preferences = Models.DefaultPreferences>(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.UserList<Preferences>>;
     list<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.UserList<Preferences>> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -75,6 +80,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -86,10 +93,11 @@ export class Users {
      * @param {string} params.phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} params.password - Plain text user password. Must be at least 8 chars.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email?: string, phone?: string, password?: string, name?: string  }): Promise<Models.User<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email?: string, phone?: string, password?: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user.
      *
@@ -98,19 +106,22 @@ export class Users {
      * @param {string} phone - Phone number. Format this number with a leading '+' and a country code, e.g., +16175551212.
      * @param {string} password - Plain text user password. Must be at least 8 chars.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email?: string, phone?: string, password?: string, name?: string): Promise<Models.User<Preferences>>;
+    create<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email?: string, phone?: string, password?: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     create<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email?: string, phone?: string, password?: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email?: string, phone?: string, password?: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email?: string, phone?: string, password?: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -119,6 +130,7 @@ export class Users {
                 password: rest[2] as string,
                 name: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -159,6 +171,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -169,10 +183,11 @@ export class Users {
      * @param {string} params.email - User email.
      * @param {string} params.password - User password hashed using Argon2.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createArgon2User<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }): Promise<Models.User<Preferences>>;
+    createArgon2User<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [Argon2](https://en.wikipedia.org/wiki/Argon2) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -180,19 +195,22 @@ export class Users {
      * @param {string} email - User email.
      * @param {string} password - User password hashed using Argon2.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createArgon2User<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>>;
+    createArgon2User<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createArgon2User<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -200,6 +218,7 @@ export class Users {
                 password: rest[1] as string,
                 name: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -242,6 +261,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -252,10 +273,11 @@ export class Users {
      * @param {string} params.email - User email.
      * @param {string} params.password - User password hashed using Bcrypt.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createBcryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }): Promise<Models.User<Preferences>>;
+    createBcryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [Bcrypt](https://en.wikipedia.org/wiki/Bcrypt) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -263,19 +285,22 @@ export class Users {
      * @param {string} email - User email.
      * @param {string} password - User password hashed using Bcrypt.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createBcryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>>;
+    createBcryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createBcryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -283,6 +308,7 @@ export class Users {
                 password: rest[1] as string,
                 name: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -325,6 +351,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -334,35 +362,40 @@ export class Users {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, provider, providerUid, providerEmail, providerAccessTokenExpiry
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IdentityList>}
      */
-    listIdentities(params?: { queries?: string[], search?: string, total?: boolean  }): Promise<Models.IdentityList>;
+    listIdentities(params?: { queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.IdentityList>;
     /**
      * Get identities for all users.
      *
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, provider, providerUid, providerEmail, providerAccessTokenExpiry
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.IdentityList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listIdentities(queries?: string[], search?: string, total?: boolean): Promise<Models.IdentityList>;
+    listIdentities(queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.IdentityList>;
     listIdentities(
         paramsOrFirst?: { queries?: string[], search?: string, total?: boolean } | string[],
-        ...rest: [(string)?, (boolean)?]    
+        ...rest: [(string | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.IdentityList> {
         let params: { queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if (!paramsOrFirst || (paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 queries: paramsOrFirst as string[],
                 search: rest[0] as string,
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const queries = params.queries;
@@ -391,6 +424,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -398,30 +433,36 @@ export class Users {
      * Delete an identity by its unique ID.
      *
      * @param {string} params.identityId - Identity ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteIdentity(params: { identityId: string  }): Promise<{}>;
+    deleteIdentity(params: { identityId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an identity by its unique ID.
      *
      * @param {string} identityId - Identity ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteIdentity(identityId: string): Promise<{}>;
+    deleteIdentity(identityId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteIdentity(
-        paramsOrFirst: { identityId: string } | string    
+        paramsOrFirst: { identityId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { identityId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { identityId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 identityId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const identityId = params.identityId;
@@ -443,6 +484,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -453,10 +496,11 @@ export class Users {
      * @param {string} params.email - User email.
      * @param {string} params.password - User password hashed using MD5.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createMD5User<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }): Promise<Models.User<Preferences>>;
+    createMD5User<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [MD5](https://en.wikipedia.org/wiki/MD5) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -464,19 +508,22 @@ export class Users {
      * @param {string} email - User email.
      * @param {string} password - User password hashed using MD5.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMD5User<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>>;
+    createMD5User<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createMD5User<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -484,6 +531,7 @@ export class Users {
                 password: rest[1] as string,
                 name: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -526,6 +574,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -536,10 +586,11 @@ export class Users {
      * @param {string} params.email - User email.
      * @param {string} params.password - User password hashed using PHPass.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createPHPassUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }): Promise<Models.User<Preferences>>;
+    createPHPassUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [PHPass](https://www.openwall.com/phpass/) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -547,19 +598,22 @@ export class Users {
      * @param {string} email - User email.
      * @param {string} password - User password hashed using PHPass.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createPHPassUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string): Promise<Models.User<Preferences>>;
+    createPHPassUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createPHPassUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -567,6 +621,7 @@ export class Users {
                 password: rest[1] as string,
                 name: rest[2] as string            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -609,6 +664,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -624,10 +681,11 @@ export class Users {
      * @param {number} params.passwordParallel - Optional parallelization cost used to hash password.
      * @param {number} params.passwordLength - Optional hash length used to hash password.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createScryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string  }): Promise<Models.User<Preferences>>;
+    createScryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [Scrypt](https://github.com/Tarsnap/scrypt) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -640,19 +698,22 @@ export class Users {
      * @param {number} passwordParallel - Optional parallelization cost used to hash password.
      * @param {number} passwordLength - Optional hash length used to hash password.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createScryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string): Promise<Models.User<Preferences>>;
+    createScryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createScryptUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (number)?, (number)?, (number)?, (number)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (number)?, (number)?, (number)?, (number)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, passwordSalt: string, passwordCpu: number, passwordMemory: number, passwordParallel: number, passwordLength: number, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -665,6 +726,7 @@ export class Users {
                 passwordLength: rest[6] as number,
                 name: rest[7] as string            
             };
+            requestOptions = rest[8] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -742,6 +804,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -755,10 +819,11 @@ export class Users {
      * @param {string} params.passwordSaltSeparator - Salt separator used to hash password.
      * @param {string} params.passwordSignerKey - Signer key used to hash password.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createScryptModifiedUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string  }): Promise<Models.User<Preferences>>;
+    createScryptModifiedUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [Scrypt Modified](https://gist.github.com/Meldiron/eecf84a0225eccb5a378d45bb27462cc) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -769,19 +834,22 @@ export class Users {
      * @param {string} passwordSaltSeparator - Salt separator used to hash password.
      * @param {string} passwordSignerKey - Signer key used to hash password.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createScryptModifiedUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string): Promise<Models.User<Preferences>>;
+    createScryptModifiedUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createScryptModifiedUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, passwordSalt: string, passwordSaltSeparator: string, passwordSignerKey: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -792,6 +860,7 @@ export class Users {
                 passwordSignerKey: rest[4] as string,
                 name: rest[5] as string            
             };
+            requestOptions = rest[6] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -855,6 +924,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -866,10 +937,11 @@ export class Users {
      * @param {string} params.password - User password hashed using SHA.
      * @param {PasswordHash} params.passwordVersion - Optional SHA version used to hash password. Allowed values are: 'sha1', 'sha224', 'sha256', 'sha384', 'sha512/224', 'sha512/256', 'sha512', 'sha3-224', 'sha3-256', 'sha3-384', 'sha3-512'
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    createSHAUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string  }): Promise<Models.User<Preferences>>;
+    createSHAUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Create a new user. Password provided must be hashed with the [SHA](https://en.wikipedia.org/wiki/Secure_Hash_Algorithm) algorithm. Use the [POST /users](https://appwrite.io/docs/server/users#usersCreate) endpoint to create users with a plain text password.
      *
@@ -878,19 +950,22 @@ export class Users {
      * @param {string} password - User password hashed using SHA.
      * @param {PasswordHash} passwordVersion - Optional SHA version used to hash password. Allowed values are: 'sha1', 'sha224', 'sha256', 'sha384', 'sha512/224', 'sha512/256', 'sha512', 'sha3-224', 'sha3-256', 'sha3-384', 'sha3-512'
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSHAUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string): Promise<Models.User<Preferences>>;
+    createSHAUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     createSHAUser<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string } | string,
-        ...rest: [(string)?, (string)?, (PasswordHash)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (PasswordHash)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string, password: string, passwordVersion?: PasswordHash, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -899,6 +974,7 @@ export class Users {
                 passwordVersion: rest[2] as PasswordHash,
                 name: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -945,6 +1021,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -952,30 +1030,36 @@ export class Users {
      * Get a user by its unique ID.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string  }): Promise<Models.User<Preferences>>;
+    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Get a user by its unique ID.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string): Promise<Models.User<Preferences>>;
+    get<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     get<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -996,6 +1080,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1003,30 +1089,36 @@ export class Users {
      * Delete a user by its unique ID, thereby releasing it's ID. Since ID is released and can be reused, all user-related resources like documents or storage files should be deleted before user deletion. If you want to keep ID reserved, use the [updateStatus](https://appwrite.io/docs/server/users#usersUpdateStatus) endpoint instead.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    delete(params: { userId: string  }): Promise<{}>;
+    delete(params: { userId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a user by its unique ID, thereby releasing it's ID. Since ID is released and can be reused, all user-related resources like documents or storage files should be deleted before user deletion. If you want to keep ID reserved, use the [updateStatus](https://appwrite.io/docs/server/users#usersUpdateStatus) endpoint instead.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    delete(userId: string): Promise<{}>;
+    delete(userId: string, requestOptions?: RequestOptions): Promise<{}>;
     delete(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1048,6 +1140,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1056,33 +1150,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.email - User email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string  }): Promise<Models.User<Preferences>>;
+    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, email: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user email by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string} email - User email.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string): Promise<Models.User<Preferences>>;
+    updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, email: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateEmail<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, email: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, email: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, email: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 email: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1111,6 +1210,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1120,35 +1221,40 @@ export class Users {
      * @param {string} params.userId - User ID.
      * @param {string} params.sessionId - Session ID. Use the string 'recent' to use the most recent session. Defaults to the most recent session.
      * @param {number} params.duration - Time in seconds before JWT expires. Default duration is 900 seconds, and maximum is 3600 seconds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Jwt>}
      */
-    createJWT(params: { userId: string, sessionId?: string, duration?: number  }): Promise<Models.Jwt>;
+    createJWT(params: { userId: string, sessionId?: string, duration?: number  }, requestOptions?: RequestOptions): Promise<Models.Jwt>;
     /**
      * Use this endpoint to create a JSON Web Token for user by its unique ID. You can use the resulting JWT to authenticate on behalf of the user. The JWT secret will become invalid if the session it uses gets deleted.
      *
      * @param {string} userId - User ID.
      * @param {string} sessionId - Session ID. Use the string 'recent' to use the most recent session. Defaults to the most recent session.
      * @param {number} duration - Time in seconds before JWT expires. Default duration is 900 seconds, and maximum is 3600 seconds.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Jwt>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createJWT(userId: string, sessionId?: string, duration?: number): Promise<Models.Jwt>;
+    createJWT(userId: string, sessionId?: string, duration?: number, requestOptions?: RequestOptions): Promise<Models.Jwt>;
     createJWT(
         paramsOrFirst: { userId: string, sessionId?: string, duration?: number } | string,
-        ...rest: [(string)?, (number)?]    
+        ...rest: [(string | RequestOptions)?, (number)?, (RequestOptions)?]    
     ): Promise<Models.Jwt> {
         let params: { userId: string, sessionId?: string, duration?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, sessionId?: string, duration?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 sessionId: rest[0] as string,
                 duration: rest[1] as number            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1178,6 +1284,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1188,10 +1296,11 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string[]} params.labels - Array of user labels. Replaces the previous labels. Maximum of 1000 labels are allowed, each up to 36 alphanumeric characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateLabels<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, labels: string[]  }): Promise<Models.User<Preferences>>;
+    updateLabels<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, labels: string[]  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user labels by its unique ID. 
      * 
@@ -1199,24 +1308,28 @@ export class Users {
      *
      * @param {string} userId - User ID.
      * @param {string[]} labels - Array of user labels. Replaces the previous labels. Maximum of 1000 labels are allowed, each up to 36 alphanumeric characters long.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateLabels<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, labels: string[]): Promise<Models.User<Preferences>>;
+    updateLabels<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, labels: string[], requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateLabels<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, labels: string[] } | string,
-        ...rest: [(string[])?]    
+        ...rest: [(string[] | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, labels: string[] };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, labels: string[] };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 labels: rest[0] as string[]            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1245,6 +1358,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1254,35 +1369,40 @@ export class Users {
      * @param {string} params.userId - User ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      */
-    listLogs(params: { userId: string, queries?: string[], total?: boolean  }): Promise<Models.LogList>;
+    listLogs(params: { userId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.LogList>;
     /**
      * Get the user activity logs list by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Only supported methods are limit and offset
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.LogList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listLogs(userId: string, queries?: string[], total?: boolean): Promise<Models.LogList>;
+    listLogs(userId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.LogList>;
     listLogs(
         paramsOrFirst: { userId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.LogList> {
         let params: { userId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1311,6 +1431,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1321,10 +1443,11 @@ export class Users {
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, teamId, invited, joined, confirm, roles
      * @param {string} params.search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MembershipList>}
      */
-    listMemberships(params: { userId: string, queries?: string[], search?: string, total?: boolean  }): Promise<Models.MembershipList>;
+    listMemberships(params: { userId: string, queries?: string[], search?: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.MembershipList>;
     /**
      * Get the user membership list by its unique ID.
      *
@@ -1332,19 +1455,22 @@ export class Users {
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, teamId, invited, joined, confirm, roles
      * @param {string} search - Search term to filter your list results. Max length: 256 chars.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MembershipList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMemberships(userId: string, queries?: string[], search?: string, total?: boolean): Promise<Models.MembershipList>;
+    listMemberships(userId: string, queries?: string[], search?: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.MembershipList>;
     listMemberships(
         paramsOrFirst: { userId: string, queries?: string[], search?: string, total?: boolean } | string,
-        ...rest: [(string[])?, (string)?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (string)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.MembershipList> {
         let params: { userId: string, queries?: string[], search?: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, queries?: string[], search?: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -1352,6 +1478,7 @@ export class Users {
                 search: rest[1] as string,
                 total: rest[2] as boolean            
             };
+            requestOptions = rest[3] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1384,6 +1511,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1392,34 +1521,39 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.updateMFA` instead.
      */
-    updateMfa<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, mfa: boolean  }): Promise<Models.User<Preferences>>;
+    updateMfa<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, mfa: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Enable or disable MFA on a user account.
      *
      * @param {string} userId - User ID.
      * @param {boolean} mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMfa<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, mfa: boolean): Promise<Models.User<Preferences>>;
+    updateMfa<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, mfa: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateMfa<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, mfa: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, mfa: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, mfa: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 mfa: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1448,6 +1582,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1456,33 +1592,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, mfa: boolean  }): Promise<Models.User<Preferences>>;
+    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, mfa: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Enable or disable MFA on a user account.
      *
      * @param {string} userId - User ID.
      * @param {boolean} mfa - Enable or disable MFA.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, mfa: boolean): Promise<Models.User<Preferences>>;
+    updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, mfa: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateMFA<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, mfa: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, mfa: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, mfa: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 mfa: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1511,6 +1652,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1519,34 +1662,39 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {AuthenticatorType} params.type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.deleteMFAAuthenticator` instead.
      */
-    deleteMfaAuthenticator(params: { userId: string, type: AuthenticatorType  }): Promise<{}>;
+    deleteMfaAuthenticator(params: { userId: string, type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an authenticator app.
      *
      * @param {string} userId - User ID.
      * @param {AuthenticatorType} type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteMfaAuthenticator(userId: string, type: AuthenticatorType): Promise<{}>;
+    deleteMfaAuthenticator(userId: string, type: AuthenticatorType, requestOptions?: RequestOptions): Promise<{}>;
     deleteMfaAuthenticator(
         paramsOrFirst: { userId: string, type: AuthenticatorType } | string,
-        ...rest: [(AuthenticatorType)?]    
+        ...rest: [(AuthenticatorType | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { userId: string, type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 type: rest[0] as AuthenticatorType            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1572,6 +1720,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1580,33 +1730,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {AuthenticatorType} params.type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteMFAAuthenticator(params: { userId: string, type: AuthenticatorType  }): Promise<{}>;
+    deleteMFAAuthenticator(params: { userId: string, type: AuthenticatorType  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete an authenticator app.
      *
      * @param {string} userId - User ID.
      * @param {AuthenticatorType} type - Type of authenticator.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteMFAAuthenticator(userId: string, type: AuthenticatorType): Promise<{}>;
+    deleteMFAAuthenticator(userId: string, type: AuthenticatorType, requestOptions?: RequestOptions): Promise<{}>;
     deleteMFAAuthenticator(
         paramsOrFirst: { userId: string, type: AuthenticatorType } | string,
-        ...rest: [(AuthenticatorType)?]    
+        ...rest: [(AuthenticatorType | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { userId: string, type: AuthenticatorType };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, type: AuthenticatorType };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 type: rest[0] as AuthenticatorType            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1632,6 +1787,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1639,31 +1796,37 @@ export class Users {
      * List the factors available on the account to be used as a MFA challange.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.listMFAFactors` instead.
      */
-    listMfaFactors(params: { userId: string  }): Promise<Models.MfaFactors>;
+    listMfaFactors(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaFactors>;
     /**
      * List the factors available on the account to be used as a MFA challange.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMfaFactors(userId: string): Promise<Models.MfaFactors>;
+    listMfaFactors(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaFactors>;
     listMfaFactors(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaFactors> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1684,6 +1847,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1691,30 +1856,36 @@ export class Users {
      * List the factors available on the account to be used as a MFA challange.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      */
-    listMFAFactors(params: { userId: string  }): Promise<Models.MfaFactors>;
+    listMFAFactors(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaFactors>;
     /**
      * List the factors available on the account to be used as a MFA challange.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaFactors>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listMFAFactors(userId: string): Promise<Models.MfaFactors>;
+    listMFAFactors(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaFactors>;
     listMFAFactors(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaFactors> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1735,6 +1906,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1742,31 +1915,37 @@ export class Users {
      * Get recovery codes that can be used as backup for MFA flow by User ID. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.getMFARecoveryCodes` instead.
      */
-    getMfaRecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    getMfaRecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Get recovery codes that can be used as backup for MFA flow by User ID. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getMfaRecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    getMfaRecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     getMfaRecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1787,6 +1966,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1794,30 +1975,36 @@ export class Users {
      * Get recovery codes that can be used as backup for MFA flow by User ID. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    getMFARecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    getMFARecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Get recovery codes that can be used as backup for MFA flow by User ID. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getMFARecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    getMFARecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     getMFARecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1838,6 +2025,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1845,31 +2034,37 @@ export class Users {
      * Regenerate recovery codes that can be used as backup for MFA flow by User ID. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.updateMFARecoveryCodes` instead.
      */
-    updateMfaRecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    updateMfaRecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Regenerate recovery codes that can be used as backup for MFA flow by User ID. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMfaRecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    updateMfaRecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     updateMfaRecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1891,6 +2086,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1898,30 +2095,36 @@ export class Users {
      * Regenerate recovery codes that can be used as backup for MFA flow by User ID. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    updateMFARecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    updateMFARecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Regenerate recovery codes that can be used as backup for MFA flow by User ID. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateMFARecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    updateMFARecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     updateMFARecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1943,6 +2146,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -1950,31 +2155,37 @@ export class Users {
      * Generate recovery codes used as backup for MFA flow for User ID. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method by client SDK.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated This API has been deprecated since 1.8.0. Please use `Users.createMFARecoveryCodes` instead.
      */
-    createMfaRecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    createMfaRecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Generate recovery codes used as backup for MFA flow for User ID. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method by client SDK.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMfaRecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    createMfaRecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     createMfaRecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -1996,6 +2207,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2003,30 +2216,36 @@ export class Users {
      * Generate recovery codes used as backup for MFA flow for User ID. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method by client SDK.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      */
-    createMFARecoveryCodes(params: { userId: string  }): Promise<Models.MfaRecoveryCodes>;
+    createMFARecoveryCodes(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     /**
      * Generate recovery codes used as backup for MFA flow for User ID. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method by client SDK.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.MfaRecoveryCodes>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createMFARecoveryCodes(userId: string): Promise<Models.MfaRecoveryCodes>;
+    createMFARecoveryCodes(userId: string, requestOptions?: RequestOptions): Promise<Models.MfaRecoveryCodes>;
     createMFARecoveryCodes(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.MfaRecoveryCodes> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2048,6 +2267,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2056,33 +2277,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, name: string  }): Promise<Models.User<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, name: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user name by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string} name - User name. Max length: 128 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, name: string): Promise<Models.User<Preferences>>;
+    updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, name: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateName<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, name: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, name: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, name: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 name: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2111,6 +2337,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2119,33 +2347,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.password - New user password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, password: string  }): Promise<Models.User<Preferences>>;
+    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, password: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user password by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string} password - New user password. Must be at least 8 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, password: string): Promise<Models.User<Preferences>>;
+    updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, password: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePassword<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, password: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, password: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, password: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 password: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2174,6 +2407,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2182,33 +2417,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.number - User phone number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, number: string  }): Promise<Models.User<Preferences>>;
+    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, number: string  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user phone by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string} number - User phone number.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, number: string): Promise<Models.User<Preferences>>;
+    updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, number: string, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePhone<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, number: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, number: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, number: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 number: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2237,6 +2477,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2244,30 +2486,36 @@ export class Users {
      * Get the user preferences by its unique ID.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      */
-    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string  }): Promise<Preferences>;
+    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Preferences>;
     /**
      * Get the user preferences by its unique ID.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string): Promise<Preferences>;
+    getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, requestOptions?: RequestOptions): Promise<Preferences>;
     getPrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Preferences> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2288,6 +2536,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2296,33 +2546,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {object} params.prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, prefs: object  }): Promise<Preferences>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, prefs: object  }, requestOptions?: RequestOptions): Promise<Preferences>;
     /**
      * Update the user preferences by its unique ID. The object you pass is stored as is, and replaces any previous value. The maximum allowed prefs size is 64kB and throws error if exceeded.
      *
      * @param {string} userId - User ID.
      * @param {object} prefs - Prefs key-value JSON object.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Preferences>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, prefs: object): Promise<Preferences>;
+    updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, prefs: object, requestOptions?: RequestOptions): Promise<Preferences>;
     updatePrefs<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, prefs: object } | string,
-        ...rest: [(object)?]    
+        ...rest: [(object | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Preferences> {
         let params: { userId: string, prefs: object };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, prefs: object };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 prefs: rest[0] as object            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2351,6 +2606,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2359,33 +2616,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SessionList>}
      */
-    listSessions(params: { userId: string, total?: boolean  }): Promise<Models.SessionList>;
+    listSessions(params: { userId: string, total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.SessionList>;
     /**
      * Get the user sessions list by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.SessionList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listSessions(userId: string, total?: boolean): Promise<Models.SessionList>;
+    listSessions(userId: string, total?: boolean, requestOptions?: RequestOptions): Promise<Models.SessionList>;
     listSessions(
         paramsOrFirst: { userId: string, total?: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.SessionList> {
         let params: { userId: string, total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 total: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2410,6 +2672,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2419,32 +2683,38 @@ export class Users {
      * If you want to generate a token for a custom authentication flow, use the [POST /users/{userId}/tokens](https://appwrite.io/docs/server/users#createToken) endpoint.
      *
      * @param {string} params.userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      */
-    createSession(params: { userId: string  }): Promise<Models.Session>;
+    createSession(params: { userId: string  }, requestOptions?: RequestOptions): Promise<Models.Session>;
     /**
      * Creates a session for a user. Returns an immediately usable session object.
      * 
      * If you want to generate a token for a custom authentication flow, use the [POST /users/{userId}/tokens](https://appwrite.io/docs/server/users#createToken) endpoint.
      *
      * @param {string} userId - User ID. Choose a custom ID or generate a random ID with `ID.unique()`. Valid chars are a-z, A-Z, 0-9, period, hyphen, and underscore. Can't start with a special char. Max length is 36 chars.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Session>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createSession(userId: string): Promise<Models.Session>;
+    createSession(userId: string, requestOptions?: RequestOptions): Promise<Models.Session>;
     createSession(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<Models.Session> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2466,6 +2736,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2473,30 +2745,36 @@ export class Users {
      * Delete all user's sessions by using the user's unique ID.
      *
      * @param {string} params.userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteSessions(params: { userId: string  }): Promise<{}>;
+    deleteSessions(params: { userId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete all user's sessions by using the user's unique ID.
      *
      * @param {string} userId - User ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteSessions(userId: string): Promise<{}>;
+    deleteSessions(userId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteSessions(
-        paramsOrFirst: { userId: string } | string    
+        paramsOrFirst: { userId: string } | string,
+        ...rest: [(RequestOptions)?]
     ): Promise<{}> {
         let params: { userId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string            
             };
+            requestOptions = rest[0] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2518,6 +2796,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2526,33 +2806,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.sessionId - Session ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteSession(params: { userId: string, sessionId: string  }): Promise<{}>;
+    deleteSession(params: { userId: string, sessionId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a user sessions by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {string} sessionId - Session ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteSession(userId: string, sessionId: string): Promise<{}>;
+    deleteSession(userId: string, sessionId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteSession(
         paramsOrFirst: { userId: string, sessionId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { userId: string, sessionId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, sessionId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 sessionId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2578,6 +2863,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2586,33 +2873,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.status - User Status. To activate the user pass `true` and to block the user pass `false`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, status: boolean  }): Promise<Models.User<Preferences>>;
+    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, status: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user status by its unique ID. Use this endpoint as an alternative to deleting a user if you want to keep user's ID reserved.
      *
      * @param {string} userId - User ID.
      * @param {boolean} status - User Status. To activate the user pass `true` and to block the user pass `false`.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, status: boolean): Promise<Models.User<Preferences>>;
+    updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, status: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateStatus<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, status: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, status: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, status: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 status: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2641,6 +2933,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2650,35 +2944,40 @@ export class Users {
      * @param {string} params.userId - User ID.
      * @param {string[]} params.queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, providerId, identifier, providerType
      * @param {boolean} params.total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TargetList>}
      */
-    listTargets(params: { userId: string, queries?: string[], total?: boolean  }): Promise<Models.TargetList>;
+    listTargets(params: { userId: string, queries?: string[], total?: boolean  }, requestOptions?: RequestOptions): Promise<Models.TargetList>;
     /**
      * List the messaging targets that are associated with a user.
      *
      * @param {string} userId - User ID.
      * @param {string[]} queries - Array of query strings generated using the Query class provided by the SDK. [Learn more about queries](https://appwrite.io/docs/queries). Maximum of 100 queries are allowed, each 4096 characters long. You may filter on the following attributes: userId, providerId, identifier, providerType
      * @param {boolean} total - When set to false, the total count returned will be 0 and will not be calculated.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.TargetList>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    listTargets(userId: string, queries?: string[], total?: boolean): Promise<Models.TargetList>;
+    listTargets(userId: string, queries?: string[], total?: boolean, requestOptions?: RequestOptions): Promise<Models.TargetList>;
     listTargets(
         paramsOrFirst: { userId: string, queries?: string[], total?: boolean } | string,
-        ...rest: [(string[])?, (boolean)?]    
+        ...rest: [(string[] | RequestOptions)?, (boolean)?, (RequestOptions)?]    
     ): Promise<Models.TargetList> {
         let params: { userId: string, queries?: string[], total?: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, queries?: string[], total?: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 queries: rest[0] as string[],
                 total: rest[1] as boolean            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2707,6 +3006,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2719,10 +3020,11 @@ export class Users {
      * @param {string} params.identifier - The target identifier (token, email, phone etc.)
      * @param {string} params.providerId - Provider ID. Message will be sent to this target from the specified provider ID. If no provider ID is set the first setup provider will be used.
      * @param {string} params.name - Target name. Max length: 128 chars. For example: My Awesome App Galaxy S23.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      */
-    createTarget(params: { userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string  }): Promise<Models.Target>;
+    createTarget(params: { userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.Target>;
     /**
      * Create a messaging target.
      *
@@ -2732,19 +3034,22 @@ export class Users {
      * @param {string} identifier - The target identifier (token, email, phone etc.)
      * @param {string} providerId - Provider ID. Message will be sent to this target from the specified provider ID. If no provider ID is set the first setup provider will be used.
      * @param {string} name - Target name. Max length: 128 chars. For example: My Awesome App Galaxy S23.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createTarget(userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string): Promise<Models.Target>;
+    createTarget(userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string, requestOptions?: RequestOptions): Promise<Models.Target>;
     createTarget(
         paramsOrFirst: { userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string } | string,
-        ...rest: [(string)?, (MessagingProviderType)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (MessagingProviderType)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Target> {
         let params: { userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, targetId: string, providerType: MessagingProviderType, identifier: string, providerId?: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -2754,6 +3059,7 @@ export class Users {
                 providerId: rest[3] as string,
                 name: rest[4] as string            
             };
+            requestOptions = rest[5] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2804,6 +3110,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2812,33 +3120,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.targetId - Target ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      */
-    getTarget(params: { userId: string, targetId: string  }): Promise<Models.Target>;
+    getTarget(params: { userId: string, targetId: string  }, requestOptions?: RequestOptions): Promise<Models.Target>;
     /**
      * Get a user's push notification target by ID.
      *
      * @param {string} userId - User ID.
      * @param {string} targetId - Target ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    getTarget(userId: string, targetId: string): Promise<Models.Target>;
+    getTarget(userId: string, targetId: string, requestOptions?: RequestOptions): Promise<Models.Target>;
     getTarget(
         paramsOrFirst: { userId: string, targetId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.Target> {
         let params: { userId: string, targetId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, targetId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 targetId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2863,6 +3176,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2874,10 +3189,11 @@ export class Users {
      * @param {string} params.identifier - The target identifier (token, email, phone etc.)
      * @param {string} params.providerId - Provider ID. Message will be sent to this target from the specified provider ID. If no provider ID is set the first setup provider will be used.
      * @param {string} params.name - Target name. Max length: 128 chars. For example: My Awesome App Galaxy S23.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      */
-    updateTarget(params: { userId: string, targetId: string, identifier?: string, providerId?: string, name?: string  }): Promise<Models.Target>;
+    updateTarget(params: { userId: string, targetId: string, identifier?: string, providerId?: string, name?: string  }, requestOptions?: RequestOptions): Promise<Models.Target>;
     /**
      * Update a messaging target.
      *
@@ -2886,19 +3202,22 @@ export class Users {
      * @param {string} identifier - The target identifier (token, email, phone etc.)
      * @param {string} providerId - Provider ID. Message will be sent to this target from the specified provider ID. If no provider ID is set the first setup provider will be used.
      * @param {string} name - Target name. Max length: 128 chars. For example: My Awesome App Galaxy S23.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Target>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateTarget(userId: string, targetId: string, identifier?: string, providerId?: string, name?: string): Promise<Models.Target>;
+    updateTarget(userId: string, targetId: string, identifier?: string, providerId?: string, name?: string, requestOptions?: RequestOptions): Promise<Models.Target>;
     updateTarget(
         paramsOrFirst: { userId: string, targetId: string, identifier?: string, providerId?: string, name?: string } | string,
-        ...rest: [(string)?, (string)?, (string)?, (string)?]    
+        ...rest: [(string | RequestOptions)?, (string)?, (string)?, (string)?, (RequestOptions)?]    
     ): Promise<Models.Target> {
         let params: { userId: string, targetId: string, identifier?: string, providerId?: string, name?: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, targetId: string, identifier?: string, providerId?: string, name?: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
@@ -2907,6 +3226,7 @@ export class Users {
                 providerId: rest[2] as string,
                 name: rest[3] as string            
             };
+            requestOptions = rest[4] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -2944,6 +3264,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -2952,33 +3274,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {string} params.targetId - Target ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      */
-    deleteTarget(params: { userId: string, targetId: string  }): Promise<{}>;
+    deleteTarget(params: { userId: string, targetId: string  }, requestOptions?: RequestOptions): Promise<{}>;
     /**
      * Delete a messaging target.
      *
      * @param {string} userId - User ID.
      * @param {string} targetId - Target ID.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<{}>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    deleteTarget(userId: string, targetId: string): Promise<{}>;
+    deleteTarget(userId: string, targetId: string, requestOptions?: RequestOptions): Promise<{}>;
     deleteTarget(
         paramsOrFirst: { userId: string, targetId: string } | string,
-        ...rest: [(string)?]    
+        ...rest: [(string | RequestOptions)?, (RequestOptions)?]    
     ): Promise<{}> {
         let params: { userId: string, targetId: string };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, targetId: string };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 targetId: rest[0] as string            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -3004,6 +3331,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3014,10 +3343,11 @@ export class Users {
      * @param {string} params.userId - User ID.
      * @param {number} params.length - Token length in characters. The default length is 6 characters
      * @param {number} params.expire - Token expiration period in seconds. The default expiration is 15 minutes.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      */
-    createToken(params: { userId: string, length?: number, expire?: number  }): Promise<Models.Token>;
+    createToken(params: { userId: string, length?: number, expire?: number  }, requestOptions?: RequestOptions): Promise<Models.Token>;
     /**
      * Returns a token with a secret key for creating a session. Use the user ID and secret and submit a request to the [PUT /account/sessions/token](https://appwrite.io/docs/references/cloud/client-web/account#createSession) endpoint to complete the login process.
      * 
@@ -3025,25 +3355,29 @@ export class Users {
      * @param {string} userId - User ID.
      * @param {number} length - Token length in characters. The default length is 6 characters
      * @param {number} expire - Token expiration period in seconds. The default expiration is 15 minutes.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.Token>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    createToken(userId: string, length?: number, expire?: number): Promise<Models.Token>;
+    createToken(userId: string, length?: number, expire?: number, requestOptions?: RequestOptions): Promise<Models.Token>;
     createToken(
         paramsOrFirst: { userId: string, length?: number, expire?: number } | string,
-        ...rest: [(number)?, (number)?]    
+        ...rest: [(number | RequestOptions)?, (number)?, (RequestOptions)?]    
     ): Promise<Models.Token> {
         let params: { userId: string, length?: number, expire?: number };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, length?: number, expire?: number };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 length: rest[0] as number,
                 expire: rest[1] as number            
             };
+            requestOptions = rest[2] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -3073,6 +3407,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3081,33 +3417,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.emailVerification - User email verification status.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updateEmailVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, emailVerification: boolean  }): Promise<Models.User<Preferences>>;
+    updateEmailVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, emailVerification: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user email verification status by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {boolean} emailVerification - User email verification status.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updateEmailVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, emailVerification: boolean): Promise<Models.User<Preferences>>;
+    updateEmailVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, emailVerification: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updateEmailVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, emailVerification: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, emailVerification: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, emailVerification: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 emailVerification: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -3136,6 +3477,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 
@@ -3144,33 +3487,38 @@ export class Users {
      *
      * @param {string} params.userId - User ID.
      * @param {boolean} params.phoneVerification - User phone verification status.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      */
-    updatePhoneVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, phoneVerification: boolean  }): Promise<Models.User<Preferences>>;
+    updatePhoneVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(params: { userId: string, phoneVerification: boolean  }, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     /**
      * Update the user phone verification status by its unique ID.
      *
      * @param {string} userId - User ID.
      * @param {boolean} phoneVerification - User phone verification status.
+     * @param {RequestOptions} requestOptions - Signal, timeout, extra headers and idempotency key for this call.
      * @throws {AppwriteException}
      * @returns {Promise<Models.User<Preferences>>}
      * @deprecated Use the object parameter style method for a better developer experience.
      */
-    updatePhoneVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, phoneVerification: boolean): Promise<Models.User<Preferences>>;
+    updatePhoneVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(userId: string, phoneVerification: boolean, requestOptions?: RequestOptions): Promise<Models.User<Preferences>>;
     updatePhoneVerification<Preferences extends Models.Preferences = Models.DefaultPreferences>(
         paramsOrFirst: { userId: string, phoneVerification: boolean } | string,
-        ...rest: [(boolean)?]    
+        ...rest: [(boolean | RequestOptions)?, (RequestOptions)?]    
     ): Promise<Models.User<Preferences>> {
         let params: { userId: string, phoneVerification: boolean };
+        let requestOptions: RequestOptions | undefined;
         
         if ((paramsOrFirst && typeof paramsOrFirst === 'object' && !Array.isArray(paramsOrFirst))) {
             params = (paramsOrFirst || {}) as { userId: string, phoneVerification: boolean };
+            requestOptions = rest[0] as RequestOptions;
         } else {
             params = {
                 userId: paramsOrFirst as string,
                 phoneVerification: rest[0] as boolean            
             };
+            requestOptions = rest[1] as RequestOptions;
         }
         
         const userId = params.userId;
@@ -3199,6 +3547,8 @@ export class Users {
             uri,
             apiHeaders,
             payload,
+            'json',
+            requestOptions,
         );
     }
 }
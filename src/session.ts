@@ -0,0 +1,223 @@
+import { Client, type RequestOptions, type UploadProgress } from './client';
+import { CommentService } from './services/comment';
+import { Favorite } from './services/favorite';
+import { Feed } from './services/feed';
+import { MessageService } from './services/message';
+import type { MessageWatchOptions } from './message-watch';
+import type { ConversationOptions } from './conversation';
+import { Publish } from './services/publish';
+import { Relation } from './services/relation';
+import { UserService } from './services/user';
+
+/**
+ * A GuGoTik user bound to its token.
+ *
+ * Every method passes the session's user ID and token explicitly, so sessions
+ * never read or change the identity stored on the shared client. Any number
+ * of sessions can run concurrently on one client.
+ */
+export class Session {
+    readonly client: Client;
+    readonly userId: number;
+    readonly token: string;
+
+    private readonly comments: CommentService;
+    private readonly favorites: Favorite;
+    private readonly videos: Feed;
+    private readonly messages: MessageService;
+    private readonly publisher: Publish;
+    private readonly relations: Relation;
+    private readonly users: UserService;
+
+    constructor(client: Client, userId: number, token: string) {
+        this.client = client;
+        this.userId = userId;
+        this.token = token;
+
+        this.comments = new CommentService(client);
+        this.favorites = new Favorite(client);
+        this.videos = new Feed(client);
+        this.messages = new MessageService(client);
+        this.publisher = new Publish(client);
+        this.relations = new Relation(client);
+        this.users = new UserService(client);
+    }
+
+    /**
+     * Get the recommended feed as seen by this user.
+     *
+     * @param {string} latestTime - Optional latest time for pagination
+     */
+    feed(latestTime?: string, requestOptions?: RequestOptions) {
+        return this.videos.listVideos(latestTime, this.userId, requestOptions);
+    }
+
+    /**
+     * Get a single video as seen by this user.
+     *
+     * @param {number} videoId
+     */
+    video(videoId: number, requestOptions?: RequestOptions) {
+        return this.videos.getVideoById(videoId, this.userId, requestOptions);
+    }
+
+    /**
+     * Get a user's profile, defaulting to this user.
+     *
+     * @param {number} userId
+     */
+    profile(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.users.getUser({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Update this user's avatar, background image or signature.
+     */
+    updateProfile(changes: { avatar?: string, backgroundImage?: string, signature?: string }, requestOptions?: RequestOptions) {
+        return this.users.updateProfile({ ...changes, userId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Like a video.
+     */
+    like(videoId: number, requestOptions?: RequestOptions) {
+        return this.favorites.likeVideo({ videoId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Remove a like from a video.
+     */
+    unlike(videoId: number, requestOptions?: RequestOptions) {
+        return this.favorites.unlikeVideo({ videoId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List the videos a user has liked, defaulting to this user.
+     *
+     * @param {number} userId
+     */
+    likes(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.favorites.listFavorites({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Follow a user.
+     */
+    follow(userId: number, requestOptions?: RequestOptions) {
+        return this.relations.follow({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Unfollow a user.
+     */
+    unfollow(userId: number, requestOptions?: RequestOptions) {
+        return this.relations.unfollow({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Check whether this user follows another user.
+     */
+    isFollowing(userId: number, requestOptions?: RequestOptions) {
+        return this.relations.isFollowing({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List the users a user follows, defaulting to this user.
+     */
+    following(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.relations.getFollowList({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List a user's followers, defaulting to this user.
+     */
+    followers(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.relations.getFollowerList({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List a user's mutual friends, defaulting to this user.
+     */
+    friends(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.relations.getFriendList({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Comment on a video.
+     */
+    comment(videoId: number, text: string, requestOptions?: RequestOptions) {
+        return this.comments.addComment({ videoId, commentText: text, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Delete one of this user's comments.
+     */
+    deleteComment(videoId: number, commentId: number, requestOptions?: RequestOptions) {
+        return this.comments.deleteComment({ videoId, commentId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List the comments on a video.
+     */
+    listComments(videoId: number, requestOptions?: RequestOptions) {
+        return this.comments.listComments({ videoId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Send a direct message.
+     */
+    send(toUserId: number, text: string, requestOptions?: RequestOptions) {
+        return this.messages.sendMessage({ toUserId, content: text, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List the chat with another user.
+     *
+     * @param {number} toUserId
+     * @param {number} preMsgTime - Optional previous message time for pagination
+     */
+    chat(toUserId: number, preMsgTime?: number, requestOptions?: RequestOptions) {
+        return this.messages.listMessages({ toUserId, preMsgTime, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Follow the chat with another user as new messages arrive.
+     *
+     * @param {number} toUserId
+     */
+    watch(toUserId: number, options: Omit<MessageWatchOptions, 'actorId' | 'token'> = {}) {
+        return this.messages.watch(toUserId, { ...options, actorId: this.userId, token: this.token });
+    }
+
+    /**
+     * The full chat with another user, kept in a local store.
+     *
+     * @param {number} toUserId
+     */
+    conversation(toUserId: number, options: Omit<ConversationOptions, 'actorId' | 'token'> = {}) {
+        return this.messages.conversation(toUserId, { ...options, actorId: this.userId, token: this.token });
+    }
+
+    /**
+     * Publish a video, using a chunked upload for large files.
+     */
+    publish(data: Buffer | Blob | File, title: string, onProgress?: (progress: UploadProgress) => void, requestOptions?: RequestOptions) {
+        return this.publisher.publishVideo({ data, title, onProgress, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * List the videos a user has published, defaulting to this user.
+     *
+     * @param {number} userId
+     */
+    published(userId: number = this.userId, requestOptions?: RequestOptions) {
+        return this.publisher.listPublishedVideos({ userId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+
+    /**
+     * Delete one of this user's videos.
+     */
+    deleteVideo(videoId: number, requestOptions?: RequestOptions) {
+        return this.publisher.deleteVideo({ videoId, actorId: this.userId, token: this.token }, requestOptions);
+    }
+}
@@ -0,0 +1,268 @@
+type AttributeValue = string | number | boolean;
+
+type Attributes = {
+    [key: string]: AttributeValue | undefined;
+}
+
+/**
+ * The part of an OpenTelemetry `Span` the client uses. Spans of
+ * `@opentelemetry/api` fit it as they are, so the SDK itself does not
+ * depend on OpenTelemetry.
+ */
+interface Span {
+    setAttribute(key: string, value: AttributeValue): unknown;
+    setStatus(status: { code: number, message?: string }): unknown;
+    recordException(exception: any): unknown;
+    spanContext(): { traceId: string, spanId: string, traceFlags: number };
+    end(): void;
+}
+
+interface Tracer {
+    /** `context` is whatever `TelemetryOptions.setSpan` returned for the parent span. */
+    startSpan(name: string, options?: { kind?: number, attributes?: Attributes }, context?: any): Span;
+}
+
+interface Counter {
+    add(value: number, attributes?: Attributes): void;
+}
+
+interface Histogram {
+    record(value: number, attributes?: Attributes): void;
+}
+
+interface Meter {
+    createCounter(name: string, options?: { description?: string, unit?: string }): Counter;
+    createHistogram(name: string, options?: { description?: string, unit?: string }): Histogram;
+}
+
+type TelemetryOptions = {
+    tracer?: Tracer;
+    meter?: Meter;
+    /**
+     * Returns a context in which `span` is the active span. Chunk spans are
+     * started in it so they become children of their upload span. With
+     * OpenTelemetry: `(span) => trace.setSpan(context.active(), span)`.
+     */
+    setSpan?: (span: Span) => unknown;
+    /** Route template of a request URL. Defaults to its path below the endpoint, see `Client.getPath`. */
+    route?: (url: URL) => string;
+    /** Send a W3C `traceparent` header with traced requests. Defaults to true. */
+    propagate?: boolean;
+}
+
+// Values of the OpenTelemetry `SpanKind` and `SpanStatusCode` enums.
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Spans and metrics for the requests of a `Client`, set up with
+ * `Client.setTelemetry`. Every part is optional: without a tracer no span
+ * is started, without a meter nothing is measured.
+ */
+class Telemetry {
+    readonly tracer?: Tracer;
+    private readonly setSpan?: (span: Span) => unknown;
+    private readonly route?: (url: URL) => string;
+    private readonly propagate: boolean;
+    private readonly requests?: Counter;
+    private readonly errors?: Counter;
+    private readonly retries?: Counter;
+    private readonly duration?: Histogram;
+
+    constructor(options: TelemetryOptions) {
+        this.tracer = options.tracer;
+        this.setSpan = options.setSpan;
+        this.route = options.route;
+        this.propagate = options.propagate ?? true;
+
+        if (options.meter) {
+            this.requests = options.meter.createCounter('eve.client.requests', { description: 'Calls sent by the client' });
+            this.errors = options.meter.createCounter('eve.client.errors', { description: 'Calls that failed after all retries' });
+            this.retries = options.meter.createCounter('eve.client.retries', { description: 'Attempts sent again after a failure' });
+            this.duration = options.meter.createHistogram('eve.client.request.duration', { description: 'Duration of calls, retries included', unit: 'ms' });
+        }
+    }
+
+    /**
+     * Start tracing one `Client.call`. `parent` is the span of the upload
+     * the call sends a chunk of.
+     */
+    startCall(method: string, url: URL, path: string, parent?: Span, attributes: Attributes = {}): CallTrace {
+        method = method.toUpperCase();
+        const route = this.route?.(url) ?? path;
+        const span = this.tracer?.startSpan(`${method} ${route}`, {
+            kind: SPAN_KIND_CLIENT,
+            attributes: {
+                ...attributes,
+                'http.request.method': method,
+                'http.route': route,
+                'server.address': url.hostname,
+                'url.path': url.pathname,
+            },
+        }, parent && this.setSpan?.(parent));
+
+        return new CallTrace(this, span, { 'http.request.method': method, 'http.route': route });
+    }
+
+    /**
+     * Start the span a chunked upload groups its chunk calls under.
+     */
+    startUpload(url: URL, path: string, attributes: Attributes): Span | undefined {
+        return this.tracer?.startSpan(`upload ${this.route?.(url) ?? path}`, { kind: SPAN_KIND_INTERNAL, attributes });
+    }
+
+    /**
+     * The W3C `traceparent` header for `span`, if it is recording a valid trace.
+     */
+    headers(span: Span | undefined): { [key: string]: string } {
+        if (!span || !this.propagate) {
+            return {};
+        }
+
+        const { traceId, spanId, traceFlags } = span.spanContext();
+        if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId) || !/^[0-9a-f]{16}$/.test(spanId) || /^0+$/.test(spanId)) {
+            return {};
+        }
+
+        return { traceparent: `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}` };
+    }
+
+    record(attributes: Attributes, duration: number, attempts: number, error?: unknown): void {
+        this.requests?.add(1, attributes);
+        this.duration?.record(duration, attributes);
+        if (attempts > 1) {
+            this.retries?.add(attempts - 1, attributes);
+        }
+        if (error) {
+            this.errors?.add(1, attributes);
+        }
+    }
+
+    /**
+     * Mark `span` as failed with `error`. The span is left open.
+     */
+    static fail(span: Span | undefined, error: any): void {
+        if (!span) {
+            return;
+        }
+
+        span.recordException(error);
+        span.setAttribute('error.type', Telemetry.errorType(error));
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error?.message });
+    }
+
+    static errorType(error: any): string {
+        return typeof error?.name === 'string' && error.name ? error.name : 'Error';
+    }
+
+    /**
+     * Size of a request body in bytes. Multipart bodies count their fields
+     * and files, without the boundaries.
+     */
+    static bodySize(body: any): number {
+        if (body === undefined || body === null) {
+            return 0;
+        }
+        if (typeof body === 'string') {
+            return Buffer.byteLength(body);
+        }
+        if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+            return body.byteLength;
+        }
+        if (body instanceof Blob) {
+            return body.size;
+        }
+        if (typeof body.entries === 'function') {
+            let size = 0;
+            for (const [key, value] of body.entries()) {
+                size += Buffer.byteLength(key) + (typeof value === 'string' ? Buffer.byteLength(value) : value.size);
+            }
+            return size;
+        }
+        return 0;
+    }
+}
+
+/**
+ * The span and measurements of one `Client.call`, across all its attempts.
+ */
+class CallTrace {
+    readonly span?: Span;
+    attempts = 0;
+    private bytesSent = 0;
+    private bytesReceived?: number;
+    private status?: number;
+    private readonly started = Date.now();
+
+    constructor(private readonly telemetry: Telemetry, span: Span | undefined, private readonly attributes: Attributes) {
+        this.span = span;
+    }
+
+    headers(): { [key: string]: string } {
+        return this.telemetry.headers(this.span);
+    }
+
+    /**
+     * Count an attempt and the body it sent.
+     */
+    sent(attempt: number, body: any): void {
+        this.attempts = attempt;
+        this.bytesSent += Telemetry.bodySize(body);
+    }
+
+    received(response: Response): void {
+        this.status = response.status;
+
+        const length = response.headers.get('content-length');
+        this.bytesReceived = length !== null && !Number.isNaN(Number(length)) ? Number(length) : undefined;
+    }
+
+    /**
+     * End the span with the outcome of the call: its result, or the error
+     * it failed with after the last attempt.
+     */
+    end(error?: unknown, data?: any): void {
+        const status = this.status ?? (error as any)?.code;
+        const attributes: Attributes = {
+            ...this.attributes,
+            'http.response.status_code': typeof status === 'number' && status >= 100 ? status : undefined,
+        };
+
+        // A GuGoTik envelope reports failures with a 200 status.
+        const statusCode = typeof data?.status_code === 'number' ? data.status_code : (error as any)?.statusCode;
+        if (!error && typeof statusCode === 'number' && statusCode !== 0) {
+            error = { name: 'GuGoTikException', message: data.status_msg };
+        }
+        if (error) {
+            attributes['error.type'] = Telemetry.errorType(error);
+        }
+
+        this.telemetry.record(attributes, Date.now() - this.started, this.attempts, error);
+
+        if (!this.span) {
+            return;
+        }
+
+        this.span.setAttribute('http.request.resend_count', Math.max(0, this.attempts - 1));
+        this.span.setAttribute('http.request.body.size', this.bytesSent);
+        if (typeof this.bytesReceived === 'number') {
+            this.span.setAttribute('http.response.body.size', this.bytesReceived);
+        }
+        if (typeof attributes['http.response.status_code'] === 'number') {
+            this.span.setAttribute('http.response.status_code', attributes['http.response.status_code']);
+        }
+        if (typeof statusCode === 'number') {
+            this.span.setAttribute('gugotik.status_code', statusCode);
+        }
+
+        if (error) {
+            Telemetry.fail(this.span, error);
+        }
+
+        this.span.end();
+    }
+}
+
+export { Telemetry, CallTrace };
+export type { Attributes, AttributeValue, Span, Tracer, Counter, Histogram, Meter, TelemetryOptions };
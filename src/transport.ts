@@ -0,0 +1,128 @@
+import { fetch } from 'node-fetch-native-with-agent';
+import { createAgent } from 'node-fetch-native-with-agent/agent';
+import { TimeoutError } from './exceptions';
+
+type TransportRequest = {
+    method: string;
+    url: string;
+    headers: { [key: string]: string };
+    body?: any;
+    redirect?: RequestInit['redirect'];
+    signal?: AbortSignal;
+    /** Overrides the transport timeout for this request. */
+    timeout?: number;
+}
+
+type TransportOptions = {
+    /** Accept self-signed TLS certificates. */
+    selfSigned: boolean;
+    /** Milliseconds to wait for the response headers before giving up. */
+    timeout: number;
+}
+
+/**
+ * Sends the requests prepared by `Client`. Errors thrown by `send` are
+ * reported to callers as `NetworkError`, unless they already are an
+ * `AppwriteException`.
+ */
+interface Transport {
+    /** Written by `Client.setSelfSigned` and `Client.setTimeout`. */
+    options?: Partial<TransportOptions>;
+    send(request: TransportRequest): Promise<Response>;
+}
+
+/**
+ * The default transport: `node-fetch-native-with-agent`, with an agent that
+ * honours `selfSigned`.
+ */
+class NodeFetchTransport implements Transport {
+    options: TransportOptions;
+
+    constructor(options: Partial<TransportOptions> = {}) {
+        this.options = { selfSigned: false, timeout: 600000, ...options };
+    }
+
+    send(request: TransportRequest): Promise<Response> {
+        return withTimeout(request.timeout ?? this.options.timeout, request.signal, (signal) => fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            redirect: request.redirect,
+            signal,
+            ...createAgent(request.url, { rejectUnauthorized: !this.options.selfSigned }),
+        }));
+    }
+}
+
+type FetchTransportOptions = Partial<TransportOptions> & {
+    /** Defaults to the global `fetch`. Pass undici's `fetch` to use its dispatchers. */
+    fetch?: (input: string, init: RequestInit) => Promise<Response>;
+    /** Extra options merged into every request, such as undici's `dispatcher`. */
+    init?: RequestInit & { [key: string]: any };
+}
+
+/**
+ * Sends requests with a standard `fetch`, as found in Bun, Deno, Cloudflare
+ * Workers and Node.js 18 and later. The platform `fetch` has no portable way
+ * to accept self-signed certificates, so `selfSigned` is ignored: configure
+ * TLS through `init`, for example with an undici `Agent` as `dispatcher`.
+ */
+class FetchTransport implements Transport {
+    options: TransportOptions;
+    private readonly fetch: (input: string, init: RequestInit) => Promise<Response>;
+    private readonly init: RequestInit;
+
+    constructor(options: FetchTransportOptions = {}) {
+        const { fetch, init, ...transportOptions } = options;
+
+        this.options = { selfSigned: false, timeout: 600000, ...transportOptions };
+        this.fetch = fetch ?? ((input, init) => globalThis.fetch(input, init));
+        this.init = init ?? {};
+    }
+
+    send(request: TransportRequest): Promise<Response> {
+        return withTimeout(request.timeout ?? this.options.timeout, request.signal, (signal) => this.fetch(request.url, {
+            ...this.init,
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            redirect: request.redirect,
+            signal,
+        }));
+    }
+}
+
+/**
+ * Abort `send` when the response headers have not arrived after `timeout`
+ * milliseconds, or when `signal` aborts.
+ */
+async function withTimeout(timeout: number, signal: AbortSignal | undefined, send: (signal: AbortSignal) => Promise<Response>): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+    const forward = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+        forward();
+    }
+    signal?.addEventListener('abort', forward);
+
+    try {
+        return await send(controller.signal);
+    } catch (error) {
+        if (timedOut) {
+            throw new TimeoutError(`Request timeout after ${timeout}ms`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forward);
+    }
+}
+
+export { NodeFetchTransport, FetchTransport, withTimeout };
+export type { Transport, TransportRequest, TransportOptions, FetchTransportOptions };
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { writeAtomic } from './atomic-write';
+import { readRange } from './inputFile';
+
+type UploadState = {
+    /** ID returned by the server for the first chunk. */
+    uploadId: string;
+    /** Header the ID is sent back in, `X-Upload-Id` or `x-appwrite-id`. */
+    idHeader: string;
+    fingerprint: string;
+    size: number;
+    chunkSize: number;
+    /** Number of bytes the server has acknowledged. */
+    offset: number;
+    updatedAt: number;
+}
+
+/**
+ * Where `Client.chunkedUpload` keeps the progress of unfinished uploads so
+ * they can be resumed after a restart.
+ */
+interface UploadStore {
+    get(key: string): Promise<UploadState | undefined> | UploadState | undefined;
+    set(key: string, state: UploadState): Promise<void> | void;
+    delete(key: string): Promise<void> | void;
+}
+
+class MemoryUploadStore implements UploadStore {
+    private states = new Map<string, UploadState>();
+
+    get(key: string): UploadState | undefined {
+        return this.states.get(key);
+    }
+
+    set(key: string, state: UploadState): void {
+        this.states.set(key, state);
+    }
+
+    delete(key: string): void {
+        this.states.delete(key);
+    }
+}
+
+/**
+ * Keeps one JSON file per unfinished upload in `directory`.
+ */
+class FileUploadStore implements UploadStore {
+    directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async get(key: string): Promise<UploadState | undefined> {
+        try {
+            return JSON.parse(await readFile(this.path(key), 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, state: UploadState): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeAtomic(this.path(key), JSON.stringify(state));
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.path(key), { force: true });
+    }
+
+    private path(key: string): string {
+        return join(this.directory, key + '.json');
+    }
+}
+
+const SAMPLE_SIZE = 1024 * 1024;
+
+/**
+ * Identify a file by its size and samples taken from its start, middle and
+ * end, so large files are recognised without being read in full.
+ */
+async function fingerprint(file: Blob): Promise<string> {
+    const hash = createHash('sha256');
+    hash.update(String(file.size));
+
+    const middle = Math.max(0, Math.floor(file.size / 2) - SAMPLE_SIZE / 2);
+    for (const start of [0, middle, Math.max(0, file.size - SAMPLE_SIZE)]) {
+        hash.update(new Uint8Array(await (await readRange(file, start, start + SAMPLE_SIZE)).arrayBuffer()));
+    }
+
+    return hash.digest('hex');
+}
+
+function uploadKey(method: string, url: URL, fingerprint: string): string {
+    return createHash('sha256')
+        .update(`${method.toUpperCase()} ${url.origin}${url.pathname} ${fingerprint}`)
+        .digest('hex');
+}
+
+export { MemoryUploadStore, FileUploadStore, fingerprint, uploadKey };
+export type { UploadState, UploadStore };
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client, Auth, Feed, FileCacheStore } from '../dist/index.mjs';
+import { GuGoTikMockServer } from '../dist/mock-server.mjs';
+
+async function setup(t) {
+    const server = new GuGoTikMockServer();
+    const client = new Client().setEndpoint(await server.listen());
+    const { user_id } = await new Auth(client).register('alice', 'password');
+    const videoId = server.addVideo(user_id, 'clip');
+
+    let requests = 0;
+    client.use(async (request, next) => {
+        requests++;
+        return next();
+    });
+
+    t.after(() => server.close());
+    return { client, videoId, requests: () => requests };
+}
+
+test('answers a repeated GET from the cache', async (t) => {
+    const { client, videoId, requests } = await setup(t);
+    client.setCache({ ttl: 60000 });
+
+    const feed = new Feed(client);
+    const first = await feed.getVideoById(videoId);
+    const second = await feed.getVideoById(videoId);
+
+    assert.deepEqual(second, first);
+    assert.equal(requests(), 1);
+});
+
+test('concurrent writes to a FileCacheStore all succeed', async (t) => {
+    const { client, videoId } = await setup(t);
+    const directory = await mkdtemp(join(tmpdir(), 'eve-cache-'));
+    t.after(() => rm(directory, { recursive: true, force: true }));
+    client.setCache({ ttl: 60000, store: new FileCacheStore(directory) });
+
+    const feed = new Feed(client);
+    const responses = await Promise.all(Array.from({ length: 8 }, () => feed.getVideoById(videoId)));
+    assert.ok(responses.every((response) => response.status_code === 0));
+});
+
+test('a store that cannot be written to only costs a miss', async (t) => {
+    const { client, videoId, requests } = await setup(t);
+    client.setCache({
+        ttl: 60000,
+        store: {
+            get: async () => { throw new Error('EIO'); },
+            set: async () => { throw new Error('ENOSPC'); },
+            delete: async () => undefined,
+            keys: async () => [],
+        },
+    });
+
+    const feed = new Feed(client);
+    assert.equal((await feed.getVideoById(videoId)).status_code, 0);
+    assert.equal((await feed.getVideoById(videoId)).status_code, 0);
+    assert.equal(requests(), 2);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client, Auth, Cassette, NetworkError } from '../dist/index.mjs';
+import { GuGoTikMockServer } from '../dist/mock-server.mjs';
+
+test('a request that failed while recording is left out of the cassette', async (t) => {
+    const directory = await mkdtemp(join(tmpdir(), 'eve-cassette-'));
+    t.after(() => rm(directory, { recursive: true, force: true }));
+    const path = join(directory, 'flow.json');
+
+    const server = new GuGoTikMockServer();
+    const endpoint = await server.listen();
+    t.after(() => server.close());
+
+    const recording = new Cassette({ path, mode: 'record' });
+    await new Auth(new Client().setEndpoint(endpoint).setTransport(recording)).register('alice', 'password');
+    await assert.rejects(
+        new Auth(new Client().setEndpoint('http://127.0.0.1:1').setRetry({ maxAttempts: 1 }).setTransport(recording)).login('alice', 'password'),
+        NetworkError,
+    );
+    await recording.save();
+
+    const entries = JSON.parse(await readFile(path, 'utf8'));
+    assert.deepEqual(entries.map((entry) => entry.response.status), [200]);
+
+    const replay = new Cassette({ path });
+    const response = await new Auth(new Client().setEndpoint(endpoint).setTransport(replay)).register('alice', 'password');
+    assert.equal(response.status_code, 0);
+    assert.equal(replay.unused().length, 0);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client, Auth, UserService, MemoryTokenStore } from '../dist/index.mjs';
+import { GuGoTikMockServer } from '../dist/mock-server.mjs';
+
+async function setup(t) {
+    const server = new GuGoTikMockServer();
+    const client = new Client().setEndpoint(await server.listen());
+    t.after(() => server.close());
+    return { server, client };
+}
+
+test('logs in again once for concurrent requests with an expired token', async (t) => {
+    const { server, client } = await setup(t);
+    const store = new MemoryTokenStore();
+    client.setCredentials({ username: 'alice', password: 'password', store });
+
+    const { user_id, token } = await new Auth(client).register('alice', 'password');
+
+    let logins = 0;
+    client.use(async (request, next) => {
+        if (request.url.includes('/user/login/')) {
+            logins++;
+        }
+        return next();
+    });
+
+    let writes = 0;
+    const set = store.set.bind(store);
+    store.set = (tokens) => {
+        writes++;
+        return set(tokens);
+    };
+
+    server.expireToken(user_id);
+    const users = new UserService(client);
+    const responses = await Promise.all([1, 2, 3].map(() => users.getUser(user_id)));
+
+    assert.deepEqual(responses.map((response) => response.status_code), [0, 0, 0]);
+    assert.equal(logins, 1);
+    assert.equal(writes, 1);
+    assert.notEqual(client.config.token, token);
+    assert.equal(store.get().token, client.config.token);
+});
+
+test('uses a refresh callback in place of logging in', async (t) => {
+    const { server, client } = await setup(t);
+    const { user_id } = await new Auth(client).register('alice', 'password');
+
+    let refreshed = 0;
+    client.setCredentials({
+        refresh: async (expired) => {
+            refreshed++;
+            const response = await new Client().setEndpoint(client.config.endpoint).call('post', new URL(client.config.endpoint + '/douyin/user/login/'), {
+                'content-type': 'application/x-www-form-urlencoded',
+            }, { username: 'alice', password: 'password' });
+            return { token: response.token, userId: expired.userId };
+        },
+    });
+    server.expireToken(user_id);
+
+    assert.equal((await new UserService(client).getUser(user_id)).status_code, 0);
+    assert.equal(refreshed, 1);
+});
+
+test('reports a failed refresh', async (t) => {
+    const { server, client } = await setup(t);
+    const { user_id } = await new Auth(client).register('alice', 'password');
+    client.setCredentials({ username: 'alice', password: 'wrong' });
+
+    let failures = 0;
+    client.credentials.on('refreshFailed', () => failures++);
+    server.expireToken(user_id);
+
+    await assert.rejects(new UserService(client).getUser(user_id));
+    assert.equal(failures, 1);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { Client, Auth, Outbox, MemoryOutboxStore, MessageService, NetworkError } from '../dist/index.mjs';
+import { GuGoTikMockServer } from '../dist/mock-server.mjs';
+
+async function setup(t) {
+    const server = new GuGoTikMockServer();
+    const client = new Client().setEndpoint(await server.listen()).setRetry({ maxAttempts: 1 });
+    const bob = await new Auth(client).register('bob', 'password');
+    const alice = await new Auth(client).register('alice', 'password');
+
+    t.after(() => server.close());
+    return { client, alice, bob };
+}
+
+async function chat(client, toUserId) {
+    return (await new MessageService(client).listMessages({ toUserId })).message_list.map((message) => message.content);
+}
+
+test('sends queued messages in order once the network is back', async (t) => {
+    const { client, bob } = await setup(t);
+
+    let offline = true;
+    client.use(async (request, next) => {
+        if (offline && request.url.includes('/message/action/')) {
+            throw new NetworkError('offline');
+        }
+        return next();
+    });
+
+    const outbox = new Outbox(client, { baseDelay: 10, maxDelay: 10 });
+    t.after(() => outbox.close());
+
+    await outbox.sendMessage({ toUserId: bob.user_id, content: 'one' });
+    await outbox.sendMessage({ toUserId: bob.user_id, content: 'two' });
+    await outbox.flush();
+    assert.equal(outbox.pending().length, 2);
+
+    offline = false;
+    await outbox.flush(true);
+
+    assert.equal(outbox.pending().length, 0);
+    assert.deepEqual(await chat(client, bob.user_id), ['one', 'two']);
+});
+
+test('a retried item whose response was lost is applied once', async (t) => {
+    const { client, bob } = await setup(t);
+
+    let lose = 1;
+    client.use(async (request, next) => {
+        const response = await next();
+        if (lose > 0 && request.url.includes('/message/action/')) {
+            lose--;
+            throw new NetworkError('response lost');
+        }
+        return response;
+    });
+
+    const outbox = new Outbox(client, { baseDelay: 1, maxDelay: 1 });
+    t.after(() => outbox.close());
+
+    const sent = once(outbox, 'sent');
+    await outbox.sendMessage({ toUserId: bob.user_id, content: 'hello' });
+    await sent;
+
+    assert.deepEqual(await chat(client, bob.user_id), ['hello']);
+});
+
+test('keeps items the server rejects as failed', async (t) => {
+    const { client } = await setup(t);
+    const outbox = new Outbox(client);
+
+    await outbox.addComment({ videoId: 99999, commentText: 'nice' });
+    await outbox.flush();
+
+    assert.equal(outbox.failed().length, 1);
+    assert.equal(outbox.pending().length, 0);
+});
+
+test('sends an item with its own token after a restart', async (t) => {
+    const { client, alice, bob } = await setup(t);
+    const store = new MemoryOutboxStore();
+
+    let offline = true;
+    client.use(async (request, next) => {
+        if (offline) {
+            throw new NetworkError('offline');
+        }
+        return next();
+    });
+
+    const first = new Outbox(client, { store });
+    await first.sendMessage({ toUserId: alice.user_id, content: 'from bob', actorId: bob.user_id, token: bob.token });
+    await first.flush();
+    first.close();
+
+    offline = false;
+    const second = new Outbox(client, { store });
+    t.after(() => second.close());
+    await second.load();
+    await second.flush(true);
+
+    const messages = (await bob.session.chat(alice.user_id)).message_list;
+    assert.deepEqual(messages.map((message) => [message.from_user_id, message.content]), [[bob.user_id, 'from bob']]);
+});
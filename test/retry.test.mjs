@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client, Auth, Feed, UserService, ServerError } from '../dist/index.mjs';
+import { GuGoTikMockServer } from '../dist/mock-server.mjs';
+
+async function setup(t) {
+    const server = new GuGoTikMockServer();
+    const client = new Client().setEndpoint(await server.listen()).setRetry({ baseDelay: 1, maxDelay: 5 });
+    t.after(() => server.close());
+    return { server, client };
+}
+
+test('retries a GET that failed with a 503', async (t) => {
+    const { client } = await setup(t);
+    const { user_id } = await new Auth(client).register('alice', 'password');
+
+    let requests = 0;
+    client.use(async (request, next) => ++requests === 1 ? new Response('busy', { status: 503 }) : next());
+
+    const response = await new UserService(client).getUser(user_id);
+    assert.equal(response.status_code, 0);
+    assert.equal(requests, 2);
+});
+
+test('gives up after maxAttempts', async (t) => {
+    const { client } = await setup(t);
+
+    let requests = 0;
+    client.setRetry({ maxAttempts: 3 }).use(async () => {
+        requests++;
+        return new Response('busy', { status: 503 });
+    });
+
+    await assert.rejects(new Feed(client).listVideos(), ServerError);
+    assert.equal(requests, 3);
+});
+
+test('caps a Retry-After wait at maxDelay', () => {
+    const retry = { ...new Client().config.retry, maxDelay: 1000 };
+    assert.equal(Client.getRetryDelay(retry, 1, 86400000), 1000);
+    assert.equal(Client.getRetryDelay(retry, 1, 200), 200);
+});
+
+test('does not retry a POST unless it is idempotent', async (t) => {
+    const { client } = await setup(t);
+
+    let requests = 0;
+    client.use(async () => {
+        requests++;
+        return new Response('busy', { status: 503 });
+    });
+
+    await assert.rejects(new Auth(client).register('bob', 'password'), ServerError);
+    assert.equal(requests, 1);
+});